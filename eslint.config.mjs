@@ -0,0 +1,22 @@
+import { dirname } from 'path'
+import { fileURLToPath } from 'url'
+import { FlatCompat } from '@eslint/eslintrc'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+const compat = new FlatCompat({ baseDirectory: __dirname })
+
+const config = [
+  ...compat.extends('next/core-web-vitals', 'next/typescript'),
+  {
+    rules: {
+      // const { token: _token, ...rest } = card
+      '@typescript-eslint/no-unused-vars': ['warn', { ignoreRestSiblings: true }]
+    }
+  },
+  {
+    ignores: ['.next/**', 'node_modules/**', 'next-env.d.ts']
+  }
+]
+
+export default config
@@ -0,0 +1,42 @@
+/**
+ * Import a bank statement from the command line
+ *
+ * Usage:
+ *   npm run import-statement -- <file> [--dry-run] [--format=camt053|csv]
+ *
+ * Needs a persistent payment store (TATRAPAY_STORE=file or your own
+ * adapter), like the reconcile script. Exits with code 1 if any credit
+ * could not be matched, so a scheduler can alert on it.
+ */
+
+import { readFile } from 'fs/promises'
+import { BankStatementFormat, importBankStatement } from '../src/lib/bank-statement'
+
+const FORMATS: BankStatementFormat[] = ['camt053', 'csv']
+
+async function main() {
+  const args = process.argv.slice(2)
+  const file = args.find(a => !a.startsWith('--'))
+  if (!file) {
+    throw new Error('Usage: import-statement <file> [--dry-run] [--format=camt053|csv]')
+  }
+
+  const formatArg = args.find(a => a.startsWith('--format='))?.slice('--format='.length)
+  const format = FORMATS.find(f => f === formatArg)
+  if (formatArg && !format) {
+    throw new Error(`--format must be one of ${FORMATS.join(', ')}`)
+  }
+
+  const report = await importBankStatement(await readFile(file, 'utf8'), {
+    format,
+    dryRun: args.includes('--dry-run')
+  })
+
+  console.log(JSON.stringify(report, null, 2))
+  process.exitCode = report.unmatched.length > 0 ? 1 : 0
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})
@@ -0,0 +1,41 @@
+/**
+ * Reconcile pending payments from the command line
+ *
+ * Usage:
+ *   npm run reconcile -- [--dry-run] [--concurrency=5] [--card-validity=60]
+ *
+ * Needs a persistent payment store (TATRAPAY_STORE=file or your own
+ * adapter) - the in-memory store of a fresh process is always empty.
+ * Exits with code 1 if any payment could not be reconciled.
+ */
+
+import { reconcilePendingPayments } from '../src/lib/reconciliation'
+
+function readNumberFlag(args: string[], name: string): number | undefined {
+  const arg = args.find(a => a.startsWith(`--${name}=`))
+  if (!arg) return undefined
+
+  const value = Number(arg.slice(name.length + 3))
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`--${name} must be a positive integer`)
+  }
+  return value
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+
+  const report = await reconcilePendingPayments({
+    dryRun: args.includes('--dry-run'),
+    concurrency: readNumberFlag(args, 'concurrency'),
+    cardValidityMinutes: readNumberFlag(args, 'card-validity')
+  })
+
+  console.log(JSON.stringify(report, null, 2))
+  process.exitCode = report.errors.length > 0 ? 1 : 0
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTatraPayClient } from '@/lib/tatrapay'
+import { getSavedCardStore } from '@/lib/card-store'
+import { getPaymentStore } from '@/lib/payment-store'
+import { applyPaymentStatus } from '@/lib/payment-state'
+import { findPaidPayment } from '@/lib/order-resolver'
+import { isAuthorizedAdminRequest } from '@/lib/api-auth'
+import { toClientError, ValidationError } from '@/lib/tatrapay-errors'
+import { validateSavedCardChargeRequest } from '@/lib/validation'
+import { DEFAULT_LANGUAGE } from '@/lib/i18n'
+import { getLogger } from '@/lib/logger'
+
+/**
+ * POST /api/cards/[customerId]/[cardId]/charge
+ *
+ * Charges a saved card without redirecting the customer. Merchant only.
+ * If the issuer requires 3-D Secure, returns a redirect URL instead -
+ * send the customer there and the callback finishes the payment.
+ *
+ * Headers:
+ * - Authorization: Bearer <TATRAPAY_ADMIN_API_KEY>
+ *
+ * Request body:
+ * {
+ *   orderId: string,
+ *   amount: number,               // Amount in cents
+ *   currency: 'EUR' | 'CZK',
+ *   customerIpAddress: string,    // Customer's IP (REQUIRED by TatraPay)
+ *   description?: string,
+ *   language?: 'sk' | 'cs' | 'en'  // Default: 'sk'
+ * }
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   paymentId: string,
+ *   status: string,
+ *   requiresRedirect: boolean,
+ *   redirectUrl?: string          // Only when 3-D Secure is required
+ * }
+ *
+ * Invalid bodies get a 400 with field errors (see validation.ts), orders
+ * that already have a completed or authorized payment a 409.
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ customerId: string; cardId: string }> }
+) {
+  try {
+    if (!isAuthorizedAdminRequest(request.headers)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { customerId, cardId } = await params
+    const validation = validateSavedCardChargeRequest(await request.json().catch(() => null))
+    if (!validation.valid) {
+      throw new ValidationError('Invalid saved card charge request', { fields: validation.errors })
+    }
+    const body = validation.value
+    const language = body.language ?? DEFAULT_LANGUAGE
+
+    const card = await getSavedCardStore().find(customerId, cardId)
+
+    if (!card) {
+      return NextResponse.json(
+        { success: false, error: 'Card not found' },
+        { status: 404 }
+      )
+    }
+
+    // A second charge would take the money twice
+    if (await findPaidPayment(body.orderId)) {
+      return NextResponse.json(
+        { success: false, error: 'Order is already paid' },
+        { status: 409 }
+      )
+    }
+
+    // Callback URL for the 3-D Secure fallback
+    const host = request.headers.get('host') || 'localhost:3000'
+    const protocol = request.headers.get('x-forwarded-proto') || 'https'
+    const baseUrl = `${protocol}://${host}`
+
+    const client = getTatraPayClient({ orderId: body.orderId, currency: body.currency })
+    const charge = await client.chargeSavedCard(
+      card.token,
+      { amount: body.amount, currency: body.currency },
+      body.orderId,
+      {
+        returnUrl: `${baseUrl}/api/payment/callback?orderId=${encodeURIComponent(body.orderId)}`,
+        notificationUrl: `${baseUrl}/api/payment/webhook`,
+        customerIpAddress: body.customerIpAddress,
+        description: body.description || `Order ${body.orderId}`,
+        language
+      }
+    )
+
+    // Store as received, then apply the charge result so hooks fire
+    await getPaymentStore().save({
+      orderId: body.orderId,
+      paymentId: charge.paymentId,
+      paymentMethod: 'CARD_PAY',
+      amount: {
+        amount: body.amount,
+        currency: body.currency
+      },
+      status: 'RCVD',
+      language,
+      expiresAt: charge.expiresAt
+    })
+
+    const transition = charge.status !== 'RCVD'
+      ? await applyPaymentStatus(charge.paymentId, {
+          status: charge.status,
+          source: 'merchant',
+          transactionId: charge.transactionId
+        })
+      : null
+
+    getLogger().info('Saved card charged', {
+      orderId: body.orderId,
+      paymentId: charge.paymentId,
+      requiresRedirect: charge.requiresRedirect
+    })
+
+    return NextResponse.json({
+      success: true,
+      paymentId: charge.paymentId,
+      status: transition?.payment.status ?? charge.status,
+      requiresRedirect: charge.requiresRedirect,
+      redirectUrl: charge.redirectUrl
+    })
+
+  } catch (error) {
+    getLogger().error('Saved card charge error', { error })
+    const clientError = toClientError(error)
+    return NextResponse.json(clientError.body, { status: clientError.status })
+  }
+}
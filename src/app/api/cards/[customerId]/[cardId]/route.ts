@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSavedCardStore } from '@/lib/card-store'
+import { isAuthorizedAdminRequest } from '@/lib/api-auth'
+import { toClientError } from '@/lib/tatrapay-errors'
+import { getLogger } from '@/lib/logger'
+
+/**
+ * DELETE /api/cards/[customerId]/[cardId]
+ *
+ * Removes a saved card so it can no longer be charged. Merchant only.
+ *
+ * Headers:
+ * - Authorization: Bearer <TATRAPAY_ADMIN_API_KEY>
+ *
+ * Response:
+ * {
+ *   success: true
+ * }
+ */
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ customerId: string; cardId: string }> }
+) {
+  try {
+    if (!isAuthorizedAdminRequest(request.headers)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { customerId, cardId } = await params
+    const deleted = await getSavedCardStore().delete(customerId, cardId)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Card not found' },
+        { status: 404 }
+      )
+    }
+
+    getLogger().info('Saved card deleted', { customerId, cardId })
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    getLogger().error('Saved card deletion error', { error })
+    const clientError = toClientError(error)
+    return NextResponse.json(clientError.body, { status: clientError.status })
+  }
+}
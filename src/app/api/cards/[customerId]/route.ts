@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSavedCardStore, toPublicSavedCard } from '@/lib/card-store'
+import { isAuthorizedAdminRequest } from '@/lib/api-auth'
+import { toClientError } from '@/lib/tatrapay-errors'
+import { getLogger } from '@/lib/logger'
+
+/**
+ * GET /api/cards/[customerId]
+ *
+ * Lists a customer's saved cards. Merchant only - call it from your
+ * backend for the logged-in customer, never with a customer ID taken
+ * from the browser.
+ *
+ * Headers:
+ * - Authorization: Bearer <TATRAPAY_ADMIN_API_KEY>
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   cards: Array<{
+ *     id: string,
+ *     customerId: string,
+ *     maskedNumber?: string,
+ *     expiry?: string,
+ *     createdAt: string
+ *   }>
+ * }
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ customerId: string }> }
+) {
+  try {
+    if (!isAuthorizedAdminRequest(request.headers)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { customerId } = await params
+    const cards = await getSavedCardStore().list(customerId)
+
+    // Tokens stay on the server
+    return NextResponse.json({
+      success: true,
+      cards: cards.map(toPublicSavedCard)
+    })
+
+  } catch (error) {
+    getLogger().error('Saved cards error', { error })
+    const clientError = toClientError(error)
+    return NextResponse.json(clientError.body, { status: clientError.status })
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCustomerIpAddress } from '@/lib/client-ip'
+import { isPaymentLinkId, startPaymentLinkPayment, toPublicPaymentLink } from '@/lib/payment-links'
+import { renderQrCodeSvg } from '@/lib/paybysquare'
+import { formatMoney } from '@/lib/money'
+import { createOrderAccessToken } from '@/lib/api-auth'
+import { toClientError } from '@/lib/tatrapay-errors'
+import { getLogger } from '@/lib/logger'
+import { resolveLanguage, translate } from '@/lib/i18n'
+
+/**
+ * POST /api/payment-links/[linkId]/pay
+ *
+ * Called by the /pay/[linkId] page when the customer opens a payment link.
+ * Creates the TatraPay payment for an active link. The link ID is the only
+ * credential - anyone with the link may pay it.
+ *
+ * Request body:
+ * {
+ *   language?: 'sk' | 'cs' | 'en'  // Default: Accept-Language, then 'sk'
+ * }
+ *
+ * Response (paid or expired link - nothing is created):
+ * {
+ *   success: true,
+ *   language: 'sk' | 'cs' | 'en', // Language used for the link and the payment
+ *   link: { id, state: 'paid' | 'expired', description, amount, formattedAmount, expiresAt }
+ * }
+ *
+ * Response (active link):
+ * {
+ *   success: true,
+ *   link: { id, state: 'active', ... },
+ *   orderId: string,
+ *   paymentId: string,
+ *   statusToken: string,          // For GET /api/payment/status/[orderId]
+ *   redirectUrl?: string,         // Card / gateway mode - send the customer here
+ *   bankTransfer?: { iban, bic, variableSymbol, amount, formattedAmount, dueDate },
+ *   qrCode?: { data: string, svg: string }
+ * }
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ linkId: string }> }
+) {
+  const body: { language?: unknown } = await request.json().catch(() => ({}))
+  const language = resolveLanguage(body.language, request.headers.get('accept-language'))
+
+  try {
+    const { linkId } = await params
+
+    // Customer's IP for 3-D Secure risk checks (required by TatraPay) - from
+    // the trusted proxy, not the X-Forwarded-For entries the client sets
+    const customerIpAddress = getCustomerIpAddress(request.headers)
+
+    const host = request.headers.get('host') || 'localhost:3000'
+    const protocol = request.headers.get('x-forwarded-proto') || 'https'
+
+    // IDs of another shape are never looked up
+    const result = isPaymentLinkId(linkId)
+      ? await startPaymentLinkPayment(linkId, { baseUrl: `${protocol}://${host}`, customerIpAddress, language })
+      : { outcome: 'not_found' as const }
+
+    if (result.outcome === 'not_found') {
+      return NextResponse.json(
+        { success: false, error: translate('error.paymentLinkNotFound', language) },
+        { status: 404 }
+      )
+    }
+
+    if (result.outcome === 'closed') {
+      return NextResponse.json({
+        success: true,
+        language,
+        link: toPublicPaymentLink(result.link, result.state, language)
+      })
+    }
+
+    const bankTransfer = result.bankTransferInfo ? {
+      ...result.bankTransferInfo,
+      formattedAmount: formatMoney(result.bankTransferInfo.amount, language)
+    } : undefined
+
+    const qrCode = result.qrCodeData ? {
+      data: result.qrCodeData,
+      svg: await renderQrCodeSvg(result.qrCodeData)
+    } : undefined
+
+    return NextResponse.json({
+      success: true,
+      language,
+      link: toPublicPaymentLink(result.link, 'active', language),
+      orderId: result.orderId,
+      paymentId: result.paymentId,
+      statusToken: createOrderAccessToken(result.orderId),
+      redirectUrl: result.redirectUrl,
+      bankTransfer,
+      qrCode
+    })
+
+  } catch (error) {
+    getLogger().error('Payment link payment error', { error })
+    const clientError = toClientError(error, language)
+    return NextResponse.json(clientError.body, { status: clientError.status })
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthorizedAdminRequest } from '@/lib/api-auth'
+import { getPaymentLinkState, getPaymentLinkStore, isPaymentLinkId } from '@/lib/payment-links'
+import { getLogger } from '@/lib/logger'
+
+/**
+ * GET /api/payment-links/[linkId]
+ *
+ * Payment link with its state and the payments started from it.
+ * Merchant only.
+ *
+ * Headers:
+ * - Authorization: Bearer <TATRAPAY_ADMIN_API_KEY>
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   state: 'active' | 'paid' | 'expired',
+ *   link: { id, orderId, amount, description, singleUse, expiresAt, paidAt?, ... },
+ *   payments: Array<{
+ *     orderId: string,
+ *     paymentId: string,
+ *     paymentMethod?: string,
+ *     status: string,             // TatraPay status, e.g. 'ACSC'
+ *     createdAt: string
+ *   }>
+ * }
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ linkId: string }> }
+) {
+  try {
+    if (!isAuthorizedAdminRequest(request.headers)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { linkId } = await params
+    const found = isPaymentLinkId(linkId) ? await getPaymentLinkStore().find(linkId) : null
+
+    if (!found) {
+      return NextResponse.json(
+        { success: false, error: 'Payment link not found' },
+        { status: 404 }
+      )
+    }
+
+    const { state, link, payments } = await getPaymentLinkState(found)
+
+    return NextResponse.json({
+      success: true,
+      state,
+      link,
+      payments: payments.map(payment => ({
+        orderId: payment.orderId,
+        paymentId: payment.paymentId,
+        paymentMethod: payment.paymentMethod,
+        status: payment.status,
+        createdAt: payment.createdAt
+      }))
+    })
+
+  } catch (error) {
+    getLogger().error('Payment link lookup error', { error })
+    return NextResponse.json(
+      { success: false, error: 'Failed to load payment link' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthorizedAdminRequest } from '@/lib/api-auth'
+import { createMoney } from '@/lib/money'
+import { getPaymentLinkStore } from '@/lib/payment-links'
+import { validateCreatePaymentLinkRequest } from '@/lib/validation'
+import { toClientError, ValidationError } from '@/lib/tatrapay-errors'
+import { getLogger } from '@/lib/logger'
+
+/**
+ * POST /api/payment-links
+ *
+ * Creates a shareable payment link, e.g. for an invoice or a phone order.
+ * Send the returned URL to the customer - the payment is created when they
+ * open it. Merchant only.
+ *
+ * Headers:
+ * - Authorization: Bearer <TATRAPAY_ADMIN_API_KEY>
+ *
+ * Request body:
+ * {
+ *   amount: number,               // Amount in cents (7900 = 79.00 EUR)
+ *   currency: 'EUR' | 'CZK',
+ *   description: string,          // Shown to the customer, e.g. 'Invoice 2025-0042'
+ *   orderId?: string,             // Your order / invoice number (default: PL-<linkId>)
+ *   expiresAt?: string,           // ISO 8601 (default: in 7 days)
+ *   allowedMethods?: string[],    // CARD_PAY, BANK_TRANSFER, QR_PAY (default: all)
+ *   singleUse?: boolean,          // Default true - false keeps accepting payments until expiry
+ *   customer?: {                  // Prefills the TatraPay+ page
+ *     email: string,
+ *     firstName: string,
+ *     lastName: string,
+ *     phone?: string
+ *   }
+ * }
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   url: string,                  // e.g. https://shop.sk/pay/h7Kq2mXbRt
+ *   link: { id, orderId, amount, description, allowedMethods?, singleUse, expiresAt, createdAt, ... }
+ * }
+ */
+
+// Invoices are usually due within two weeks, phone orders within days
+const DEFAULT_LINK_VALIDITY_DAYS = 7
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorizedAdminRequest(request.headers)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const validation = validateCreatePaymentLinkRequest(await request.json().catch(() => null))
+    if (!validation.valid) {
+      throw new ValidationError('Invalid create payment link request', { fields: validation.errors })
+    }
+    const body = validation.value
+
+    const link = await getPaymentLinkStore().create({
+      orderId: body.orderId,
+      amount: createMoney(body.amount, body.currency),
+      description: body.description,
+      allowedMethods: body.allowedMethods,
+      customer: body.customer,
+      singleUse: body.singleUse,
+      expiresAt: body.expiresAt
+        ? new Date(body.expiresAt).toISOString()
+        : new Date(Date.now() + DEFAULT_LINK_VALIDITY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    })
+
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL
+      || `${request.headers.get('x-forwarded-proto') || 'https'}://${request.headers.get('host') || 'localhost:3000'}`
+
+    getLogger().info('Payment link created', { linkId: link.id, orderId: link.orderId, amount: link.amount })
+
+    return NextResponse.json({
+      success: true,
+      url: `${baseUrl}/pay/${link.id}`,
+      link
+    })
+
+  } catch (error) {
+    getLogger().error('Payment link creation error', { error })
+    const clientError = toClientError(error, 'en')
+    return NextResponse.json(clientError.body, { status: clientError.status })
+  }
+}
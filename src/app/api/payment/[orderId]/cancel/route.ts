@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTatraPayClient } from '@/lib/tatrapay'
+import { getPaymentStore } from '@/lib/payment-store'
+import { applyPaymentStatus } from '@/lib/payment-state'
+import { isAuthorizedAdminRequest } from '@/lib/api-auth'
+import { toClientError } from '@/lib/tatrapay-errors'
+import { getLogger } from '@/lib/logger'
+
+/**
+ * POST /api/payment/[orderId]/cancel
+ *
+ * Cancels an unpaid payment (RCVD, PDNG). Merchant only.
+ *
+ * Headers:
+ * - Authorization: Bearer <TATRAPAY_ADMIN_API_KEY>
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   paymentId: string,
+ *   status: 'CANC',
+ *   cancelledAt: string
+ * }
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    if (!isAuthorizedAdminRequest(request.headers)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { orderId } = await params
+    const storedPayment = await getPaymentStore().findByOrderId(orderId)
+
+    if (!storedPayment) {
+      return NextResponse.json(
+        { success: false, error: 'Payment not found' },
+        { status: 404 }
+      )
+    }
+
+    const client = getTatraPayClient({
+      orderId: storedPayment.orderId,
+      currency: storedPayment.amount.currency
+    })
+    const result = await client.cancelPayment(storedPayment.paymentId)
+
+    // Record cancellation - fires onFailed hook
+    await applyPaymentStatus(storedPayment.paymentId, {
+      status: result.status,
+      source: 'merchant'
+    })
+
+    getLogger().info('Payment cancelled', { orderId, paymentId: result.paymentId })
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    getLogger().error('Payment cancellation error', { error })
+    const clientError = toClientError(error)
+    return NextResponse.json(clientError.body, { status: clientError.status })
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTatraPayClient } from '@/lib/tatrapay'
+import { getPaymentStore } from '@/lib/payment-store'
+import { applyPaymentStatus } from '@/lib/payment-state'
+import { isAuthorizedAdminRequest } from '@/lib/api-auth'
+import { toClientError } from '@/lib/tatrapay-errors'
+import { getLogger } from '@/lib/logger'
+
+/**
+ * POST /api/payment/[orderId]/capture
+ *
+ * Charges a pre-authorized card payment, e.g. when the order is dispatched.
+ * Merchant only.
+ *
+ * Headers:
+ * - Authorization: Bearer <TATRAPAY_ADMIN_API_KEY>
+ *
+ * Request body:
+ * {
+ *   amount?: number    // Amount in cents of the order currency (default: full order amount)
+ * }
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   paymentId: string,
+ *   preAuthorization: 'CAPTURED',
+ *   capturedAmount: { amount: number, currency: string },
+ *   processedAt: string
+ * }
+ */
+
+interface CaptureRequestBody {
+  amount?: number
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    if (!isAuthorizedAdminRequest(request.headers)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { orderId } = await params
+    const body: CaptureRequestBody = await request.json().catch(() => ({}))
+    const storedPayment = await getPaymentStore().findByOrderId(orderId)
+
+    if (!storedPayment) {
+      return NextResponse.json(
+        { success: false, error: 'Payment not found' },
+        { status: 404 }
+      )
+    }
+
+    const client = getTatraPayClient({
+      orderId: storedPayment.orderId,
+      currency: storedPayment.amount.currency
+    })
+    const result = await client.capturePayment(
+      storedPayment.paymentId,
+      body.amount !== undefined
+        ? { amount: body.amount, currency: storedPayment.amount.currency }
+        : storedPayment.amount
+    )
+
+    // Refresh status - fires onCompleted hook once captured
+    const paymentStatus = await client.getPaymentStatus(storedPayment.paymentId)
+    await applyPaymentStatus(storedPayment.paymentId, {
+      status: paymentStatus.status,
+      source: 'merchant',
+      transactionId: paymentStatus.transactionId,
+      preAuthorization: paymentStatus.preAuthorization ?? result.preAuthorization
+    })
+
+    getLogger().info('Payment captured', {
+      orderId,
+      paymentId: result.paymentId,
+      amount: result.capturedAmount
+    })
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    getLogger().error('Payment capture error', { error })
+    const clientError = toClientError(error)
+    return NextResponse.json(clientError.body, { status: clientError.status })
+  }
+}
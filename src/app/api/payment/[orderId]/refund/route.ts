@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTatraPayClient, TatraPayRefundResponse } from '@/lib/tatrapay'
+import { getPaymentStore, PaymentStore } from '@/lib/payment-store'
+import { isAuthorizedAdminRequest } from '@/lib/api-auth'
+import { ConflictError, ServerError, toClientError, ValidationError } from '@/lib/tatrapay-errors'
+import { getLogger } from '@/lib/logger'
+
+/**
+ * POST /api/payment/[orderId]/refund
+ *
+ * Refunds a paid card payment, fully or partially. Merchant only.
+ *
+ * The refund is reserved as pending on the stored payment (compare-and-set
+ * on its version) before TatraPay is called, so concurrent refunds cannot
+ * together exceed the paid amount. A refund TatraPay confirms is added to
+ * the refunded total, one it rejects or that was never sent is released.
+ * When the refund request was sent but its outcome is unknown (server
+ * error, timeout), the refund stays pending and reconciliation settles it
+ * by sending it again with the same X-Request-ID.
+ *
+ * Headers:
+ * - Authorization: Bearer <TATRAPAY_ADMIN_API_KEY>
+ *
+ * Request body (optional):
+ * {
+ *   amount?: number    // Amount in cents of the order currency (default: everything not yet refunded)
+ * }
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   paymentId: string,
+ *   refundedAmount: { amount: number, currency: string },
+ *   remainingAmount: { amount: number, currency: string },
+ *   refundedAt: string
+ * }
+ */
+
+interface RefundRequestBody {
+  amount?: number
+}
+
+const MAX_CONFLICT_RETRIES = 3
+
+/**
+ * Reserve the refund as pending unless it exceeds what is left of the paid
+ * amount after earlier and pending refunds
+ */
+async function reserveRefund(
+  store: PaymentStore,
+  paymentId: string,
+  requested: number | undefined,
+  paid: number
+): Promise<{ id: string; amount: number; previouslyRefunded: number }> {
+  for (let attempt = 0; attempt <= MAX_CONFLICT_RETRIES; attempt++) {
+    const current = await store.findByPaymentId(paymentId)
+    if (!current) {
+      throw new ValidationError(`Payment ${paymentId} not found`)
+    }
+
+    const previouslyRefunded = (current.refundedAmount ?? 0)
+      + (current.pendingRefunds ?? []).reduce((sum, pending) => sum + pending.amount, 0)
+    const refundable = paid - previouslyRefunded
+    const amount = requested ?? refundable
+
+    if (amount <= 0 || amount > refundable) {
+      throw new ValidationError(`Refund of ${amount} exceeds refundable amount ${Math.max(refundable, 0)}`)
+    }
+
+    // Null = another refund changed the payment in the meantime - re-check
+    const refund = { id: crypto.randomUUID(), amount, createdAt: new Date().toISOString() }
+    if (await store.reserveRefund(paymentId, refund, current.version)) {
+      return { id: refund.id, amount, previouslyRefunded }
+    }
+  }
+
+  throw new ConflictError(`Payment ${paymentId} refunds kept changing concurrently`)
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    if (!isAuthorizedAdminRequest(request.headers)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { orderId } = await params
+    const body: RefundRequestBody = await request.json().catch(() => ({}))
+
+    if (body.amount !== undefined && (!Number.isInteger(body.amount) || body.amount <= 0)) {
+      return NextResponse.json(
+        { success: false, error: 'Amount must be a positive number of cents' },
+        { status: 400 }
+      )
+    }
+
+    const store = getPaymentStore()
+    const storedPayment = await store.findByOrderId(orderId)
+
+    if (!storedPayment) {
+      return NextResponse.json(
+        { success: false, error: 'Payment not found' },
+        { status: 404 }
+      )
+    }
+
+    const currency = storedPayment.amount.currency
+    const client = getTatraPayClient({ orderId: storedPayment.orderId, currency })
+    const { paymentId } = storedPayment
+
+    const status = await client.getPaymentStatus(paymentId)
+    if (!status.paidAmount) {
+      throw new ValidationError(`Payment in status ${status.status} cannot be refunded`)
+    }
+
+    const reservation = await reserveRefund(store, paymentId, body.amount, status.paidAmount.amount)
+
+    let result: TatraPayRefundResponse
+    try {
+      result = await client.refundPayment(
+        paymentId,
+        { amount: reservation.amount, currency },
+        { previouslyRefunded: { amount: reservation.previouslyRefunded, currency }, requestId: reservation.id }
+      )
+    } catch (error) {
+      // The refund request itself failed with a server error - it may have
+      // gone through, leave it pending for reconciliation
+      if (error instanceof ServerError && error.requestId === reservation.id) {
+        getLogger().warn('Refund outcome unknown, left pending for reconciliation', {
+          orderId,
+          paymentId,
+          refundId: reservation.id,
+          amount: reservation.amount
+        })
+      } else {
+        await store.settleRefund(paymentId, reservation.id, false)
+      }
+      throw error
+    }
+
+    await store.settleRefund(paymentId, reservation.id, true)
+
+    getLogger().info('Payment refunded', {
+      orderId,
+      paymentId: result.paymentId,
+      amount: result.refundedAmount
+    })
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    getLogger().error('Payment refund error', { error })
+    const clientError = toClientError(error)
+    return NextResponse.json(clientError.body, { status: clientError.status })
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthorizedAdminRequest } from '@/lib/api-auth'
+import { BankStatementFormat, importBankStatement } from '@/lib/bank-statement'
+import { toClientError, ValidationError } from '@/lib/tatrapay-errors'
+import { getLogger } from '@/lib/logger'
+
+/**
+ * POST /api/payment/bank-statement
+ *
+ * Imports a bank statement of the merchant account and settles the
+ * BANK_TRANSFER / QR_PAY payments it pays. Merchant only.
+ *
+ * Headers:
+ * - Authorization: Bearer <TATRAPAY_ADMIN_API_KEY>
+ * - Content-Type: application/xml (camt.053) or text/csv (Tatra banka export)
+ *
+ * Request body: the statement file as UTF-8 text
+ *
+ * Query params:
+ * - format: 'camt053' | 'csv' (default: detected from the content)
+ * - dryRun: 'true' to only report the matches
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   report: {
+ *     format: 'camt053' | 'csv',
+ *     credits: number,
+ *     paid: [...],         // { entry, orderId, paymentId, expected, received, status }
+ *     underpaid: [...],
+ *     overpaid: [...],
+ *     duplicates: [...],   // + reason: 'already_imported' | 'already_paid'
+ *     unmatched: [...]     // { entry, reason, orderId?, paymentId? }
+ *   }
+ * }
+ */
+
+const FORMATS: BankStatementFormat[] = ['camt053', 'csv']
+
+// Monthly statements of a busy shop stay well below this
+const MAX_STATEMENT_BYTES = 10 * 1024 * 1024
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorizedAdminRequest(request.headers)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (Number(request.headers.get('content-length')) > MAX_STATEMENT_BYTES) {
+      return NextResponse.json(
+        { success: false, error: 'Statement too large' },
+        { status: 413 }
+      )
+    }
+
+    const searchParams = new URL(request.url).searchParams
+    const formatParam = searchParams.get('format')
+    const contentType = request.headers.get('content-type') ?? ''
+    const format = FORMATS.find(f => f === formatParam)
+      ?? (contentType.includes('xml') ? 'camt053' : contentType.includes('csv') ? 'csv' : undefined)
+
+    const content = await request.text()
+    if (!content.trim()) {
+      throw new ValidationError('Bank statement: Request body is empty', {
+        fields: [{ field: 'body', code: 'REQUIRED', message: 'Send the statement file as the request body' }]
+      })
+    }
+
+    const report = await importBankStatement(content, {
+      format,
+      dryRun: searchParams.get('dryRun') === 'true'
+    })
+
+    return NextResponse.json({ success: true, report })
+
+  } catch (error) {
+    getLogger().error('Bank statement import error', { error })
+    const clientError = toClientError(error, 'en')
+    return NextResponse.json(clientError.body, { status: clientError.status })
+  }
+}
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getPaymentStatus, isPaymentSuccessful, isPaymentFailed } from '@/lib/tatrapay'
+import { getTatraPayClient, isPaymentSuccessful, isPaymentFailed, isPaymentAuthorized } from '@/lib/tatrapay'
+import { getPaymentStore } from '@/lib/payment-store'
+import { applyPaymentStatus } from '@/lib/payment-state'
+import { saveCardFromPayment } from '@/lib/card-store'
+import { createOrderAccessToken } from '@/lib/api-auth'
+import { getOrderResolver, isOrderOwner } from '@/lib/order-resolver'
+import { getLogger } from '@/lib/logger'
+import { Language, MessageKey, resolveLanguage, translate } from '@/lib/i18n'
 
 /**
  * GET /api/payment/callback
@@ -14,102 +21,149 @@ import { getPaymentStatus, isPaymentSuccessful, isPaymentFailed } from '@/lib/ta
  * Flow:
  * 1. Customer completes payment on TatraPay
  * 2. TatraPay redirects here
- * 3. We verify payment status via API
- * 4. Update order in database
- * 5. Send confirmation email (if successful)
+ * 3. We look up the stored payment and verify its status via API
+ * 4. Apply the status through the state machine (fires lifecycle hooks)
+ * 5. Save the card if the customer asked to (saveCard)
  * 6. Redirect to success/failed page
+ *
+ * The result pages get ?language= with the language the payment was
+ * created with (falls back to the Accept-Language header).
+ *
+ * The failed and pending pages also get an order status token - only when
+ * the request carries the paymentId TatraPay appends, or comes from the
+ * order's owner (OrderResolver.isOrderOwner). An orderId alone is no proof.
  */
 
 export async function GET(request: NextRequest) {
+  const acceptLanguage = request.headers.get('accept-language')
+  let language = resolveLanguage(undefined, acceptLanguage)
+
   try {
     const { searchParams } = new URL(request.url)
-    const orderId = searchParams.get('orderId')
+    const orderIdParam = searchParams.get('orderId')
+    const paymentIdParam = searchParams.get('paymentId')
 
-    console.log('💳 Payment callback received:', { orderId })
+    getLogger().info('Payment callback received', { orderId: orderIdParam, paymentId: paymentIdParam })
 
-    if (!orderId) {
-      return redirectToResult('error', 'Missing order ID')
+    if (!orderIdParam && !paymentIdParam) {
+      return redirectToResult('error', language, 'callback.error')
     }
 
-    // TODO: Get the stored payment ID from your database
-    // const order = await db.orders.findUnique({ where: { id: orderId } })
-    // const paymentId = order.tatrapay_payment_id
+    // Redirect-URI cannot carry query params, so prefer the paymentId
+    // TatraPay appends and fall back to orderId
+    const store = getPaymentStore()
+    const storedPayment = paymentIdParam
+      ? await store.findByPaymentId(paymentIdParam)
+      : await store.findByOrderId(orderIdParam!)
 
-    // For demo, we'll use a placeholder - replace with your DB lookup
-    const paymentId = 'YOUR_STORED_PAYMENT_ID'
-
-    if (!paymentId || paymentId === 'YOUR_STORED_PAYMENT_ID') {
-      console.error('❌ No payment ID found for order:', orderId)
-      // In real implementation, fetch from database
-      return redirectToResult('error', 'Payment not found')
+    if (!storedPayment) {
+      getLogger().error('No stored payment found', { orderId: orderIdParam, paymentId: paymentIdParam })
+      return redirectToResult('error', language, 'callback.error')
     }
 
+    const orderId = storedPayment.orderId
+    language = resolveLanguage(storedPayment.language, acceptLanguage)
+
     // Get payment status from TatraPay
-    const paymentStatus = await getPaymentStatus(paymentId)
+    const client = getTatraPayClient({
+      orderId: storedPayment.orderId,
+      currency: storedPayment.amount.currency
+    })
+    const paymentStatus = await client.getPaymentStatus(storedPayment.paymentId)
 
-    console.log('📊 TatraPay payment status:', {
+    getLogger().info('TatraPay payment status', {
       paymentId: paymentStatus.paymentId,
       status: paymentStatus.status,
-      transactionId: paymentStatus.transactionId
+      transactionId: paymentStatus.transactionId,
+      paymentMethod: paymentStatus.paymentMethod
     })
 
-    // TODO: Update order in database with payment status
-    // await db.orders.update({
-    //   where: { id: orderId },
-    //   data: {
-    //     tatrapay_status: paymentStatus.status,
-    //     tatrapay_transaction_id: paymentStatus.transactionId,
-    //     payment_status: mapToInternalStatus(paymentStatus.status)
-    //   }
-    // })
+    // Apply status - hooks (mark as paid, emails) fire once per payment,
+    // regressions from stale responses are ignored
+    const transition = await applyPaymentStatus(storedPayment.paymentId, {
+      status: paymentStatus.status,
+      source: 'callback',
+      transactionId: paymentStatus.transactionId,
+      paymentMethod: paymentStatus.paymentMethod,
+      preAuthorization: paymentStatus.preAuthorization
+    })
+
+    // Keep the card for future charges if the customer asked to save it
+    if (storedPayment.customerId) {
+      await saveCardFromPayment(storedPayment.customerId, paymentStatus)
+    }
+
+    const currentStatus = transition?.payment.status ?? paymentStatus.status
+    const preAuthorization = transition?.payment.preAuthorization ?? paymentStatus.preAuthorization
 
     // Handle payment result
-    if (isPaymentSuccessful(paymentStatus.status)) {
-      console.log('✅ Payment successful')
+    if (isPaymentSuccessful(currentStatus, preAuthorization)) {
+      getLogger().info('Payment successful', { orderId })
 
-      // TODO: Mark order as paid
-      // await db.orders.update({
-      //   where: { id: orderId },
-      //   data: { status: 'paid' }
-      // })
+      return redirectToResult('success', language, 'callback.paid')
 
-      // TODO: Send confirmation email
-      // await sendConfirmationEmail(order)
+    } else if (isPaymentAuthorized(currentStatus, preAuthorization)) {
+      // Card funds held - charged later with capturePayment()
+      getLogger().info('Payment authorized', { orderId })
 
-      return redirectToResult('success', 'Payment successful')
+      return redirectToResult('success', language, 'callback.authorized')
 
-    } else if (isPaymentFailed(paymentStatus.status)) {
-      console.log('❌ Payment failed:', paymentStatus.status)
+    } else if (isPaymentFailed(currentStatus, preAuthorization)) {
+      getLogger().info('Payment failed', { orderId, status: currentStatus })
 
       // Include orderId for retry option
-      return redirectToResult('failed', 'Payment was declined', orderId)
+      return redirectToResult('failed', language, 'callback.declined', {
+        orderId,
+        withToken: await mayReadOrderStatus(request, storedPayment.paymentId, orderId)
+      })
 
     } else {
       // Payment still pending (e.g., bank transfer)
-      console.log('⏳ Payment pending:', paymentStatus.status)
+      getLogger().info('Payment pending', { orderId, status: currentStatus })
 
-      return redirectToResult('pending', 'Awaiting payment confirmation')
+      // Include orderId so the pending page can show the QR code
+      return redirectToResult('pending', language, 'callback.pending', {
+        orderId,
+        withToken: await mayReadOrderStatus(request, storedPayment.paymentId, orderId)
+      })
     }
 
   } catch (error) {
-    console.error('❌ Payment callback error:', error)
-    return redirectToResult('error', 'Error verifying payment')
+    getLogger().error('Payment callback error', { error })
+    return redirectToResult('error', language, 'callback.error')
   }
 }
 
 /**
- * Redirect to appropriate result page
+ * Whether the redirect may carry an order status token
+ *
+ * TatraPay appends the paymentId when it sends the customer back - knowing
+ * it proves the request comes from that payment. Otherwise only the order's
+ * owner qualifies.
+ */
+async function mayReadOrderStatus(request: NextRequest, paymentId: string, orderId: string): Promise<boolean> {
+  if (new URL(request.url).searchParams.get('paymentId') === paymentId) return true
+
+  const order = await getOrderResolver().resolve(orderId)
+  return !!order && await isOrderOwner(order, request)
+}
+
+/**
+ * Redirect to appropriate result page, with the message in the customer's language
  */
 function redirectToResult(
   status: 'success' | 'failed' | 'pending' | 'error',
-  message: string,
-  orderId?: string
+  language: Language,
+  message: MessageKey,
+  order?: { orderId: string; withToken: boolean }
 ): NextResponse {
   const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
-  const params = new URLSearchParams({ message })
+  const params = new URLSearchParams({ message: translate(message, language), language })
 
-  if (orderId) {
-    params.set('orderId', orderId)
+  if (order) {
+    params.set('orderId', order.orderId)
+    // Lets the result page read the order status
+    if (order.withToken) params.set('token', createOrderAccessToken(order.orderId))
   }
 
   const redirectUrl = `${baseUrl}/payment/${status}?${params.toString()}`
@@ -1,5 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createPayment, TatraPayMethod } from '@/lib/tatrapay'
+import { getCustomerIpAddress } from '@/lib/client-ip'
+import { getTatraPayClient, TatraPayPaymentResponse } from '@/lib/tatrapay'
+import { getPaymentStore } from '@/lib/payment-store'
+import { renderQrCodeSvg } from '@/lib/paybysquare'
+import { createMoney, formatMoney } from '@/lib/money'
+import { closeOpenPayments, exclusiveForOrder, isOrderOwner, resolveOrderForPayment } from '@/lib/order-resolver'
+import { createOrderAccessToken } from '@/lib/api-auth'
+import { toClientError, ValidationError } from '@/lib/tatrapay-errors'
+import {
+  getRequestLanguage,
+  validateAmountLimits,
+  validateCreatePaymentRequest
+} from '@/lib/validation'
+import { getLogger } from '@/lib/logger'
+import { Language, resolveLanguage, translate } from '@/lib/i18n'
 
 /**
  * POST /api/payment/create
@@ -8,153 +22,306 @@ import { createPayment, TatraPayMethod } from '@/lib/tatrapay'
  *
  * Request body:
  * {
- *   orderId: string,              // Your order ID
- *   paymentMethod: 'CARD_PAY' | 'BANK_TRANSFER',
- *   amount: number,               // Amount in cents (7900 = 79.00 EUR)
- *   currency: 'EUR' | 'CZK',
- *   customer: {
+ *   orderId: string,              // Your order ID - amount etc. come from the order resolver
+ *   paymentMethod?: 'CARD_PAY' | 'BANK_TRANSFER' | 'QR_PAY' | 'PAY_LATER',
+ *                                 // Omit for gateway mode (customer picks on TatraPay+)
+ *   allowedMethods?: string[],    // Gateway mode only - methods to offer (default: all)
+ *   amount?: number,              // Amount in cents (7900 = 79.00 EUR) - must match the order if sent
+ *   currency?: 'EUR' | 'CZK',     // Must match the order if sent
+ *   customer?: {                  // Required unless the resolver returns the customer
+ *     id?: string,                // Ignored - saveCard needs the customer from the resolver
  *     email: string,
  *     firstName: string,
  *     lastName: string,
- *     phone?: string
+ *     phone?: string,             // Required for PAY_LATER - E.164 or national SK/CZ number
+ *     address?: {                 // Billing address - improves 3-D Secure approval
+ *       streetName?: string,      // Max 70 chars
+ *       buildingNumber?: string,  // Max 16 chars
+ *       city?: string,            // Max 35 chars
+ *       postalCode?: string,      // Max 16 chars
+ *       country: string           // ISO 3166-1 alpha-2, e.g. 'SK'
+ *     },
+ *     shippingAddress?: { ... }   // Delivery address, same fields
  *   },
+ *   order?: {                     // Required for PAY_LATER
+ *     items: Array<{
+ *       name: string,
+ *       quantity: number,
+ *       unitPrice: number         // In cents, VAT included
+ *     }>,
+ *     preferredLoanDuration?: number
+ *   },
+ *   preAuthorization?: boolean,   // CARD_PAY only - hold funds, capture on dispatch
+ *   saveCard?: boolean,           // CARD_PAY only - save the card for later charges
  *   description?: string,
- *   language?: 'sk' | 'cs' | 'en'
+ *   language?: 'sk' | 'cs' | 'en'  // Default: Accept-Language, then 'sk'. Used for the result pages too
  * }
  *
  * Response:
  * {
  *   success: true,
  *   paymentId: string,
- *   redirectUrl?: string,         // For CARD_PAY - redirect customer here
- *   bankTransfer?: {              // For BANK_TRANSFER
+ *   statusToken?: string,         // For GET /api/payment/status/[orderId] - only when the
+ *                                 // resolver's isOrderOwner() confirms the caller owns the order
+ *   redirectUrl?: string,         // For CARD_PAY / PAY_LATER / gateway mode - redirect customer here
+ *   availablePaymentMethods?: Array<{
+ *     method: string,
+ *     isAvailable: boolean,
+ *     reasonCode?: string,
+ *     reasonCodeDescription?: string
+ *   }>,
+ *   bankTransfer?: {              // For BANK_TRANSFER / QR_PAY
  *     iban: string,
  *     bic: string,
  *     variableSymbol: string,
- *     amount: number,
- *     currency: string
+ *     amount: { amount: number, currency: string },  // In cents
+ *     formattedAmount: string,    // e.g., '79,00 €' in the request language
+ *     dueDate: string
+ *   },
+ *   qrCode?: {                    // PAY by square for BANK_TRANSFER / QR_PAY
+ *     data: string,
+ *     svg: string
  *   }
  * }
+ *
+ * Error response (400 / 404 / 409 / 422 / 503 / 500):
+ * {
+ *   success: false,
+ *   error: string,                // Localized message, safe to show
+ *   code: 'INVALID_REQUEST' | 'METHOD_UNAVAILABLE' | 'TEMPORARILY_UNAVAILABLE' | 'PAYMENT_ERROR',
+ *   requestId?: string,           // X-Request-ID for TatraPay support
+ *   fields?: Array<{              // 400 only - which fields are invalid
+ *     field: string,              // e.g. 'customer.email', 'order.items.0.quantity'
+ *     code: string,               // e.g. 'REQUIRED', 'TOO_LONG', 'AMOUNT_TOO_LOW', 'ORDER_MISMATCH'
+ *     message: string
+ *   }>
+ * }
+ *
+ * The order is looked up with the registered OrderResolver (see
+ * order-resolver.ts) - unknown orders get a 404, orders that are already
+ * paid or authorized a 409, and an amount or currency that differs from
+ * the order is rejected. Every field is then validated
+ * (see validation.ts), and the amount is checked against the limits
+ * TatraPay reports for the payment method.
+ *
+ * Earlier payments of the order that are still open (e.g. a card payment
+ * started in another tab) are cancelled before the new one is created, so
+ * the order cannot be paid twice. A pending bank transfer is returned
+ * again instead - the customer may already have sent the money.
  */
 
-interface CreatePaymentRequestBody {
-  orderId: string
-  paymentMethod: 'CARD_PAY' | 'BANK_TRANSFER'
-  amount: number
-  currency: 'EUR' | 'CZK'
-  customer: {
-    email: string
-    firstName: string
-    lastName: string
-    phone?: string
-  }
-  description?: string
-  language?: 'sk' | 'cs' | 'en'
+/**
+ * PAY by square code for mobile banking apps
+ */
+async function toQrCode(qrCodeData: string | undefined) {
+  return qrCodeData ? { data: qrCodeData, svg: await renderQrCodeSvg(qrCodeData) } : undefined
+}
+
+/**
+ * Bank details with the amount formatted for the customer
+ */
+function toBankTransfer(info: NonNullable<TatraPayPaymentResponse['bankTransferInfo']>, language: Language) {
+  return { ...info, formattedAmount: formatMoney(info.amount, language) }
 }
 
 export async function POST(request: NextRequest) {
+  const acceptLanguage = request.headers.get('accept-language')
+  let language: Language = resolveLanguage(undefined, acceptLanguage)
+
   try {
-    const body: CreatePaymentRequestBody = await request.json()
+    const rawBody: unknown = await request.json().catch(() => null)
+    language = resolveLanguage(getRequestLanguage(rawBody), acceptLanguage)
 
-    // Validate required fields
-    if (!body.orderId || !body.paymentMethod || !body.amount || !body.customer?.email) {
+    // Amount, currency and customer come from the order, not the browser
+    const resolution = await resolveOrderForPayment(rawBody)
+    if (resolution.status === 'not_found') {
       return NextResponse.json(
-        { success: false, error: 'Missing required fields' },
-        { status: 400 }
+        { success: false, error: translate('error.orderNotFound', language) },
+        { status: 404 }
       )
     }
-
-    // Validate payment method
-    if (!['CARD_PAY', 'BANK_TRANSFER'].includes(body.paymentMethod)) {
+    if (resolution.status === 'paid') {
       return NextResponse.json(
-        { success: false, error: 'Invalid payment method' },
-        { status: 400 }
+        { success: false, error: translate('error.orderAlreadyPaid', language) },
+        { status: 409 }
       )
     }
+    if (resolution.status === 'invalid') {
+      throw new ValidationError('Create payment request does not match the order', { fields: resolution.errors })
+    }
 
-    // Get customer's IP address (required by TatraPay)
-    const customerIpAddress = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
-      || request.headers.get('x-real-ip')
-      || '127.0.0.1'
+    // Reject invalid input before anything reaches TatraPay
+    const validation = validateCreatePaymentRequest(resolution.body)
+    if (!validation.valid) {
+      throw new ValidationError('Invalid create payment request', { fields: validation.errors })
+    }
+    const body = validation.value
+
+    // Only the resolver knows who owns the order - a customer ID from the
+    // browser could attach the card to another customer's account
+    const customerId = resolution.order.customer?.id
+    if (body.saveCard && !customerId) {
+      throw new ValidationError('Saving a card requires the order customer', {
+        fields: [{ field: 'saveCard', code: 'CUSTOMER_REQUIRED', message: 'Requires an order resolver that returns customer.id' }]
+      })
+    }
+
+    // Use the merchant account for this order
+    const client = getTatraPayClient({ orderId: body.orderId, currency: body.currency })
+
+    const limitErrors = await validateAmountLimits(client, body)
+    if (limitErrors.length > 0) {
+      throw new ValidationError('Amount outside payment method limits', { fields: limitErrors })
+    }
+
+    // Customer's IP for 3-D Secure risk checks (required by TatraPay) - from
+    // the trusted proxy, not the X-Forwarded-For entries the client sets
+    const customerIpAddress = getCustomerIpAddress(request.headers)
 
     // Build callback URL
     const host = request.headers.get('host') || 'localhost:3000'
     const protocol = request.headers.get('x-forwarded-proto') || 'https'
     const baseUrl = `${protocol}://${host}`
-    const returnUrl = `${baseUrl}/api/payment/callback?orderId=${body.orderId}`
+    const returnUrl = `${baseUrl}/api/payment/callback?orderId=${encodeURIComponent(body.orderId)}`
     const notificationUrl = `${baseUrl}/api/payment/webhook`
 
-    console.log('💳 Creating payment:', {
-      orderId: body.orderId,
-      method: body.paymentMethod,
-      amount: body.amount,
-      currency: body.currency,
-      customerIp: customerIpAddress
-    })
+    const amount = createMoney(body.amount, body.currency)
 
-    // Create TatraPay payment
-    const payment = await createPayment({
-      paymentMethod: body.paymentMethod as TatraPayMethod,
-      amount: {
-        amount: body.amount,
-        currency: body.currency
-      },
-      merchantReference: body.orderId,
-      description: body.description || `Order ${body.orderId}`,
-      customer: {
-        firstName: body.customer.firstName,
-        lastName: body.customer.lastName,
-        email: body.customer.email,
-        phone: body.customer.phone
-      },
-      returnUrl,
-      notificationUrl,
-      language: body.language || 'sk',
-      customerIpAddress
+    // Creations for the same order run one at a time, so only one of them
+    // finds (and replaces) the open payments
+    const started = await exclusiveForOrder(body.orderId, async () => {
+      const open = await closeOpenPayments(body.orderId)
+      if (open.status !== 'closed') return open
+
+      getLogger().info('Creating payment', {
+        orderId: body.orderId,
+        method: body.paymentMethod || 'ANY',
+        amount
+      })
+
+      // Create TatraPay payment
+      const payment = await client.createPayment({
+        paymentMethod: body.paymentMethod,
+        allowedMethods: body.allowedMethods,
+        amount,
+        merchantReference: body.orderId,
+        description: body.description || `Order ${body.orderId}`,
+        customer: {
+          firstName: body.customer.firstName,
+          lastName: body.customer.lastName,
+          email: body.customer.email,
+          phone: body.customer.phone,
+          address: body.customer.address,
+          shippingAddress: body.customer.shippingAddress
+        },
+        returnUrl,
+        notificationUrl,
+        language,
+        customerIpAddress,
+        orderDetail: body.order,
+        preAuthorization: body.preAuthorization,
+        saveCard: body.saveCard
+      })
+
+      // Store payment ID so callback and webhook can find the order
+      await getPaymentStore().save({
+        orderId: body.orderId,
+        paymentId: payment.paymentId,
+        paymentMethod: body.paymentMethod,
+        amount,
+        status: payment.status,
+        bankTransferInfo: payment.bankTransferInfo,
+        qrCodeData: payment.qrCodeData,
+        customerId: body.saveCard ? customerId : undefined,
+        language,
+        expiresAt: payment.expiresAt
+      })
+
+      return { status: 'created' as const, payment }
     })
 
-    // TODO: Store payment.paymentId in your database
-    // await db.orders.update({
-    //   where: { id: body.orderId },
-    //   data: { tatrapay_payment_id: payment.paymentId }
-    // })
+    if (started.status === 'paid') {
+      return NextResponse.json(
+        { success: false, error: translate('error.orderAlreadyPaid', language) },
+        { status: 409 }
+      )
+    }
+
+    // Lets the customer (browser or app) follow the order status - knowing
+    // the order ID is not enough, the resolver must recognize the owner
+    const statusToken = await isOrderOwner(resolution.order, request)
+      ? createOrderAccessToken(body.orderId)
+      : undefined
+
+    // Same bank details again - a second variable symbol invites double payments
+    if (started.status === 'bank_transfer') {
+      const { paymentId, bankTransferInfo, qrCodeData } = started.payment
+      return NextResponse.json({
+        success: true,
+        paymentId,
+        statusToken,
+        bankTransfer: toBankTransfer(bankTransferInfo!, language),
+        qrCode: await toQrCode(qrCodeData)
+      })
+    }
 
-    console.log('✅ Payment created:', {
+    const { payment } = started
+
+    getLogger().info('Payment created', {
       paymentId: payment.paymentId,
       hasRedirectUrl: !!payment.redirectUrl,
       hasBankTransfer: !!payment.bankTransferInfo
     })
 
+    const qrCode = await toQrCode(payment.qrCodeData)
+    const bankTransfer = payment.bankTransferInfo
+      ? toBankTransfer(payment.bankTransferInfo, language)
+      : undefined
+
     // Return response based on payment method
-    if (body.paymentMethod === 'CARD_PAY' && payment.redirectUrl) {
+    if (!body.paymentMethod) {
+      // Gateway mode - customer picks the method on TatraPay+
       return NextResponse.json({
         success: true,
         paymentId: payment.paymentId,
+        statusToken,
+        redirectUrl: payment.redirectUrl,
+        availablePaymentMethods: payment.availablePaymentMethods
+      })
+    } else if ((body.paymentMethod === 'CARD_PAY' || body.paymentMethod === 'PAY_LATER') && payment.redirectUrl) {
+      return NextResponse.json({
+        success: true,
+        paymentId: payment.paymentId,
+        statusToken,
         redirectUrl: payment.redirectUrl
       })
-    } else if (body.paymentMethod === 'BANK_TRANSFER' && payment.bankTransferInfo) {
+    } else if ((body.paymentMethod === 'BANK_TRANSFER' || body.paymentMethod === 'QR_PAY') && bankTransfer) {
       return NextResponse.json({
         success: true,
         paymentId: payment.paymentId,
-        bankTransfer: payment.bankTransferInfo
+        statusToken,
+        bankTransfer,
+        qrCode
       })
     } else {
       return NextResponse.json({
         success: true,
         paymentId: payment.paymentId,
+        statusToken,
         redirectUrl: payment.redirectUrl,
-        bankTransfer: payment.bankTransferInfo
+        bankTransfer,
+        qrCode
       })
     }
 
   } catch (error) {
-    console.error('❌ Payment creation error:', error)
-    return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Payment creation failed'
-      },
-      { status: 500 }
-    )
+    if (error instanceof ValidationError) {
+      getLogger().warn('Payment creation rejected', { error })
+    } else {
+      getLogger().error('Payment creation error', { error })
+    }
+    // Never expose bank messages - send a safe, localized message instead
+    const clientError = toClientError(error, language)
+    return NextResponse.json(clientError.body, { status: clientError.status })
   }
 }
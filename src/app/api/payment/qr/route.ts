@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPaymentStore } from '@/lib/payment-store'
+import { renderQrCodeSvg } from '@/lib/paybysquare'
+import { isAuthorizedOrderRequest } from '@/lib/api-auth'
+import { getLogger } from '@/lib/logger'
+
+/**
+ * GET /api/payment/qr
+ *
+ * Returns the PAY by square QR code for a bank transfer / QR_PAY payment
+ * as an SVG image. Used by the pending page.
+ *
+ * Query params:
+ * - orderId: Your order ID
+ * - token: Order token (see GET /api/payment/status/[orderId])
+ *
+ * Response: image/svg+xml
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const orderId = new URL(request.url).searchParams.get('orderId')
+
+    if (!orderId) {
+      return NextResponse.json(
+        { error: 'Missing order ID' },
+        { status: 400 }
+      )
+    }
+
+    if (!isAuthorizedOrderRequest(request, orderId)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const storedPayment = await getPaymentStore().findByOrderId(orderId)
+
+    if (!storedPayment?.qrCodeData) {
+      return NextResponse.json(
+        { error: 'QR code not available' },
+        { status: 404 }
+      )
+    }
+
+    const svg = await renderQrCodeSvg(storedPayment.qrCodeData)
+
+    return new NextResponse(svg, {
+      headers: {
+        'Content-Type': 'image/svg+xml',
+        'Cache-Control': 'private, max-age=300'
+      }
+    })
+
+  } catch (error) {
+    getLogger().error('QR code error', { error })
+    return NextResponse.json(
+      { error: 'QR code generation failed' },
+      { status: 500 }
+    )
+  }
+}
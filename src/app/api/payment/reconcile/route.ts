@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthorizedAdminRequest } from '@/lib/api-auth'
+import { reconcilePendingPayments } from '@/lib/reconciliation'
+import { getLogger } from '@/lib/logger'
+
+/**
+ * GET|POST /api/payment/reconcile
+ *
+ * Re-checks payments stuck in RCVD / PDNG with TatraPay and expires
+ * abandoned card payments. Call it from a cron job (e.g. every 15 minutes).
+ * Merchant only.
+ *
+ * Headers:
+ * - Authorization: Bearer <TATRAPAY_ADMIN_API_KEY>
+ *
+ * Query params:
+ * - dryRun: 'true' to only report what would change
+ * - concurrency: Parallel TatraPay requests (default 5)
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   report: {
+ *     startedAt: string,
+ *     finishedAt: string,
+ *     dryRun: boolean,
+ *     checked: number,
+ *     updated: [{ orderId, paymentId, from, to }],
+ *     expired: [{ orderId, paymentId, from, to }],
+ *     refunds: [{ orderId, paymentId, refundId, amount, refunded }],
+ *     unchanged: number,
+ *     errors: [{ orderId, paymentId, error }]
+ *   }
+ * }
+ */
+
+async function handle(request: NextRequest) {
+  try {
+    if (!isAuthorizedAdminRequest(request.headers)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const searchParams = new URL(request.url).searchParams
+    const concurrency = Number(searchParams.get('concurrency'))
+
+    const report = await reconcilePendingPayments({
+      dryRun: searchParams.get('dryRun') === 'true',
+      concurrency: Number.isInteger(concurrency) && concurrency > 0 ? concurrency : undefined
+    })
+
+    return NextResponse.json({ success: true, report }, {
+      headers: { 'Cache-Control': 'no-store' }
+    })
+
+  } catch (error) {
+    getLogger().error('Payment reconciliation error', { error })
+    return NextResponse.json(
+      { success: false, error: 'Failed to reconcile payments' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = handle
+export const POST = handle
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPaymentStore } from '@/lib/payment-store'
+import { isAuthorizedOrderRequest } from '@/lib/api-auth'
+import { toOrderStatusView } from '@/lib/order-status'
+import { getLogger } from '@/lib/logger'
+import { resolveLanguage, translate } from '@/lib/i18n'
+
+/**
+ * GET /api/payment/status/[orderId]
+ *
+ * Current payment status of an order, read from the payment store. The
+ * webhook and callback keep the store up to date, so this never calls
+ * TatraPay. For live updates use the stream variant:
+ * GET /api/payment/status/[orderId]/stream
+ *
+ * Authentication (order token from the create route or the callback):
+ * - Authorization: Bearer <token>, or
+ * - ?token=<token>
+ *
+ * Query params:
+ * - language: 'sk' | 'cs' | 'en' - for labels and formatted amounts
+ *   (default: language of the payment, then Accept-Language)
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   orderId: string,
+ *   status: 'pending' | 'authorized' | 'completed' | 'failed',
+ *   tatraPayStatus: string,       // e.g. 'PDNG', 'ACSC'
+ *   statusLabel: string,          // e.g. 'Čaká', 'Vyrovnaná'
+ *   preAuthorization?: 'AUTHORIZED' | 'CAPTURED' | 'VOIDED',
+ *   paymentMethod?: string,
+ *   amount: { amount: number, currency: string },          // In cents
+ *   formattedAmount: string,      // e.g., '79,00 €'
+ *   refundedAmount?: { amount: number, currency: string },  // In cents
+ *   bankTransfer?: {              // For BANK_TRANSFER / QR_PAY
+ *     iban: string,
+ *     bic: string,
+ *     variableSymbol: string,
+ *     amount: { amount: number, currency: string },
+ *     formattedAmount: string,
+ *     dueDate: string
+ *   },
+ *   updatedAt: string
+ * }
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params
+
+    if (!isAuthorizedOrderRequest(request, orderId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const storedPayment = await getPaymentStore().findByOrderId(orderId)
+
+    // Requested language, else the one the payment was created with
+    const languageParam = new URL(request.url).searchParams.get('language')
+    const language = resolveLanguage(
+      languageParam ?? storedPayment?.language,
+      request.headers.get('accept-language')
+    )
+
+    if (!storedPayment) {
+      return NextResponse.json(
+        { success: false, error: translate('error.paymentNotFound', language) },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...toOrderStatusView(storedPayment, language)
+    }, {
+      headers: { 'Cache-Control': 'no-store' }
+    })
+
+  } catch (error) {
+    getLogger().error('Payment status error', { error })
+    return NextResponse.json(
+      {
+        success: false,
+        error: translate('error.statusUnavailable', resolveLanguage(
+          new URL(request.url).searchParams.get('language'),
+          request.headers.get('accept-language')
+        ))
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPaymentStore, StoredPayment } from '@/lib/payment-store'
+import { isAuthorizedOrderRequest } from '@/lib/api-auth'
+import { isFinalOrderStatus, subscribeToOrderStatus, toOrderStatusView } from '@/lib/order-status'
+import { getLogger } from '@/lib/logger'
+import { resolveLanguage, translate } from '@/lib/i18n'
+
+/**
+ * GET /api/payment/status/[orderId]/stream
+ *
+ * Server-Sent Events stream of an order's payment status. Sends the
+ * current status right away, then every change made by the webhook,
+ * callback or merchant routes. The stream ends once the payment is
+ * completed or failed.
+ *
+ * Authentication: same order token as GET /api/payment/status/[orderId],
+ * usually as ?token=<token> because EventSource cannot set headers.
+ *
+ * Query params:
+ * - token: Order token
+ * - language: 'sk' | 'cs' | 'en' - for labels and formatted amounts
+ *   (default: language of the payment, then Accept-Language)
+ *
+ * Events:
+ *   event: status
+ *   data: { orderId, status, tatraPayStatus, statusLabel, amount, ... }
+ *
+ * @example
+ * ```typescript
+ * const events = new EventSource(`/api/payment/status/${orderId}/stream?token=${token}`)
+ * events.addEventListener('status', (event) => {
+ *   const order = JSON.parse(event.data)
+ *   if (order.status === 'completed') router.replace('/payment/success')
+ * })
+ * ```
+ */
+
+// Changes from other server instances are picked up by re-reading the store
+const STORE_REFRESH_MS = 15000
+
+// Serverless platforms cut long requests - end cleanly, EventSource reconnects
+const MAX_STREAM_MS = 5 * 60 * 1000
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const { orderId } = await params
+
+  if (!isAuthorizedOrderRequest(request, orderId)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  const store = getPaymentStore()
+  const storedPayment = await store.findByOrderId(orderId)
+
+  // Requested language, else the one the payment was created with
+  const languageParam = new URL(request.url).searchParams.get('language')
+  const language = resolveLanguage(
+    languageParam ?? storedPayment?.language,
+    request.headers.get('accept-language')
+  )
+
+  if (!storedPayment) {
+    return NextResponse.json(
+      { success: false, error: translate('error.paymentNotFound', language) },
+      { status: 404 }
+    )
+  }
+
+  const encoder = new TextEncoder()
+  let close = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      // A new payment for the order starts at version 1 again
+      let lastSent: string | undefined
+      const versionOf = (payment: StoredPayment) => `${payment.paymentId}:${payment.version}`
+
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk))
+      }
+
+      const send = (payment: StoredPayment) => {
+        if (closed || versionOf(payment) === lastSent) return
+        lastSent = versionOf(payment)
+
+        const view = toOrderStatusView(payment, language)
+        write(`event: status\ndata: ${JSON.stringify(view)}\n\n`)
+        if (isFinalOrderStatus(view.status)) close()
+      }
+
+      const unsubscribe = subscribeToOrderStatus(orderId, send)
+
+      const refresh = setInterval(async () => {
+        try {
+          const payment = await store.findByOrderId(orderId)
+          if (payment && versionOf(payment) !== lastSent) {
+            send(payment)
+          } else {
+            write(': keep-alive\n\n')
+          }
+        } catch (error) {
+          getLogger().error('Payment status stream refresh failed', { orderId, error })
+        }
+      }, STORE_REFRESH_MS)
+
+      const timeout = setTimeout(() => close(), MAX_STREAM_MS)
+
+      close = () => {
+        if (closed) return
+        closed = true
+        unsubscribe()
+        clearInterval(refresh)
+        clearTimeout(timeout)
+        request.signal.removeEventListener('abort', close)
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      }
+
+      request.signal.addEventListener('abort', close)
+
+      write(`retry: 5000\n\n`)
+      send(storedPayment)
+    },
+
+    cancel() {
+      close()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-store, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'   // Disable nginx buffering
+    }
+  })
+}
@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getPaymentStatus, isPaymentSuccessful, isPaymentFailed, mapToInternalStatus } from '@/lib/tatrapay'
+import { getTatraPayClient } from '@/lib/tatrapay'
+import { getPaymentStore } from '@/lib/payment-store'
+import { applyPaymentStatus } from '@/lib/payment-state'
+import { saveCardFromPayment } from '@/lib/card-store'
+import { getWebhookSourceIp, verifyWebhook } from '@/lib/webhook-verification'
+import { getLogger } from '@/lib/logger'
 
 /**
  * POST /api/payment/webhook
@@ -12,6 +17,12 @@ import { getPaymentStatus, isPaymentSuccessful, isPaymentFailed, mapToInternalSt
  * - Delayed card authorizations
  * - Refunds and chargebacks
  *
+ * Requests must pass signature, timestamp and (optional) IP allowlist
+ * checks from webhook-verification.ts, otherwise they get 401. The source
+ * IP is the X-Forwarded-For entry added by the trusted proxy (or the
+ * TATRAPAY_CLIENT_IP_HEADER header), never the client-supplied leftmost one.
+ * Bodies that are not a JSON object with a paymentId get 400.
+ *
  * Request body from TatraPay:
  * {
  *   paymentId: string,
@@ -30,63 +41,95 @@ interface WebhookPayload {
 
 export async function POST(request: NextRequest) {
   try {
-    const payload: WebhookPayload = await request.json()
+    // Verify authenticity on the raw body before trusting anything in it
+    const rawBody = await request.text()
+    const ip = getWebhookSourceIp(request.headers)
+
+    const verification = verifyWebhook({ rawBody, headers: request.headers, ip })
+
+    if (!verification.valid) {
+      getLogger().warn('Webhook rejected', { reason: verification.reason })
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    let payload: WebhookPayload
+    try {
+      payload = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON' },
+        { status: 400 }
+      )
+    }
 
-    console.log('🔔 TatraPay webhook received:', {
+    // A valid signature says who sent it, not that it is a payment notification
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload) ||
+        typeof payload.paymentId !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid payload' },
+        { status: 400 }
+      )
+    }
+
+    getLogger().info('TatraPay webhook received', {
       paymentId: payload.paymentId,
       status: payload.status,
       merchantReference: payload.merchantReference
     })
 
+    // Ignore payments we never created - no API call for unknown IDs
+    const store = getPaymentStore()
+    const storedPayment = await store.findByPaymentId(payload.paymentId)
+
+    if (!storedPayment) {
+      getLogger().warn('Webhook for unknown payment', { paymentId: payload.paymentId })
+      return NextResponse.json({ received: true })
+    }
+
     // Verify the payment status by calling TatraPay API
     // This ensures the webhook payload is legitimate
-    const verifiedStatus = await getPaymentStatus(payload.paymentId)
+    const client = getTatraPayClient({
+      orderId: storedPayment.orderId,
+      currency: storedPayment.amount.currency
+    })
+    const verifiedStatus = await client.getPaymentStatus(storedPayment.paymentId)
 
-    console.log('✅ Verified payment status:', {
+    getLogger().info('Verified payment status', {
       status: verifiedStatus.status,
-      transactionId: verifiedStatus.transactionId
+      transactionId: verifiedStatus.transactionId,
+      paymentMethod: verifiedStatus.paymentMethod,
+      preAuthorization: verifiedStatus.preAuthorization
     })
 
-    // TODO: Find order by merchantReference (your order ID)
-    // const order = await db.orders.findFirst({
-    //   where: { id: payload.merchantReference }
-    // })
-
-    // TODO: Update order status in database
-    // const internalStatus = mapToInternalStatus(verifiedStatus.status)
-    // await db.orders.update({
-    //   where: { id: order.id },
-    //   data: {
-    //     tatrapay_status: verifiedStatus.status,
-    //     tatrapay_transaction_id: verifiedStatus.transactionId,
-    //     payment_status: internalStatus
-    //   }
-    // })
-
-    // Handle status changes
-    if (isPaymentSuccessful(verifiedStatus.status)) {
-      console.log('✅ Payment completed via webhook')
-
-      // TODO: Process successful payment
-      // - Mark order as paid
-      // - Send confirmation email
-      // - Generate invoice
-      // - etc.
-
-    } else if (isPaymentFailed(verifiedStatus.status)) {
-      console.log('❌ Payment failed via webhook')
-
-      // TODO: Handle failed payment
-      // - Mark order as failed
-      // - Send failure notification
-      // - etc.
+    // Apply status through the state machine. Lifecycle hooks (onAuthorized,
+    // onCompleted, onFailed, onPartiallyPaid) fire exactly once per payment,
+    // so duplicate or late webhooks are safe to acknowledge.
+    const transition = await applyPaymentStatus(storedPayment.paymentId, {
+      status: verifiedStatus.status,
+      source: 'webhook',
+      transactionId: verifiedStatus.transactionId,
+      paymentMethod: verifiedStatus.paymentMethod,
+      preAuthorization: verifiedStatus.preAuthorization
+    })
+
+    // Keep the card for future charges if the customer asked to save it
+    if (storedPayment.customerId) {
+      await saveCardFromPayment(storedPayment.customerId, verifiedStatus)
     }
 
+    getLogger().info('Webhook status transition', {
+      outcome: transition?.outcome,
+      status: transition?.payment.status
+    })
+
     // Return 200 OK to acknowledge receipt
     return NextResponse.json({ received: true })
 
   } catch (error) {
-    console.error('❌ Webhook processing error:', error)
+    getLogger().error('Webhook processing error', { error })
 
     // Return 500 so TatraPay will retry
     return NextResponse.json(
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTatraPayMock, isTatraPayMockEnabled } from '@/lib/tatrapay-mock'
+
+/**
+ * /api/tatrapay-mock/*
+ *
+ * Local TatraPay+ mock gateway for offline development. Disabled unless
+ * TATRAPAY_MOCK=true, and always disabled in production.
+ *
+ * Point the client at it:
+ *   TATRAPAY_BASE_URL=http://localhost:3000/api/tatrapay-mock
+ *   TATRAPAY_TOKEN_URL=http://localhost:3000/api/tatrapay-mock/auth/oauth/v2/token
+ *
+ * Endpoints:
+ * - POST   /auth/oauth/v2/token             OAuth token
+ * - POST   /v1/payments                     Create payment
+ * - GET    /v1/payments/{id}/status         Payment status
+ * - GET    /v1/payments/methods             Available methods
+ * - PATCH  /v1/payments/{id}                Refund, capture, void
+ * - DELETE /v1/payments/{id}                Cancel
+ * - GET    /mock/pay/{id}                   Hosted payment page
+ * - PUT    /mock/scenarios                  Replace scripted scenarios
+ * - POST   /mock/payments/{id}/complete     Complete a payment ({ outcome })
+ * - GET    /mock/payments                   List payments
+ * - POST   /mock/reset                      Forget everything
+ */
+
+async function handle(request: NextRequest) {
+  if (!isTatraPayMockEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+  return getTatraPayMock().handle(request)
+}
+
+export const GET = handle
+export const POST = handle
+export const PUT = handle
+export const PATCH = handle
+export const DELETE = handle
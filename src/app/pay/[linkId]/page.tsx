@@ -0,0 +1,20 @@
+import { Suspense } from 'react'
+import { resolveLanguage, translate } from '@/lib/i18n'
+import { PayContent } from './pay-content'
+
+// Rendered on the server so the loading text is in the ?language= of the URL
+export default async function PaymentLinkPage({ searchParams }: {
+  searchParams: Promise<{ language?: string | string[] }>
+}) {
+  const language = resolveLanguage((await searchParams).language)
+
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gradient-to-b from-gray-900 to-black flex items-center justify-center">
+        <div className="animate-pulse text-white">{translate('common.loading', language)}</div>
+      </div>
+    }>
+      <PayContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,130 @@
+'use client'
+
+import { useParams, useRouter, useSearchParams } from 'next/navigation'
+import { useEffect, useRef, useState } from 'react'
+import { isLanguage, Language, resolveLanguage, translate } from '@/lib/i18n'
+
+/**
+ * Response of POST /api/payment-links/[linkId]/pay
+ */
+interface PaymentLinkResponse {
+  success: boolean
+  error?: string
+  language?: Language
+  link?: {
+    state: 'active' | 'paid' | 'expired'
+    description: string
+    formattedAmount: string
+    expiresAt: string
+  }
+  orderId?: string
+  statusToken?: string
+  redirectUrl?: string
+  bankTransfer?: unknown
+}
+
+export function PayContent() {
+  const router = useRouter()
+  const { linkId } = useParams<{ linkId: string }>()
+  const searchParams = useSearchParams()
+  const languageParam = searchParams.get('language')
+  const [result, setResult] = useState<PaymentLinkResponse>()
+  // The route picks the language (query param, then Accept-Language)
+  const language = resolveLanguage(result?.language ?? languageParam)
+  const started = useRef(false)
+
+  // The payment is created here rather than on the server render, so link
+  // previews and email scanners that only fetch the page never start one
+  useEffect(() => {
+    if (started.current) return
+    started.current = true
+
+    async function start() {
+      try {
+        const response = await fetch(`/api/payment-links/${encodeURIComponent(linkId)}/pay`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ language: isLanguage(languageParam) ? languageParam : undefined })
+        })
+        const data: PaymentLinkResponse = await response.json()
+        setResult(data)
+
+        if (!data.success || data.link?.state !== 'active') return
+
+        if (data.redirectUrl) {
+          window.location.assign(data.redirectUrl)
+        } else if (data.bankTransfer && data.orderId && data.statusToken) {
+          router.replace(`/payment/pending?${new URLSearchParams({
+            orderId: data.orderId,
+            token: data.statusToken,
+            message: translate('pending.payByTransfer', resolveLanguage(data.language)),
+            language: resolveLanguage(data.language)
+          })}`)
+        }
+      } catch {
+        setResult({ success: false, error: translate('error.paymentError', resolveLanguage(languageParam)) })
+      }
+    }
+
+    start()
+  }, [linkId, languageParam, router])
+
+  const link = result?.link
+  const title = translate(!result
+    ? 'link.preparing'
+    : !result.success
+      ? 'link.unavailable'
+      : link?.state === 'paid'
+        ? 'link.paidTitle'
+        : link?.state === 'expired'
+          ? 'link.expiredTitle'
+          : 'link.redirectingTitle', language)
+
+  const message = !result
+    ? translate('link.wait', language)
+    : !result.success
+      ? result.error || translate('error.paymentLinkNotFound', language)
+      : translate(link?.state === 'paid'
+        ? 'link.paid'
+        : link?.state === 'expired'
+          ? 'link.expired'
+          : 'link.redirecting', language)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-900 to-black flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white/10 backdrop-blur-lg rounded-2xl p-8 text-center">
+        <h1 className="text-3xl font-bold text-white mb-4">
+          {title}
+        </h1>
+
+        <p className="text-gray-300 mb-6">
+          {message}
+        </p>
+
+        {/* What the link is for */}
+        {link && (
+          <div className="bg-white/5 rounded-lg p-4 text-left space-y-2 text-sm">
+            <div className="flex justify-between gap-4">
+              <span className="text-gray-500">{translate('link.description', language)}</span>
+              <span className="text-white text-right">{link.description}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">{translate('pending.amount', language)}</span>
+              <span className="text-white font-mono">{link.formattedAmount}</span>
+            </div>
+            {link.state === 'active' && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">{translate('link.validUntil', language)}</span>
+                <span className="text-white font-mono">{new Date(link.expiresAt).toLocaleDateString()}</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {!result && (
+          <div className="animate-pulse text-white mt-6">{translate('common.loading', language)}</div>
+        )}
+      </div>
+    </div>
+  )
+}
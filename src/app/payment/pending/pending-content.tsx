@@ -0,0 +1,200 @@
+'use client'
+
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import Image from 'next/image'
+import { useEffect, useState } from 'react'
+import { resolveLanguage, translate } from '@/lib/i18n'
+
+// How often to ask whether the transfer has settled, when streaming is unavailable
+const POLL_INTERVAL_MS = 5000
+
+/**
+ * Response of GET /api/payment/status/[orderId]
+ */
+interface OrderStatus {
+  status: 'pending' | 'authorized' | 'completed' | 'failed'
+  bankTransfer?: {
+    iban: string
+    bic: string
+    variableSymbol: string
+    formattedAmount: string
+    dueDate: string
+  }
+}
+
+function formatIban(iban: string): string {
+  return iban.replace(/\s/g, '').replace(/(.{4})/g, '$1 ').trim()
+}
+
+export function PendingContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const language = resolveLanguage(searchParams.get('language'))
+  const message = searchParams.get('message') || translate('pending.message', language)
+  const orderId = searchParams.get('orderId')
+  const token = searchParams.get('token')
+  const [bankTransfer, setBankTransfer] = useState<OrderStatus['bankTransfer']>()
+
+  // Load the bank details, then follow the status until the webhook settles the payment
+  useEffect(() => {
+    if (!orderId || !token) return
+    const id = orderId
+    const query = new URLSearchParams({ token, language })
+    const statusUrl = `/api/payment/status/${encodeURIComponent(id)}`
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let events: EventSource | undefined
+    let stopped = false
+
+    function stop() {
+      stopped = true
+      events?.close()
+      clearTimeout(timer)
+    }
+
+    // Returns true once the customer has been sent to a result page
+    function handle(order: OrderStatus): boolean {
+      setBankTransfer(order.bankTransfer)
+
+      if (order.status === 'completed' || order.status === 'authorized') {
+        stop()
+        router.replace(`/payment/success?${new URLSearchParams({
+          message: translate('success.received', language),
+          language
+        })}`)
+        return true
+      }
+      if (order.status === 'failed') {
+        stop()
+        router.replace(`/payment/failed?${new URLSearchParams({
+          message: translate('failed.notCompleted', language),
+          orderId: id,
+          language
+        })}`)
+        return true
+      }
+      return false
+    }
+
+    // Fallback when streaming is unavailable (old browsers, proxies)
+    async function poll() {
+      try {
+        if (!document.hidden) {
+          const response = await fetch(`${statusUrl}?${query}`, { cache: 'no-store' })
+          if (response.ok && !stopped && handle(await response.json())) return
+        }
+      } catch {
+        // Network hiccup - try again on the next tick
+      }
+      if (!stopped) {
+        timer = setTimeout(poll, POLL_INTERVAL_MS)
+      }
+    }
+
+    if (typeof EventSource === 'undefined') {
+      poll()
+    } else {
+      events = new EventSource(`${statusUrl}/stream?${query}`)
+      events.addEventListener('status', (event) => {
+        handle(JSON.parse((event as MessageEvent).data))
+      })
+      events.onerror = () => {
+        // Closed after MAX_STREAM_MS reconnects on its own - only give up
+        // on streaming when the connection cannot be (re)established
+        if (events?.readyState === EventSource.CLOSED && !stopped) {
+          events = undefined
+          poll()
+        }
+      }
+    }
+
+    return stop
+  }, [orderId, token, language, router])
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-900 to-black flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white/10 backdrop-blur-lg rounded-2xl p-8 text-center">
+        {/* Pending Icon */}
+        <div className="w-20 h-20 bg-yellow-500/20 rounded-full flex items-center justify-center mx-auto mb-6">
+          <svg className="w-12 h-12 text-yellow-500 animate-pulse" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </div>
+
+        <h1 className="text-3xl font-bold text-white mb-4">
+          {translate('pending.title', language)}
+        </h1>
+
+        <p className="text-gray-300 mb-6">
+          {message}
+        </p>
+
+        <div className="bg-white/5 rounded-lg p-4 mb-6">
+          <h3 className="font-medium text-white mb-2">{translate('pending.instructionsTitle', language)}</h3>
+          <p className="text-sm text-gray-400 mb-4">
+            {translate('pending.instructions', language)}
+          </p>
+
+          {/* PAY by square QR code for mobile banking apps - bank transfers only */}
+          {bankTransfer && orderId && token && (
+            <div className="bg-white rounded-lg p-3 mb-4 mx-auto w-48">
+              <Image
+                src={`/api/payment/qr?${new URLSearchParams({ orderId, token })}`}
+                alt="PAY by square QR code"
+                width={168}
+                height={168}
+                unoptimized
+                className="w-full h-auto"
+              />
+              <p className="text-xs text-gray-600 mt-2">{translate('pending.scanQr', language)}</p>
+            </div>
+          )}
+
+          {/* Bank details of this order */}
+          {bankTransfer && (
+            <div className="text-left space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-500">{translate('pending.amount', language)}</span>
+                <span className="text-white font-mono">{bankTransfer.formattedAmount}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">IBAN:</span>
+                <span className="text-white font-mono">{formatIban(bankTransfer.iban)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">BIC/SWIFT:</span>
+                <span className="text-white font-mono">{bankTransfer.bic}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">{translate('pending.variableSymbol', language)}</span>
+                <span className="text-white font-mono">{bankTransfer.variableSymbol}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">{translate('pending.dueDate', language)}</span>
+                <span className="text-white font-mono">{bankTransfer.dueDate}</span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <Link
+          href="/"
+          className="inline-flex items-center justify-center w-full bg-yellow-600 hover:bg-yellow-700 text-white font-medium py-3 px-6 rounded-lg transition-colors"
+        >
+          {translate('common.backHome', language)}
+          <svg className="w-4 h-4 ml-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" />
+          </svg>
+        </Link>
+
+        <p className="text-xs text-gray-500 mt-4">
+          {translate('pending.questions', language)}{' '}
+          <a href="mailto:support@example.com" className="text-blue-400 hover:underline">
+            support@example.com
+          </a>
+        </p>
+      </div>
+    </div>
+  )
+}
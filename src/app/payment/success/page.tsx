@@ -1,63 +1,17 @@
-'use client'
-
-import { useSearchParams } from 'next/navigation'
-import Link from 'next/link'
 import { Suspense } from 'react'
+import { resolveLanguage, translate } from '@/lib/i18n'
+import { SuccessContent } from './success-content'
 
-function SuccessContent() {
-  const searchParams = useSearchParams()
-  const message = searchParams.get('message') || 'Payment was successful'
-
-  return (
-    <div className="min-h-screen bg-gradient-to-b from-gray-900 to-black flex items-center justify-center p-4">
-      <div className="max-w-md w-full bg-white/10 backdrop-blur-lg rounded-2xl p-8 text-center">
-        {/* Success Icon */}
-        <div className="w-20 h-20 bg-green-500/20 rounded-full flex items-center justify-center mx-auto mb-6">
-          <svg className="w-12 h-12 text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-          </svg>
-        </div>
-
-        <h1 className="text-3xl font-bold text-white mb-4">
-          Thank you for your payment!
-        </h1>
-
-        <p className="text-gray-300 mb-6">
-          {message}
-        </p>
-
-        <div className="bg-white/5 rounded-lg p-4 mb-6">
-          <div className="flex items-center gap-2 text-green-400 mb-2">
-            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
-            </svg>
-            <span className="font-medium">Email sent</span>
-          </div>
-          <p className="text-sm text-gray-400">
-            We've sent a confirmation to your email address.
-            Please also check your spam folder.
-          </p>
-        </div>
-
-        <Link
-          href="/"
-          className="inline-flex items-center justify-center w-full bg-green-600 hover:bg-green-700 text-white font-medium py-3 px-6 rounded-lg transition-colors"
-        >
-          Back to Home
-          <svg className="w-4 h-4 ml-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" />
-          </svg>
-        </Link>
-      </div>
-    </div>
-  )
-}
+// Rendered on the server so the loading text is in the ?language= of the URL
+export default async function PaymentSuccessPage({ searchParams }: {
+  searchParams: Promise<{ language?: string | string[] }>
+}) {
+  const language = resolveLanguage((await searchParams).language)
 
-export default function PaymentSuccessPage() {
   return (
     <Suspense fallback={
       <div className="min-h-screen bg-gradient-to-b from-gray-900 to-black flex items-center justify-center">
-        <div className="animate-pulse text-white">Loading...</div>
+        <div className="animate-pulse text-white">{translate('common.loading', language)}</div>
       </div>
     }>
       <SuccessContent />
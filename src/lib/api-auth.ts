@@ -0,0 +1,131 @@
+/**
+ * Authentication for payment routes
+ *
+ * Cancel, refund and similar routes move money and must never be callable
+ * by customers. They require a shared API key:
+ *
+ *   Authorization: Bearer <TATRAPAY_ADMIN_API_KEY>
+ *
+ * Customer-facing status routes take an order token instead, which only
+ * grants access to a single order. The create route returns it and the
+ * callback passes it to the result pages.
+ *
+ * Configured via environment variables:
+ * - TATRAPAY_ADMIN_API_KEY: key for merchant routes (routes reject all requests if unset)
+ * - TATRAPAY_ORDER_TOKEN_SECRET: signs order tokens (required in production,
+ *   a random per-process secret is used in development)
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { getLogger } from './logger'
+
+// =============================================================================
+// Merchant Routes
+// =============================================================================
+
+/**
+ * Check that a request carries the merchant API key
+ *
+ * @example
+ * ```typescript
+ * if (!isAuthorizedAdminRequest(request.headers)) {
+ *   return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+ * }
+ * ```
+ */
+export function isAuthorizedAdminRequest(headers: Headers): boolean {
+  const apiKey = process.env.TATRAPAY_ADMIN_API_KEY
+  if (!apiKey) {
+    getLogger().warn('TATRAPAY_ADMIN_API_KEY not set - merchant routes are disabled')
+    return false
+  }
+
+  const authorization = headers.get('authorization') || ''
+  const token = authorization.startsWith('Bearer ') ? authorization.slice(7) : ''
+
+  const expected = Buffer.from(apiKey)
+  const received = Buffer.from(token)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+// =============================================================================
+// Order Tokens
+// =============================================================================
+
+const DEFAULT_ORDER_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60  // Bank transfers can take days
+
+// Kept on globalThis so development tokens survive Next.js hot reloads
+const globalForTokens = globalThis as unknown as { tatraPayOrderTokenSecret?: string }
+
+function getOrderTokenSecret(): string {
+  const secret = process.env.TATRAPAY_ORDER_TOKEN_SECRET
+  if (secret) return secret
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('TATRAPAY_ORDER_TOKEN_SECRET must be set in production')
+  }
+  if (!globalForTokens.tatraPayOrderTokenSecret) {
+    getLogger().warn('TATRAPAY_ORDER_TOKEN_SECRET not set - order tokens are only valid until restart')
+    globalForTokens.tatraPayOrderTokenSecret = randomBytes(32).toString('hex')
+  }
+  return globalForTokens.tatraPayOrderTokenSecret
+}
+
+function signOrderToken(orderId: string, expiresAt: number): string {
+  return createHmac('sha256', getOrderTokenSecret())
+    .update(`${orderId}.${expiresAt}`)
+    .digest('base64url')
+}
+
+/**
+ * Create a token that grants read access to one order's payment status
+ *
+ * @example
+ * ```typescript
+ * const token = createOrderAccessToken('ORDER-123')
+ * // GET /api/payment/status/ORDER-123?token=...
+ * ```
+ */
+export function createOrderAccessToken(
+  orderId: string,
+  options: { ttlSeconds?: number } = {}
+): string {
+  const expiresAt = Math.floor(Date.now() / 1000) + (options.ttlSeconds ?? DEFAULT_ORDER_TOKEN_TTL_SECONDS)
+  return `${expiresAt}.${signOrderToken(orderId, expiresAt)}`
+}
+
+/**
+ * Check that a token was issued for this order and has not expired
+ */
+export function verifyOrderAccessToken(orderId: string, token: string): boolean {
+  const [expiresAtPart, signature, ...rest] = token.split('.')
+  const expiresAt = Number(expiresAtPart)
+  if (rest.length > 0 || !signature || !Number.isInteger(expiresAt)) return false
+  if (expiresAt < Date.now() / 1000) return false
+
+  const expected = Buffer.from(signOrderToken(orderId, expiresAt))
+  const received = Buffer.from(signature)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+/**
+ * Check that a request carries a valid token for the order
+ *
+ * The token is read from `Authorization: Bearer <token>` or, for
+ * EventSource which cannot set headers, the `token` query parameter.
+ *
+ * @example
+ * ```typescript
+ * if (!isAuthorizedOrderRequest(request, orderId)) {
+ *   return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+ * }
+ * ```
+ */
+export function isAuthorizedOrderRequest(request: Request, orderId: string): boolean {
+  const authorization = request.headers.get('authorization') || ''
+  const token = authorization.startsWith('Bearer ')
+    ? authorization.slice(7)
+    : new URL(request.url).searchParams.get('token') || ''
+
+  return token !== '' && verifyOrderAccessToken(orderId, token)
+}
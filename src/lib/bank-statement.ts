@@ -0,0 +1,580 @@
+/**
+ * Bank statement import for BANK_TRANSFER / QR_PAY payments
+ *
+ * TatraPay+ only hands out the payment details (IBAN + variable symbol) of a
+ * bank transfer - it does not tell us the money arrived. This module reads
+ * the merchant account's statements and matches incoming transfers to
+ * stored payments by variable symbol and amount.
+ *
+ * Supported formats:
+ * - ISO 20022 camt.053 (XML), as exported by most banks
+ * - Tatra banka CSV export (columns are found by their header names)
+ *
+ * @example
+ * ```typescript
+ * const report = await importBankStatement(await readFile('statement.xml', 'utf8'))
+ * console.log(`${report.paid.length} paid, ${report.unmatched.length} unmatched`)
+ * ```
+ */
+
+import { isPaymentFailed, isPaymentSuccessful, TatraPayStatus } from './tatrapay'
+import { addMoney, compareMoney, createMoney, fromDecimal, Money } from './money'
+import { getPaymentStore, PaymentStore, StoredBankCredit, StoredPayment } from './payment-store'
+import { applyPaymentStatus, canTransition } from './payment-state'
+import { ValidationError } from './tatrapay-errors'
+import { getLogger } from './logger'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type BankStatementFormat = 'camt053' | 'csv'
+
+/**
+ * Single booked transaction of a statement
+ */
+export interface BankStatementEntry {
+  reference: string            // Bank reference, stable across re-exports
+  direction: 'credit' | 'debit'
+  amount: Money                // Always positive
+  bookedAt: string             // YYYY-MM-DD
+  variableSymbol?: string
+  counterpartyName?: string
+  counterpartyIban?: string
+  description?: string
+}
+
+export interface BankStatement {
+  format: BankStatementFormat
+  entries: BankStatementEntry[]
+}
+
+/**
+ * Credit matched to a payment
+ */
+export interface BankStatementMatch {
+  entry: BankStatementEntry
+  orderId: string
+  paymentId: string
+  expected: Money              // Payment amount
+  received: Money              // Total received for the payment, this credit included
+  status: TatraPayStatus       // Payment status after the import
+}
+
+/**
+ * Why a credit could not be applied to a payment
+ */
+export type BankStatementIssueReason =
+  | 'no_variable_symbol'       // Customer left out the variable symbol
+  | 'unknown_variable_symbol'  // No payment with this variable symbol
+  | 'currency_mismatch'        // Paid in a different currency than the payment
+  | 'ambiguous'                // Several open payments match
+  | 'payment_closed'           // Payment was cancelled or rejected - refund the customer
+
+export interface BankStatementIssue {
+  entry: BankStatementEntry
+  reason: BankStatementIssueReason
+  orderId?: string
+  paymentId?: string
+}
+
+/**
+ * Summary of a statement import
+ */
+export interface BankStatementReport {
+  format: BankStatementFormat
+  importedAt: string
+  dryRun: boolean
+  credits: number
+  debits: number                                   // Outgoing transactions, ignored
+  paid: BankStatementMatch[]                       // Exact amount received, now ACSC
+  underpaid: BankStatementMatch[]                  // Less than the amount so far, now PART
+  overpaid: BankStatementMatch[]                   // More than the amount, now ACSC
+  duplicates: Array<BankStatementMatch & {
+    reason: 'already_imported' | 'already_paid'    // Same statement imported twice / paid twice
+  }>
+  unmatched: BankStatementIssue[]
+}
+
+export interface BankStatementImportOptions {
+  store?: PaymentStore
+  format?: BankStatementFormat  // Default: detected from the content
+  dryRun?: boolean              // Report matches without updating payments
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse a camt.053 or Tatra banka CSV statement
+ *
+ * @throws ValidationError if the statement cannot be read
+ */
+export function parseBankStatement(content: string, format?: BankStatementFormat): BankStatement {
+  const text = content.replace(/^\uFEFF/, '')
+  const detected = format ?? (text.trimStart().startsWith('<') ? 'camt053' : 'csv')
+
+  return {
+    format: detected,
+    entries: detected === 'camt053' ? parseCamt053(text) : parseTatraBankaCsv(text)
+  }
+}
+
+/**
+ * Parse an ISO 20022 camt.053 statement (any version, namespace prefixes allowed)
+ *
+ * Batch bookings (one Ntry with several TxDtls) become one entry per
+ * transaction.
+ */
+export function parseCamt053(xml: string): BankStatementEntry[] {
+  if (!/<(?:\w+:)?BkToCstmrStmt\b/.test(xml)) {
+    throw new ValidationError('Bank statement: Not a camt.053 document', {
+      fields: [{ field: 'body', code: 'INVALID_FORMAT', message: 'Expected a BkToCstmrStmt document' }]
+    })
+  }
+
+  const entries: BankStatementEntry[] = []
+
+  xmlElements(xml, 'Ntry').forEach((ntry, ntryIndex) => {
+    const direction = xmlText(ntry, ['CdtDbtInd']) === 'DBIT' ? 'debit' : 'credit'
+    const bookingDate = xmlElements(ntry, 'BookgDt')[0] ?? ''
+    const bookedAt = (xmlText(bookingDate, ['Dt']) ?? xmlText(bookingDate, ['DtTm']) ?? '').slice(0, 10)
+    const entryReference = xmlText(ntry, ['AcctSvcrRef']) ?? xmlText(ntry, ['NtryRef'])
+    const entryAmount = readXmlAmount(ntry)
+
+    const transactions = xmlElements(ntry, 'TxDtls')
+    const details = transactions.length > 0 ? transactions : ['']
+
+    details.forEach((tx, txIndex) => {
+      const txAmount = details.length > 1 ? readXmlAmount(xmlElements(tx, 'TxAmt')[0] ?? tx) : undefined
+      const amount = txAmount ?? entryAmount
+      if (!amount) {
+        throw new ValidationError(`Bank statement: Entry ${ntryIndex + 1} has no amount`, {
+          fields: [{ field: `entries.${ntryIndex}.amount`, code: 'REQUIRED', message: 'Entry has no Amt element' }]
+        })
+      }
+
+      const related = xmlElements(tx, 'RltdPties')[0] ?? ''
+      const counterparty = direction === 'credit' ? 'Dbtr' : 'Cdtr'
+      const remittance = xmlElements(tx, 'RmtInf')[0] ?? ''
+      const endToEndId = xmlText(tx, ['Refs', 'EndToEndId'])
+      const structuredReference = xmlText(remittance, ['Strd', 'CdtrRefInf', 'Ref'])
+      const unstructured = xmlElements(remittance, 'Ustrd').map(decodeXml).join(' ') || undefined
+
+      const entry: Omit<BankStatementEntry, 'reference'> = {
+        direction,
+        amount,
+        bookedAt,
+        variableSymbol: findVariableSymbol(endToEndId, structuredReference, unstructured),
+        counterpartyName: xmlText(xmlElements(related, counterparty)[0] ?? '', ['Nm']),
+        counterpartyIban: xmlText(related, [`${counterparty}Acct`, 'Id', 'IBAN']),
+        description: unstructured
+      }
+
+      const txReference = xmlText(tx, ['Refs', 'AcctSvcrRef'])
+      const reference = txReference
+        ?? (entryReference && (details.length > 1 ? `${entryReference}#${txIndex + 1}` : entryReference))
+        ?? syntheticReference(entry)
+
+      entries.push({ reference, ...entry })
+    })
+  })
+
+  return entries
+}
+
+// Normalized header name -> field, for the Tatra banka CSV export
+const CSV_COLUMNS: Record<string, keyof CsvColumns> = {
+  datumzauctovania: 'bookedAt',
+  datumspracovania: 'bookedAt',
+  datumuctovania: 'bookedAt',
+  datum: 'bookedAt',
+  bookingdate: 'bookedAt',
+  suma: 'amount',
+  ciastka: 'amount',
+  amount: 'amount',
+  mena: 'currency',
+  currency: 'currency',
+  vs: 'variableSymbol',
+  variabilnysymbol: 'variableSymbol',
+  variablesymbol: 'variableSymbol',
+  protiucet: 'counterpartyIban',
+  ibanprotiuctu: 'counterpartyIban',
+  cisloprotiuctu: 'counterpartyIban',
+  counterpartyaccount: 'counterpartyIban',
+  nazovprotiuctu: 'counterpartyName',
+  protistrana: 'counterpartyName',
+  counterpartyname: 'counterpartyName',
+  referencia: 'reference',
+  referenciatransakcie: 'reference',
+  idtransakcie: 'reference',
+  transactionid: 'reference',
+  popis: 'description',
+  poznamka: 'description',
+  informaciapreprijemcu: 'description',
+  description: 'description'
+}
+
+interface CsvColumns {
+  bookedAt?: number
+  amount?: number
+  currency?: number
+  variableSymbol?: number
+  counterpartyIban?: number
+  counterpartyName?: number
+  reference?: number
+  description?: number
+}
+
+/**
+ * Parse a Tatra banka CSV statement export
+ *
+ * Columns are located by their header (Slovak or English, e.g. "Suma",
+ * "Mena", "Variabilný symbol"). Negative amounts are debits. Amounts without
+ * a currency column are read as EUR.
+ */
+export function parseTatraBankaCsv(csv: string): BankStatementEntry[] {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim() !== '')
+  if (lines.length === 0) return []
+
+  const delimiter = lines[0].split(';').length >= lines[0].split(',').length ? ';' : ','
+  const header = parseCsvLine(lines[0], delimiter)
+
+  const columns: CsvColumns = {}
+  header.forEach((name, index) => {
+    const field = CSV_COLUMNS[normalizeHeader(name)]
+    if (field && columns[field] === undefined) columns[field] = index
+  })
+
+  if (columns.amount === undefined) {
+    throw new ValidationError('Bank statement: CSV has no amount column', {
+      fields: [{ field: 'amount', code: 'REQUIRED', message: 'Expected a "Suma" or "Amount" column' }]
+    })
+  }
+
+  return lines.slice(1).map((line, index) => {
+    const cells = parseCsvLine(line, delimiter)
+    const cell = (column?: number) => column === undefined ? undefined : cells[column]?.trim() || undefined
+
+    const rawAmount = cell(columns.amount)
+    const value = rawAmount === undefined ? NaN : parseDecimal(rawAmount)
+    if (!Number.isFinite(value)) {
+      throw new ValidationError(`Bank statement: Invalid amount "${rawAmount ?? ''}" on line ${index + 2}`, {
+        fields: [{ field: `lines.${index + 2}.amount`, code: 'INVALID_AMOUNT', message: 'Expected a decimal amount' }]
+      })
+    }
+
+    const description = cell(columns.description)
+    const entry: Omit<BankStatementEntry, 'reference'> = {
+      direction: value < 0 ? 'debit' : 'credit',
+      amount: fromDecimal(Math.abs(value), cell(columns.currency)?.toUpperCase() ?? 'EUR'),
+      bookedAt: parseDate(cell(columns.bookedAt)),
+      variableSymbol: findVariableSymbol(cell(columns.variableSymbol), description),
+      counterpartyName: cell(columns.counterpartyName),
+      counterpartyIban: cell(columns.counterpartyIban)?.replace(/\s/g, ''),
+      description
+    }
+
+    return { reference: cell(columns.reference) ?? syntheticReference(entry), ...entry }
+  })
+}
+
+// -----------------------------------------------------------------------------
+// Parsing helpers
+// -----------------------------------------------------------------------------
+
+// Contents of all <name> elements, with or without a namespace prefix
+function xmlElements(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`, 'g')
+  return Array.from(xml.matchAll(pattern), match => match[1])
+}
+
+// Text of the first element at the path (e.g. ['Refs', 'EndToEndId'])
+function xmlText(xml: string, path: string[]): string | undefined {
+  let current: string | undefined = xml
+  for (const name of path) {
+    current = current === undefined ? undefined : xmlElements(current, name)[0]
+  }
+  const text = current === undefined ? undefined : decodeXml(current).trim()
+  return text || undefined
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+}
+
+// First <Amt Ccy="..."> of an element (entry amount or transaction amount)
+function readXmlAmount(xml: string): Money | undefined {
+  const match = /<(?:\w+:)?Amt\s+Ccy="([A-Z]{3})"\s*>([^<]+)</.exec(xml)
+  return match ? fromDecimal(Number(match[2].trim()), match[1]) : undefined
+}
+
+/**
+ * Variable symbol from a payment reference or note
+ *
+ * Accepts the Slovak "/VS123/SS/KS0308" format, "VS: 123" in free text and
+ * references consisting of digits only.
+ */
+function findVariableSymbol(...sources: Array<string | undefined>): string | undefined {
+  for (const source of sources) {
+    if (!source) continue
+    const tagged = /(?:^|[^A-Z])VS[\s:.]*(\d{1,10})(?!\d)/i.exec(source)
+    if (tagged) return tagged[1]
+    if (/^\d{1,10}$/.test(source.trim())) return source.trim()
+  }
+  return undefined
+}
+
+// Stable reference for entries without a bank reference, so re-imports are detected
+function syntheticReference(entry: Omit<BankStatementEntry, 'reference'>): string {
+  return [
+    entry.bookedAt,
+    entry.direction,
+    entry.amount.amount,
+    entry.amount.currency,
+    entry.variableSymbol ?? '',
+    entry.counterpartyIban ?? ''
+  ].join(':')
+}
+
+function normalizeHeader(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function parseCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      cells.push(cell)
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  cells.push(cell)
+  return cells
+}
+
+// "1 234,56", "-79,00" and "79.00" style amounts
+function parseDecimal(value: string): number {
+  const compact = value.replace(/[\s\u00A0]/g, '')
+  const normalized = compact.includes(',')
+    ? compact.replace(/\./g, '').replace(',', '.')
+    : compact
+  return normalized === '' ? NaN : Number(normalized)
+}
+
+// "30.01.2025" or "2025-01-30" -> "2025-01-30"
+function parseDate(value: string | undefined): string {
+  if (!value) return ''
+  const local = /^(\d{1,2})\.\s*(\d{1,2})\.\s*(\d{4})/.exec(value)
+  if (local) {
+    return `${local[3]}-${local[2].padStart(2, '0')}-${local[1].padStart(2, '0')}`
+  }
+  return value.slice(0, 10)
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * Import a statement and settle the bank transfers it contains
+ *
+ * Each credit is matched to a stored payment by variable symbol (and by
+ * amount when several payments share it). Unambiguous matches update the
+ * payment through applyPaymentStatus(), so lifecycle hooks fire as usual:
+ * - Full amount received: ACSC
+ * - More than the amount: ACSC, reported as overpaid
+ * - Less than the amount: PART until the rest arrives
+ *
+ * Credits are recorded on the payment with their bank reference, so
+ * importing the same statement again changes nothing.
+ */
+export async function importBankStatement(
+  content: string,
+  options: BankStatementImportOptions = {}
+): Promise<BankStatementReport> {
+  const statement = parseBankStatement(content, options.format)
+  const store = options.store ?? getPaymentStore()
+  const dryRun = options.dryRun ?? false
+
+  const report: BankStatementReport = {
+    format: statement.format,
+    importedAt: new Date().toISOString(),
+    dryRun,
+    credits: 0,
+    debits: 0,
+    paid: [],
+    underpaid: [],
+    overpaid: [],
+    duplicates: [],
+    unmatched: []
+  }
+
+  // Dry runs keep their would-be changes here so later entries see them
+  const simulated = new Map<string, StoredPayment>()
+
+  for (const entry of statement.entries) {
+    if (entry.direction === 'debit') {
+      report.debits++
+      continue
+    }
+    report.credits++
+
+    if (!entry.variableSymbol) {
+      report.unmatched.push({ entry, reason: 'no_variable_symbol' })
+      continue
+    }
+
+    const candidates = (await store.listByVariableSymbol(entry.variableSymbol))
+      .map(payment => simulated.get(payment.paymentId) ?? payment)
+    if (candidates.length === 0) {
+      report.unmatched.push({ entry, reason: 'unknown_variable_symbol' })
+      continue
+    }
+
+    const sameCurrency = candidates.filter(payment => payment.amount.currency === entry.amount.currency)
+    if (sameCurrency.length === 0) {
+      report.unmatched.push({ entry, reason: 'currency_mismatch', ...identify(candidates[0]) })
+      continue
+    }
+
+    const imported = sameCurrency.find(payment =>
+      payment.bankCredits?.some(credit => credit.reference === entry.reference)
+    )
+    if (imported) {
+      report.duplicates.push({ ...toMatch(entry, imported, receivedTotal(imported)), reason: 'already_imported' })
+      continue
+    }
+
+    const payment = pickPayment(sameCurrency, entry.amount)
+    if (!payment) {
+      report.unmatched.push({ entry, reason: 'ambiguous' })
+      continue
+    }
+    if (isPaymentFailed(payment.status)) {
+      report.unmatched.push({ entry, reason: 'payment_closed', ...identify(payment) })
+      continue
+    }
+
+    const alreadyPaid = isPaymentSuccessful(payment.status)
+    const received = addMoney(receivedTotal(payment), entry.amount)
+    const comparison = compareMoney(received, payment.amount)
+    const status: TatraPayStatus = comparison < 0 ? 'PART' : 'ACSC'
+    const credit: StoredBankCredit = {
+      reference: entry.reference,
+      amount: entry.amount.amount,
+      bookedAt: entry.bookedAt,
+      ...(entry.counterpartyIban && { counterpartyIban: entry.counterpartyIban })
+    }
+
+    let updated: StoredPayment = {
+      ...payment,
+      bankCredits: [...(payment.bankCredits ?? []), credit],
+      status: !alreadyPaid && canTransition(payment.status, status) ? status : payment.status
+    }
+
+    if (dryRun) {
+      simulated.set(payment.paymentId, updated)
+    } else {
+      await store.recordBankCredit(payment.paymentId, credit)
+      if (!alreadyPaid) {
+        const result = await applyPaymentStatus(payment.paymentId, {
+          status,
+          source: 'bank_statement',
+          transactionId: entry.reference,
+          reason: comparison < 0 ? 'underpaid' : comparison > 0 ? 'overpaid' : undefined
+        }, { store })
+        if (result) updated = result.payment
+      }
+    }
+
+    const match = toMatch(entry, updated, received)
+    if (alreadyPaid) {
+      report.duplicates.push({ ...match, reason: 'already_paid' })
+    } else if (comparison < 0) {
+      report.underpaid.push(match)
+    } else if (comparison > 0) {
+      report.overpaid.push(match)
+    } else {
+      report.paid.push(match)
+    }
+  }
+
+  getLogger().info('Bank statement imported', {
+    format: report.format,
+    credits: report.credits,
+    paid: report.paid.length,
+    underpaid: report.underpaid.length,
+    overpaid: report.overpaid.length,
+    duplicates: report.duplicates.length,
+    unmatched: report.unmatched.length,
+    dryRun
+  })
+
+  return report
+}
+
+// -----------------------------------------------------------------------------
+// Matching helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Payment a credit belongs to, or undefined if it cannot be told apart
+ *
+ * With one candidate it is that payment. Otherwise (e.g. the order was
+ * retried) the only open payment still missing exactly this amount.
+ */
+function pickPayment(candidates: StoredPayment[], amount: Money): StoredPayment | undefined {
+  if (candidates.length === 1) return candidates[0]
+
+  const exact = candidates.filter(payment =>
+    !isPaymentFailed(payment.status) &&
+    !isPaymentSuccessful(payment.status) &&
+    compareMoney(addMoney(receivedTotal(payment), amount), payment.amount) === 0
+  )
+  return exact.length === 1 ? exact[0] : undefined
+}
+
+function receivedTotal(payment: StoredPayment): Money {
+  const total = (payment.bankCredits ?? []).reduce((sum, credit) => sum + credit.amount, 0)
+  return createMoney(total, payment.amount.currency)
+}
+
+function identify(payment: StoredPayment): { orderId: string; paymentId: string } {
+  return { orderId: payment.orderId, paymentId: payment.paymentId }
+}
+
+function toMatch(entry: BankStatementEntry, payment: StoredPayment, received: Money): BankStatementMatch {
+  return {
+    entry,
+    ...identify(payment),
+    expected: payment.amount,
+    received,
+    status: payment.status
+  }
+}
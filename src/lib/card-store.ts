@@ -0,0 +1,233 @@
+/**
+ * Saved card (card-on-file) storage
+ *
+ * Keeps card tokens returned by TatraPay after a payment with
+ * saveCard: true, indexed by your customer ID. Card numbers never reach
+ * your server - only the token and display data (masked number, expiry).
+ *
+ * Ships with memory and JSON file adapters, like payment-store.ts.
+ * For production, implement SavedCardStore on top of your database and
+ * register it with setSavedCardStore().
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { TatraPayStatusResponse } from './tatrapay'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Saved card as persisted by the store
+ */
+export interface SavedCard {
+  id: string                // Local ID, safe to expose to the browser
+  customerId: string
+  token: string             // TatraPay card token - never expose to the browser
+  maskedNumber?: string     // e.g., '411111******1111'
+  expiry?: string           // MM/YY
+  createdAt: string
+}
+
+/**
+ * Saved card data safe to return to clients (no token)
+ */
+export type PublicSavedCard = Omit<SavedCard, 'token'>
+
+/**
+ * Persistence interface for saved cards
+ */
+export interface SavedCardStore {
+  /** Save a card. Returns the existing card if the token is already saved. */
+  save(card: Omit<SavedCard, 'id' | 'createdAt'>): Promise<SavedCard>
+  /** List all cards of a customer */
+  list(customerId: string): Promise<SavedCard[]>
+  /** Find a customer's card by local ID */
+  find(customerId: string, cardId: string): Promise<SavedCard | null>
+  /** Delete a customer's card. Returns false if it did not exist. */
+  delete(customerId: string, cardId: string): Promise<boolean>
+}
+
+// =============================================================================
+// Shared Helpers
+// =============================================================================
+
+function createCard(card: Omit<SavedCard, 'id' | 'createdAt'>): SavedCard {
+  return {
+    ...card,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString()
+  }
+}
+
+/**
+ * Strip the token before sending a card to the browser
+ */
+export function toPublicSavedCard(card: SavedCard): PublicSavedCard {
+  const { token: _token, ...publicCard } = card
+  return publicCard
+}
+
+// =============================================================================
+// Memory Adapter
+// =============================================================================
+
+/**
+ * In-memory store. Data is lost when the process restarts.
+ */
+export function createMemorySavedCardStore(): SavedCardStore {
+  const cards = new Map<string, SavedCard[]>()   // customerId -> cards
+
+  return {
+    async save(card) {
+      const customerCards = cards.get(card.customerId) ?? []
+      const existing = customerCards.find(c => c.token === card.token)
+      if (existing) return existing
+
+      const record = createCard(card)
+      cards.set(card.customerId, [...customerCards, record])
+      return record
+    },
+
+    async list(customerId) {
+      return cards.get(customerId) ?? []
+    },
+
+    async find(customerId, cardId) {
+      return cards.get(customerId)?.find(c => c.id === cardId) ?? null
+    },
+
+    async delete(customerId, cardId) {
+      const customerCards = cards.get(customerId) ?? []
+      const remaining = customerCards.filter(c => c.id !== cardId)
+      cards.set(customerId, remaining)
+      return remaining.length !== customerCards.length
+    }
+  }
+}
+
+// =============================================================================
+// File Adapter
+// =============================================================================
+
+/**
+ * JSON file store. Suitable for a single server instance.
+ */
+export function createFileSavedCardStore(filePath: string): SavedCardStore {
+  let queue: Promise<unknown> = Promise.resolve()
+
+  async function read(): Promise<Record<string, SavedCard[]>> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {}
+      }
+      throw error
+    }
+  }
+
+  async function write(data: Record<string, SavedCard[]>): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    const tmpPath = `${filePath}.${process.pid}.tmp`
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2))
+    await fs.rename(tmpPath, filePath)
+  }
+
+  // Run read-modify-write operations one at a time
+  function exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = queue.then(operation)
+    queue = result.catch(() => undefined)
+    return result
+  }
+
+  return {
+    save(card) {
+      return exclusive(async () => {
+        const data = await read()
+        const customerCards = data[card.customerId] ?? []
+        const existing = customerCards.find(c => c.token === card.token)
+        if (existing) return existing
+
+        const record = createCard(card)
+        data[card.customerId] = [...customerCards, record]
+        await write(data)
+        return record
+      })
+    },
+
+    async list(customerId) {
+      const data = await read()
+      return data[customerId] ?? []
+    },
+
+    async find(customerId, cardId) {
+      const data = await read()
+      return data[customerId]?.find(c => c.id === cardId) ?? null
+    },
+
+    delete(customerId, cardId) {
+      return exclusive(async () => {
+        const data = await read()
+        const customerCards = data[customerId] ?? []
+        const remaining = customerCards.filter(c => c.id !== cardId)
+        if (remaining.length === customerCards.length) return false
+
+        data[customerId] = remaining
+        await write(data)
+        return true
+      })
+    }
+  }
+}
+
+// =============================================================================
+// Default Store
+// =============================================================================
+
+// Kept on globalThis so the memory store survives Next.js hot reloads
+const globalForStore = globalThis as unknown as { tatraPaySavedCardStore?: SavedCardStore }
+
+/**
+ * Get the store used by the card routes
+ *
+ * Configured via environment variables:
+ * - TATRAPAY_STORE: 'memory' (default) or 'file'
+ * - TATRAPAY_CARD_STORE_FILE: path for the file store (default .tatrapay/cards.json)
+ */
+export function getSavedCardStore(): SavedCardStore {
+  if (!globalForStore.tatraPaySavedCardStore) {
+    globalForStore.tatraPaySavedCardStore = process.env.TATRAPAY_STORE === 'file'
+      ? createFileSavedCardStore(process.env.TATRAPAY_CARD_STORE_FILE || '.tatrapay/cards.json')
+      : createMemorySavedCardStore()
+  }
+  return globalForStore.tatraPaySavedCardStore
+}
+
+/**
+ * Replace the store used by the card routes (e.g. with a database adapter)
+ */
+export function setSavedCardStore(store: SavedCardStore): void {
+  globalForStore.tatraPaySavedCardStore = store
+}
+
+/**
+ * Save the card registered during a payment, if TatraPay returned one
+ *
+ * Called by the callback and webhook routes for payments created with
+ * saveCard: true. Safe to call repeatedly - tokens are de-duplicated.
+ */
+export async function saveCardFromPayment(
+  customerId: string,
+  status: TatraPayStatusResponse
+): Promise<SavedCard | null> {
+  if (!status.savedCard) return null
+
+  return getSavedCardStore().save({
+    customerId,
+    token: status.savedCard.token,
+    maskedNumber: status.savedCard.maskedNumber,
+    expiry: status.savedCard.expiry
+  })
+}
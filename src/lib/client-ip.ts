@@ -0,0 +1,83 @@
+/**
+ * Caller IP address behind reverse proxies
+ *
+ * Used for the webhook IP allowlist and for the customer IP address sent
+ * to TatraPay for 3-D Secure risk scoring. Both must come from an address
+ * the caller cannot forge.
+ *
+ * Configured via environment variables:
+ * - TATRAPAY_CLIENT_IP_HEADER: header your platform sets to the caller's IP
+ *   (e.g. 'x-real-ip'), used instead of X-Forwarded-For
+ * - TATRAPAY_TRUSTED_PROXY_HOPS: proxies in front of the app that append to
+ *   X-Forwarded-For (default 1)
+ */
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DEFAULT_TRUSTED_PROXY_HOPS = 1
+
+/**
+ * Where the caller's address is read from
+ */
+export interface ClientIpConfig {
+  clientIpHeader?: string     // Platform header with the caller's IP (overwritten by the proxy)
+  trustedProxyHops: number    // Proxies appending to X-Forwarded-For
+}
+
+/**
+ * Read the client IP settings from environment variables
+ */
+export function getClientIpConfig(): ClientIpConfig {
+  const proxyHops = Number(process.env.TATRAPAY_TRUSTED_PROXY_HOPS)
+
+  return {
+    clientIpHeader: process.env.TATRAPAY_CLIENT_IP_HEADER?.toLowerCase() || undefined,
+    trustedProxyHops: Number.isInteger(proxyHops) && proxyHops > 0 ? proxyHops : DEFAULT_TRUSTED_PROXY_HOPS
+  }
+}
+
+// =============================================================================
+// Client IP
+// =============================================================================
+
+/**
+ * IP address of the caller, as seen by the closest trusted proxy
+ *
+ * The leftmost X-Forwarded-For entries are sent by the client and can be
+ * anything. Each proxy appends the address it received the request from,
+ * so the entry added by the outermost trusted proxy - the Nth from the
+ * right with N trusted proxies - is the first one the client cannot forge.
+ * Platforms that overwrite a header with the caller's address (Vercel and
+ * nginx 'x-real-ip', Cloudflare 'cf-connecting-ip') can name it in
+ * TATRAPAY_CLIENT_IP_HEADER instead.
+ *
+ * @example
+ * ```typescript
+ * // X-Forwarded-For: 6.6.6.6, 203.0.113.7  (one proxy, spoofed first entry)
+ * getClientIp(request.headers)  // '203.0.113.7'
+ * ```
+ */
+export function getClientIp(headers: Headers, config: ClientIpConfig = getClientIpConfig()): string | undefined {
+  if (config.clientIpHeader) {
+    return headers.get(config.clientIpHeader)?.trim() || undefined
+  }
+
+  const forwarded = headers.get('x-forwarded-for')
+    ?.split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean) ?? []
+
+  return forwarded[forwarded.length - config.trustedProxyHops]
+}
+
+/**
+ * Customer IP address for TatraPay (required for every payment)
+ *
+ * Falls back to 127.0.0.1 when no trusted proxy reported one, e.g. in
+ * local development.
+ */
+export function getCustomerIpAddress(headers: Headers, config?: ClientIpConfig): string {
+  return getClientIp(headers, config) || '127.0.0.1'
+}
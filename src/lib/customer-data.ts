@@ -0,0 +1,166 @@
+/**
+ * Customer data for 3-D Secure risk checks
+ *
+ * Card issuers score 3DS2 authentications with the billing and shipping
+ * addresses and the cardholder's phone. Missing or malformed data leads
+ * to more challenges and declines, so createPayment() validates and
+ * normalizes it before it reaches TatraPay:
+ * - Phone numbers are converted to E.164 (+421900123456)
+ * - Countries must be ISO 3166-1 alpha-2 codes
+ * - Address fields are limited to the lengths TatraPay+ accepts
+ */
+
+import type { TatraPayAddress, TatraPayCustomer } from './tatrapay'
+import type { FieldError } from './tatrapay-errors'
+
+// =============================================================================
+// Limits
+// =============================================================================
+
+/**
+ * Maximum lengths of address fields accepted by TatraPay+
+ */
+export const ADDRESS_FIELD_LIMITS = {
+  streetName: 70,
+  buildingNumber: 16,
+  city: 35,
+  postalCode: 16
+} as const
+
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/
+
+// ISO 3166-1 alpha-2
+const COUNTRY_CODES = new Set((
+  'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS ' +
+  'BT BV BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE ' +
+  'EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM ' +
+  'HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC ' +
+  'LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ NA ' +
+  'NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW ' +
+  'SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO ' +
+  'TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW'
+).split(' '))
+
+// National numbers of the TatraPay+ markets: calling code + trunk prefix
+const NATIONAL_PHONE_FORMATS: Record<string, { callingCode: string; trunkPrefix: string }> = {
+  SK: { callingCode: '421', trunkPrefix: '0' },   // 0903 123 456
+  CZ: { callingCode: '420', trunkPrefix: '' }     // 603 123 456
+}
+
+// =============================================================================
+// Normalization
+// =============================================================================
+
+/**
+ * Check for an ISO 3166-1 alpha-2 country code (e.g. 'SK', 'CZ')
+ */
+export function isCountryCode(value: unknown): value is string {
+  return typeof value === 'string' && COUNTRY_CODES.has(value)
+}
+
+/**
+ * Convert a phone number to E.164
+ *
+ * Accepts international numbers (+421..., 00421...) with spaces, dashes,
+ * dots or parentheses, and national Slovak or Czech numbers for the given
+ * country. Returns null if the number cannot be converted.
+ *
+ * @example
+ * ```typescript
+ * toE164Phone('0903 123 456')          // '+421903123456'
+ * toE164Phone('603 123 456', 'CZ')     // '+420603123456'
+ * toE164Phone('00421 903-123-456')     // '+421903123456'
+ * toE164Phone('903 123')               // null
+ * ```
+ */
+export function toE164Phone(phone: string, country = 'SK'): string | null {
+  const compact = phone.trim().replace(/[\s\-.()/]/g, '')
+  let international: string
+
+  if (compact.startsWith('+')) {
+    international = compact
+  } else if (compact.startsWith('00')) {
+    international = `+${compact.slice(2)}`
+  } else {
+    const format = NATIONAL_PHONE_FORMATS[country]
+    if (!format || !compact.startsWith(format.trunkPrefix) || !/^\d+$/.test(compact)) return null
+    international = `+${format.callingCode}${compact.slice(format.trunkPrefix.length)}`
+  }
+
+  return E164_PATTERN.test(international) ? international : null
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Check an address against the TatraPay+ limits
+ *
+ * @param field - Path used in the errors, e.g. 'customer.address'
+ */
+export function validateAddress(address: unknown, field: string): FieldError[] {
+  if (typeof address !== 'object' || address === null || Array.isArray(address)) {
+    return [{ field, code: 'INVALID_TYPE', message: 'Must be an object with at least a country' }]
+  }
+
+  const errors: FieldError[] = []
+  const values = address as Record<string, unknown>
+
+  for (const [key, maxLength] of Object.entries(ADDRESS_FIELD_LIMITS)) {
+    const value = values[key]
+    if (value === undefined || value === null || value === '') continue
+    if (typeof value !== 'string') {
+      errors.push({ field: `${field}.${key}`, code: 'INVALID_TYPE', message: 'Must be a string' })
+    } else if (value.length > maxLength) {
+      errors.push({ field: `${field}.${key}`, code: 'TOO_LONG', message: `Must be at most ${maxLength} characters` })
+    }
+  }
+
+  if (values.country === undefined || values.country === '') {
+    errors.push({ field: `${field}.country`, code: 'REQUIRED', message: 'Is required' })
+  } else if (!isCountryCode(values.country)) {
+    errors.push({
+      field: `${field}.country`,
+      code: 'INVALID_VALUE',
+      message: 'Must be an ISO 3166-1 alpha-2 country code in upper case, e.g. SK'
+    })
+  }
+
+  return errors
+}
+
+/**
+ * Check the phone and addresses of a customer
+ *
+ * National phone numbers are read for the billing address country.
+ */
+export function validateCustomerRiskData(
+  customer: Pick<TatraPayCustomer, 'phone' | 'address' | 'shippingAddress'>,
+  field = 'customer'
+): FieldError[] {
+  const errors: FieldError[] = []
+
+  if (customer.address !== undefined) {
+    errors.push(...validateAddress(customer.address, `${field}.address`))
+  }
+  if (customer.shippingAddress !== undefined) {
+    errors.push(...validateAddress(customer.shippingAddress, `${field}.shippingAddress`))
+  }
+  if (customer.phone && !toE164Phone(customer.phone, getPhoneCountry(customer.address))) {
+    errors.push({
+      field: `${field}.phone`,
+      code: 'INVALID_FORMAT',
+      message: 'Must be a valid phone number, e.g. +421900123456'
+    })
+  }
+
+  return errors
+}
+
+/**
+ * Country used to read national phone numbers (billing country, default SK)
+ */
+export function getPhoneCountry(address?: TatraPayAddress): string {
+  return address && isCountryCode(address.country) ? address.country : 'SK'
+}
@@ -0,0 +1,258 @@
+/**
+ * Customer-facing translations (sk, cs, en)
+ *
+ * Covers status labels, the result pages (success, failed, pending,
+ * payment link) and the messages of customer-facing routes. Pure data -
+ * safe to import from client components.
+ *
+ * The language is the one passed to createPayment(). It is stored with the
+ * payment, carried to the result pages by the callback redirect
+ * (?language=cs) and falls back to the Accept-Language header.
+ */
+
+import type { TatraPayStatus } from './tatrapay'
+
+// =============================================================================
+// Languages
+// =============================================================================
+
+export type Language = 'sk' | 'cs' | 'en'
+
+export const LANGUAGES: readonly Language[] = ['sk', 'cs', 'en']
+
+export const DEFAULT_LANGUAGE: Language = 'sk'
+
+/**
+ * Check for a supported language code
+ */
+export function isLanguage(value: unknown): value is Language {
+  return LANGUAGES.includes(value as Language)
+}
+
+/**
+ * Pick the customer's language
+ *
+ * Uses the first supported of: the explicit language (request body,
+ * query param, stored payment), the Accept-Language header, 'sk'.
+ *
+ * @example
+ * ```typescript
+ * resolveLanguage(searchParams.get('language'), request.headers.get('accept-language'))
+ * resolveLanguage(undefined, 'cs-CZ,cs;q=0.9,en;q=0.8')  // 'cs'
+ * ```
+ */
+export function resolveLanguage(preferred?: unknown, acceptLanguage?: string | null): Language {
+  if (isLanguage(preferred)) return preferred
+  return (acceptLanguage && parseAcceptLanguage(acceptLanguage)) || DEFAULT_LANGUAGE
+}
+
+/**
+ * First supported language of an Accept-Language header, by quality
+ */
+function parseAcceptLanguage(header: string): Language | undefined {
+  const ranges = header.split(',').map((part, index) => {
+    const [tag, ...params] = part.trim().split(';')
+    const q = params.map(p => p.trim()).find(p => p.startsWith('q='))
+    return {
+      language: tag.trim().split('-')[0].toLowerCase(),
+      quality: q ? Number(q.slice(2)) : 1,
+      index
+    }
+  })
+
+  return ranges
+    .filter(range => range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(range => range.language)
+    .find(isLanguage)
+}
+
+// =============================================================================
+// Status Labels
+// =============================================================================
+
+/**
+ * Labels of the ISO 20022 statuses, used by getStatusLabel()
+ */
+export const STATUS_LABELS: Record<TatraPayStatus, Record<Language, string>> = {
+  ACCC: { sk: 'Dokončená', cs: 'Dokončená', en: 'Completed' },
+  ACSC: { sk: 'Vyrovnaná', cs: 'Vypořádaná', en: 'Settled' },
+  ACSP: { sk: 'Spracováva sa', cs: 'Zpracovává se', en: 'Processing' },
+  ACCP: { sk: 'Akceptovaná', cs: 'Akceptovaná', en: 'Accepted' },
+  ACTC: { sk: 'Overená', cs: 'Ověřená', en: 'Verified' },
+  ACWC: { sk: 'Prijatá so zmenou', cs: 'Přijatá se změnou', en: 'Accepted with change' },
+  ACWP: { sk: 'Prijatá', cs: 'Přijatá', en: 'Accepted' },
+  ACFC: { sk: 'Fondy overené', cs: 'Prostředky ověřené', en: 'Funds checked' },
+  RCVD: { sk: 'Prijatá', cs: 'Přijatá', en: 'Received' },
+  PDNG: { sk: 'Čaká', cs: 'Čeká', en: 'Pending' },
+  PATC: { sk: 'Čiastočne prijatá', cs: 'Částečně přijatá', en: 'Partially accepted' },
+  PART: { sk: 'Čiastočná', cs: 'Částečná', en: 'Partially paid' },
+  RJCT: { sk: 'Zamietnutá', cs: 'Zamítnutá', en: 'Rejected' },
+  CANC: { sk: 'Zrušená', cs: 'Zrušená', en: 'Cancelled' }
+}
+
+// =============================================================================
+// Messages
+// =============================================================================
+
+const MESSAGES = {
+  // Route errors
+  'error.invalidRequest': {
+    sk: 'Platobná požiadavka je neplatná. Skontrolujte údaje a skúste to znova.',
+    cs: 'Platební požadavek je neplatný. Zkontrolujte údaje a zkuste to znovu.',
+    en: 'The payment request is invalid. Please check your details and try again.'
+  },
+  'error.methodUnavailable': {
+    sk: 'Tento spôsob platby nie je pre vašu objednávku dostupný. Zvoľte iný.',
+    cs: 'Tento způsob platby není pro vaši objednávku dostupný. Zvolte jiný.',
+    en: 'This payment method is not available for your order. Please choose another one.'
+  },
+  'error.temporarilyUnavailable': {
+    sk: 'Platobná služba je dočasne nedostupná. Skúste to prosím o chvíľu.',
+    cs: 'Platební služba je dočasně nedostupná. Zkuste to prosím za chvíli.',
+    en: 'The payment service is temporarily unavailable. Please try again in a moment.'
+  },
+  'error.paymentError': {
+    sk: 'Platbu sa nepodarilo spracovať. Skúste to prosím neskôr.',
+    cs: 'Platbu se nepodařilo zpracovat. Zkuste to prosím později.',
+    en: 'The payment could not be processed. Please try again later.'
+  },
+  'error.orderNotFound': {
+    sk: 'Objednávka sa nenašla.',
+    cs: 'Objednávka nebyla nalezena.',
+    en: 'Order not found.'
+  },
+  'error.orderAlreadyPaid': {
+    sk: 'Táto objednávka je už zaplatená.',
+    cs: 'Tato objednávka je již zaplacena.',
+    en: 'This order has already been paid.'
+  },
+  'error.paymentNotFound': {
+    sk: 'Platba sa nenašla.',
+    cs: 'Platba nebyla nalezena.',
+    en: 'Payment not found.'
+  },
+  'error.paymentLinkNotFound': {
+    sk: 'Tento platobný odkaz neexistuje.',
+    cs: 'Tento platební odkaz neexistuje.',
+    en: 'This payment link does not exist.'
+  },
+  'error.statusUnavailable': {
+    sk: 'Stav platby sa nepodarilo načítať.',
+    cs: 'Stav platby se nepodařilo načíst.',
+    en: 'The payment status could not be loaded.'
+  },
+
+  // Callback results
+  'callback.paid': {
+    sk: 'Platba prebehla úspešne.',
+    cs: 'Platba proběhla úspěšně.',
+    en: 'Payment successful.'
+  },
+  'callback.authorized': {
+    sk: 'Platba bola autorizovaná. Suma bude stiahnutá pri odoslaní objednávky.',
+    cs: 'Platba byla autorizována. Částka bude stržena při odeslání objednávky.',
+    en: 'Payment authorized. The amount will be charged when your order ships.'
+  },
+  'callback.declined': {
+    sk: 'Platba bola zamietnutá.',
+    cs: 'Platba byla zamítnuta.',
+    en: 'Payment was declined.'
+  },
+  'callback.pending': {
+    sk: 'Čakáme na potvrdenie platby.',
+    cs: 'Čekáme na potvrzení platby.',
+    en: 'Awaiting payment confirmation.'
+  },
+  'callback.error': {
+    sk: 'Platbu sa nepodarilo overiť. Ak vám boli stiahnuté peniaze, kontaktujte nás.',
+    cs: 'Platbu se nepodařilo ověřit. Pokud vám byly strženy peníze, kontaktujte nás.',
+    en: 'We could not verify your payment. If you were charged, please contact us.'
+  },
+
+  // Common
+  'common.loading': { sk: 'Načítava sa...', cs: 'Načítá se...', en: 'Loading...' },
+  'common.backHome': { sk: 'Späť na úvod', cs: 'Zpět na úvod', en: 'Back to Home' },
+  'common.needHelp': { sk: 'Potrebujete pomoc? Napíšte nám na', cs: 'Potřebujete pomoc? Napište nám na', en: 'Need help? Contact us at' },
+
+  // Success page
+  'success.title': { sk: 'Ďakujeme za platbu!', cs: 'Děkujeme za platbu!', en: 'Thank you for your payment!' },
+  'success.message': { sk: 'Platba prebehla úspešne.', cs: 'Platba proběhla úspěšně.', en: 'Payment was successful.' },
+  'success.received': { sk: 'Platba prijatá.', cs: 'Platba přijata.', en: 'Payment received.' },
+  'success.emailTitle': { sk: 'E-mail odoslaný', cs: 'E-mail odeslán', en: 'Email sent' },
+  'success.emailText': {
+    sk: 'Potvrdenie sme vám poslali e-mailom. Skontrolujte prosím aj priečinok so spamom.',
+    cs: 'Potvrzení jsme vám poslali e-mailem. Zkontrolujte prosím i složku se spamem.',
+    en: "We've sent a confirmation to your email address. Please also check your spam folder."
+  },
+
+  // Failed page
+  'failed.title': { sk: 'Platba zlyhala', cs: 'Platba se nezdařila', en: 'Payment Failed' },
+  'failed.message': { sk: 'Platba bola zamietnutá.', cs: 'Platba byla zamítnuta.', en: 'Payment was declined.' },
+  'failed.notCompleted': { sk: 'Platba nebola dokončená.', cs: 'Platba nebyla dokončena.', en: 'Payment was not completed.' },
+  'failed.hint': {
+    sk: 'Platba mohla byť zamietnutá z rôznych dôvodov. Skontrolujte údaje karty alebo zvoľte iný spôsob platby.',
+    cs: 'Platba mohla být zamítnuta z různých důvodů. Zkontrolujte údaje karty nebo zvolte jiný způsob platby.',
+    en: 'The payment could have been declined for various reasons. Please check your card details or try a different payment method.'
+  },
+  'failed.retry': { sk: 'Skúsiť znova', cs: 'Zkusit znovu', en: 'Retry Payment' },
+
+  // Pending page
+  'pending.title': { sk: 'Platba čaká na úhradu', cs: 'Platba čeká na úhradu', en: 'Payment Pending' },
+  'pending.message': { sk: 'Čakáme na potvrdenie platby.', cs: 'Čekáme na potvrzení platby.', en: 'Awaiting payment confirmation.' },
+  'pending.instructionsTitle': { sk: 'Pokyny na prevod', cs: 'Pokyny k převodu', en: 'Bank Transfer Instructions' },
+  'pending.instructions': {
+    sk: 'Platobné údaje sme vám poslali e-mailom. Objednávku vybavíme po prijatí platby (zvyčajne 1-2 pracovné dni). Táto stránka sa po prijatí platby automaticky aktualizuje.',
+    cs: 'Platební údaje jsme vám poslali e-mailem. Objednávku vyřídíme po přijetí platby (obvykle 1-2 pracovní dny). Tato stránka se po přijetí platby automaticky aktualizuje.',
+    en: "We've sent the payment details to your email. Your order will be processed after we receive the payment (usually 1-2 business days). This page updates automatically once the payment arrives."
+  },
+  'pending.scanQr': { sk: 'Naskenujte v bankovej aplikácii', cs: 'Naskenujte v bankovní aplikaci', en: 'Scan in your banking app' },
+  'pending.amount': { sk: 'Suma:', cs: 'Částka:', en: 'Amount:' },
+  'pending.variableSymbol': { sk: 'Variabilný symbol:', cs: 'Variabilní symbol:', en: 'Variable Symbol:' },
+  'pending.dueDate': { sk: 'Splatnosť:', cs: 'Splatnost:', en: 'Due Date:' },
+  'pending.payByTransfer': {
+    sk: 'Zaplaťte bankovým prevodom podľa údajov nižšie.',
+    cs: 'Zaplaťte bankovním převodem podle údajů níže.',
+    en: 'Pay by bank transfer using the details below.'
+  },
+  'pending.questions': { sk: 'Máte otázky? Napíšte nám na', cs: 'Máte dotazy? Napište nám na', en: 'Questions? Contact us at' },
+
+  // Payment link page
+  'link.preparing': { sk: 'Pripravujeme platbu...', cs: 'Připravujeme platbu...', en: 'Preparing your payment...' },
+  'link.wait': { sk: 'Chvíľu strpenia.', cs: 'Chvíli strpení.', en: 'Please wait a moment.' },
+  'link.unavailable': { sk: 'Platobný odkaz nie je dostupný', cs: 'Platební odkaz není dostupný', en: 'Payment link unavailable' },
+  'link.paidTitle': { sk: 'Už zaplatené', cs: 'Již zaplaceno', en: 'Already paid' },
+  'link.paid': {
+    sk: 'Tento platobný odkaz už bol zaplatený. Ďakujeme!',
+    cs: 'Tento platební odkaz již byl zaplacen. Děkujeme!',
+    en: 'This payment link has already been paid. Thank you!'
+  },
+  'link.expiredTitle': { sk: 'Platnosť odkazu vypršala', cs: 'Platnost odkazu vypršela', en: 'Payment link expired' },
+  'link.expired': {
+    sk: 'Tento platobný odkaz už neplatí. Požiadajte obchodníka o nový.',
+    cs: 'Tento platební odkaz již neplatí. Požádejte obchodníka o nový.',
+    en: 'This payment link is no longer valid. Please ask the merchant for a new one.'
+  },
+  'link.redirectingTitle': { sk: 'Presmerovanie na platbu...', cs: 'Přesměrování na platbu...', en: 'Redirecting to payment...' },
+  'link.redirecting': {
+    sk: 'O chvíľu vás presmerujeme na TatraPay+.',
+    cs: 'Za chvíli vás přesměrujeme na TatraPay+.',
+    en: 'You will be redirected to TatraPay+ in a moment.'
+  },
+  'link.description': { sk: 'Popis:', cs: 'Popis:', en: 'Description:' },
+  'link.validUntil': { sk: 'Platí do:', cs: 'Platí do:', en: 'Valid until:' }
+} satisfies Record<string, Record<Language, string>>
+
+export type MessageKey = keyof typeof MESSAGES
+
+/**
+ * Translate a message
+ *
+ * @example
+ * ```typescript
+ * translate('failed.title', 'cs')  // 'Platba se nezdařila'
+ * ```
+ */
+export function translate(key: MessageKey, language: Language = DEFAULT_LANGUAGE): string {
+  return MESSAGES[key][language] ?? MESSAGES[key][DEFAULT_LANGUAGE]
+}
@@ -0,0 +1,244 @@
+/**
+ * Structured logging for TatraPay
+ *
+ * Every log line is a JSON object with a timestamp, level, message and
+ * context fields. Personal data is redacted before anything is written:
+ *
+ * - Fields named like personal data (email, firstName, lastName, phone,
+ *   iban, customerIpAddress, token, ...) are replaced completely
+ * - Emails, IBANs, IP addresses and bearer tokens are masked inside any
+ *   other string, including error messages and bank responses
+ *
+ * Names inside free text cannot be detected - log them in named fields.
+ *
+ * @example
+ * ```typescript
+ * import { getLogger } from '@/lib/logger'
+ *
+ * getLogger().info('Payment created', { orderId, paymentId })
+ * getLogger().error('Payment creation failed', { orderId, error })
+ * ```
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Extra fields attached to a log line
+ */
+export type LogContext = Record<string, unknown>
+
+/**
+ * Logger used by tatrapay.ts and the API routes
+ */
+export interface Logger {
+  debug(message: string, context?: LogContext): void
+  info(message: string, context?: LogContext): void
+  warn(message: string, context?: LogContext): void
+  error(message: string, context?: LogContext): void
+  /** Logger that adds the given fields to every line (e.g. a request ID) */
+  child(bindings: LogContext): Logger
+}
+
+const LEVEL_ORDER: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100
+}
+
+// =============================================================================
+// Redaction
+// =============================================================================
+
+// Field names whose values are always personal data or secrets (lowercase)
+const REDACTED_KEYS = new Set([
+  'email',
+  'firstname',
+  'lastname',
+  'name',
+  'fullname',
+  'holdername',
+  'beneficiaryname',
+  'phone',
+  'iban',
+  'ip',
+  'ipaddress',
+  'customerip',
+  'customeripaddress',
+  'authorization',
+  'token',
+  'access_token',
+  'accesstoken',
+  'client_secret',
+  'clientsecret',
+  'signedcardid',
+  'cardholder',
+  'address',
+  'billingaddress',
+  'shippingaddress',
+  'streetname',
+  'buildingnumber',
+  'postalcode',
+  'postcode'
+])
+
+const REDACTION_PATTERNS: Array<[RegExp, string]> = [
+  [/Bearer\s+[A-Za-z0-9\-._~+/]+=*/gi, 'Bearer [REDACTED]'],
+  [/[^\s@"'<>,;:()]+@[^\s@"'<>,;:()]+\.[a-z]{2,}/gi, '[EMAIL]'],
+  [/\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g, '[IBAN]'],
+  [/\b(?:\d{1,3}\.){3}\d{1,3}\b/g, '[IP]'],
+  [/\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b|\b(?:[0-9a-f]{1,4}:){1,6}:(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4}){0,5}\b)?/gi, '[IP]']
+]
+
+const MAX_DEPTH = 8
+
+/**
+ * Mask emails, IBANs, IP addresses and bearer tokens in a string
+ */
+export function redactString(value: string): string {
+  let result = value
+  for (const [pattern, replacement] of REDACTION_PATTERNS) {
+    result = result.replace(pattern, replacement)
+  }
+  return result
+}
+
+/**
+ * Deep copy of a value with personal data removed
+ *
+ * Errors become plain objects with name, message, stack and their own
+ * fields (e.g. status, reasonCode, requestId of a TatraPayError).
+ */
+export function redact(value: unknown): unknown {
+  return redactValue(value, 0, new WeakSet())
+}
+
+function redactValue(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') return redactString(value)
+  if (value === null || typeof value !== 'object') return value
+  if (value instanceof Date) return value.toISOString()
+  if (seen.has(value)) return '[Circular]'
+  if (depth >= MAX_DEPTH) return '[Truncated]'
+  seen.add(value)
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, depth + 1, seen))
+  }
+
+  const source: Record<string, unknown> = value instanceof Error
+    ? { name: value.name, message: value.message, ...(value as object), stack: value.stack, cause: value.cause }
+    : value as Record<string, unknown>
+
+  const result: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(source)) {
+    if (item === undefined) continue
+    // An error's name is its class (e.g. 'ValidationError'), not a person
+    const isErrorName = value instanceof Error && key === 'name'
+    result[key] = REDACTED_KEYS.has(key.toLowerCase()) && !isErrorName
+      ? '[REDACTED]'
+      : redactValue(item, depth + 1, seen)
+  }
+  return result
+}
+
+// =============================================================================
+// JSON Logger
+// =============================================================================
+
+export interface JsonLoggerOptions {
+  level?: LogLevel | 'silent'     // Lowest level written (default 'info')
+  format?: 'json' | 'pretty'      // 'pretty' is one readable line, for local development
+  bindings?: LogContext           // Fields added to every line
+  write?: (line: string, level: LogLevel) => void  // Default: console
+}
+
+function writeToConsole(line: string, level: LogLevel): void {
+  if (level === 'error') console.error(line)
+  else if (level === 'warn') console.warn(line)
+  else console.log(line)
+}
+
+/**
+ * Logger writing one redacted JSON object per line
+ *
+ * @example
+ * ```typescript
+ * const logger = createJsonLogger({ level: 'debug' })
+ * logger.child({ requestId }).info('TatraPay API response', { status: 200 })
+ * // {"time":"...","level":"info","msg":"TatraPay API response","requestId":"...","status":200}
+ * ```
+ */
+export function createJsonLogger(options: JsonLoggerOptions = {}): Logger {
+  const minLevel = LEVEL_ORDER[options.level ?? 'info']
+  const write = options.write ?? writeToConsole
+  const bindings = options.bindings ?? {}
+
+  function log(level: LogLevel, message: string, context?: LogContext): void {
+    if (LEVEL_ORDER[level] < minLevel) return
+
+    const fields = redact({ ...bindings, ...context }) as LogContext
+
+    if (options.format === 'pretty') {
+      const details = Object.keys(fields).length ? ` ${JSON.stringify(fields)}` : ''
+      write(`${new Date().toISOString()} ${level.toUpperCase().padEnd(5)} ${redactString(message)}${details}`, level)
+      return
+    }
+
+    // Context cannot overwrite the standard fields
+    const standard = { time: new Date().toISOString(), level, msg: redactString(message) }
+    write(JSON.stringify({ ...standard, ...fields, ...standard }), level)
+  }
+
+  return {
+    debug: (message, context) => log('debug', message, context),
+    info: (message, context) => log('info', message, context),
+    warn: (message, context) => log('warn', message, context),
+    error: (message, context) => log('error', message, context),
+    child: (childBindings) => createJsonLogger({
+      ...options,
+      bindings: { ...bindings, ...childBindings }
+    })
+  }
+}
+
+// =============================================================================
+// Default Logger
+// =============================================================================
+
+// Kept on globalThis so a custom logger survives Next.js hot reloads
+const globalForLogger = globalThis as unknown as { tatraPayLogger?: Logger }
+
+function parseLogLevel(value: string | undefined): LogLevel | 'silent' {
+  return value && value in LEVEL_ORDER ? value as LogLevel | 'silent' : 'info'
+}
+
+/**
+ * Get the logger used by tatrapay.ts and the API routes
+ *
+ * Configured via environment variables:
+ * - TATRAPAY_LOG_LEVEL: 'debug', 'info' (default), 'warn', 'error' or 'silent'
+ * - TATRAPAY_LOG_FORMAT: 'json' (default) or 'pretty'
+ */
+export function getLogger(): Logger {
+  if (!globalForLogger.tatraPayLogger) {
+    globalForLogger.tatraPayLogger = createJsonLogger({
+      level: parseLogLevel(process.env.TATRAPAY_LOG_LEVEL),
+      format: process.env.TATRAPAY_LOG_FORMAT === 'pretty' ? 'pretty' : 'json'
+    })
+  }
+  return globalForLogger.tatraPayLogger
+}
+
+/**
+ * Replace the logger (e.g. with a pino or winston adapter)
+ *
+ * Custom loggers should pass context through redact() before writing.
+ */
+export function setLogger(logger: Logger): void {
+  globalForLogger.tatraPayLogger = logger
+}
@@ -0,0 +1,178 @@
+/**
+ * Money amounts for TatraPay
+ *
+ * Every amount in this library is a Money value: an integer number of minor
+ * units (cents, haléře) plus its currency. Integers keep refunds and
+ * partial payments exact - 0.1 + 0.2 never shows up in a chargeback.
+ *
+ * The TatraPay+ API uses decimal amounts. tatrapay.ts converts at the API
+ * boundary with toDecimal / fromDecimal, nothing else should need to.
+ *
+ * @example
+ * ```typescript
+ * import { createMoney, subtractMoney, formatMoney } from '@/lib/money'
+ *
+ * const paid = createMoney(7900, 'EUR')
+ * const remaining = subtractMoney(paid, createMoney(1000, 'EUR'))
+ *
+ * formatMoney(remaining, 'sk')  // '69,00 €'
+ * formatMoney(remaining, 'en')  // '€69.00'
+ * ```
+ */
+
+import { ValidationError } from './tatrapay-errors'
+import type { Language } from './i18n'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type Currency = 'EUR' | 'CZK'
+
+/**
+ * Amount in minor units of its currency (e.g., 7900 = 79.00 EUR)
+ */
+export interface Money {
+  amount: number      // Integer, in minor units
+  currency: Currency
+}
+
+/**
+ * Decimal places of each supported currency (ISO 4217)
+ */
+export const CURRENCY_MINOR_UNITS: Record<Currency, number> = {
+  EUR: 2,
+  CZK: 2
+}
+
+// Locale used to format amounts for each supported language
+const FORMAT_LOCALES: Record<Language, string> = {
+  sk: 'sk-SK',
+  cs: 'cs-CZ',
+  en: 'en-GB'
+}
+
+// =============================================================================
+// Creating
+// =============================================================================
+
+/**
+ * Check whether a value is a supported currency code
+ */
+export function isCurrency(value: unknown): value is Currency {
+  return typeof value === 'string' && value in CURRENCY_MINOR_UNITS
+}
+
+/**
+ * Create a Money value from minor units
+ *
+ * @throws ValidationError if the amount is not a non-negative integer or
+ * the currency is not supported
+ */
+export function createMoney(amount: number, currency: string): Money {
+  if (!isCurrency(currency)) {
+    throw new ValidationError(`Money: Unsupported currency ${currency}`)
+  }
+  if (!Number.isSafeInteger(amount) || amount < 0) {
+    throw new ValidationError(`Money: Amount must be a non-negative integer of minor units, got ${amount}`)
+  }
+  return { amount, currency }
+}
+
+/**
+ * Create a Money value from a decimal amount (e.g., 79.9 EUR -> 7990)
+ *
+ * Rounds half away from zero to the currency's minor units.
+ */
+export function fromDecimal(value: number, currency: string): Money {
+  if (!Number.isFinite(value)) {
+    throw new ValidationError(`Money: Invalid decimal amount ${value}`)
+  }
+  const factor = minorUnitFactor(currency)
+  // toPrecision drops binary noise first, so 1.005 rounds to 101, not 100
+  return createMoney(Math.round(Number((value * factor).toPrecision(15))), currency)
+}
+
+/**
+ * Decimal amount as used by the TatraPay+ API (e.g., 7990 EUR -> 79.9)
+ */
+export function toDecimal(money: Money): number {
+  return money.amount / minorUnitFactor(money.currency)
+}
+
+function minorUnitFactor(currency: string): number {
+  if (!isCurrency(currency)) {
+    throw new ValidationError(`Money: Unsupported currency ${currency}`)
+  }
+  return 10 ** CURRENCY_MINOR_UNITS[currency]
+}
+
+// =============================================================================
+// Arithmetic
+// =============================================================================
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new ValidationError(`Money: Cannot combine ${a.currency} and ${b.currency}`)
+  }
+}
+
+/**
+ * Sum of two amounts in the same currency
+ */
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b)
+  return createMoney(a.amount + b.amount, a.currency)
+}
+
+/**
+ * Difference of two amounts in the same currency
+ *
+ * @throws ValidationError if b is larger than a - amounts never go negative
+ */
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b)
+  if (b.amount > a.amount) {
+    throw new ValidationError(`Money: Cannot subtract ${b.amount} from ${a.amount} ${a.currency}`)
+  }
+  return createMoney(a.amount - b.amount, a.currency)
+}
+
+/**
+ * Compare two amounts in the same currency: -1, 0 or 1
+ */
+export function compareMoney(a: Money, b: Money): -1 | 0 | 1 {
+  assertSameCurrency(a, b)
+  return a.amount === b.amount ? 0 : a.amount < b.amount ? -1 : 1
+}
+
+/**
+ * Check whether an amount is zero
+ */
+export function isZeroMoney(money: Money): boolean {
+  return money.amount === 0
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Format an amount for customers (result pages, emails)
+ *
+ * @example
+ * ```typescript
+ * formatMoney({ amount: 199000, currency: 'CZK' }, 'cs')  // '1 990,00 Kč'
+ * formatMoney({ amount: 7900, currency: 'EUR' }, 'sk')    // '79,00 €'
+ * formatMoney({ amount: 7900, currency: 'EUR' }, 'en')    // '€79.00'
+ * ```
+ */
+export function formatMoney(money: Money, language: Language = 'sk'): string {
+  const digits = CURRENCY_MINOR_UNITS[money.currency]
+  return new Intl.NumberFormat(FORMAT_LOCALES[language], {
+    style: 'currency',
+    currency: money.currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits
+  }).format(toDecimal(money))
+}
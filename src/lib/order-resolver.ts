@@ -0,0 +1,326 @@
+/**
+ * Server-side order lookup for payment creation
+ *
+ * The browser only says which order it wants to pay. Amount, currency,
+ * customer and description come from your backend through an
+ * OrderResolver, so a modified request cannot pay 0.01 EUR for an order.
+ *
+ * Ships with an in-memory resolver for local development. In production,
+ * implement OrderResolver on top of your order database and register it
+ * with setOrderResolver().
+ *
+ * @example
+ * ```typescript
+ * import { setOrderResolver } from '@/lib/order-resolver'
+ *
+ * setOrderResolver({
+ *   async resolve(orderId) {
+ *     const order = await db.order.findUnique({ where: { id: orderId } })
+ *     if (!order || order.paid) return null
+ *     return {
+ *       orderId,
+ *       amount: { amount: order.totalCents, currency: order.currency },
+ *       customer: { id: order.userId, email: order.email, firstName: order.firstName, lastName: order.lastName },
+ *       description: `Order ${order.number}`
+ *     }
+ *   },
+ *   async isOrderOwner(order, request) {
+ *     const session = await getSession(request)
+ *     return !!session && session.userId === order.customer?.id
+ *   }
+ * })
+ * ```
+ */
+
+import type { Money } from './money'
+import { getPaymentStore, PaymentStore, StoredPayment } from './payment-store'
+import { closeOpenPayment, getPaymentPhase, isBankTransferPayment } from './payment-state'
+import { isPaymentPending } from './tatrapay'
+import type { TatraPayOrderDetail } from './tatrapay'
+import type { FieldError } from './tatrapay-errors'
+import type { CreatePaymentRequestBody } from './validation'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Authoritative payment data for an order, as known by your backend
+ */
+export interface ResolvedOrder {
+  orderId: string
+  amount: Money
+  customer?: CreatePaymentRequestBody['customer']  // Default: customer from the request body (saveCard needs customer.id here)
+  description?: string
+  orderDetail?: TatraPayOrderDetail                // Line items for PAY_LATER
+}
+
+/**
+ * Looks up orders by ID
+ */
+export interface OrderResolver {
+  /** Get a payable order, or null if it does not exist (or must not be paid) */
+  resolve(orderId: string): Promise<ResolvedOrder | null>
+  /**
+   * Whether the request comes from the order's customer, e.g. by checking
+   * your session. Only owners get an order status token (default: nobody).
+   */
+  isOrderOwner?(order: ResolvedOrder, request: Request): Promise<boolean>
+}
+
+/**
+ * Outcome of resolving the order of a create payment request
+ */
+export type OrderResolution =
+  | { status: 'resolved'; body: Record<string, unknown>; order: ResolvedOrder }
+  | { status: 'not_found' }
+  | { status: 'paid'; payment: StoredPayment }
+  | { status: 'invalid'; errors: FieldError[] }
+
+/**
+ * Outcome of closing the open payments of an order before a new one
+ */
+export type OpenPaymentsResult =
+  | { status: 'closed' }                                 // Nothing open any more - create the new payment
+  | { status: 'bank_transfer'; payment: StoredPayment }  // Pending transfer - show its details again
+  | { status: 'paid'; payment: StoredPayment }           // An open payment turned out to be paid
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Any payment of the order that is completed or authorized - a new
+ * payment would charge the customer twice
+ */
+export async function findPaidPayment(orderId: string, store: PaymentStore = getPaymentStore()): Promise<StoredPayment | null> {
+  const payments = await store.listByOrderId(orderId)
+  return payments.find(payment => {
+    const phase = getPaymentPhase(payment.status, payment.preAuthorization)
+    return phase === 'completed' || phase === 'authorized'
+  }) ?? null
+}
+
+// =============================================================================
+// Memory Adapter
+// =============================================================================
+
+/**
+ * In-memory resolver with set() / delete() for local development and demos
+ */
+export interface MemoryOrderResolver extends OrderResolver {
+  set(order: ResolvedOrder): void
+  delete(orderId: string): boolean
+}
+
+/**
+ * In-memory resolver. Data is lost when the process restarts.
+ *
+ * Orders with a completed or authorized payment in the payment store are
+ * not payable and resolve to null. Nobody owns an order unless
+ * options.isOrderOwner says so.
+ */
+export function createMemoryOrderResolver(
+  orders: ResolvedOrder[] = [],
+  options: Pick<OrderResolver, 'isOrderOwner'> = {}
+): MemoryOrderResolver {
+  const byId = new Map(orders.map(order => [order.orderId, order]))
+
+  return {
+    isOrderOwner: options.isOrderOwner,
+
+    async resolve(orderId) {
+      const order = byId.get(orderId)
+      if (!order || await findPaidPayment(orderId)) return null
+      return order
+    },
+
+    set(order) {
+      byId.set(order.orderId, order)
+    },
+
+    delete(orderId) {
+      return byId.delete(orderId)
+    }
+  }
+}
+
+// =============================================================================
+// Default Resolver
+// =============================================================================
+
+// Kept on globalThis so orders survive Next.js hot reloads
+const globalForResolver = globalThis as unknown as { tatraPayOrderResolver?: OrderResolver }
+
+/**
+ * Get the resolver used by POST /api/payment/create
+ *
+ * Defaults to an empty in-memory resolver - every order is unknown until
+ * you add it or register your own resolver.
+ */
+export function getOrderResolver(): OrderResolver {
+  if (!globalForResolver.tatraPayOrderResolver) {
+    globalForResolver.tatraPayOrderResolver = createMemoryOrderResolver()
+  }
+  return globalForResolver.tatraPayOrderResolver
+}
+
+/**
+ * Replace the resolver (e.g. with one backed by your order database)
+ */
+export function setOrderResolver(resolver: OrderResolver): void {
+  globalForResolver.tatraPayOrderResolver = resolver
+}
+
+/**
+ * Whether the request comes from the customer who owns the order
+ *
+ * False unless the resolver implements isOrderOwner - an order ID alone
+ * proves nothing, anyone can guess or copy it.
+ */
+export async function isOrderOwner(
+  order: ResolvedOrder,
+  request: Request,
+  resolver: OrderResolver = getOrderResolver()
+): Promise<boolean> {
+  return resolver.isOrderOwner ? resolver.isOrderOwner(order, request) : false
+}
+
+// =============================================================================
+// Create Payment Requests
+// =============================================================================
+
+/**
+ * Replace the amount, currency, customer and description of a create
+ * payment request body with the resolved order
+ *
+ * amount and currency may be omitted from the body. If they are sent, they
+ * must match the order - a mismatch means the browser shows a stale or
+ * tampered price, so the request is rejected instead of silently fixed.
+ *
+ * Orders with a completed or authorized payment resolve to 'paid'
+ * whatever the resolver says, so they are never paid twice.
+ *
+ * @example
+ * ```typescript
+ * const resolution = await resolveOrderForPayment(await request.json())
+ * if (resolution.status === 'not_found') { ... 404 ... }
+ * if (resolution.status === 'paid') { ... 409 ... }
+ * if (resolution.status === 'invalid') {
+ *   throw new ValidationError('Order mismatch', { fields: resolution.errors })
+ * }
+ * const validation = validateCreatePaymentRequest(resolution.body)
+ * ```
+ */
+export async function resolveOrderForPayment(
+  body: unknown,
+  resolver: OrderResolver = getOrderResolver()
+): Promise<OrderResolution> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { status: 'invalid', errors: [{ field: 'body', code: 'INVALID_TYPE', message: 'Request body must be a JSON object' }] }
+  }
+
+  const fields = body as Record<string, unknown>
+  if (typeof fields.orderId !== 'string' || fields.orderId === '') {
+    return { status: 'invalid', errors: [{ field: 'orderId', code: 'REQUIRED', message: 'Is required' }] }
+  }
+
+  const paid = await findPaidPayment(fields.orderId)
+  if (paid) {
+    return { status: 'paid', payment: paid }
+  }
+
+  const order = await resolver.resolve(fields.orderId)
+  if (!order) {
+    return { status: 'not_found' }
+  }
+
+  const errors: FieldError[] = []
+  if (fields.amount !== undefined && fields.amount !== order.amount.amount) {
+    errors.push({ field: 'amount', code: 'ORDER_MISMATCH', message: 'Does not match the order amount' })
+  }
+  if (fields.currency !== undefined && fields.currency !== order.amount.currency) {
+    errors.push({ field: 'currency', code: 'ORDER_MISMATCH', message: 'Does not match the order currency' })
+  }
+  if (errors.length > 0) {
+    return { status: 'invalid', errors }
+  }
+
+  return {
+    status: 'resolved',
+    order,
+    body: {
+      ...fields,
+      amount: order.amount.amount,
+      currency: order.amount.currency,
+      // A resolved customer replaces the body one completely - merging would
+      // let the browser pick customer.id and save a card to another account
+      customer: order.customer ?? fields.customer,
+      description: order.description ?? fields.description,
+      order: order.orderDetail ?? fields.order
+    }
+  }
+}
+
+// =============================================================================
+// Open Payments
+// =============================================================================
+
+// Payment creations of one order in flight, so two tabs cannot both create one
+const globalForCreations = globalThis as unknown as { tatraPayOrderCreations?: Map<string, Promise<unknown>> }
+
+/**
+ * Run operations for the same order one at a time (per process - with
+ * several server instances, lock the order in your database too)
+ */
+export function exclusiveForOrder<T>(orderId: string, operation: () => Promise<T>): Promise<T> {
+  const creations = globalForCreations.tatraPayOrderCreations ??= new Map()
+  const result = (creations.get(orderId) ?? Promise.resolve()).then(operation)
+  const tail = result.catch(() => undefined)
+  creations.set(orderId, tail)
+  tail.then(() => {
+    if (creations.get(orderId) === tail) creations.delete(orderId)
+  })
+  return result
+}
+
+/**
+ * Make sure no earlier payment of the order can still be paid before a
+ * new one is created
+ *
+ * Every stored payment of the order is checked, not just the latest:
+ * - A pending bank transfer is returned to show again - it is never
+ *   cancelled, the customer may already have sent the money
+ * - Open card, PAY_LATER and gateway payments are cancelled at TatraPay
+ * - If one of them turns out to be paid meanwhile, it is returned as paid
+ *
+ * Run it and the creation of the new payment inside exclusiveForOrder().
+ *
+ * @example
+ * ```typescript
+ * const open = await closeOpenPayments(orderId)
+ * if (open.status === 'paid') { ... 409 ... }
+ * if (open.status === 'bank_transfer') { ... show open.payment.bankTransferInfo ... }
+ * ```
+ */
+export async function closeOpenPayments(
+  orderId: string,
+  store: PaymentStore = getPaymentStore()
+): Promise<OpenPaymentsResult> {
+  const payments = await store.listByOrderId(orderId)
+
+  const transfer = payments.findLast(payment =>
+    isBankTransferPayment(payment) && payment.bankTransferInfo && isPaymentPending(payment.status)
+  )
+  if (transfer) {
+    return { status: 'bank_transfer', payment: transfer }
+  }
+
+  const open = payments.filter(payment => payment.status === 'RCVD' || payment.status === 'PDNG')
+  for (const payment of open) {
+    await closeOpenPayment(payment, { store })
+  }
+
+  const paid = open.length > 0 ? await findPaidPayment(orderId, store) : null
+  return paid ? { status: 'paid', payment: paid } : { status: 'closed' }
+}
@@ -0,0 +1,140 @@
+/**
+ * Customer-facing order status
+ *
+ * Builds the status payload returned by GET /api/payment/status/[orderId]
+ * and its Server-Sent Events stream, and notifies open streams when
+ * applyPaymentStatus() changes a payment.
+ *
+ * Listeners are per process. With several server instances, a stream only
+ * hears about changes made by its own instance - the stream route also
+ * re-reads the payment store periodically to catch the rest.
+ */
+
+import {
+  getStatusLabel,
+  mapToInternalStatus,
+  TatraPayMethod,
+  TatraPayPaymentResponse,
+  TatraPayPreAuthorizationStatus,
+  TatraPayStatus
+} from './tatrapay'
+import { formatMoney, Money } from './money'
+import type { StoredPayment } from './payment-store'
+import { getLogger } from './logger'
+import { DEFAULT_LANGUAGE, Language } from './i18n'
+
+// =============================================================================
+// Status View
+// =============================================================================
+
+/**
+ * Order status as sent to customers (no payment or card tokens)
+ */
+export interface OrderStatusView {
+  orderId: string
+  status: 'pending' | 'authorized' | 'completed' | 'failed'
+  tatraPayStatus: TatraPayStatus
+  statusLabel: string                 // From getStatusLabel() in the requested language, e.g. 'Čaká'
+  preAuthorization?: TatraPayPreAuthorizationStatus
+  paymentMethod?: TatraPayMethod
+  amount: Money
+  formattedAmount: string             // e.g., '79,00 €' in the requested language
+  refundedAmount?: Money
+  bankTransfer?: NonNullable<TatraPayPaymentResponse['bankTransferInfo']> & {
+    formattedAmount: string
+  }
+  updatedAt: string
+}
+
+/**
+ * Build the customer-facing status of a stored payment
+ */
+export function toOrderStatusView(
+  payment: StoredPayment,
+  language: Language = DEFAULT_LANGUAGE
+): OrderStatusView {
+  const bankTransferInfo = payment.bankTransferInfo
+
+  return {
+    orderId: payment.orderId,
+    status: mapToInternalStatus(payment.status, payment.preAuthorization),
+    tatraPayStatus: payment.status,
+    statusLabel: getStatusLabel(payment.status, language),
+    preAuthorization: payment.preAuthorization,
+    paymentMethod: payment.paymentMethod,
+    amount: payment.amount,
+    formattedAmount: formatMoney(payment.amount, language),
+    refundedAmount: payment.refundedAmount
+      ? { amount: payment.refundedAmount, currency: payment.amount.currency }
+      : undefined,
+    bankTransfer: bankTransferInfo ? {
+      ...bankTransferInfo,
+      formattedAmount: formatMoney(bankTransferInfo.amount, language)
+    } : undefined,
+    updatedAt: payment.updatedAt
+  }
+}
+
+/**
+ * Check whether an order status can still change for the customer
+ *
+ * Authorized card payments are still open - they are captured or voided later.
+ */
+export function isFinalOrderStatus(status: OrderStatusView['status']): boolean {
+  return status === 'completed' || status === 'failed'
+}
+
+// =============================================================================
+// Status Listeners
+// =============================================================================
+
+export type OrderStatusListener = (payment: StoredPayment) => void
+
+// Kept on globalThis so open streams survive Next.js hot reloads
+const globalForListeners = globalThis as unknown as {
+  tatraPayOrderStatusListeners?: Map<string, Set<OrderStatusListener>>
+}
+
+function getListeners(): Map<string, Set<OrderStatusListener>> {
+  if (!globalForListeners.tatraPayOrderStatusListeners) {
+    globalForListeners.tatraPayOrderStatusListeners = new Map()
+  }
+  return globalForListeners.tatraPayOrderStatusListeners
+}
+
+/**
+ * Listen for status changes of an order
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeToOrderStatus(orderId: string, listener: OrderStatusListener): () => void {
+  const listeners = getListeners()
+  const forOrder = listeners.get(orderId) ?? new Set()
+  forOrder.add(listener)
+  listeners.set(orderId, forOrder)
+
+  return () => {
+    forOrder.delete(listener)
+    if (forOrder.size === 0 && listeners.get(orderId) === forOrder) {
+      listeners.delete(orderId)
+    }
+  }
+}
+
+/**
+ * Notify listeners of an order that its payment changed
+ *
+ * Called by applyPaymentStatus() after every committed status change.
+ */
+export function publishOrderStatus(payment: StoredPayment): void {
+  const forOrder = getListeners().get(payment.orderId)
+  if (!forOrder) return
+
+  for (const listener of Array.from(forOrder)) {
+    try {
+      listener(payment)
+    } catch (error) {
+      getLogger().error('Order status listener failed', { orderId: payment.orderId, error })
+    }
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * PAY by square QR codes for Slovak bank transfers
+ *
+ * Builds the payload scanned by Slovak mobile banking apps
+ * (IBAN, amount, variable symbol, due date) and renders it as SVG.
+ *
+ * Encoding (PAY by square spec, section 3.16):
+ * 1. Tab-separated data model
+ * 2. CRC32 checksum prepended
+ * 3. Raw LZMA stream (no 13-byte header)
+ * 4. 2-byte by square header + 2-byte payload length
+ * 5. base32hex without padding
+ *
+ * @see https://bysquare.com
+ */
+
+import QRCode from 'qrcode'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Payment order encoded into the QR code
+ */
+export interface PayBySquarePayment {
+  iban: string
+  bic?: string
+  amount: number            // Decimal amount (e.g., 79.00)
+  currency: string          // ISO 4217 (e.g., 'EUR')
+  variableSymbol?: string   // Max 10 digits
+  constantSymbol?: string   // Max 4 digits
+  specificSymbol?: string   // Max 10 digits
+  dueDate?: string          // YYYY-MM-DD
+  note?: string             // Max 140 chars
+  beneficiaryName?: string  // Required by newer banking apps (spec 1.2.0)
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+const VERSION_1_1_0 = 0x01
+const VERSION_1_2_0 = 0x02
+
+/**
+ * Encode a payment order as PAY by square string (QR code content)
+ *
+ * @example
+ * ```typescript
+ * const qrData = encodePayBySquare({
+ *   iban: 'SK3111000000002612345678',
+ *   amount: 79.00,
+ *   currency: 'EUR',
+ *   variableSymbol: '123456',
+ *   dueDate: '2025-01-31'
+ * })
+ * ```
+ */
+export function encodePayBySquare(payment: PayBySquarePayment): string {
+  const iban = payment.iban.replace(/\s/g, '').toUpperCase()
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{1,30}$/.test(iban)) {
+    throw new Error(`PAY by square: invalid IBAN ${iban}`)
+  }
+  if (!(payment.amount > 0)) {
+    throw new Error('PAY by square: amount must be positive')
+  }
+
+  const fields = [
+    '',                                       // invoiceId
+    '1',                                      // payments count
+    '1',                                      // type: payment order
+    formatAmount(payment.amount),
+    payment.currency.toUpperCase(),
+    payment.dueDate ? payment.dueDate.replace(/-/g, '') : '',
+    payment.variableSymbol ?? '',
+    payment.constantSymbol ?? '',
+    payment.specificSymbol ?? '',
+    '',                                       // originator's reference
+    removeDiacritics(payment.note ?? '').substring(0, 140),
+    '1',                                      // bank accounts count
+    iban,
+    payment.bic ?? '',
+    '0',                                      // standing order extension
+    '0',                                      // direct debit extension
+    removeDiacritics(payment.beneficiaryName ?? '').substring(0, 70),
+    '',                                       // beneficiary street
+    ''                                        // beneficiary city
+  ].map(field => field.replace(/\t/g, ' '))
+
+  const payload = new TextEncoder().encode(fields.join('\t'))
+
+  // CRC32 (little-endian) + payload
+  const checked = new Uint8Array(4 + payload.length)
+  new DataView(checked.buffer).setUint32(0, crc32(payload), true)
+  checked.set(payload, 4)
+
+  const compressed = lzmaCompress(checked)
+  const version = payment.beneficiaryName ? VERSION_1_2_0 : VERSION_1_1_0
+
+  const output = new Uint8Array(4 + compressed.length)
+  output[0] = version                         // by square type 0 | version
+  output[1] = 0x00                            // document type 0 | reserved
+  new DataView(output.buffer).setUint16(2, checked.length, true)
+  output.set(compressed, 4)
+
+  return base32hex(output)
+}
+
+/**
+ * Render QR code content as an SVG string
+ */
+export async function renderQrCodeSvg(data: string): Promise<string> {
+  return QRCode.toString(data, {
+    type: 'svg',
+    errorCorrectionLevel: 'M',
+    margin: 2
+  })
+}
+
+function formatAmount(amount: number): string {
+  // Up to 2 decimals, no trailing zeros (e.g., 79, 79.5, 79.99)
+  return String(Math.round(amount * 100) / 100)
+}
+
+function removeDiacritics(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+}
+
+// =============================================================================
+// Checksum + Base32hex
+// =============================================================================
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xFFFFFFFF
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0
+}
+
+const BASE32HEX_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUV'
+
+function base32hex(data: Uint8Array): string {
+  let output = ''
+  let buffer = 0
+  let bits = 0
+
+  for (let i = 0; i < data.length; i++) {
+    buffer = ((buffer << 8) | data[i]) & 0xFFFF
+    bits += 8
+    while (bits >= 5) {
+      bits -= 5
+      output += BASE32HEX_CHARS[(buffer >> bits) & 0x1F]
+    }
+  }
+  if (bits > 0) {
+    output += BASE32HEX_CHARS[(buffer << (5 - bits)) & 0x1F]
+  }
+
+  return output
+}
+
+// =============================================================================
+// LZMA (literal-only encoder)
+// =============================================================================
+
+/**
+ * Minimal raw LZMA encoder (lc=3, lp=0, pb=2)
+ *
+ * Encodes every byte as a literal, which any LZMA decoder accepts.
+ * Payment payloads are a few hundred bytes, so skipping match finding
+ * costs little QR space and avoids a compression dependency.
+ */
+function lzmaCompress(data: Uint8Array): Uint8Array {
+  const LC = 3
+  const PB_MASK = (1 << 2) - 1
+  const PROB_INIT = 1024
+
+  const isMatch = new Uint16Array(12 << 2).fill(PROB_INIT)
+  const literal = new Uint16Array(0x300 << LC).fill(PROB_INIT)
+  const output: number[] = []
+
+  // Range encoder state
+  let low = 0        // Up to 33 bits, kept as a float-safe number
+  let range = 0xFFFFFFFF
+  let cache = 0
+  let cacheSize = 1
+
+  function shiftLow() {
+    if (low < 0xFF000000 || low >= 0x100000000) {
+      const carry = low >= 0x100000000 ? 1 : 0
+      let temp = cache
+      do {
+        output.push((temp + carry) & 0xFF)
+        temp = 0xFF
+      } while (--cacheSize !== 0)
+      cache = Math.floor(low / 0x1000000) & 0xFF
+    }
+    cacheSize++
+    low = (low % 0x1000000) * 0x100
+  }
+
+  function encodeBit(probs: Uint16Array, index: number, bit: number) {
+    const bound = (range >>> 11) * probs[index]
+    if (bit === 0) {
+      range = bound
+      probs[index] += (2048 - probs[index]) >>> 5
+    } else {
+      low += bound
+      range -= bound
+      probs[index] -= probs[index] >>> 5
+    }
+    while (range < 0x1000000) {
+      range = (range * 0x100) >>> 0
+      shiftLow()
+    }
+  }
+
+  let previousByte = 0
+  for (let position = 0; position < data.length; position++) {
+    // State stays 0 since only literals are emitted
+    encodeBit(isMatch, position & PB_MASK, 0)
+
+    const base = 0x300 * (previousByte >> (8 - LC))
+    let symbol = 1
+    for (let i = 7; i >= 0; i--) {
+      const bit = (data[position] >> i) & 1
+      encodeBit(literal, base + symbol, bit)
+      symbol = (symbol << 1) | bit
+    }
+    previousByte = data[position]
+  }
+
+  for (let i = 0; i < 5; i++) {
+    shiftLow()
+  }
+
+  return Uint8Array.from(output)
+}
@@ -0,0 +1,547 @@
+/**
+ * Shareable payment links
+ *
+ * For invoices and phone orders: the merchant creates a link with an amount
+ * and description and emails it to the customer, who pays at
+ * /pay/[linkId] without a cart or checkout form. The TatraPay payment is
+ * only created when the customer opens the page.
+ *
+ * Links are single-use by default - once a payment succeeds the link shows
+ * as paid. Multi-use links (e.g. a fixed-price fee) accept payments until
+ * they expire, each under its own order ID.
+ *
+ * Ships with memory and JSON file adapters, like payment-store.ts.
+ * For production, implement PaymentLinkStore on top of your database and
+ * register it with setPaymentLinkStore().
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import {
+  getTatraPayClient,
+  isPaymentPending,
+  isPaymentSuccessful,
+  TATRAPAY_METHODS,
+  TatraPayCustomer,
+  TatraPayMethod,
+  TatraPayPaymentResponse
+} from './tatrapay'
+import { formatMoney, Money } from './money'
+import { getPaymentStore, PaymentStore, StoredPayment } from './payment-store'
+import { closeOpenPayment, isBankTransferPayment } from './payment-state'
+import { getLogger } from './logger'
+import { DEFAULT_LANGUAGE, Language } from './i18n'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PaymentLinkState = 'active' | 'paid' | 'expired'
+
+/**
+ * Payment started from a link
+ */
+export interface PaymentLinkPayment {
+  paymentId: string
+  orderId: string
+  redirectUrl?: string                // TatraPay+ page, reused while the payment is open
+  createdAt: string
+}
+
+/**
+ * Payment link as persisted by the store
+ */
+export interface PaymentLink {
+  id: string                          // Short ID used in /pay/[linkId]
+  orderId: string                     // merchantReference of its payments (default PL-<id>)
+  amount: Money
+  description: string
+  allowedMethods?: TatraPayMethod[]   // Default: every method except PAY_LATER
+  customer?: TatraPayCustomer         // Prefills the TatraPay+ page
+  singleUse: boolean
+  expiresAt: string
+  payments: PaymentLinkPayment[]
+  paidAt?: string                     // Single-use links: when a payment succeeded
+  createdAt: string
+}
+
+/**
+ * Data needed to create a link
+ */
+export interface NewPaymentLink {
+  orderId?: string
+  amount: Money
+  description: string
+  allowedMethods?: TatraPayMethod[]
+  customer?: TatraPayCustomer
+  singleUse?: boolean                 // Default true
+  expiresAt: string
+}
+
+/**
+ * Link data safe to show to anyone holding the link
+ */
+export interface PublicPaymentLink {
+  id: string
+  state: PaymentLinkState
+  description: string
+  amount: Money
+  formattedAmount: string
+  expiresAt: string
+}
+
+/**
+ * Persistence interface for payment links
+ */
+export interface PaymentLinkStore {
+  /** Create a link with a new short ID */
+  create(link: NewPaymentLink): Promise<PaymentLink>
+  /** Find a link by ID */
+  find(linkId: string): Promise<PaymentLink | null>
+  /** Record a payment started from the link. Returns null if the link is unknown. */
+  addPayment(linkId: string, payment: PaymentLinkPayment): Promise<PaymentLink | null>
+  /** Mark a link as paid (keeps the first paidAt). Returns null if the link is unknown. */
+  markPaid(linkId: string, paidAt: string): Promise<PaymentLink | null>
+}
+
+// PAY_LATER needs itemized orders, which links do not have
+const LINK_METHODS = TATRAPAY_METHODS.filter(method => method !== 'PAY_LATER')
+
+// =============================================================================
+// Shared Helpers
+// =============================================================================
+
+const ID_ALPHABET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789'  // No 0/O, 1/l/I
+const ID_LENGTH = 10
+const ID_PATTERN = new RegExp(`^[${ID_ALPHABET}]{${ID_LENGTH}}$`)
+
+/**
+ * Check that a value (e.g. from the URL) has the shape of a link ID
+ *
+ * Routes reject anything else before it reaches a store.
+ */
+export function isPaymentLinkId(value: unknown): value is string {
+  return typeof value === 'string' && ID_PATTERN.test(value)
+}
+
+/**
+ * Random ID that is short enough to read out over the phone
+ */
+function createShortId(length = ID_LENGTH): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(length))
+  return Array.from(bytes, byte => ID_ALPHABET[byte % ID_ALPHABET.length]).join('')
+}
+
+function createLink(link: NewPaymentLink): PaymentLink {
+  const id = createShortId()
+  return {
+    ...link,
+    id,
+    orderId: link.orderId ?? `PL-${id}`,
+    singleUse: link.singleUse ?? true,
+    payments: [],
+    createdAt: new Date().toISOString()
+  }
+}
+
+function applyPayment(link: PaymentLink, payment: PaymentLinkPayment): PaymentLink {
+  return { ...link, payments: [...link.payments, payment] }
+}
+
+function applyPaid(link: PaymentLink, paidAt: string): PaymentLink {
+  return link.paidAt ? link : { ...link, paidAt }
+}
+
+// =============================================================================
+// Memory Adapter
+// =============================================================================
+
+/**
+ * In-memory store. Data is lost when the process restarts.
+ */
+export function createMemoryPaymentLinkStore(): PaymentLinkStore {
+  const links = new Map<string, PaymentLink>()
+
+  return {
+    async create(link) {
+      const record = createLink(link)
+      links.set(record.id, record)
+      return record
+    },
+
+    async find(linkId) {
+      return links.get(linkId) ?? null
+    },
+
+    async addPayment(linkId, payment) {
+      const record = links.get(linkId)
+      if (!record) return null
+
+      const updated = applyPayment(record, payment)
+      links.set(linkId, updated)
+      return updated
+    },
+
+    async markPaid(linkId, paidAt) {
+      const record = links.get(linkId)
+      if (!record) return null
+
+      const updated = applyPaid(record, paidAt)
+      links.set(linkId, updated)
+      return updated
+    }
+  }
+}
+
+// =============================================================================
+// File Adapter
+// =============================================================================
+
+/**
+ * JSON file store. Suitable for a single server instance.
+ */
+export function createFilePaymentLinkStore(filePath: string): PaymentLinkStore {
+  let queue: Promise<unknown> = Promise.resolve()
+
+  async function read(): Promise<Record<string, PaymentLink>> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {}
+      }
+      throw error
+    }
+  }
+
+  async function write(data: Record<string, PaymentLink>): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    const tmpPath = `${filePath}.${process.pid}.tmp`
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2))
+    await fs.rename(tmpPath, filePath)
+  }
+
+  // Run read-modify-write operations one at a time
+  function exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = queue.then(operation)
+    queue = result.catch(() => undefined)
+    return result
+  }
+
+  function update(linkId: string, change: (link: PaymentLink) => PaymentLink): Promise<PaymentLink | null> {
+    return exclusive(async () => {
+      const data = await read()
+      // Own keys only - 'constructor' or '__proto__' must not find a link
+      const record = Object.hasOwn(data, linkId) ? data[linkId] : undefined
+      if (!record) return null
+
+      const updated = change(record)
+      data[linkId] = updated
+      await write(data)
+      return updated
+    })
+  }
+
+  return {
+    create(link) {
+      return exclusive(async () => {
+        const data = await read()
+        const record = createLink(link)
+        data[record.id] = record
+        await write(data)
+        return record
+      })
+    },
+
+    async find(linkId) {
+      const data = await read()
+      return Object.hasOwn(data, linkId) ? data[linkId] : null
+    },
+
+    addPayment(linkId, payment) {
+      return update(linkId, link => applyPayment(link, payment))
+    },
+
+    markPaid(linkId, paidAt) {
+      return update(linkId, link => applyPaid(link, paidAt))
+    }
+  }
+}
+
+// =============================================================================
+// Default Store
+// =============================================================================
+
+// Kept on globalThis so the memory store survives Next.js hot reloads
+const globalForStore = globalThis as unknown as { tatraPayPaymentLinkStore?: PaymentLinkStore }
+
+/**
+ * Get the store used by the payment link routes
+ *
+ * Configured via environment variables:
+ * - TATRAPAY_STORE: 'memory' (default) or 'file'
+ * - TATRAPAY_LINK_STORE_FILE: path for the file store (default .tatrapay/payment-links.json)
+ */
+export function getPaymentLinkStore(): PaymentLinkStore {
+  if (!globalForStore.tatraPayPaymentLinkStore) {
+    globalForStore.tatraPayPaymentLinkStore = process.env.TATRAPAY_STORE === 'file'
+      ? createFilePaymentLinkStore(process.env.TATRAPAY_LINK_STORE_FILE || '.tatrapay/payment-links.json')
+      : createMemoryPaymentLinkStore()
+  }
+  return globalForStore.tatraPayPaymentLinkStore
+}
+
+/**
+ * Replace the store used by the payment link routes (e.g. with a database adapter)
+ */
+export function setPaymentLinkStore(store: PaymentLinkStore): void {
+  globalForStore.tatraPayPaymentLinkStore = store
+}
+
+// =============================================================================
+// Link State
+// =============================================================================
+
+/**
+ * Current state of a link and the payments started from it
+ *
+ * A single-use link becomes paid as soon as one of its payments succeeds
+ * (the webhook, callback or bank statement import settle them). The paid
+ * time is then stored on the link.
+ */
+export async function getPaymentLinkState(
+  link: PaymentLink,
+  options: { store?: PaymentStore; linkStore?: PaymentLinkStore; now?: Date } = {}
+): Promise<{ state: PaymentLinkState; link: PaymentLink; payments: StoredPayment[] }> {
+  const store = options.store ?? getPaymentStore()
+  const now = options.now ?? new Date()
+
+  const payments = (await Promise.all(link.payments.map(p => store.findByPaymentId(p.paymentId))))
+    .filter((payment): payment is StoredPayment => payment !== null)
+
+  if (link.singleUse) {
+    if (link.paidAt) {
+      return { state: 'paid', link, payments }
+    }
+    const paid = payments.find(payment => isPaymentSuccessful(payment.status))
+    if (paid) {
+      const linkStore = options.linkStore ?? getPaymentLinkStore()
+      const updated = await linkStore.markPaid(link.id, paid.updatedAt)
+      return { state: 'paid', link: updated ?? link, payments }
+    }
+  }
+
+  const state = now.getTime() >= new Date(link.expiresAt).getTime() ? 'expired' : 'active'
+  return { state, link, payments }
+}
+
+/**
+ * Link data for the /pay page (no customer data or payment IDs)
+ */
+export function toPublicPaymentLink(
+  link: PaymentLink,
+  state: PaymentLinkState,
+  language: Language = DEFAULT_LANGUAGE
+): PublicPaymentLink {
+  return {
+    id: link.id,
+    state,
+    description: link.description,
+    amount: link.amount,
+    formattedAmount: formatMoney(link.amount, language),
+    expiresAt: link.expiresAt
+  }
+}
+
+// =============================================================================
+// Paying a Link
+// =============================================================================
+
+/**
+ * Request details needed to create the TatraPay payment
+ */
+export interface PaymentLinkPaymentContext {
+  baseUrl: string             // Public app URL for the callback and webhook
+  customerIpAddress: string
+  language?: Language
+}
+
+export type PaymentLinkPaymentResult =
+  | { outcome: 'not_found' }
+  | { outcome: 'closed'; state: Exclude<PaymentLinkState, 'active'>; link: PaymentLink }
+  | {
+      outcome: 'started'
+      link: PaymentLink
+      orderId: string
+      paymentId: string
+      redirectUrl?: string
+      bankTransferInfo?: TatraPayPaymentResponse['bankTransferInfo']
+      qrCodeData?: string
+    }
+
+// Opens of one link in flight, so two tabs cannot both create a payment
+const globalForOpens = globalThis as unknown as { tatraPayLinkOpens?: Map<string, Promise<unknown>> }
+
+/**
+ * Run operations for the same link one at a time (per process - with
+ * several server instances, lock the link in your PaymentLinkStore too)
+ */
+function exclusiveForLink<T>(linkId: string, operation: () => Promise<T>): Promise<T> {
+  const opens = globalForOpens.tatraPayLinkOpens ??= new Map()
+  const result = (opens.get(linkId) ?? Promise.resolve()).then(operation)
+  const tail = result.catch(() => undefined)
+  opens.set(linkId, tail)
+  tail.then(() => {
+    if (opens.get(linkId) === tail) opens.delete(linkId)
+  })
+  return result
+}
+
+/**
+ * Create the TatraPay payment for an opened link
+ *
+ * Links with a single allowed method go straight to that method; others
+ * use gateway mode. A single-use link only ever has one open payment:
+ * - A pending bank transfer returns its details again instead of a new
+ *   variable symbol the customer might pay twice (transfers never expire)
+ * - An open card or gateway payment returns its TatraPay+ page again until
+ *   its validity ends
+ * - Anything else still open is cancelled before a new payment is created
+ *
+ * Opens of the same link run one at a time.
+ *
+ * @example
+ * ```typescript
+ * const result = await startPaymentLinkPayment(linkId, { baseUrl, customerIpAddress })
+ * if (result.outcome === 'started' && result.redirectUrl) {
+ *   redirect(result.redirectUrl)
+ * }
+ * ```
+ */
+export function startPaymentLinkPayment(
+  linkId: string,
+  context: PaymentLinkPaymentContext,
+  options: { store?: PaymentStore; linkStore?: PaymentLinkStore; now?: Date } = {}
+): Promise<PaymentLinkPaymentResult> {
+  return exclusiveForLink(linkId, () => openPaymentLink(linkId, context, options))
+}
+
+async function openPaymentLink(
+  linkId: string,
+  context: PaymentLinkPaymentContext,
+  options: { store?: PaymentStore; linkStore?: PaymentLinkStore; now?: Date }
+): Promise<PaymentLinkPaymentResult> {
+  const store = options.store ?? getPaymentStore()
+  const linkStore = options.linkStore ?? getPaymentLinkStore()
+  const now = options.now ?? new Date()
+
+  const found = await linkStore.find(linkId)
+  if (!found) return { outcome: 'not_found' }
+
+  const opened = await getPaymentLinkState(found, { store, linkStore, now })
+  const { state, payments } = opened
+  let link = opened.link
+  if (state !== 'active') {
+    return { outcome: 'closed', state, link }
+  }
+
+  if (link.singleUse) {
+    // Same bank details again - a second variable symbol invites double payments
+    const latest = payments[payments.length - 1]
+    if (latest && isBankTransferPayment(latest) && latest.bankTransferInfo && isPaymentPending(latest.status)) {
+      return {
+        outcome: 'started',
+        link,
+        orderId: latest.orderId,
+        paymentId: latest.paymentId,
+        bankTransferInfo: latest.bankTransferInfo,
+        qrCodeData: latest.qrCodeData
+      }
+    }
+
+    // Same TatraPay+ page again while it can still be paid
+    const open = payments.filter(payment =>
+      (payment.status === 'RCVD' || payment.status === 'PDNG') && !isBankTransferPayment(payment)
+    )
+    const reusable = open.find(payment =>
+      payment.paymentId === latest?.paymentId &&
+      (!payment.expiresAt || now.getTime() < new Date(payment.expiresAt).getTime())
+    )
+    const redirectUrl = reusable &&
+      link.payments.find(entry => entry.paymentId === reusable.paymentId)?.redirectUrl
+    if (reusable && redirectUrl) {
+      return {
+        outcome: 'started',
+        link,
+        orderId: reusable.orderId,
+        paymentId: reusable.paymentId,
+        redirectUrl,
+        bankTransferInfo: reusable.bankTransferInfo,
+        qrCodeData: reusable.qrCodeData
+      }
+    }
+
+    // Replace the rest - cancelled first, so only the new payment can be paid
+    if (open.length > 0) {
+      for (const payment of open) {
+        await closeOpenPayment(payment, { store })
+      }
+      const refreshed = await getPaymentLinkState(link, { store, linkStore, now })
+      if (refreshed.state !== 'active') {
+        return { outcome: 'closed', state: refreshed.state, link: refreshed.link }
+      }
+      link = refreshed.link
+    }
+  }
+
+  const methods = link.allowedMethods?.length ? link.allowedMethods : LINK_METHODS
+  const paymentMethod = methods.length === 1 ? methods[0] : undefined
+
+  // Multi-use links need an order ID per payment
+  const orderId = link.singleUse ? link.orderId : `${link.orderId}-${createShortId(4)}`
+
+  const client = getTatraPayClient({ orderId, currency: link.amount.currency })
+  const payment = await client.createPayment({
+    paymentMethod,
+    allowedMethods: paymentMethod ? undefined : methods,
+    amount: link.amount,
+    merchantReference: orderId,
+    description: link.description,
+    customer: link.customer,
+    returnUrl: `${context.baseUrl}/api/payment/callback?orderId=${encodeURIComponent(orderId)}`,
+    notificationUrl: `${context.baseUrl}/api/payment/webhook`,
+    language: context.language || DEFAULT_LANGUAGE,
+    customerIpAddress: context.customerIpAddress
+  })
+
+  await store.save({
+    orderId,
+    paymentId: payment.paymentId,
+    paymentMethod,
+    amount: link.amount,
+    status: payment.status,
+    bankTransferInfo: payment.bankTransferInfo,
+    qrCodeData: payment.qrCodeData,
+    language: context.language || DEFAULT_LANGUAGE,
+    expiresAt: payment.expiresAt
+  })
+
+  const updated = await linkStore.addPayment(link.id, {
+    paymentId: payment.paymentId,
+    orderId,
+    redirectUrl: payment.redirectUrl,
+    createdAt: new Date().toISOString()
+  })
+
+  getLogger().info('Payment link opened', { linkId: link.id, orderId, paymentId: payment.paymentId })
+
+  return {
+    outcome: 'started',
+    link: updated ?? link,
+    orderId,
+    paymentId: payment.paymentId,
+    redirectUrl: payment.redirectUrl,
+    bankTransferInfo: payment.bankTransferInfo,
+    qrCodeData: payment.qrCodeData
+  }
+}
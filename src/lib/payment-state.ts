@@ -0,0 +1,340 @@
+/**
+ * Payment status state machine
+ *
+ * Guards transitions between TatraPay ISO 20022 statuses so that late or
+ * duplicate notifications cannot move a payment backwards (e.g. ACSC -> PDNG),
+ * and fires lifecycle hooks exactly once per payment.
+ *
+ * Allowed transitions:
+ * - Statuses only move forward: RCVD -> PDNG -> partial -> accepted -> settled
+ * - Partial statuses (PATC, PART) may switch between each other
+ * - Success statuses only advance to later success statuses (ACSP -> ACSC)
+ * - Failure (RJCT, CANC) is reachable from any non-success status and is final
+ * - A success status with an open (AUTHORIZED) pre-authorization may still
+ *   fail: voiding the hold cancels the payment
+ * - Card pre-authorizations move AUTHORIZED -> CAPTURED or VOIDED, never back
+ */
+
+import {
+  getTatraPayClient,
+  TatraPayPreAuthorizationStatus,
+  TatraPayStatus,
+  isPaymentAuthorized,
+  isPaymentSuccessful,
+  isPaymentFailed
+} from './tatrapay'
+import {
+  getPaymentStore,
+  PaymentStatusUpdate,
+  PaymentStore,
+  StoredPayment
+} from './payment-store'
+import { ConflictError } from './tatrapay-errors'
+import { publishOrderStatus } from './order-status'
+import { getLogger } from './logger'
+
+// =============================================================================
+// Transitions
+// =============================================================================
+
+/**
+ * Progress order of statuses. Higher rank = further along.
+ * Failure statuses are handled separately.
+ */
+const STATUS_RANK: Record<TatraPayStatus, number> = {
+  'RCVD': 0,
+  'PDNG': 1,
+  'PATC': 2,
+  'PART': 2,
+  'ACTC': 3,
+  'ACCP': 4,
+  'ACWC': 5,
+  'ACFC': 6,
+  'ACWP': 7,
+  'ACSP': 8,
+  'ACSC': 9,
+  'ACCC': 10,
+  'RJCT': 11,
+  'CANC': 11
+}
+
+/**
+ * Check if a payment is partially paid
+ *
+ * ISO 20022 partial codes: PATC, PART
+ */
+export function isPaymentPartiallyPaid(status: TatraPayStatus): boolean {
+  return status === 'PATC' || status === 'PART'
+}
+
+/**
+ * Check whether a payment may move from one status to another
+ *
+ * Pass the current pre-authorization state: a held card authorization is
+ * not money received, so it can still be voided into CANC.
+ *
+ * @example
+ * ```typescript
+ * canTransition('PDNG', 'ACSC') // true
+ * canTransition('ACSC', 'PDNG') // false - regression
+ * canTransition('RJCT', 'ACSC') // false - failure is final
+ * canTransition('ACSC', 'CANC', 'AUTHORIZED') // true - voided hold
+ * ```
+ */
+export function canTransition(
+  from: TatraPayStatus,
+  to: TatraPayStatus,
+  preAuthorization?: TatraPayPreAuthorizationStatus
+): boolean {
+  if (from === to) return false
+  if (isPaymentFailed(from)) return false
+  if (isPaymentFailed(to)) return !isPaymentSuccessful(from) || preAuthorization === 'AUTHORIZED'
+  if (isPaymentPartiallyPaid(from) && isPaymentPartiallyPaid(to)) return true
+  return STATUS_RANK[to] > STATUS_RANK[from]
+}
+
+/**
+ * Check whether a pre-authorization may move to a new state
+ *
+ * An undefined target means TatraPay did not report pre-authorization data,
+ * which keeps the current state.
+ */
+export function canTransitionPreAuthorization(
+  from: TatraPayPreAuthorizationStatus | undefined,
+  to: TatraPayPreAuthorizationStatus | undefined
+): boolean {
+  if (!to || !from || from === to) return true
+  return from === 'AUTHORIZED'
+}
+
+/**
+ * Lifecycle phase of a payment
+ */
+export type PaymentPhase = 'pending' | 'partial' | 'authorized' | 'completed' | 'failed'
+
+/**
+ * Get the lifecycle phase for a status and pre-authorization state
+ */
+export function getPaymentPhase(
+  status: TatraPayStatus,
+  preAuthorization?: TatraPayPreAuthorizationStatus
+): PaymentPhase {
+  if (isPaymentFailed(status, preAuthorization)) return 'failed'
+  if (isPaymentAuthorized(status, preAuthorization)) return 'authorized'
+  if (isPaymentSuccessful(status, preAuthorization)) return 'completed'
+  if (isPaymentPartiallyPaid(status)) return 'partial'
+  return 'pending'
+}
+
+// =============================================================================
+// Lifecycle Hooks
+// =============================================================================
+
+/**
+ * Hooks fired when a payment enters a new lifecycle phase
+ *
+ * Each hook fires at most once per payment, after the new status is
+ * committed to the store. Errors thrown by hooks are logged, not retried.
+ */
+export interface PaymentLifecycleHooks {
+  onAuthorized?: (payment: StoredPayment) => void | Promise<void>
+  onCompleted?: (payment: StoredPayment) => void | Promise<void>
+  onFailed?: (payment: StoredPayment) => void | Promise<void>
+  onPartiallyPaid?: (payment: StoredPayment) => void | Promise<void>
+}
+
+// Kept on globalThis so registrations survive Next.js hot reloads
+const globalForHooks = globalThis as unknown as { tatraPayLifecycleHooks?: PaymentLifecycleHooks }
+
+/**
+ * Register the lifecycle hooks used by the payment routes
+ *
+ * @example
+ * ```typescript
+ * setPaymentLifecycleHooks({
+ *   onCompleted: async (payment) => {
+ *     await db.orders.update({ where: { id: payment.orderId }, data: { status: 'paid' } })
+ *     await sendConfirmationEmail(payment.orderId)
+ *   }
+ * })
+ * ```
+ */
+export function setPaymentLifecycleHooks(hooks: PaymentLifecycleHooks): void {
+  globalForHooks.tatraPayLifecycleHooks = hooks
+}
+
+/**
+ * Get the registered lifecycle hooks
+ */
+export function getPaymentLifecycleHooks(): PaymentLifecycleHooks {
+  return globalForHooks.tatraPayLifecycleHooks ?? {}
+}
+
+// =============================================================================
+// Applying Status Changes
+// =============================================================================
+
+/**
+ * Result of applying a status to a payment
+ *
+ * - applied: status changed, hooks fired where applicable
+ * - duplicate: payment already has this status
+ * - rejected: transition not allowed (payment keeps its current status)
+ */
+export type PaymentTransitionResult =
+  | { outcome: 'applied'; payment: StoredPayment; previousStatus: TatraPayStatus }
+  | { outcome: 'duplicate'; payment: StoredPayment }
+  | { outcome: 'rejected'; payment: StoredPayment; attemptedStatus: TatraPayStatus }
+
+const MAX_CONFLICT_RETRIES = 3
+
+/**
+ * Apply a status reported by TatraPay to a stored payment
+ *
+ * Uses compare-and-set on the store so concurrent callback and webhook
+ * requests cannot both fire the same hook.
+ *
+ * Returns null if the payment is not in the store.
+ *
+ * @example
+ * ```typescript
+ * const status = await getPaymentStatus(paymentId)
+ * const result = await applyPaymentStatus(paymentId, {
+ *   status: status.status,
+ *   source: 'webhook',
+ *   transactionId: status.transactionId,
+ *   preAuthorization: status.preAuthorization
+ * })
+ * ```
+ */
+export async function applyPaymentStatus(
+  paymentId: string,
+  update: Omit<PaymentStatusUpdate, 'expectedVersion'>,
+  options: { store?: PaymentStore; hooks?: PaymentLifecycleHooks } = {}
+): Promise<PaymentTransitionResult | null> {
+  const store = options.store ?? getPaymentStore()
+  const hooks = options.hooks ?? getPaymentLifecycleHooks()
+
+  for (let attempt = 0; attempt <= MAX_CONFLICT_RETRIES; attempt++) {
+    const current = await store.findByPaymentId(paymentId)
+    if (!current) return null
+
+    const statusChanged = current.status !== update.status
+    const nextPreAuthorization = update.preAuthorization ?? current.preAuthorization
+
+    if (!statusChanged && nextPreAuthorization === current.preAuthorization) {
+      return { outcome: 'duplicate', payment: current }
+    }
+
+    if (
+      (statusChanged && !canTransition(current.status, update.status, current.preAuthorization)) ||
+      !canTransitionPreAuthorization(current.preAuthorization, update.preAuthorization)
+    ) {
+      getLogger().warn('Rejected payment status transition', {
+        paymentId,
+        from: current.status,
+        to: update.status,
+        preAuthorization: update.preAuthorization,
+        source: update.source
+      })
+      return { outcome: 'rejected', payment: current, attemptedStatus: update.status }
+    }
+
+    const updated = await store.updateStatus(paymentId, {
+      ...update,
+      expectedVersion: current.version ?? 0
+    })
+
+    // Another request changed the payment in the meantime - re-evaluate
+    if (!updated) continue
+
+    // Open status streams (pending page, apps)
+    publishOrderStatus(updated)
+
+    await fireHooks(
+      hooks,
+      getPaymentPhase(current.status, current.preAuthorization),
+      updated
+    )
+    return { outcome: 'applied', payment: updated, previousStatus: current.status }
+  }
+
+  throw new ConflictError(`Payment ${paymentId} status kept changing concurrently`)
+}
+
+/**
+ * Fire the hook for the phase the payment just entered
+ */
+async function fireHooks(
+  hooks: PaymentLifecycleHooks,
+  previousPhase: PaymentPhase,
+  payment: StoredPayment
+): Promise<void> {
+  const phase = getPaymentPhase(payment.status, payment.preAuthorization)
+  if (phase === previousPhase) return
+
+  const hookNames: Partial<Record<PaymentPhase, keyof PaymentLifecycleHooks>> = {
+    authorized: 'onAuthorized',
+    completed: 'onCompleted',
+    failed: 'onFailed',
+    partial: 'onPartiallyPaid'
+  }
+  const name = hookNames[phase]
+  const hook = name && hooks[name]
+
+  if (!hook) return
+
+  try {
+    await hook(payment)
+  } catch (error) {
+    getLogger().error('Payment hook failed', { hook: name, paymentId: payment.paymentId, error })
+  }
+}
+
+// =============================================================================
+// Replaced Payments
+// =============================================================================
+
+/**
+ * Whether the payment is a bank transfer (or its QR code variant)
+ *
+ * Transfers are never cancelled for a new payment - the customer may
+ * already have sent the money.
+ */
+export function isBankTransferPayment(payment: StoredPayment): boolean {
+  return payment.paymentMethod === 'BANK_TRANSFER' || payment.paymentMethod === 'QR_PAY'
+}
+
+/**
+ * Cancel an open payment a new one replaces, so they cannot both be paid
+ *
+ * If TatraPay already moved it on (e.g. the webhook was lost), the new
+ * status is recorded instead. Returns the payment as stored afterwards.
+ */
+export async function closeOpenPayment(
+  payment: StoredPayment,
+  options: { store?: PaymentStore } = {}
+): Promise<StoredPayment | null> {
+  const store = options.store ?? getPaymentStore()
+  const client = getTatraPayClient({ orderId: payment.orderId, currency: payment.amount.currency })
+  const current = await client.getPaymentStatus(payment.paymentId)
+
+  if (current.status !== 'RCVD' && current.status !== 'PDNG') {
+    const result = await applyPaymentStatus(payment.paymentId, {
+      status: current.status,
+      source: 'reconciliation',
+      transactionId: current.transactionId,
+      paymentMethod: current.paymentMethod,
+      preAuthorization: current.preAuthorization
+    }, { store })
+    return result?.payment ?? null
+  }
+
+  await client.cancelPayment(payment.paymentId)
+  const result = await applyPaymentStatus(payment.paymentId, {
+    status: 'CANC',
+    source: 'merchant',
+    reason: 'replaced'
+  }, { store })
+  return result?.payment ?? null
+}
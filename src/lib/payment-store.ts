@@ -0,0 +1,518 @@
+/**
+ * Payment persistence for TatraPay+ routes
+ *
+ * Stores the paymentId returned by createPayment together with its
+ * status history and transactionId, so the callback and webhook routes
+ * can find the payment again.
+ *
+ * Ships with two adapters:
+ * - Memory: for local development and tests (lost on restart)
+ * - File: JSON file on disk, for single-instance deployments
+ *
+ * For production, implement the PaymentStore interface on top of your
+ * own database and register it with setPaymentStore().
+ *
+ * @example
+ * ```typescript
+ * import { setPaymentStore } from '@/lib/payment-store'
+ *
+ * setPaymentStore({
+ *   save: (payment) => db.payments.upsert(payment),
+ *   findByOrderId: (orderId) => db.payments.findFirst({ where: { orderId } }),
+ *   ...
+ * })
+ * ```
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { Money } from './money'
+import type { Language } from './i18n'
+import type {
+  TatraPayMethod,
+  TatraPayPaymentResponse,
+  TatraPayPreAuthorizationStatus,
+  TatraPayStatus
+} from './tatrapay'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Where a status change came from
+ */
+export type PaymentStatusSource =
+  | 'create'
+  | 'callback'
+  | 'webhook'
+  | 'merchant'
+  | 'reconciliation'
+  | 'bank_statement'
+
+/**
+ * Single entry in a payment's status history
+ */
+export interface PaymentStatusEntry {
+  status: TatraPayStatus
+  source: PaymentStatusSource
+  reason?: string  // e.g. 'expired' when reconciliation cancelled an abandoned payment
+  at: string // ISO 8601 timestamp
+}
+
+/**
+ * Incoming bank transfer matched to a payment by a statement import
+ */
+export interface StoredBankCredit {
+  reference: string         // Bank reference of the statement entry
+  amount: number            // In minor units of the payment's amount.currency
+  bookedAt: string          // Booking date, YYYY-MM-DD
+  counterpartyIban?: string
+}
+
+/**
+ * Refund reserved before it is sent to TatraPay
+ *
+ * Stays on the payment while its outcome is unknown (the request failed
+ * after it was sent) until reconciliation settles it.
+ */
+export interface PendingRefund {
+  id: string                // X-Request-ID of the refund request
+  amount: number            // In minor units of the payment's amount.currency
+  createdAt: string
+}
+
+/**
+ * Payment as persisted by the store
+ */
+export interface StoredPayment {
+  orderId: string
+  paymentId: string
+  paymentMethod?: TatraPayMethod   // Unknown until chosen in gateway mode
+  amount: Money
+  status: TatraPayStatus
+  preAuthorization?: TatraPayPreAuthorizationStatus
+  statusHistory: PaymentStatusEntry[]
+  transactionId?: string
+  bankTransferInfo?: TatraPayPaymentResponse['bankTransferInfo']
+  qrCodeData?: string       // PAY by square string
+  refundedAmount?: number   // Total refunded, in minor units of amount.currency
+  pendingRefunds?: PendingRefund[]  // Reserved, not yet confirmed by TatraPay
+  bankCredits?: StoredBankCredit[]  // Transfers received (BANK_TRANSFER / QR_PAY)
+  customerId?: string       // Set when the card is saved for this customer (saveCard)
+  language?: Language       // Customer's language at createPayment(), for the result pages
+  expiresAt?: string        // End of the validity window sent to TatraPay (reconciliation expires it then)
+  version: number           // Incremented on every update (for compare-and-set)
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Data needed to record a newly created payment
+ */
+export interface NewStoredPayment {
+  orderId: string
+  paymentId: string
+  paymentMethod?: TatraPayMethod
+  amount: StoredPayment['amount']
+  status: TatraPayStatus
+  preAuthorization?: TatraPayPreAuthorizationStatus
+  bankTransferInfo?: StoredPayment['bankTransferInfo']
+  qrCodeData?: string
+  customerId?: string
+  language?: Language
+  expiresAt?: string
+}
+
+/**
+ * Status update for an existing payment
+ */
+export interface PaymentStatusUpdate {
+  status: TatraPayStatus
+  source: PaymentStatusSource
+  transactionId?: string
+  paymentMethod?: TatraPayMethod  // Method the customer actually used
+  preAuthorization?: TatraPayPreAuthorizationStatus
+  reason?: string                 // Why the status changed, kept in the history
+  expectedVersion?: number        // Only apply if the record was not changed since
+}
+
+/**
+ * Persistence interface used by the payment routes
+ */
+export interface PaymentStore {
+  /** Record a newly created payment (replaces any previous payment for the order) */
+  save(payment: NewStoredPayment): Promise<StoredPayment>
+  /** Find the latest payment for an order */
+  findByOrderId(orderId: string): Promise<StoredPayment | null>
+  /** List every payment of an order, oldest first */
+  listByOrderId(orderId: string): Promise<StoredPayment[]>
+  /** Find a payment by TatraPay payment ID */
+  findByPaymentId(paymentId: string): Promise<StoredPayment | null>
+  /** List payments currently in one of the statuses (used by reconciliation) */
+  listByStatus(statuses: TatraPayStatus[]): Promise<StoredPayment[]>
+  /** List payments with this bank transfer variable symbol (leading zeros ignored) */
+  listByVariableSymbol(variableSymbol: string): Promise<StoredPayment[]>
+  /** List payments with pending refunds (used by reconciliation) */
+  listWithPendingRefunds(): Promise<StoredPayment[]>
+  /**
+   * Append a status to the history. Returns null if the payment is unknown
+   * or its version does not match update.expectedVersion.
+   */
+  updateStatus(paymentId: string, update: PaymentStatusUpdate): Promise<StoredPayment | null>
+  /**
+   * Reserve a refund as pending. Returns null if the payment is unknown or
+   * its version does not match expectedVersion.
+   */
+  reserveRefund(paymentId: string, refund: PendingRefund, expectedVersion?: number): Promise<StoredPayment | null>
+  /**
+   * Remove a pending refund, adding its amount to the refunded total if
+   * TatraPay refunded it. A refund that is no longer pending is ignored.
+   * Returns null if the payment is unknown.
+   */
+  settleRefund(paymentId: string, refundId: string, refunded: boolean): Promise<StoredPayment | null>
+  /**
+   * Add a received bank transfer. A credit with an already recorded
+   * reference is ignored. Returns null if the payment is unknown.
+   */
+  recordBankCredit(paymentId: string, credit: StoredBankCredit): Promise<StoredPayment | null>
+}
+
+// =============================================================================
+// Shared Helpers
+// =============================================================================
+
+function createRecord(payment: NewStoredPayment): StoredPayment {
+  const now = new Date().toISOString()
+  return {
+    ...payment,
+    statusHistory: [{ status: payment.status, source: 'create', at: now }],
+    version: 1,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+function matchesExpected(record: StoredPayment, update: { expectedVersion?: number }): boolean {
+  return update.expectedVersion === undefined || (record.version ?? 0) === update.expectedVersion
+}
+
+function applyUpdate(record: StoredPayment, update: PaymentStatusUpdate): StoredPayment {
+  const now = new Date().toISOString()
+  return {
+    ...record,
+    status: update.status,
+    preAuthorization: update.preAuthorization ?? record.preAuthorization,
+    transactionId: update.transactionId ?? record.transactionId,
+    paymentMethod: update.paymentMethod ?? record.paymentMethod,
+    statusHistory: [
+      ...record.statusHistory,
+      { status: update.status, source: update.source, ...(update.reason && { reason: update.reason }), at: now }
+    ],
+    version: (record.version ?? 0) + 1,
+    updatedAt: now
+  }
+}
+
+function byCreatedAt(a: StoredPayment, b: StoredPayment): number {
+  return a.createdAt.localeCompare(b.createdAt)
+}
+
+function hasVariableSymbol(record: StoredPayment, variableSymbol: string): boolean {
+  const stored = record.bankTransferInfo?.variableSymbol
+  return stored !== undefined && stored.replace(/^0+/, '') === variableSymbol.replace(/^0+/, '')
+}
+
+function applyBankCredit(record: StoredPayment, credit: StoredBankCredit): StoredPayment {
+  if (record.bankCredits?.some(existing => existing.reference === credit.reference)) {
+    return record
+  }
+  return {
+    ...record,
+    bankCredits: [...(record.bankCredits ?? []), credit],
+    version: (record.version ?? 0) + 1,
+    updatedAt: new Date().toISOString()
+  }
+}
+
+function applyRefundReservation(record: StoredPayment, refund: PendingRefund): StoredPayment {
+  return {
+    ...record,
+    pendingRefunds: [...(record.pendingRefunds ?? []), refund],
+    version: (record.version ?? 0) + 1,
+    updatedAt: new Date().toISOString()
+  }
+}
+
+function applyRefundSettlement(record: StoredPayment, refundId: string, refunded: boolean): StoredPayment {
+  const refund = record.pendingRefunds?.find(pending => pending.id === refundId)
+  if (!refund) return record
+
+  return {
+    ...record,
+    refundedAmount: (record.refundedAmount ?? 0) + (refunded ? refund.amount : 0),
+    pendingRefunds: record.pendingRefunds!.filter(pending => pending.id !== refundId),
+    version: (record.version ?? 0) + 1,
+    updatedAt: new Date().toISOString()
+  }
+}
+
+function hasPendingRefunds(record: StoredPayment): boolean {
+  return (record.pendingRefunds?.length ?? 0) > 0
+}
+
+// =============================================================================
+// Memory Adapter
+// =============================================================================
+
+/**
+ * In-memory store. Data is lost when the process restarts.
+ */
+export function createMemoryPaymentStore(): PaymentStore {
+  const payments = new Map<string, StoredPayment>()   // paymentId -> payment
+  const orders = new Map<string, string>()            // orderId -> paymentId
+
+  return {
+    async save(payment) {
+      const record = createRecord(payment)
+      payments.set(record.paymentId, record)
+      orders.set(record.orderId, record.paymentId)
+      return record
+    },
+
+    async findByOrderId(orderId) {
+      const paymentId = orders.get(orderId)
+      return paymentId ? payments.get(paymentId) ?? null : null
+    },
+
+    async listByOrderId(orderId) {
+      return Array.from(payments.values()).filter(payment => payment.orderId === orderId).sort(byCreatedAt)
+    },
+
+    async findByPaymentId(paymentId) {
+      return payments.get(paymentId) ?? null
+    },
+
+    async listByStatus(statuses) {
+      return Array.from(payments.values()).filter(payment => statuses.includes(payment.status))
+    },
+
+    async listByVariableSymbol(variableSymbol) {
+      return Array.from(payments.values()).filter(payment => hasVariableSymbol(payment, variableSymbol))
+    },
+
+    async listWithPendingRefunds() {
+      return Array.from(payments.values()).filter(hasPendingRefunds)
+    },
+
+    async updateStatus(paymentId, update) {
+      const record = payments.get(paymentId)
+      if (!record || !matchesExpected(record, update)) return null
+
+      const updated = applyUpdate(record, update)
+      payments.set(paymentId, updated)
+      return updated
+    },
+
+    async reserveRefund(paymentId, refund, expectedVersion) {
+      const record = payments.get(paymentId)
+      if (!record || !matchesExpected(record, { expectedVersion })) return null
+
+      const updated = applyRefundReservation(record, refund)
+      payments.set(paymentId, updated)
+      return updated
+    },
+
+    async settleRefund(paymentId, refundId, refunded) {
+      const record = payments.get(paymentId)
+      if (!record) return null
+
+      const updated = applyRefundSettlement(record, refundId, refunded)
+      payments.set(paymentId, updated)
+      return updated
+    },
+
+    async recordBankCredit(paymentId, credit) {
+      const record = payments.get(paymentId)
+      if (!record) return null
+
+      const updated = applyBankCredit(record, credit)
+      payments.set(paymentId, updated)
+      return updated
+    }
+  }
+}
+
+// =============================================================================
+// File Adapter
+// =============================================================================
+
+interface PaymentFileData {
+  payments: Record<string, StoredPayment>
+  orders: Record<string, string>
+}
+
+/**
+ * JSON file store. Suitable for a single server instance.
+ *
+ * Writes are serialized within the process and go through a temp file
+ * + rename, so a crash mid-write never leaves a truncated file.
+ */
+export function createFilePaymentStore(filePath: string): PaymentStore {
+  let queue: Promise<unknown> = Promise.resolve()
+
+  async function read(): Promise<PaymentFileData> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { payments: {}, orders: {} }
+      }
+      throw error
+    }
+  }
+
+  async function write(data: PaymentFileData): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    const tmpPath = `${filePath}.${process.pid}.tmp`
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2))
+    await fs.rename(tmpPath, filePath)
+  }
+
+  // Run read-modify-write operations one at a time
+  function exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = queue.then(operation)
+    queue = result.catch(() => undefined)
+    return result
+  }
+
+  return {
+    save(payment) {
+      return exclusive(async () => {
+        const data = await read()
+        const record = createRecord(payment)
+        data.payments[record.paymentId] = record
+        data.orders[record.orderId] = record.paymentId
+        await write(data)
+        return record
+      })
+    },
+
+    async findByOrderId(orderId) {
+      const data = await read()
+      const paymentId = data.orders[orderId]
+      return paymentId ? data.payments[paymentId] ?? null : null
+    },
+
+    async listByOrderId(orderId) {
+      const data = await read()
+      return Object.values(data.payments).filter(payment => payment.orderId === orderId).sort(byCreatedAt)
+    },
+
+    async findByPaymentId(paymentId) {
+      const data = await read()
+      return data.payments[paymentId] ?? null
+    },
+
+    async listByStatus(statuses) {
+      const data = await read()
+      return Object.values(data.payments).filter(payment => statuses.includes(payment.status))
+    },
+
+    async listByVariableSymbol(variableSymbol) {
+      const data = await read()
+      return Object.values(data.payments).filter(payment => hasVariableSymbol(payment, variableSymbol))
+    },
+
+    async listWithPendingRefunds() {
+      const data = await read()
+      return Object.values(data.payments).filter(hasPendingRefunds)
+    },
+
+    updateStatus(paymentId, update) {
+      return exclusive(async () => {
+        const data = await read()
+        const record = data.payments[paymentId]
+        if (!record || !matchesExpected(record, update)) return null
+
+        const updated = applyUpdate(record, update)
+        data.payments[paymentId] = updated
+        await write(data)
+        return updated
+      })
+    },
+
+    reserveRefund(paymentId, refund, expectedVersion) {
+      return exclusive(async () => {
+        const data = await read()
+        const record = data.payments[paymentId]
+        if (!record || !matchesExpected(record, { expectedVersion })) return null
+
+        const updated = applyRefundReservation(record, refund)
+        data.payments[paymentId] = updated
+        await write(data)
+        return updated
+      })
+    },
+
+    settleRefund(paymentId, refundId, refunded) {
+      return exclusive(async () => {
+        const data = await read()
+        const record = data.payments[paymentId]
+        if (!record) return null
+
+        const updated = applyRefundSettlement(record, refundId, refunded)
+        if (updated !== record) {
+          data.payments[paymentId] = updated
+          await write(data)
+        }
+        return updated
+      })
+    },
+
+    recordBankCredit(paymentId, credit) {
+      return exclusive(async () => {
+        const data = await read()
+        const record = data.payments[paymentId]
+        if (!record) return null
+
+        const updated = applyBankCredit(record, credit)
+        if (updated !== record) {
+          data.payments[paymentId] = updated
+          await write(data)
+        }
+        return updated
+      })
+    }
+  }
+}
+
+// =============================================================================
+// Default Store
+// =============================================================================
+
+// Kept on globalThis so the memory store survives Next.js hot reloads
+const globalForStore = globalThis as unknown as { tatraPayPaymentStore?: PaymentStore }
+
+/**
+ * Get the store used by the payment routes
+ *
+ * Configured via environment variables:
+ * - TATRAPAY_STORE: 'memory' (default) or 'file'
+ * - TATRAPAY_STORE_FILE: path for the file store (default .tatrapay/payments.json)
+ */
+export function getPaymentStore(): PaymentStore {
+  if (!globalForStore.tatraPayPaymentStore) {
+    globalForStore.tatraPayPaymentStore = process.env.TATRAPAY_STORE === 'file'
+      ? createFilePaymentStore(process.env.TATRAPAY_STORE_FILE || '.tatrapay/payments.json')
+      : createMemoryPaymentStore()
+  }
+  return globalForStore.tatraPayPaymentStore
+}
+
+/**
+ * Replace the store used by the payment routes (e.g. with a database adapter)
+ */
+export function setPaymentStore(store: PaymentStore): void {
+  globalForStore.tatraPayPaymentStore = store
+}
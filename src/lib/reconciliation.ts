@@ -0,0 +1,302 @@
+/**
+ * Reconciliation of stuck payments
+ *
+ * A payment only leaves RCVD / PDNG when the callback or a webhook reports
+ * a new status. If the customer closes the browser and the webhook is
+ * lost, nothing asks TatraPay again and the order stays pending forever.
+ *
+ * reconcilePendingPayments() re-checks every pending payment with
+ * TatraPay, applies changes through the state machine (lifecycle hooks fire
+ * as usual) and cancels card payments the customer abandoned. It also
+ * settles refunds whose outcome was unknown when they were sent.
+ *
+ * Run it periodically:
+ * - Cron: GET /api/payment/reconcile (merchant API key)
+ * - CLI:  npm run reconcile
+ * - Code: await reconcilePendingPayments()
+ */
+
+import {
+  DEFAULT_PAYMENT_VALIDITY_MINUTES,
+  getTatraPayClient,
+  isPaymentPending,
+  TatraPayClient,
+  TatraPayStatus,
+  ValidationError
+} from './tatrapay'
+import { getPaymentStore, PaymentStore, PendingRefund, StoredPayment } from './payment-store'
+import { applyPaymentStatus } from './payment-state'
+import { saveCardFromPayment } from './card-store'
+import { getLogger } from './logger'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ReconciliationOptions {
+  store?: PaymentStore
+  concurrency?: number             // Parallel TatraPay requests (default 5)
+  cardValidityMinutes?: number     // For payments stored without expiresAt (default DEFAULT_PAYMENT_VALIDITY_MINUTES)
+  dryRun?: boolean                 // Report changes without applying them
+  getClient?: (payment: StoredPayment) => TatraPayClient  // Default: getTatraPayClient()
+  now?: Date                       // Reference time for the validity window
+}
+
+/**
+ * A payment whose status was changed
+ */
+export interface ReconciliationChange {
+  orderId: string
+  paymentId: string
+  from: TatraPayStatus
+  to: TatraPayStatus
+}
+
+/**
+ * A pending refund that was settled
+ */
+export interface ReconciliationRefund {
+  orderId: string
+  paymentId: string
+  refundId: string
+  amount: number                    // In minor units of the payment currency
+  refunded: boolean                 // false = TatraPay rejected it, the reservation was released
+}
+
+/**
+ * Summary of a reconciliation run
+ */
+export interface ReconciliationReport {
+  startedAt: string
+  finishedAt: string
+  dryRun: boolean
+  checked: number
+  updated: ReconciliationChange[]   // TatraPay reported a newer status
+  expired: ReconciliationChange[]   // Abandoned card payments, cancelled
+  refunds: ReconciliationRefund[]   // Pending refunds settled (skipped in dry runs)
+  unchanged: number
+  errors: Array<{ orderId: string; paymentId: string; error: string }>
+}
+
+// Statuses a payment can get stuck in
+const STUCK_STATUSES: TatraPayStatus[] = ['RCVD', 'PDNG']
+
+const DEFAULT_CONCURRENCY = 5
+
+// =============================================================================
+// Reconciliation
+// =============================================================================
+
+/**
+ * Refresh all RCVD / PDNG payments from TatraPay and expire abandoned ones
+ *
+ * Card payments (and gateway payments where no method was chosen) that are
+ * still pending after the validity window sent to TatraPay (the payment's
+ * expiresAt) are cancelled at TatraPay and recorded as CANC with reason
+ * 'expired'. Bank transfers are never
+ * expired - customers may pay days later.
+ *
+ * @example
+ * ```typescript
+ * const report = await reconcilePendingPayments({ concurrency: 3 })
+ * console.log(`${report.updated.length} updated, ${report.expired.length} expired`)
+ * ```
+ */
+export async function reconcilePendingPayments(
+  options: ReconciliationOptions = {}
+): Promise<ReconciliationReport> {
+  const store = options.store ?? getPaymentStore()
+  const getClient = options.getClient ?? ((payment: StoredPayment) => getTatraPayClient({
+    orderId: payment.orderId,
+    currency: payment.amount.currency
+  }))
+  const now = options.now ?? new Date()
+  const validityMs = (options.cardValidityMinutes ?? DEFAULT_PAYMENT_VALIDITY_MINUTES) * 60 * 1000
+  const dryRun = options.dryRun ?? false
+
+  const startedAt = new Date().toISOString()
+  const report: ReconciliationReport = {
+    startedAt,
+    finishedAt: startedAt,
+    dryRun,
+    checked: 0,
+    updated: [],
+    expired: [],
+    refunds: [],
+    unchanged: 0,
+    errors: []
+  }
+
+  const payments = await store.listByStatus(STUCK_STATUSES)
+  getLogger().info('Reconciling pending payments', { count: payments.length, dryRun })
+
+  await forEachWithConcurrency(payments, options.concurrency ?? DEFAULT_CONCURRENCY, async (payment) => {
+    report.checked++
+    try {
+      const client = getClient(payment)
+      const current = await client.getPaymentStatus(payment.paymentId)
+      const change = { orderId: payment.orderId, paymentId: payment.paymentId, from: payment.status }
+
+      // TatraPay knows more than we do - apply it
+      if (current.status !== payment.status || current.preAuthorization !== payment.preAuthorization) {
+        if (!dryRun) {
+          const transition = await applyPaymentStatus(payment.paymentId, {
+            status: current.status,
+            source: 'reconciliation',
+            transactionId: current.transactionId,
+            paymentMethod: current.paymentMethod,
+            preAuthorization: current.preAuthorization
+          }, { store })
+
+          if (transition?.outcome !== 'applied') {
+            report.unchanged++
+            return
+          }
+          if (payment.customerId) {
+            await saveCardFromPayment(payment.customerId, current)
+          }
+        }
+        report.updated.push({ ...change, to: current.status })
+        return
+      }
+
+      // Still pending - expire card payments the customer abandoned
+      const method = current.paymentMethod ?? payment.paymentMethod
+      const isCardLike = !method || method === 'CARD_PAY'
+      // Payments stored before expiresAt was recorded fall back to createdAt
+      const expiresAt = payment.expiresAt
+        ? new Date(payment.expiresAt).getTime()
+        : new Date(payment.createdAt).getTime() + validityMs
+
+      if (isCardLike && isPaymentPending(current.status) && now.getTime() > expiresAt) {
+        if (!dryRun) {
+          await client.cancelPayment(payment.paymentId)
+          await applyPaymentStatus(payment.paymentId, {
+            status: 'CANC',
+            source: 'reconciliation',
+            reason: 'expired'
+          }, { store })
+        }
+        report.expired.push({ ...change, to: 'CANC' })
+        return
+      }
+
+      report.unchanged++
+    } catch (error) {
+      getLogger().error('Payment reconciliation failed', {
+        orderId: payment.orderId,
+        paymentId: payment.paymentId,
+        error
+      })
+      report.errors.push({
+        orderId: payment.orderId,
+        paymentId: payment.paymentId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  })
+
+  // Settling sends the refund, so a dry run cannot check it
+  const withPendingRefunds = dryRun ? [] : await store.listWithPendingRefunds()
+
+  await forEachWithConcurrency(withPendingRefunds, options.concurrency ?? DEFAULT_CONCURRENCY, async (payment) => {
+    const client = getClient(payment)
+
+    for (const refund of payment.pendingRefunds ?? []) {
+      try {
+        const refunded = await settlePendingRefund(client, store, payment, refund)
+        report.refunds.push({
+          orderId: payment.orderId,
+          paymentId: payment.paymentId,
+          refundId: refund.id,
+          amount: refund.amount,
+          refunded
+        })
+      } catch (error) {
+        getLogger().error('Refund reconciliation failed', {
+          orderId: payment.orderId,
+          paymentId: payment.paymentId,
+          refundId: refund.id,
+          error
+        })
+        report.errors.push({
+          orderId: payment.orderId,
+          paymentId: payment.paymentId,
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }
+    }
+  })
+
+  report.finishedAt = new Date().toISOString()
+
+  getLogger().info('Reconciliation finished', {
+    checked: report.checked,
+    updated: report.updated.length,
+    expired: report.expired.length,
+    refunds: report.refunds.length,
+    unchanged: report.unchanged,
+    errors: report.errors.length,
+    dryRun
+  })
+
+  return report
+}
+
+/**
+ * Send a pending refund again with its X-Request-ID and record the outcome
+ *
+ * TatraPay does not apply a replayed request twice, so the amount is
+ * refunded once whether or not the first request went through. Returns
+ * false when TatraPay rejects the refund and its reservation is released.
+ * Server errors leave it pending for the next run.
+ */
+async function settlePendingRefund(
+  client: TatraPayClient,
+  store: PaymentStore,
+  payment: StoredPayment,
+  refund: PendingRefund
+): Promise<boolean> {
+  const { paymentId, orderId } = payment
+  const currency = payment.amount.currency
+  // Re-read - an earlier refund of this run may have changed the total
+  const refundedAmount = (await store.findByPaymentId(paymentId))?.refundedAmount ?? 0
+  let refunded = true
+
+  try {
+    await client.refundPayment(paymentId, { amount: refund.amount, currency }, {
+      previouslyRefunded: { amount: refundedAmount, currency },
+      requestId: refund.id
+    })
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error
+    refunded = false
+  }
+
+  await store.settleRefund(paymentId, refund.id, refunded)
+  getLogger().info(refunded ? 'Pending refund confirmed' : 'Pending refund rejected, reservation released', {
+    orderId,
+    paymentId,
+    refundId: refund.id,
+    amount: refund.amount
+  })
+  return refunded
+}
+
+/**
+ * Run a task for every item with at most `concurrency` tasks in flight
+ */
+async function forEachWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++])
+    }
+  }
+  const workers = Math.max(1, Math.min(concurrency, items.length))
+  await Promise.all(Array.from({ length: workers }, worker))
+}
@@ -0,0 +1,264 @@
+/**
+ * Typed TatraPay errors
+ *
+ * Every error thrown by tatrapay.ts is a TatraPayError, so callers can
+ * branch on the cause instead of parsing messages:
+ *
+ * - AuthenticationError: credentials missing or rejected (401/403)
+ * - ValidationError: request rejected by TatraPay or by local checks (400/422)
+ * - MethodUnavailableError: payment method not available (NO_AVAIL_PAY_METH, limits)
+ * - RateLimitError: too many requests (429)
+ * - ServerError: TatraPay failed or could not be reached (5xx, network)
+ * - ConflictError: the stored payment kept changing under a concurrent update
+ *
+ * Error messages may contain bank responses - never send them to the
+ * browser. Use toClientError() for a safe, localized response instead.
+ */
+
+import type { TatraPayMethod } from './tatrapay'
+import { DEFAULT_LANGUAGE, Language, MessageKey, translate } from './i18n'
+
+// =============================================================================
+// Error Classes
+// =============================================================================
+
+/**
+ * Details attached to every TatraPay error
+ */
+export interface TatraPayErrorDetails {
+  status?: number       // HTTP status returned by TatraPay
+  reasonCode?: string   // Bank reason code (e.g., 'NO_AVAIL_PAY_METH')
+  requestId?: string    // X-Request-ID of the failed request
+  retryable?: boolean   // Whether repeating the same request may succeed
+  cause?: unknown
+}
+
+/**
+ * Base class for all TatraPay errors
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await createPayment(request)
+ * } catch (error) {
+ *   if (error instanceof MethodUnavailableError) {
+ *     // Offer another payment method
+ *   } else if (error instanceof TatraPayError && error.retryable) {
+ *     // Try again later
+ *   }
+ * }
+ * ```
+ */
+export class TatraPayError extends Error {
+  readonly status?: number
+  readonly reasonCode?: string
+  readonly requestId?: string
+  readonly retryable: boolean
+
+  constructor(message: string, details: TatraPayErrorDetails = {}) {
+    super(message, { cause: details.cause })
+    this.name = 'TatraPayError'
+    this.status = details.status
+    this.reasonCode = details.reasonCode
+    this.requestId = details.requestId
+    this.retryable = details.retryable ?? false
+  }
+}
+
+/**
+ * Credentials are missing or were rejected
+ */
+export class AuthenticationError extends TatraPayError {
+  constructor(message: string, details: TatraPayErrorDetails = {}) {
+    super(message, { retryable: false, ...details })
+    this.name = 'AuthenticationError'
+  }
+}
+
+/**
+ * Invalid value in a request, e.g. { field: 'customer.email', code: 'INVALID_FORMAT' }
+ */
+export interface FieldError {
+  field: string         // Dotted path, e.g. 'order.items.0.quantity'
+  code: string          // Stable code, e.g. 'REQUIRED', 'TOO_LONG', 'AMOUNT_TOO_LOW'
+  message: string       // English description for developers
+}
+
+/**
+ * Request data is invalid or the operation is not allowed in the
+ * payment's current state
+ */
+export class ValidationError extends TatraPayError {
+  readonly fields?: FieldError[]
+
+  constructor(message: string, details: TatraPayErrorDetails & { fields?: FieldError[] } = {}) {
+    super(message, { retryable: false, ...details })
+    this.name = 'ValidationError'
+    this.fields = details.fields
+  }
+}
+
+/**
+ * Requested payment method cannot be used for this payment
+ */
+export class MethodUnavailableError extends TatraPayError {
+  readonly method?: TatraPayMethod
+
+  constructor(message: string, details: TatraPayErrorDetails & { method?: TatraPayMethod } = {}) {
+    super(message, { retryable: false, ...details })
+    this.name = 'MethodUnavailableError'
+    this.method = details.method
+  }
+}
+
+/**
+ * TatraPay rate limit hit - retry after retryAfter seconds
+ */
+export class RateLimitError extends TatraPayError {
+  readonly retryAfter?: number   // Seconds, from the Retry-After header
+
+  constructor(message: string, details: TatraPayErrorDetails & { retryAfter?: number } = {}) {
+    super(message, { status: 429, retryable: true, ...details })
+    this.name = 'RateLimitError'
+    this.retryAfter = details.retryAfter
+  }
+}
+
+/**
+ * TatraPay returned a server error, an invalid response, or could not be reached
+ */
+export class ServerError extends TatraPayError {
+  constructor(message: string, details: TatraPayErrorDetails = {}) {
+    super(message, { retryable: true, ...details })
+    this.name = 'ServerError'
+  }
+}
+
+/**
+ * Stored payment was changed by concurrent requests until compare-and-set
+ * retries ran out - repeating the operation re-reads the current state
+ */
+export class ConflictError extends TatraPayError {
+  constructor(message: string, details: TatraPayErrorDetails = {}) {
+    super(message, { status: 409, retryable: true, ...details })
+    this.name = 'ConflictError'
+  }
+}
+
+// =============================================================================
+// API Error Mapping
+// =============================================================================
+
+/**
+ * Create the matching error for a failed TatraPay API response
+ *
+ * @param data - Parsed error body (TatraPay sends errorId / errorDescription)
+ */
+export function createApiError(
+  status: number,
+  data: unknown,
+  requestId?: string,
+  retryAfterHeader?: string | null
+): TatraPayError {
+  const body = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>
+  const reasonCode = typeof body.errorId === 'string' ? body.errorId
+    : typeof body.reasonCode === 'string' ? body.reasonCode
+    : undefined
+  const description = typeof body.errorDescription === 'string' ? body.errorDescription : undefined
+  const message = `TatraPay API error: ${status}${reasonCode ? ` ${reasonCode}` : ''}${description ? ` - ${description}` : ''}`
+  const details = { status, reasonCode, requestId }
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, details)
+  }
+  if (status === 429) {
+    const retryAfter = retryAfterHeader ? Number(retryAfterHeader) : undefined
+    return new RateLimitError(message, {
+      ...details,
+      retryAfter: Number.isFinite(retryAfter) ? retryAfter : undefined
+    })
+  }
+  if (status >= 500) {
+    return new ServerError(message, details)
+  }
+  if (reasonCode === 'NO_AVAIL_PAY_METH') {
+    return new MethodUnavailableError(message, details)
+  }
+  if (status >= 400) {
+    return new ValidationError(message, details)
+  }
+  return new TatraPayError(message, details)
+}
+
+// =============================================================================
+// Client Responses
+// =============================================================================
+
+/**
+ * Error codes sent to clients
+ */
+export type ClientErrorCode =
+  | 'INVALID_REQUEST'
+  | 'METHOD_UNAVAILABLE'
+  | 'TEMPORARILY_UNAVAILABLE'
+  | 'PAYMENT_ERROR'
+
+// Message of each code, see src/lib/i18n.ts
+const CLIENT_ERROR_MESSAGES: Record<ClientErrorCode, MessageKey> = {
+  INVALID_REQUEST: 'error.invalidRequest',
+  METHOD_UNAVAILABLE: 'error.methodUnavailable',
+  TEMPORARILY_UNAVAILABLE: 'error.temporarilyUnavailable',
+  PAYMENT_ERROR: 'error.paymentError'
+}
+
+/**
+ * Map any error to a safe, localized route response
+ *
+ * Bank messages and stack traces stay in the server logs; clients get a
+ * generic message, a stable code and the request ID for support.
+ * Field errors from request validation are included as they only describe
+ * the client's own input.
+ *
+ * @example
+ * ```typescript
+ * } catch (error) {
+ *   const clientError = toClientError(error, body.language)
+ *   return NextResponse.json(clientError.body, { status: clientError.status })
+ * }
+ * ```
+ */
+export function toClientError(
+  error: unknown,
+  language: Language = DEFAULT_LANGUAGE
+): {
+  status: number
+  body: { success: false; error: string; code: ClientErrorCode; requestId?: string; fields?: FieldError[] }
+} {
+  let status = 500
+  let code: ClientErrorCode = 'PAYMENT_ERROR'
+
+  if (error instanceof ValidationError) {
+    status = 400
+    code = 'INVALID_REQUEST'
+  } else if (error instanceof MethodUnavailableError) {
+    status = 422
+    code = 'METHOD_UNAVAILABLE'
+  } else if (error instanceof RateLimitError || error instanceof ServerError) {
+    status = 503
+    code = 'TEMPORARILY_UNAVAILABLE'
+  } else if (error instanceof ConflictError) {
+    status = 409
+    code = 'TEMPORARILY_UNAVAILABLE'
+  }
+
+  return {
+    status,
+    body: {
+      success: false,
+      error: translate(CLIENT_ERROR_MESSAGES[code], language),
+      code,
+      requestId: error instanceof TatraPayError ? error.requestId : undefined,
+      fields: error instanceof ValidationError ? error.fields : undefined
+    }
+  }
+}
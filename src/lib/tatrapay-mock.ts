@@ -0,0 +1,751 @@
+/**
+ * Local TatraPay+ mock gateway
+ *
+ * Implements the parts of the TatraPay+ API this library uses, so payments
+ * can be developed and tested without reaching the sandbox:
+ *
+ * - OAuth token endpoint
+ * - POST /v1/payments, GET /v1/payments/{id}/status, GET /v1/payments/methods
+ * - PATCH /v1/payments/{id} (refund, capture, void) and DELETE /v1/payments/{id}
+ *   (a PATCH replayed with the same X-Request-ID is not applied twice)
+ * - Hosted payment page where you approve, decline or leave the payment pending
+ * - Webhooks to the notification URL and redirect back to Redirect-URI
+ *
+ * Behaviour is scripted with scenarios (declines, errors, timeouts,
+ * partial payments). Never enable the mock in production.
+ *
+ * @example
+ * ```typescript
+ * // In tests - no network, the mock is the client's fetch
+ * const mock = createTatraPayMock()
+ * const client = new TatraPayClient({
+ *   credentials: { clientId: 'test', clientSecret: 'test' },
+ *   baseUrl: mock.baseUrl,
+ *   tokenUrl: mock.tokenUrl,
+ *   fetch: mock.fetch
+ * })
+ *
+ * mock.setScenarios([{ merchantReference: 'ORDER-DECLINED', outcome: 'decline', autoComplete: true }])
+ * ```
+ */
+
+import { readFileSync } from 'fs'
+import type { TatraPayMethod, TatraPayStatus } from './tatrapay'
+import { Currency, formatMoney, fromDecimal, isCurrency, toDecimal } from './money'
+import { signWebhookPayload } from './webhook-verification'
+import { getLogger } from './logger'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Result picked on the hosted page or scripted by a scenario
+ */
+export type TatraPayMockOutcome = 'approve' | 'decline' | 'pending' | 'partial'
+
+/**
+ * API operations a scenario can target
+ */
+export type TatraPayMockOperation = 'token' | 'create' | 'status' | 'methods' | 'update' | 'cancel'
+
+/**
+ * Scripted behaviour for matching requests
+ *
+ * The first scenario matching the payment's merchant reference (and
+ * operation, if set) applies.
+ */
+export interface TatraPayMockScenario {
+  merchantReference?: string            // Exact reference, '*' wildcards allowed (default: all)
+  operation?: TatraPayMockOperation     // Only apply to this operation (default: all)
+  outcome?: TatraPayMockOutcome         // Used by autoComplete and saved card charges
+  autoComplete?: boolean                // Complete right after creation, no hosted page
+  paidAmount?: number                   // Cents paid with the 'partial' outcome (default: half)
+  unavailableMethods?: TatraPayMethod[] // Reported as NO_AVAIL_PAY_METH on creation
+  threeDSecure?: boolean                // Saved card charges redirect to the hosted page
+  webhook?: boolean                     // false = do not send webhooks (default true)
+  delayMs?: number                      // Delay responses - longer than the client timeout simulates a timeout
+  error?: {                             // Fail with this HTTP status instead of responding
+    status: number
+    errorId?: string
+    errorDescription?: string
+    retryAfter?: number                 // Seconds, sent as Retry-After
+  }
+  times?: number                        // Only the first N matching calls (default: every call)
+}
+
+export interface TatraPayMockOptions {
+  baseUrl?: string                      // Public URL of the mock (default http://tatrapay.mock)
+  notificationUrl?: string              // Webhook URL - no webhooks when omitted
+  webhookSecret?: string                // Signs webhooks (default TATRAPAY_WEBHOOK_SECRET)
+  credentials?: { clientId: string; clientSecret: string }  // Accept only these (default: any)
+  scenarios?: TatraPayMockScenario[]
+  webhookFetch?: typeof fetch           // Sends webhooks (default: global fetch)
+}
+
+/**
+ * Payment as stored by the mock
+ */
+export interface TatraPayMockPayment {
+  paymentId: string
+  merchantReference: string
+  amount: number                        // In cents
+  currency: Currency
+  methods: TatraPayMethod[]             // Methods offered for this payment
+  paymentMethod?: TatraPayMethod
+  status: TatraPayStatus
+  paidAmount?: number                   // In cents
+  refundedAmount: number                // In cents
+  preAuthorization?: 'PRE_AUTH_DONE' | 'CONFIRMED' | 'CANCELLED'
+  isPreAuthorization: boolean
+  registerCard: boolean
+  savedCardId?: string
+  redirectUri?: string
+  transactionId?: string
+  createdAt: string
+  updatedAt: string
+  expiresAt?: string                    // From validityMinutes - the hosted page refuses it afterwards
+}
+
+export interface TatraPayMock {
+  readonly baseUrl: string
+  readonly tokenUrl: string
+  /** Handle a request to the mock (use from a route handler) */
+  handle(request: Request): Promise<Response>
+  /** Drop-in fetch for TatraPayClient - requests never leave the process */
+  fetch: typeof fetch
+  /** Replace the scripted scenarios */
+  setScenarios(scenarios: TatraPayMockScenario[]): void
+  /** Complete a payment as if the customer used the hosted page */
+  completePayment(paymentId: string, outcome: TatraPayMockOutcome, options?: { paymentMethod?: TatraPayMethod; paidAmount?: number }): Promise<TatraPayMockPayment>
+  getPayment(paymentId: string): TatraPayMockPayment | undefined
+  /** Forget payments, tokens and scenarios */
+  reset(): void
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const PAY_LATER_LIMITS = { minAmount: 100, maxAmount: 5000 }  // Decimal, like the real API
+
+function json(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  })
+}
+
+function apiError(status: number, errorId: string, errorDescription: string): Response {
+  return json({ errorId, errorDescription }, status)
+}
+
+function html(body: string, status = 200): Response {
+  return new Response(`<!DOCTYPE html><html><head><meta charset="utf-8"><title>TatraPay+ Mock</title>
+<style>body{font-family:system-ui,sans-serif;max-width:28rem;margin:3rem auto;padding:0 1rem;color:#111}
+button{display:block;width:100%;margin:.5rem 0;padding:.75rem;font-size:1rem;border:0;border-radius:.5rem;cursor:pointer}
+.approve{background:#16a34a;color:#fff}.decline{background:#dc2626;color:#fff}.pending{background:#eab308}.partial{background:#e5e7eb}
+dl{display:grid;grid-template-columns:auto 1fr;gap:.25rem 1rem}dt{color:#666}</style></head>
+<body>${body}</body></html>`, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`)
+}
+
+function matchesReference(pattern: string | undefined, reference: string | undefined): boolean {
+  if (pattern === undefined) return true
+  if (reference === undefined) return false
+  const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`)
+  return regex.test(reference)
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }, { once: true })
+  })
+}
+
+function randomDigits(length: number): string {
+  let result = ''
+  for (let i = 0; i < length; i++) {
+    result += Math.floor(Math.random() * 10)
+  }
+  return result
+}
+
+// The API speaks decimal amounts, the mock keeps cents
+function toApiAmount(cents: number, currency: Currency): number {
+  return toDecimal({ amount: cents, currency })
+}
+
+// =============================================================================
+// Mock Gateway
+// =============================================================================
+
+// Fields of the create request the mock reads
+interface MockCreateBody {
+  merchantReference?: string
+  baseAmount?: { amountValue?: unknown; currency?: unknown }
+  cardDetail?: {
+    isPreAuthorization?: boolean
+    comfortPay?: { registerForComfortPay?: boolean; signedCardId?: string }
+  }
+  bankTransfer?: object
+  payLater?: object
+  validityMinutes?: number
+}
+
+/**
+ * Create a mock gateway with in-memory state
+ */
+export function createTatraPayMock(options: TatraPayMockOptions = {}): TatraPayMock {
+  const baseUrl = (options.baseUrl ?? 'http://tatrapay.mock').replace(/\/$/, '')
+  const basePath = new URL(baseUrl).pathname.replace(/\/$/, '')
+  const tokenUrl = `${baseUrl}/auth/oauth/v2/token`
+  const logger = getLogger().child({ component: 'tatrapay-mock' })
+
+  const payments = new Map<string, TatraPayMockPayment>()
+  const tokens = new Set<string>()
+  const appliedUpdates = new Set<string>()   // X-Request-IDs of applied PATCH requests
+  let scenarios: Array<TatraPayMockScenario & { calls: number }> = []
+
+  function setScenarios(list: TatraPayMockScenario[]): void {
+    scenarios = list.map(scenario => ({ ...scenario, calls: 0 }))
+  }
+  setScenarios(options.scenarios ?? [])
+
+  function findScenario(operation: TatraPayMockOperation, reference?: string) {
+    return scenarios.find(scenario =>
+      (!scenario.operation || scenario.operation === operation) &&
+      matchesReference(scenario.merchantReference, reference) &&
+      (scenario.times === undefined || scenario.calls < scenario.times)
+    )
+  }
+
+  /**
+   * Apply a scenario's delay and error, returning the error response if any
+   */
+  async function applyFailure(
+    operation: TatraPayMockOperation,
+    reference: string | undefined,
+    signal: AbortSignal | null
+  ): Promise<Response | null> {
+    const scenario = findScenario(operation, reference)
+    if (!scenario || (!scenario.delayMs && !scenario.error)) return null
+
+    scenario.calls++
+    if (scenario.delayMs) {
+      await sleep(scenario.delayMs, signal)
+    }
+    if (scenario.error) {
+      const { status, errorId = 'MOCK_ERROR', errorDescription = 'Scripted mock error', retryAfter } = scenario.error
+      return json({ errorId, errorDescription }, status,
+        retryAfter !== undefined ? { 'Retry-After': String(retryAfter) } : {})
+    }
+    return null
+  }
+
+  // ---------------------------------------------------------------------------
+  // Payment State
+  // ---------------------------------------------------------------------------
+
+  async function sendWebhook(payment: TatraPayMockPayment): Promise<void> {
+    const notificationUrl = options.notificationUrl
+    const scenario = findScenario('status', payment.merchantReference)
+    if (!notificationUrl || scenario?.webhook === false) return
+
+    const payload = {
+      paymentId: payment.paymentId,
+      status: payment.status,
+      merchantReference: payment.merchantReference,
+      transactionId: payment.transactionId
+    }
+    const secret = options.webhookSecret ?? process.env.TATRAPAY_WEBHOOK_SECRET
+    const { body, headers } = secret
+      ? signWebhookPayload(payload, { secret })
+      : { body: JSON.stringify(payload), headers: { 'Content-Type': 'application/json' } }
+
+    try {
+      const response = await (options.webhookFetch ?? fetch)(notificationUrl, { method: 'POST', body, headers })
+      logger.info('Mock webhook sent', { paymentId: payment.paymentId, status: payment.status, response: response.status })
+    } catch (error) {
+      logger.warn('Mock webhook failed', { paymentId: payment.paymentId, error })
+    }
+  }
+
+  async function completePayment(
+    paymentId: string,
+    outcome: TatraPayMockOutcome,
+    completion: { paymentMethod?: TatraPayMethod; paidAmount?: number } = {}
+  ): Promise<TatraPayMockPayment> {
+    const payment = payments.get(paymentId)
+    if (!payment) {
+      throw new Error(`Mock payment ${paymentId} not found`)
+    }
+
+    const method = completion.paymentMethod ?? payment.paymentMethod ?? payment.methods[0]
+    const isTransfer = method === 'BANK_TRANSFER' || method === 'QR_PAY'
+    payment.paymentMethod = method
+    payment.updatedAt = new Date().toISOString()
+
+    if (outcome === 'approve') {
+      payment.status = isTransfer ? 'ACCC' : 'ACSC'
+      payment.transactionId = payment.transactionId ?? `MOCK-${randomDigits(10)}`
+      if (payment.isPreAuthorization && method === 'CARD_PAY') {
+        payment.preAuthorization = 'PRE_AUTH_DONE'
+      } else {
+        payment.paidAmount = payment.amount
+      }
+    } else if (outcome === 'partial') {
+      payment.status = 'PART'
+      payment.paidAmount = completion.paidAmount
+        ?? findScenario('status', payment.merchantReference)?.paidAmount
+        ?? Math.floor(payment.amount / 2)
+      payment.transactionId = payment.transactionId ?? `MOCK-${randomDigits(10)}`
+    } else if (outcome === 'decline') {
+      payment.status = 'RJCT'
+    } else {
+      payment.status = 'PDNG'
+    }
+
+    logger.info('Mock payment completed', { paymentId, outcome, status: payment.status })
+    await sendWebhook(payment)
+    return payment
+  }
+
+  function toStatusResponse(payment: TatraPayMockPayment) {
+    const cardSaved = payment.registerCard && payment.paymentMethod === 'CARD_PAY' &&
+      (payment.status === 'ACSC' || payment.preAuthorization === 'PRE_AUTH_DONE')
+
+    return {
+      paymentId: payment.paymentId,
+      status: payment.status,
+      merchantReference: payment.merchantReference,
+      // Status amounts are decimal, like the real API
+      instructedAmount: { amount: toApiAmount(payment.amount, payment.currency), currency: payment.currency },
+      paidAmount: payment.paidAmount !== undefined
+        ? { amount: toApiAmount(payment.paidAmount, payment.currency), currency: payment.currency }
+        : undefined,
+      paymentMethod: payment.paymentMethod,
+      preAuthorization: payment.preAuthorization,
+      comfortPay: cardSaved ? {
+        status: 'OK',
+        cid: `mock-card-${payment.paymentId}`,
+        maskedCardNumber: '411111******1111',
+        cardExpiration: '12/30'
+      } : undefined,
+      createdAt: payment.createdAt,
+      updatedAt: payment.updatedAt,
+      transactionId: payment.transactionId
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // API Endpoints
+  // ---------------------------------------------------------------------------
+
+  async function handleToken(request: Request): Promise<Response> {
+    const failure = await applyFailure('token', undefined, request.signal)
+    if (failure) return failure
+
+    const form = new URLSearchParams(await request.text())
+    if (options.credentials && (
+      form.get('client_id') !== options.credentials.clientId ||
+      form.get('client_secret') !== options.credentials.clientSecret
+    )) {
+      return json({ error: 'invalid_client' }, 401)
+    }
+
+    const accessToken = `mock-token-${crypto.randomUUID()}`
+    tokens.add(accessToken)
+    return json({ access_token: accessToken, token_type: 'Bearer', expires_in: 3600, scope: 'TATRAPAYPLUS' })
+  }
+
+  async function handleCreate(request: Request): Promise<Response> {
+    const body = await request.json().catch(() => null) as MockCreateBody | null
+    const reference = body?.merchantReference
+
+    const failure = await applyFailure('create', reference, request.signal)
+    if (failure) return failure
+
+    const amountValue = body?.baseAmount?.amountValue
+    const currency = body?.baseAmount?.currency
+    if (!body || !reference || typeof amountValue !== 'number' || amountValue <= 0 || !isCurrency(currency)) {
+      return apiError(400, 'INVALID_REQUEST', 'baseAmount and merchantReference are required')
+    }
+    const amount = fromDecimal(amountValue, currency).amount
+
+    const redirectUri = request.headers.get('Redirect-URI') ?? undefined
+    if (redirectUri?.includes('?')) {
+      return apiError(400, 'INVALID_REDIRECT_URI', 'Redirect-URI must not contain query parameters')
+    }
+
+    const scenario = findScenario('create', reference)
+    const preferred = request.headers.get('Preferred-Method') as TatraPayMethod | null
+
+    // Methods only work when their structure was sent
+    const configured: TatraPayMethod[] = [
+      ...(body.cardDetail ? ['CARD_PAY' as const] : []),
+      ...(body.bankTransfer ? ['BANK_TRANSFER' as const, 'QR_PAY' as const] : []),
+      ...(body.payLater ? ['PAY_LATER' as const] : [])
+    ]
+    const requested = preferred ? [preferred] : configured
+    const availability = requested.map(method => {
+      const reason = !configured.includes(method) || scenario?.unavailableMethods?.includes(method)
+        ? 'NO_AVAIL_PAY_METH'
+        : undefined
+      return {
+        paymentMethod: method,
+        isAvailable: !reason,
+        reasonCodeMethodAvailability: reason,
+        reasonCodeMethodAvailabilityDescription: reason && `${method} is not available for this payment`
+      }
+    })
+    const methods = availability.filter(m => m.isAvailable).map(m => m.paymentMethod)
+
+    const now = new Date().toISOString()
+    const payment: TatraPayMockPayment = {
+      paymentId: crypto.randomUUID(),
+      merchantReference: reference,
+      amount,
+      currency,
+      methods,
+      paymentMethod: preferred ?? undefined,
+      status: 'RCVD',
+      refundedAmount: 0,
+      isPreAuthorization: !!body.cardDetail?.isPreAuthorization,
+      registerCard: !!body.cardDetail?.comfortPay?.registerForComfortPay,
+      savedCardId: body.cardDetail?.comfortPay?.signedCardId,
+      redirectUri,
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: typeof body.validityMinutes === 'number'
+        ? new Date(Date.parse(now) + body.validityMinutes * 60 * 1000).toISOString()
+        : undefined
+    }
+    payments.set(payment.paymentId, payment)
+
+    const hostedPageUrl = `${baseUrl}/mock/pay/${payment.paymentId}`
+    const isTransfer = preferred === 'BANK_TRANSFER' || preferred === 'QR_PAY'
+    const savedCardCharge = preferred === 'CARD_PAY' && !!payment.savedCardId
+    let redirect = methods.length > 0 && !isTransfer
+
+    // Saved card charges complete at once unless 3-D Secure is scripted
+    if (savedCardCharge && !scenario?.threeDSecure) {
+      redirect = false
+      await completePayment(payment.paymentId, scenario?.outcome ?? 'approve')
+    } else if (scenario?.autoComplete) {
+      await completePayment(payment.paymentId, scenario.outcome ?? 'approve')
+    }
+
+    logger.info('Mock payment created', { paymentId: payment.paymentId, merchantReference: reference, methods })
+
+    return json({
+      paymentId: payment.paymentId,
+      tatraPayPlusUrl: redirect ? hostedPageUrl : undefined,
+      bankTransferData: body.bankTransfer && (isTransfer || !preferred) &&
+        methods.some(method => method === 'BANK_TRANSFER' || method === 'QR_PAY') ? {
+        iban: 'SK3111000000002612345678',
+        bic: 'TATRSKBX',
+        variableSymbol: randomDigits(10)
+      } : undefined,
+      availablePaymentMethods: availability
+    }, 201)
+  }
+
+  async function handleStatus(request: Request, payment: TatraPayMockPayment): Promise<Response> {
+    const failure = await applyFailure('status', payment.merchantReference, request.signal)
+    return failure ?? json(toStatusResponse(payment))
+  }
+
+  async function handleMethods(request: Request): Promise<Response> {
+    const failure = await applyFailure('methods', undefined, request.signal)
+    if (failure) return failure
+
+    return json({
+      paymentMethods: [
+        { paymentMethod: 'CARD_PAY', isAvailable: true },
+        { paymentMethod: 'BANK_TRANSFER', isAvailable: true },
+        { paymentMethod: 'QR_PAY', isAvailable: true },
+        { paymentMethod: 'PAY_LATER', isAvailable: true, ...PAY_LATER_LIMITS }
+      ]
+    })
+  }
+
+  async function handleUpdate(request: Request, payment: TatraPayMockPayment): Promise<Response> {
+    const failure = await applyFailure('update', payment.merchantReference, request.signal)
+    if (failure) return failure
+
+    // A replayed request was already applied - answer it without applying it again
+    const requestId = request.headers.get('X-Request-ID')
+    if (requestId && appliedUpdates.has(requestId)) {
+      return json({})
+    }
+
+    const body = await request.json().catch(() => ({})) as { operationType?: string; amount?: number }
+    const amount = body.amount !== undefined ? fromDecimal(body.amount, payment.currency).amount : undefined
+
+    switch (body.operationType) {
+      case 'CHARGEBACK': {
+        const refundable = (payment.paidAmount ?? 0) - payment.refundedAmount
+        const refund = amount ?? refundable
+        if (payment.status !== 'ACSC' || refund <= 0 || refund > refundable) {
+          return apiError(400, 'CHARGEBACK_NOT_ALLOWED', 'Payment cannot be refunded with this amount')
+        }
+        payment.refundedAmount += refund
+        break
+      }
+      case 'CONFIRM_PRE_AUTHORIZATION': {
+        if (payment.preAuthorization !== 'PRE_AUTH_DONE' || amount === undefined || amount > payment.amount) {
+          return apiError(400, 'PRE_AUTH_NOT_CONFIRMABLE', 'Pre-authorization cannot be captured')
+        }
+        payment.preAuthorization = 'CONFIRMED'
+        payment.paidAmount = amount
+        break
+      }
+      case 'CANCEL_PRE_AUTHORIZATION': {
+        if (payment.preAuthorization !== 'PRE_AUTH_DONE') {
+          return apiError(400, 'PRE_AUTH_NOT_CANCELLABLE', 'Pre-authorization cannot be voided')
+        }
+        payment.preAuthorization = 'CANCELLED'
+        break
+      }
+      default:
+        return apiError(400, 'INVALID_REQUEST', `Unknown operationType ${body.operationType}`)
+    }
+
+    if (requestId) appliedUpdates.add(requestId)
+    payment.updatedAt = new Date().toISOString()
+    return json({})
+  }
+
+  async function handleCancel(request: Request, payment: TatraPayMockPayment): Promise<Response> {
+    const failure = await applyFailure('cancel', payment.merchantReference, request.signal)
+    if (failure) return failure
+
+    if (payment.status !== 'RCVD' && payment.status !== 'PDNG') {
+      return apiError(400, 'PAYMENT_NOT_CANCELLABLE', `Payment in status ${payment.status} cannot be cancelled`)
+    }
+    payment.status = 'CANC'
+    payment.updatedAt = new Date().toISOString()
+    await sendWebhook(payment)
+    return json({})
+  }
+
+  // ---------------------------------------------------------------------------
+  // Hosted Page and Control Endpoints
+  // ---------------------------------------------------------------------------
+
+  function isExpired(payment: TatraPayMockPayment): boolean {
+    return !!payment.expiresAt && Date.now() > Date.parse(payment.expiresAt)
+  }
+
+  function renderHostedPage(payment: TatraPayMockPayment): Response {
+    if (payment.status !== 'RCVD' && payment.status !== 'PDNG') {
+      return html(`<h1>Payment ${escapeHtml(payment.status)}</h1><p>This payment was already completed.</p>`)
+    }
+    if (isExpired(payment)) {
+      return html('<h1>Payment expired</h1><p>The validity of this payment has ended.</p>', 410)
+    }
+
+    const methodSelect = payment.methods.length > 1
+      ? `<label>Method <select name="paymentMethod">${payment.methods
+        .map(m => `<option${m === payment.paymentMethod ? ' selected' : ''}>${m}</option>`).join('')}</select></label>`
+      : ''
+
+    return html(`<h1>TatraPay+ Mock</h1>
+<dl><dt>Order</dt><dd>${escapeHtml(payment.merchantReference)}</dd>
+<dt>Amount</dt><dd>${escapeHtml(formatMoney({ amount: payment.amount, currency: payment.currency }, 'en'))}</dd>
+<dt>Method</dt><dd>${escapeHtml(payment.paymentMethod ?? 'Customer choice')}</dd></dl>
+<form method="post">${methodSelect}
+<button class="approve" name="outcome" value="approve">Approve</button>
+<button class="decline" name="outcome" value="decline">Decline</button>
+<button class="pending" name="outcome" value="pending">Leave pending</button>
+<button class="partial" name="outcome" value="partial">Pay half (partial)</button>
+</form>`)
+  }
+
+  async function handleHostedPage(request: Request, payment: TatraPayMockPayment): Promise<Response> {
+    if (request.method === 'GET' || isExpired(payment)) {
+      return renderHostedPage(payment)
+    }
+
+    const form = new URLSearchParams(await request.text())
+    const outcome = form.get('outcome') as TatraPayMockOutcome | null
+    if (!outcome || !['approve', 'decline', 'pending', 'partial'].includes(outcome)) {
+      return html('<h1>Invalid outcome</h1>', 400)
+    }
+
+    const paymentMethod = form.get('paymentMethod') as TatraPayMethod | null
+    await completePayment(payment.paymentId, outcome, {
+      paymentMethod: paymentMethod && payment.methods.includes(paymentMethod) ? paymentMethod : undefined
+    })
+
+    // TatraPay appends the payment ID - Redirect-URI cannot carry query params
+    if (payment.redirectUri) {
+      return Response.redirect(`${payment.redirectUri}?paymentId=${payment.paymentId}`, 303)
+    }
+    return html(`<h1>Payment ${escapeHtml(payment.status)}</h1>`)
+  }
+
+  async function handleControl(request: Request, path: string[]): Promise<Response> {
+    // PUT /mock/scenarios - replace scenarios
+    if (path[1] === 'scenarios' && request.method === 'PUT') {
+      const list = await request.json().catch(() => null)
+      if (!Array.isArray(list)) {
+        return apiError(400, 'INVALID_REQUEST', 'Expected an array of scenarios')
+      }
+      setScenarios(list)
+      return json({ scenarios: list.length })
+    }
+
+    // POST /mock/reset - forget everything
+    if (path[1] === 'reset' && request.method === 'POST') {
+      reset()
+      return json({ reset: true })
+    }
+
+    // GET /mock/payments - list payments
+    if (path[1] === 'payments' && path.length === 2 && request.method === 'GET') {
+      return json({ payments: Array.from(payments.values()) })
+    }
+
+    // POST /mock/payments/{id}/complete - e.g. a bank transfer arriving
+    if (path[1] === 'payments' && path[3] === 'complete' && request.method === 'POST') {
+      if (!payments.has(path[2])) {
+        return apiError(404, 'PAYMENT_NOT_FOUND', 'Payment not found')
+      }
+      const body = await request.json().catch(() => ({})) as {
+        outcome?: TatraPayMockOutcome
+        paymentMethod?: TatraPayMethod
+        paidAmount?: number
+      }
+      const payment = await completePayment(path[2], body.outcome ?? 'approve', body)
+      return json(toStatusResponse(payment))
+    }
+
+    return apiError(404, 'NOT_FOUND', 'Unknown mock endpoint')
+  }
+
+  // ---------------------------------------------------------------------------
+  // Router
+  // ---------------------------------------------------------------------------
+
+  async function handle(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url)
+    const path = pathname.slice(basePath.length).split('/').filter(Boolean)
+    const route = `${request.method} /${path.join('/')}`
+
+    try {
+      if (route === 'POST /auth/oauth/v2/token') {
+        return await handleToken(request)
+      }
+
+      if (path[0] === 'mock') {
+        if (path[1] === 'pay' && path[2]) {
+          const payment = payments.get(path[2])
+          return payment ? await handleHostedPage(request, payment) : html('<h1>Payment not found</h1>', 404)
+        }
+        return await handleControl(request, path)
+      }
+
+      if (path[0] !== 'v1' || path[1] !== 'payments') {
+        return apiError(404, 'NOT_FOUND', `Unknown endpoint ${route}`)
+      }
+
+      const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+      if (!token || !tokens.has(token)) {
+        return apiError(401, 'UNAUTHORIZED', 'Invalid or expired access token')
+      }
+
+      if (route === 'POST /v1/payments') {
+        return await handleCreate(request)
+      }
+      if (route === 'GET /v1/payments/methods') {
+        return await handleMethods(request)
+      }
+
+      const payment = path[2] ? payments.get(path[2]) : undefined
+      if (!payment) {
+        return apiError(404, 'PAYMENT_NOT_FOUND', 'Payment not found')
+      }
+
+      if (request.method === 'GET' && path[3] === 'status' && path.length === 4) {
+        return await handleStatus(request, payment)
+      }
+      if (request.method === 'PATCH' && path.length === 3) {
+        return await handleUpdate(request, payment)
+      }
+      if (request.method === 'DELETE' && path.length === 3) {
+        return await handleCancel(request, payment)
+      }
+
+      return apiError(404, 'NOT_FOUND', `Unknown endpoint ${route}`)
+    } catch (error) {
+      // Aborted by the client (timeout) - nobody reads this response
+      if (request.signal?.aborted) throw error
+      logger.error('Mock request failed', { route, error })
+      return apiError(500, 'MOCK_INTERNAL_ERROR', 'Mock gateway failed')
+    }
+  }
+
+  function reset(): void {
+    payments.clear()
+    tokens.clear()
+    appliedUpdates.clear()
+    setScenarios([])
+  }
+
+  return {
+    baseUrl,
+    tokenUrl,
+    handle,
+    fetch: (input, init) => handle(new Request(input, init)),
+    setScenarios,
+    completePayment,
+    getPayment: (paymentId) => payments.get(paymentId),
+    reset
+  }
+}
+
+// =============================================================================
+// Development Mock
+// =============================================================================
+
+// Kept on globalThis so mock payments survive Next.js hot reloads
+const globalForMock = globalThis as unknown as { tatraPayMock?: TatraPayMock }
+
+/**
+ * Whether the mock route is enabled (TATRAPAY_MOCK=true, never in production)
+ */
+export function isTatraPayMockEnabled(): boolean {
+  return process.env.TATRAPAY_MOCK === 'true' && process.env.NODE_ENV !== 'production'
+}
+
+/**
+ * Get the mock served by /api/tatrapay-mock
+ *
+ * Configured via environment variables:
+ * - NEXT_PUBLIC_BASE_URL: app URL, the mock lives at <url>/api/tatrapay-mock
+ * - TATRAPAY_MOCK_NOTIFICATION_URL: webhook URL (default <url>/api/payment/webhook)
+ * - TATRAPAY_MOCK_SCENARIOS: path to a JSON file with an array of scenarios
+ */
+export function getTatraPayMock(): TatraPayMock {
+  if (!globalForMock.tatraPayMock) {
+    const appUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
+    const scenariosFile = process.env.TATRAPAY_MOCK_SCENARIOS
+
+    globalForMock.tatraPayMock = createTatraPayMock({
+      baseUrl: `${appUrl}/api/tatrapay-mock`,
+      notificationUrl: process.env.TATRAPAY_MOCK_NOTIFICATION_URL || `${appUrl}/api/payment/webhook`,
+      scenarios: scenariosFile ? JSON.parse(readFileSync(scenariosFile, 'utf8')) : []
+    })
+  }
+  return globalForMock.tatraPayMock
+}
@@ -2,7 +2,7 @@
  * TatraPay+ API Client for Next.js
  *
  * Complete integration with Tatra banka's TatraPay+ payment gateway.
- * Supports CARD_PAY and BANK_TRANSFER payment methods.
+ * Supports CARD_PAY, BANK_TRANSFER, QR_PAY and PAY_LATER payment methods.
  *
  * @version 1.0.0
  * @author LIBE s.r.o.
@@ -12,6 +12,35 @@
  * @see https://developer.tatrabanka.sk
  */
 
+import { encodePayBySquare } from './paybysquare'
+import { getLogger, Logger } from './logger'
+import { getTokenCache, TokenCache } from './token-cache'
+import { compareMoney, Currency, formatMoney, fromDecimal, isCurrency, Money, subtractMoney, toDecimal } from './money'
+import { getPhoneCountry, toE164Phone, validateCustomerRiskData } from './customer-data'
+import { validatePayLaterRequest } from './validation'
+import { DEFAULT_LANGUAGE, Language, STATUS_LABELS } from './i18n'
+import {
+  AuthenticationError,
+  createApiError,
+  MethodUnavailableError,
+  RateLimitError,
+  ServerError,
+  TatraPayError,
+  ValidationError
+} from './tatrapay-errors'
+
+export {
+  TatraPayError,
+  AuthenticationError,
+  ValidationError,
+  MethodUnavailableError,
+  RateLimitError,
+  ServerError,
+  ConflictError
+} from './tatrapay-errors'
+
+export type { Currency, Money } from './money'
+
 // =============================================================================
 // Configuration
 // =============================================================================
@@ -27,6 +56,21 @@ const TATRAPAY_CONFIG = {
   }
 }
 
+/**
+ * How long a created payment can be paid, unless validityMinutes is set
+ */
+export const DEFAULT_PAYMENT_VALIDITY_MINUTES = 60
+
+/**
+ * Retry policy used when a call does not override it
+ */
+export const DEFAULT_RETRY_POLICY: TatraPayRetryPolicy = {
+  maxAttempts: 3,
+  timeoutMs: 15000,
+  baseDelayMs: 250,
+  maxDelayMs: 4000
+}
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -36,6 +80,37 @@ const TATRAPAY_CONFIG = {
  */
 export type TatraPayMethod = 'CARD_PAY' | 'BANK_TRANSFER' | 'QR_PAY' | 'PAY_LATER'
 
+/**
+ * All payment methods, offered in gateway mode when no allow list is given
+ */
+export const TATRAPAY_METHODS: TatraPayMethod[] = ['CARD_PAY', 'BANK_TRANSFER', 'QR_PAY', 'PAY_LATER']
+
+/**
+ * Timeout and retry settings for API requests
+ *
+ * Retries cover network errors, timeouts, 429 and 5xx responses.
+ * Validation and authentication errors are never retried.
+ */
+export interface TatraPayRetryPolicy {
+  maxAttempts: number   // Total attempts including the first (1 = no retries)
+  timeoutMs: number     // Per attempt, including reading the response
+  baseDelayMs: number   // Backoff before the first retry, doubled for each next one
+  maxDelayMs: number    // Backoff cap (also the longest Retry-After we wait for)
+}
+
+/**
+ * Per-call options accepted by all API functions
+ *
+ * @example
+ * ```typescript
+ * // Status checks in the callback should fail fast
+ * await getPaymentStatus(paymentId, { retry: { maxAttempts: 1, timeoutMs: 5000 } })
+ * ```
+ */
+export interface TatraPayRequestOptions {
+  retry?: Partial<TatraPayRetryPolicy>
+}
+
 /**
  * ISO 20022 Payment Status Codes
  *
@@ -61,6 +136,15 @@ export type TatraPayStatus =
   | 'RJCT'    // Rejected - payment rejected
   | 'CANC'    // Cancelled - payment cancelled
 
+/**
+ * Card pre-authorization state
+ *
+ * - AUTHORIZED: funds held on the card, not yet charged
+ * - CAPTURED: held funds were charged (payment is complete)
+ * - VOIDED: hold was released without charging
+ */
+export type TatraPayPreAuthorizationStatus = 'AUTHORIZED' | 'CAPTURED' | 'VOIDED'
+
 /**
  * Credentials for TatraPay API
  */
@@ -82,44 +166,83 @@ export interface TatraPayToken {
 }
 
 /**
- * Customer address
+ * Customer address (sent for 3-D Secure risk checks)
  */
 export interface TatraPayAddress {
-  streetName?: string
-  buildingNumber?: string
-  city?: string
-  postalCode?: string
+  streetName?: string     // Max 70 chars
+  buildingNumber?: string // Max 16 chars
+  city?: string           // Max 35 chars
+  postalCode?: string     // Max 16 chars
   country: string // ISO 3166-1 alpha-2 (e.g., 'SK', 'CZ')
 }
 
 /**
  * Customer information
+ *
+ * Addresses and phone improve 3-D Secure approval rates - issuers challenge
+ * or decline card payments without them more often.
  */
 export interface TatraPayCustomer {
   firstName: string
   lastName: string
   email: string
-  phone?: string
-  address?: TatraPayAddress
+  phone?: string                     // E.164, or a national SK/CZ number (converted)
+  address?: TatraPayAddress          // Billing address
+  shippingAddress?: TatraPayAddress  // Delivery address, if different or known
+}
+
+/**
+ * Single order line item (required for PAY_LATER)
+ */
+export interface TatraPayOrderItem {
+  name: string              // Max 255 chars
+  description?: string
+  quantity: number          // Positive integer
+  unitPrice: number         // In minor units of the payment currency, VAT included
+  infoUrl?: string          // Product page URL
+}
+
+/**
+ * Itemized order (required for PAY_LATER)
+ */
+export interface TatraPayOrderDetail {
+  items: TatraPayOrderItem[]
+  preferredLoanDuration?: number  // In months
+  downPayment?: number            // In minor units of the payment currency
 }
 
 /**
  * Request to create a new payment
+ *
+ * Omit paymentMethod for gateway mode: the customer picks the method on
+ * the TatraPay+ page, optionally limited to allowedMethods.
  */
 export interface TatraPayCreatePaymentRequest {
-  paymentMethod: TatraPayMethod
-  amount: {
-    amount: number      // In cents (e.g., 10000 = 100.00 EUR)
-    currency: 'EUR' | 'CZK'
-  }
+  paymentMethod?: TatraPayMethod
+  allowedMethods?: TatraPayMethod[]  // Gateway mode only (default: all methods)
+  amount: Money              // e.g., { amount: 10000, currency: 'EUR' } = 100.00 EUR
   merchantReference: string  // Your internal order ID (no spaces!)
   description?: string
   customer?: TatraPayCustomer
   returnUrl: string          // Where to redirect after payment
   notificationUrl?: string   // Webhook for status updates
-  language?: 'sk' | 'cs' | 'en'
-  validityMinutes?: number   // How long payment link is valid (default 60)
+  language?: Language
+  validityMinutes?: number   // How long the payment can be paid (default DEFAULT_PAYMENT_VALIDITY_MINUTES)
   customerIpAddress: string  // Customer's IP address (REQUIRED by TatraPay)
+  orderDetail?: TatraPayOrderDetail  // Line items (REQUIRED for PAY_LATER)
+  preAuthorization?: boolean // CARD_PAY only: hold funds, charge later with capturePayment
+  saveCard?: boolean         // CARD_PAY only: register the card for later chargeSavedCard calls
+  savedCardToken?: string    // CARD_PAY only: charge a saved card (use chargeSavedCard)
+}
+
+/**
+ * Availability of a payment method for a created payment
+ */
+export interface TatraPayMethodAvailability {
+  method: TatraPayMethod
+  isAvailable: boolean
+  reasonCode?: string            // e.g., 'NO_CONTRACT', 'AMOUNT_TOO_LOW'
+  reasonCodeDescription?: string
 }
 
 /**
@@ -128,17 +251,18 @@ export interface TatraPayCreatePaymentRequest {
 export interface TatraPayPaymentResponse {
   paymentId: string
   status: TatraPayStatus
-  redirectUrl?: string      // URL to redirect customer to (for CARD_PAY)
-  qrCodeData?: string       // QR code data for QR_PAY
+  redirectUrl?: string      // URL to redirect customer to (for CARD_PAY / PAY_LATER)
+  qrCodeData?: string       // PAY by square string for QR_PAY / BANK_TRANSFER
   bankTransferInfo?: {
     iban: string
     bic: string
     variableSymbol: string
-    amount: number
-    currency: string
+    amount: Money
+    dueDate: string         // YYYY-MM-DD
   }
+  availablePaymentMethods?: TatraPayMethodAvailability[]
   createdAt: string
-  expiresAt?: string
+  expiresAt: string         // End of the validity window sent to TatraPay
 }
 
 /**
@@ -148,53 +272,106 @@ export interface TatraPayStatusResponse {
   paymentId: string
   status: TatraPayStatus
   merchantReference: string
-  amount: {
-    amount: number
-    currency: string
-  }
-  paidAmount?: {
-    amount: number
-    currency: string
-  }
+  amount: Money
+  paidAmount?: Money
   paymentMethod: TatraPayMethod
+  preAuthorization?: TatraPayPreAuthorizationStatus  // Only for pre-authorized card payments
+  savedCard?: TatraPaySavedCardInfo  // Only when the card was registered (saveCard: true)
   createdAt: string
   updatedAt: string
   transactionId?: string
 }
 
-// =============================================================================
-// Token Cache
-// =============================================================================
+/**
+ * Card registered during a payment with saveCard: true
+ */
+export interface TatraPaySavedCardInfo {
+  token: string             // Card token for chargeSavedCard - store server-side only
+  maskedNumber?: string     // e.g., '411111******1111'
+  expiry?: string           // MM/YY
+}
 
-let cachedToken: TatraPayToken | null = null
+/**
+ * Result of charging a saved card
+ *
+ * If the issuer requires 3-D Secure, the charge cannot complete without the
+ * customer: redirect them to redirectUrl like a regular card payment.
+ */
+export interface TatraPaySavedCardChargeResponse {
+  paymentId: string
+  status: TatraPayStatus
+  requiresRedirect: boolean
+  redirectUrl?: string      // Only when requiresRedirect is true
+  transactionId?: string
+  expiresAt: string         // End of the validity window sent to TatraPay
+}
 
-// =============================================================================
-// Helper Functions
-// =============================================================================
+/**
+ * Response from cancelling a payment
+ */
+export interface TatraPayCancelResponse {
+  paymentId: string
+  status: TatraPayStatus  // 'CANC'
+  cancelledAt: string
+}
 
 /**
- * Get TatraPay credentials from environment variables
+ * Response from refunding a card payment
  */
-function getCredentials(): TatraPayCredentials {
-  const clientId = process.env.TATRAPAY_CLIENT_ID
-  const clientSecret = process.env.TATRAPAY_CLIENT_SECRET
-  const isSandbox = process.env.TATRAPAY_SANDBOX !== 'false'
+export interface TatraPayRefundResponse {
+  paymentId: string
+  refundedAmount: Money
+  remainingAmount: Money    // Still refundable
+  refundedAt: string
+}
 
-  if (!clientId || !clientSecret) {
-    throw new Error('TatraPay credentials not configured. Set TATRAPAY_CLIENT_ID and TATRAPAY_CLIENT_SECRET.')
-  }
+/**
+ * Response from capturing or voiding a card pre-authorization
+ */
+export interface TatraPayPreAuthorizationResponse {
+  paymentId: string
+  preAuthorization: TatraPayPreAuthorizationStatus  // 'CAPTURED' or 'VOIDED'
+  capturedAmount?: Money
+  processedAt: string
+}
 
-  return { clientId, clientSecret, isSandbox }
+/**
+ * Options for creating a TatraPayClient
+ */
+export interface TatraPayClientOptions {
+  credentials: Pick<TatraPayCredentials, 'clientId' | 'clientSecret'>
+  environment?: 'sandbox' | 'production'  // Default: sandbox
+  baseUrl?: string                         // Override the API URL of the environment
+  tokenUrl?: string                        // Override the OAuth URL of the environment
+  fetch?: typeof fetch                     // Custom fetch (tests, proxies)
+  logger?: Logger                          // Default: shared logger from logger.ts
+  tokenCache?: TokenCache                  // Default: shared cache from token-cache.ts
+  retry?: Partial<TatraPayRetryPolicy>     // Client-wide retry defaults
+  beneficiaryName?: string                 // Shown in PAY by square QR codes
 }
 
 /**
- * Get API configuration based on environment
+ * Options for a single API request
  */
-function getConfig() {
-  const credentials = getCredentials()
-  return TATRAPAY_CONFIG[credentials.isSandbox ? 'sandbox' : 'production']
+interface ApiRequestOptions extends TatraPayRequestOptions {
+  customerIpAddress?: string
+  redirectUri?: string
+  preferredMethod?: TatraPayMethod
+  requestId?: string          // X-Request-ID to send (default: a new one)
 }
 
+/**
+ * Options for charging a saved card
+ */
+export type TatraPaySavedCardChargeOptions =
+  Pick<TatraPayCreatePaymentRequest, 'returnUrl' | 'customerIpAddress'> &
+  Partial<Pick<TatraPayCreatePaymentRequest, 'customer' | 'description' | 'language' | 'notificationUrl'>> &
+  TatraPayRequestOptions
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
 /**
  * Generate a unique request ID
  */
@@ -202,326 +379,1247 @@ function generateRequestId(): string {
   return crypto.randomUUID()
 }
 
-// =============================================================================
-// Authentication
-// =============================================================================
-
 /**
- * Get OAuth 2.0 access token
+ * Backoff before the next attempt: exponential with full jitter,
+ * or the Retry-After delay of a rate limit response
  *
- * Uses client credentials flow. Tokens are cached until expiry.
+ * Returns null if the error should not be retried.
  */
-async function getAccessToken(): Promise<string> {
-  // Return cached token if still valid (with 60s buffer)
-  if (cachedToken && Date.now() < cachedToken.expiresAt - 60000) {
-    return cachedToken.access_token
+function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  policy: TatraPayRetryPolicy
+): number | null {
+  if (!(error instanceof TatraPayError) || !error.retryable || attempt >= policy.maxAttempts) {
+    return null
   }
 
-  const credentials = getCredentials()
-  const config = getConfig()
-
-  console.log('🔑 Requesting TatraPay access token...')
-
-  const response = await fetch(config.tokenUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      grant_type: 'client_credentials',
-      client_id: credentials.clientId,
-      client_secret: credentials.clientSecret,
-      scope: 'TATRAPAYPLUS'
-    })
-  })
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  const delay = Math.round(Math.random() * backoff)
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    console.error('❌ Token request failed:', response.status, errorText)
-    throw new Error(`TatraPay authentication failed: ${response.status}`)
+  if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+    const retryAfterMs = error.retryAfter * 1000
+    // Waiting longer than the cap would hold up the request - give up instead
+    return retryAfterMs > policy.maxDelayMs ? null : Math.max(delay, retryAfterMs)
   }
 
-  const tokenData = await response.json()
-
-  // Cache the token
-  cachedToken = {
-    ...tokenData,
-    expiresAt: Date.now() + (tokenData.expires_in * 1000)
-  }
+  return delay
+}
 
-  console.log('✅ TatraPay token obtained, expires in', tokenData.expires_in, 'seconds')
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
 
-  return tokenData.access_token
+/**
+ * Get bank transfer due date (YYYY-MM-DD): the day the payment expires
+ */
+function getDueDate(expiresAt: Date): string {
+  return expiresAt.toISOString().substring(0, 10)
 }
 
 /**
- * Make an authenticated API request to TatraPay
+ * Convert a decimal amount from the TatraPay+ API to Money
  */
-async function apiRequest<T>(
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
-  endpoint: string,
-  body?: unknown,
-  customerIpAddress?: string,
-  redirectUri?: string,
-  preferredMethod?: TatraPayMethod
-): Promise<T> {
-  const token = await getAccessToken()
-  const config = getConfig()
-  const url = `${config.baseUrl}${endpoint}`
-
-  const headers: Record<string, string> = {
-    'Authorization': `Bearer ${token}`,
-    'Content-Type': 'application/json',
-    'X-Request-ID': generateRequestId()
+function parseApiAmount(value: { amount: number; currency: string }): Money {
+  if (!isCurrency(value.currency)) {
+    throw new ServerError(`TatraPay: Unsupported currency ${value.currency} in response`, { retryable: false })
   }
+  return fromDecimal(value.amount, value.currency)
+}
 
-  // Add optional headers if provided
-  if (customerIpAddress) {
-    headers['IP-Address'] = customerIpAddress
-  }
-  if (redirectUri) {
-    headers['Redirect-URI'] = redirectUri
-  }
-  if (preferredMethod) {
-    headers['Preferred-Method'] = preferredMethod
-  }
+/**
+ * TatraPay pre-authorization values -> library values
+ */
+const PRE_AUTHORIZATION_STATUS_MAP: Record<string, TatraPayPreAuthorizationStatus> = {
+  'PRE_AUTH_DONE': 'AUTHORIZED',
+  'CONFIRMED': 'CAPTURED',
+  'CANCELLED': 'VOIDED'
+}
 
-  const options: RequestInit = {
-    method,
-    headers
-  }
+// =============================================================================
+// Pay Later
+// =============================================================================
 
-  if (body && (method === 'POST' || method === 'PUT')) {
-    options.body = JSON.stringify(body)
-  }
+/**
+ * Calculate order totals from line items (all values in cents)
+ *
+ * @example
+ * ```typescript
+ * const { total } = calculateOrderTotals({
+ *   items: [{ name: 'Bike', quantity: 2, unitPrice: 60000 }]
+ * })
+ * // total = 120000
+ * ```
+ */
+export function calculateOrderTotals(order: TatraPayOrderDetail): { total: number } {
+  let total = 0
 
-  console.log(`📤 TatraPay ${method} ${endpoint}`)
+  for (const item of order.items) {
+    total += item.quantity * item.unitPrice
+  }
 
-  const response = await fetch(url, options)
-  const responseText = await response.text()
+  return { total }
+}
 
-  let data: T
-  try {
-    data = JSON.parse(responseText)
-  } catch {
-    console.error('❌ Invalid JSON response:', responseText)
-    throw new Error(`TatraPay returned invalid response: ${responseText.substring(0, 200)}`)
+/**
+ * Throw on PAY_LATER order items or contact data TatraPay would reject
+ * (same checks as the create route, see validatePayLaterRequest())
+ */
+function assertValidPayLaterRequest(request: TatraPayCreatePaymentRequest): void {
+  const fields = validatePayLaterRequest(request)
+  if (fields.length > 0) {
+    throw new ValidationError(`TatraPay: Invalid PAY_LATER request (${fields.map(f => f.field).join(', ')})`, { fields })
   }
+}
 
-  if (!response.ok) {
-    console.error('❌ TatraPay API error:', response.status, data)
-    throw new Error(`TatraPay API error: ${response.status} - ${JSON.stringify(data)}`)
+/**
+ * Address in the TatraPay+ format
+ */
+function toApiAddress(address: TatraPayAddress): Record<string, string | undefined> {
+  return {
+    streetName: address.streetName,
+    buildingNumber: address.buildingNumber,
+    townName: address.city,
+    postCode: address.postalCode,
+    country: address.country
   }
+}
 
-  return data
+/**
+ * Name on the card as TatraPay+ accepts it: max 45 chars of letters,
+ * digits, space and . @ _ - (diacritics are transliterated, 'Kováč' -> 'Kovac')
+ */
+function toCardHolder(customer?: TatraPayCustomer): string {
+  const fullName = customer ? `${customer.firstName} ${customer.lastName}` : ''
+  return fullName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9 .@_-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 45) || 'Customer'
 }
 
 // =============================================================================
-// Payment Operations
+// Client
 // =============================================================================
 
 /**
- * Create a new payment
+ * TatraPay+ API client for one merchant account
+ *
+ * Use one instance per merchant (e.g. separate SK and CZ entities). The
+ * exported functions below use a default instance configured from
+ * environment variables.
  *
  * @example
  * ```typescript
- * const payment = await createPayment({
- *   paymentMethod: 'CARD_PAY',
- *   amount: { amount: 7900, currency: 'EUR' },
- *   merchantReference: 'ORDER-123',
- *   customer: { firstName: 'John', lastName: 'Doe', email: 'john@example.com' },
- *   returnUrl: 'https://example.com/api/payment/callback?orderId=123',
- *   customerIpAddress: '1.2.3.4'
+ * const czClient = new TatraPayClient({
+ *   credentials: { clientId: 'cz-id', clientSecret: 'cz-secret' },
+ *   environment: 'production'
  * })
  *
- * // Redirect customer to payment page
- * window.location.href = payment.redirectUrl
+ * const payment = await czClient.createPayment({ ... })
  * ```
  */
-export async function createPayment(
-  request: TatraPayCreatePaymentRequest
-): Promise<TatraPayPaymentResponse> {
-  console.log('💳 Creating TatraPay payment:', {
-    method: request.paymentMethod,
-    amount: request.amount,
-    reference: request.merchantReference
-  })
+export class TatraPayClient {
+  private readonly options: TatraPayClientOptions
+  private readonly config: { baseUrl: string; tokenUrl: string }
+  private readonly fetchImpl: typeof fetch
+
+  // Token requests in flight, by cache key - concurrent callers share one
+  private readonly pendingTokens = new Map<string, Promise<string>>()
+
+  constructor(options: TatraPayClientOptions) {
+    if (!options.credentials?.clientId || !options.credentials.clientSecret) {
+      throw new AuthenticationError('TatraPay credentials not configured. Pass credentials.clientId and credentials.clientSecret.')
+    }
+
+    const environment = options.environment ?? 'sandbox'
 
-  // Build base redirect URL (without query params for header)
-  const baseRedirectUrl = request.returnUrl.split('?')[0]
-
-  // Build request body according to TatraPay API spec
-  const apiBody: Record<string, unknown> = {
-    baseAmount: {
-      amountValue: request.amount.amount,
-      currency: request.amount.currency
-    },
-    merchantReference: request.merchantReference.replace(/\s/g, ''), // Remove spaces!
-    language: request.language || 'sk'
+    this.options = options
+    this.config = {
+      baseUrl: options.baseUrl ?? TATRAPAY_CONFIG[environment].baseUrl,
+      tokenUrl: options.tokenUrl ?? TATRAPAY_CONFIG[environment].tokenUrl
+    }
+    // Resolve global fetch per call so it can be replaced after construction
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init))
   }
 
-  // Add payment description if provided
-  if (request.description) {
-    apiBody.paymentDescription = request.description
+  /**
+   * Logger for this client (falls back to the shared default logger)
+   */
+  private get logger(): Logger {
+    return this.options.logger ?? getLogger()
   }
 
-  // Add customer data if provided
-  if (request.customer) {
-    apiBody.userData = {
-      firstName: request.customer.firstName,
-      lastName: request.customer.lastName,
-      email: request.customer.email
+  /**
+   * Token cache for this client (falls back to the shared default cache)
+   */
+  private get tokenCache(): TokenCache {
+    return this.options.tokenCache ?? getTokenCache()
+  }
+
+  /**
+   * Cache key for this client's account and token endpoint
+   *
+   * Tokens of the same client ID from the sandbox, production or the mock
+   * gateway must not be mixed up.
+   */
+  private get tokenCacheKey(): string {
+    return `tatrapay:token:${this.options.credentials.clientId}:${this.config.tokenUrl}`
+  }
+
+  // ---------------------------------------------------------------------------
+  // Authentication
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Get OAuth 2.0 access token
+   *
+   * Uses client credentials flow. Tokens are kept in the TokenCache until
+   * expiry, and concurrent callers with a cold cache share one request.
+   */
+  private async getAccessToken(log: Logger): Promise<string> {
+    const key = this.tokenCacheKey
+
+    // Return cached token if still valid (with 60s buffer)
+    const cached = await this.tokenCache.get(key)
+    if (cached && Date.now() < cached.expiresAt - 60000) {
+      return cached.access_token
     }
 
-    if (request.customer.phone) {
-      (apiBody.userData as Record<string, unknown>).phone = request.customer.phone
+    let pending = this.pendingTokens.get(key)
+    if (!pending) {
+      pending = this.requestAccessToken(key, log).finally(() => this.pendingTokens.delete(key))
+      this.pendingTokens.set(key, pending)
     }
+    return pending
   }
 
-  // CRITICAL: Add payment method specific structures
-  // Without these, you'll get NO_AVAIL_PAY_METH error!
-  const customerFullName = request.customer
-    ? `${request.customer.firstName} ${request.customer.lastName}`.trim().substring(0, 45)
-    : 'Customer'
+  /**
+   * Drop a token TatraPay rejected, unless another request already replaced it
+   */
+  private async evictAccessToken(token: string): Promise<void> {
+    const key = this.tokenCacheKey
+    const cached = await this.tokenCache.get(key)
 
-  // Sanitize cardHolder: only alphanumeric, space, dot, at, underscore, hyphen
-  const sanitizedCardHolder = customerFullName
-    .replace(/[^a-zA-Z0-9 .@_-]/g, '')
-    .substring(0, 45) || 'Customer'
+    if (cached?.access_token === token) {
+      await this.tokenCache.delete(key)
+    }
+  }
+
+  /**
+   * Request a new token and store it in the cache
+   */
+  private async requestAccessToken(key: string, log: Logger): Promise<string> {
+    const { clientId, clientSecret } = this.options.credentials
+
+    log.info('Requesting TatraPay access token')
+
+    const { response, text } = await this.fetchWithTimeout(this.config.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: clientId,
+        client_secret: clientSecret,
+        scope: 'TATRAPAYPLUS'
+      })
+    }, this.getRetryPolicy().timeoutMs)
+
+    if (!response.ok) {
+      log.error('TatraPay token request failed', { status: response.status, body: text })
+      // 5xx is a TatraPay outage, anything else means bad credentials
+      throw response.status >= 500
+        ? new ServerError(`TatraPay authentication failed: ${response.status}`, { status: response.status })
+        : new AuthenticationError(`TatraPay authentication failed: ${response.status}`, { status: response.status })
+    }
+
+    const tokenData = JSON.parse(text)
+
+    // Cache the token
+    await this.tokenCache.set(key, {
+      ...tokenData,
+      expiresAt: Date.now() + (tokenData.expires_in * 1000)
+    })
+
+    log.info('TatraPay token obtained', { expiresIn: tokenData.expires_in })
+
+    return tokenData.access_token
+  }
+
+  // ---------------------------------------------------------------------------
+  // Requests
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Retry policy: defaults, then client options, then per-call overrides
+   */
+  private getRetryPolicy(overrides?: Partial<TatraPayRetryPolicy>): TatraPayRetryPolicy {
+    return { ...DEFAULT_RETRY_POLICY, ...this.options.retry, ...overrides }
+  }
 
-  if (request.paymentMethod === 'CARD_PAY') {
-    // REQUIRED for card payments!
-    apiBody.cardDetail = {
-      cardHolder: sanitizedCardHolder
+  /**
+   * Fetch with a timeout, reading the whole response body
+   *
+   * Network failures and timeouts become retryable ServerErrors.
+   */
+  private async fetchWithTimeout(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number,
+    requestId?: string
+  ): Promise<{ response: Response; text: string }> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+    try {
+      const response = await this.fetchImpl(url, { ...init, signal: controller.signal })
+      const text = await response.text()
+      return { response, text }
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? `TatraPay request timed out after ${timeoutMs}ms`
+        : 'TatraPay request failed'
+      throw new ServerError(`${message}: ${init.method} ${url}`, { requestId, cause: error })
+    } finally {
+      clearTimeout(timer)
     }
-  } else if (request.paymentMethod === 'BANK_TRANSFER') {
-    // REQUIRED for bank transfers (empty object)
-    apiBody.bankTransfer = {}
   }
 
-  // Make API request
-  const response = await apiRequest<{
-    paymentId: string
-    tatraPayPlusUrl?: string  // Redirect URL for CARD_PAY
-    bankTransferData?: {
-      iban: string
-      bic: string
-      variableSymbol: string
-    }
-    availablePaymentMethods?: Array<{
-      isAvailable: boolean
-      paymentMethod: string
-      reasonCodeMethodAvailability?: string
-      reasonCodeMethodAvailabilityDescription?: string
-    }>
-  }>('POST', '/v1/payments', apiBody, request.customerIpAddress, baseRedirectUrl, request.paymentMethod)
-
-  // Validate response for card payments
-  if (request.paymentMethod === 'CARD_PAY' && !response.tatraPayPlusUrl) {
-    // Check if there's an error message in availablePaymentMethods
-    const cardMethod = response.availablePaymentMethods?.find(m => m.paymentMethod === 'CARD_PAY')
-    if (cardMethod && !cardMethod.isAvailable) {
-      throw new Error(`TatraPay: ${cardMethod.reasonCodeMethodAvailabilityDescription || 'Card payment not available'}`)
-    }
-    throw new Error('TatraPay: No redirect URL returned for card payment')
+  /**
+   * Make an authenticated API request to TatraPay
+   *
+   * Retries network errors, timeouts, 429 and 5xx responses with backoff.
+   * Every attempt sends the same X-Request-ID, which TatraPay uses to
+   * detect replays - a retried POST cannot create a second payment.
+   *
+   * A 401 evicts the cached token and repeats the request once with a new one.
+   */
+  private async apiRequest<T>(
+    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+    endpoint: string,
+    body?: unknown,
+    options: ApiRequestOptions = {}
+  ): Promise<T> {
+    const policy = this.getRetryPolicy(options.retry)
+    const requestId = options.requestId ?? generateRequestId()
+    // Every line about this request carries its X-Request-ID
+    const log = this.logger.child({ requestId, method, endpoint })
+    let attempt = 1
+    let tokenRefreshed = false
+
+    while (true) {
+      const token = await this.getAccessToken(log)
+
+      try {
+        return await this.sendApiRequest<T>(method, endpoint, body, options, token, requestId, policy.timeoutMs, log)
+      } catch (error) {
+        // Token revoked or expired early - does not count as an attempt
+        if (error instanceof AuthenticationError && error.status === 401 && !tokenRefreshed) {
+          log.warn('TatraPay rejected access token, requesting a new one')
+          tokenRefreshed = true
+          await this.evictAccessToken(token)
+          continue
+        }
+
+        const delay = getRetryDelay(error, attempt, policy)
+        if (delay === null) throw error
+
+        log.warn('Retrying TatraPay request', {
+          delayMs: delay,
+          attempt: attempt + 1,
+          maxAttempts: policy.maxAttempts,
+          error
+        })
+        await sleep(delay)
+        attempt++
+      }
+    }
   }
 
-  console.log('✅ Payment created:', {
-    paymentId: response.paymentId,
-    hasRedirectUrl: !!response.tatraPayPlusUrl,
-    hasBankTransfer: !!response.bankTransferData
-  })
+  /**
+   * Send one attempt of an API request
+   */
+  private async sendApiRequest<T>(
+    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+    endpoint: string,
+    body: unknown,
+    options: ApiRequestOptions,
+    token: string,
+    requestId: string,
+    timeoutMs: number,
+    log: Logger
+  ): Promise<T> {
+    const url = `${this.config.baseUrl}${endpoint}`
+
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      'X-Request-ID': requestId
+    }
 
-  return {
-    paymentId: response.paymentId,
-    status: 'RCVD' as TatraPayStatus, // Initial status
-    redirectUrl: response.tatraPayPlusUrl,
-    bankTransferInfo: response.bankTransferData ? {
+    // Add optional headers if provided
+    if (options.customerIpAddress) {
+      headers['IP-Address'] = options.customerIpAddress
+    }
+    if (options.redirectUri) {
+      headers['Redirect-URI'] = options.redirectUri
+    }
+    if (options.preferredMethod) {
+      headers['Preferred-Method'] = options.preferredMethod
+    }
+
+    const init: RequestInit = {
+      method,
+      headers
+    }
+
+    if (body && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
+      init.body = JSON.stringify(body)
+    }
+
+    log.debug('Sending TatraPay request')
+
+    const startedAt = Date.now()
+    const { response, text: responseText } = await this.fetchWithTimeout(url, init, timeoutMs, requestId)
+
+    log.info('TatraPay API response', { status: response.status, durationMs: Date.now() - startedAt })
+
+    let data: T
+    try {
+      // Some operations (e.g. DELETE) return an empty body
+      data = responseText ? JSON.parse(responseText) : ({} as T)
+    } catch {
+      log.error('TatraPay returned invalid JSON', { status: response.status, body: responseText.substring(0, 500) })
+      throw new ServerError(`TatraPay returned invalid response: ${responseText.substring(0, 200)}`, {
+        status: response.status,
+        requestId,
+        retryable: response.status >= 500
+      })
+    }
+
+    if (!response.ok) {
+      log.error('TatraPay API error', { status: response.status, body: data })
+      throw createApiError(response.status, data, requestId, response.headers.get('Retry-After'))
+    }
+
+    return data
+  }
+
+  // ---------------------------------------------------------------------------
+  // Payment Operations
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Create a new payment
+   *
+   * @example
+   * ```typescript
+   * const payment = await client.createPayment({
+   *   paymentMethod: 'CARD_PAY',
+   *   amount: { amount: 7900, currency: 'EUR' },
+   *   merchantReference: 'ORDER-123',
+   *   customer: { firstName: 'John', lastName: 'Doe', email: 'john@example.com' },
+   *   returnUrl: 'https://example.com/api/payment/callback?orderId=123',
+   *   customerIpAddress: '1.2.3.4'
+   * })
+   *
+   * // Redirect customer to payment page
+   * window.location.href = payment.redirectUrl
+   * ```
+   */
+  async createPayment(
+    request: TatraPayCreatePaymentRequest,
+    options: TatraPayRequestOptions = {}
+  ): Promise<TatraPayPaymentResponse> {
+    this.logger.info('Creating TatraPay payment', {
+      method: request.paymentMethod || 'ANY',
+      amount: request.amount,
+      reference: request.merchantReference
+    })
+
+    if (request.preAuthorization && request.paymentMethod !== 'CARD_PAY') {
+      throw new ValidationError('TatraPay: Pre-authorization is only supported for CARD_PAY')
+    }
+    if ((request.saveCard || request.savedCardToken) && request.paymentMethod !== 'CARD_PAY') {
+      throw new ValidationError('TatraPay: Saved cards are only supported for CARD_PAY')
+    }
+    if (request.saveCard && request.savedCardToken) {
+      throw new ValidationError('TatraPay: Cannot save a card while charging a saved card')
+    }
+    if (request.validityMinutes !== undefined && !(Number.isInteger(request.validityMinutes) && request.validityMinutes > 0)) {
+      throw new ValidationError('TatraPay: validityMinutes must be a positive whole number')
+    }
+
+    // Methods to set up: the preferred one, or all allowed in gateway mode
+    const gatewayMode = !request.paymentMethod
+    const methods = request.paymentMethod
+      ? [request.paymentMethod]
+      : request.allowedMethods?.length ? request.allowedMethods : TATRAPAY_METHODS
+
+    // Malformed addresses or phone numbers fail 3-D Secure later - reject them now
+    if (request.customer) {
+      const fields = validateCustomerRiskData(request.customer)
+      if (fields.length > 0) {
+        throw new ValidationError(`TatraPay: Invalid customer data (${fields.map(f => f.field).join(', ')})`, { fields })
+      }
+    }
+
+    // PAY_LATER needs itemized order + contact data and has amount limits
+    if (request.paymentMethod === 'PAY_LATER') {
+      assertValidPayLaterRequest(request)
+      await this.assertPayLaterAvailable(request.amount, options)
+    } else if (gatewayMode && methods.includes('PAY_LATER') && request.orderDetail) {
+      // Gateway decides availability, but the order data must still be valid
+      assertValidPayLaterRequest(request)
+    }
+
+    // The bank due date and the stored expiry both come from this window
+    const validityMinutes = request.validityMinutes ?? DEFAULT_PAYMENT_VALIDITY_MINUTES
+    const createdAt = new Date()
+    const expiresAt = new Date(createdAt.getTime() + validityMinutes * 60 * 1000)
+
+    // Build base redirect URL (without query params for header)
+    const baseRedirectUrl = request.returnUrl.split('?')[0]
+
+    // TatraPay+ amounts are decimal, ours are minor units
+    const currency = request.amount.currency
+    const apiAmount = (minorUnits: number) => toDecimal({ amount: minorUnits, currency })
+
+    // Build request body according to TatraPay API spec
+    const apiBody: Record<string, unknown> = {
+      baseAmount: {
+        amountValue: toDecimal(request.amount),
+        currency
+      },
+      merchantReference: request.merchantReference.replace(/\s/g, ''), // Remove spaces!
+      language: request.language || DEFAULT_LANGUAGE,
+      // TatraPay stops accepting the payment after this - reconciliation
+      // expires abandoned payments at the same moment
+      validityMinutes
+    }
+
+    // Add payment description if provided
+    if (request.description) {
+      apiBody.paymentDescription = request.description
+    }
+
+    // Add customer data if provided
+    const customer = request.customer
+    if (customer) {
+      apiBody.userData = {
+        firstName: customer.firstName,
+        lastName: customer.lastName,
+        email: customer.email
+      }
+
+      if (customer.phone) {
+        // Validated above - always converts
+        (apiBody.userData as Record<string, unknown>).phone =
+          toE164Phone(customer.phone, getPhoneCountry(customer.address))
+      }
+    }
+
+    // CRITICAL: Add payment method specific structures
+    // Without these, you'll get NO_AVAIL_PAY_METH error!
+
+    // In gateway mode, every allowed method gets its structure - the
+    // TatraPay+ page only offers methods whose structures were sent
+    if (methods.includes('CARD_PAY')) {
+      // REQUIRED for card payments!
+      apiBody.cardDetail = {
+        cardHolder: toCardHolder(customer),
+        // 3-D Secure risk data
+        ...(customer?.address && { billingAddress: toApiAddress(customer.address) }),
+        ...(customer?.shippingAddress && { shippingAddress: toApiAddress(customer.shippingAddress) }),
+        // Hold funds only - charge later with capturePayment()
+        ...(request.preAuthorization && { isPreAuthorization: true }),
+        // ComfortPay: register the card, or charge a previously registered one
+        ...(request.saveCard && { comfortPay: { registerForComfortPay: true } }),
+        ...(request.savedCardToken && { comfortPay: { signedCardId: request.savedCardToken } })
+      }
+    }
+    if (methods.includes('BANK_TRANSFER') || methods.includes('QR_PAY')) {
+      // REQUIRED for bank transfers (empty object)
+      // QR_PAY is settled as a bank transfer, the QR code is generated locally
+      apiBody.bankTransfer = {}
+    }
+    if (methods.includes('PAY_LATER') && request.orderDetail) {
+      // REQUIRED for pay later (itemized order)
+      const order = request.orderDetail
+      apiBody.payLater = {
+        order: {
+          orderNo: apiBody.merchantReference,
+          orderItems: order.items.map(item => ({
+            quantity: item.quantity,
+            totalItemPrice: apiAmount(item.quantity * item.unitPrice),
+            itemDetail: {
+              itemDetailSK: {
+                itemName: item.name,
+                itemDescription: item.description
+              }
+            },
+            itemInfoURL: item.infoUrl
+          })),
+          preferredLoanDuration: order.preferredLoanDuration,
+          downPayment: order.downPayment !== undefined ? apiAmount(order.downPayment) : undefined
+        }
+      }
+    }
+
+    // Make API request
+    const response = await this.apiRequest<{
+      paymentId: string
+      tatraPayPlusUrl?: string  // Redirect URL for CARD_PAY / PAY_LATER / gateway mode
+      bankTransferData?: {
+        iban: string
+        bic: string
+        variableSymbol: string
+      }
+      availablePaymentMethods?: Array<{
+        isAvailable: boolean
+        paymentMethod: string
+        reasonCodeMethodAvailability?: string
+        reasonCodeMethodAvailabilityDescription?: string
+      }>
+    }>('POST', '/v1/payments', apiBody, {
+      ...options,
+      customerIpAddress: request.customerIpAddress,
+      redirectUri: baseRedirectUrl,
+      preferredMethod: request.paymentMethod
+    })
+
+    const availablePaymentMethods = response.availablePaymentMethods?.map(m => ({
+      method: m.paymentMethod as TatraPayMethod,
+      isAvailable: m.isAvailable,
+      reasonCode: m.reasonCodeMethodAvailability,
+      reasonCodeDescription: m.reasonCodeMethodAvailabilityDescription
+    }))
+
+    // Gateway mode always redirects to the TatraPay+ method selection page
+    if (gatewayMode && !response.tatraPayPlusUrl) {
+      const reasons = availablePaymentMethods
+        ?.filter(m => !m.isAvailable)
+        .map(m => `${m.method}: ${m.reasonCodeDescription || m.reasonCode}`)
+        .join(', ')
+      throw new MethodUnavailableError(`TatraPay: No redirect URL returned for gateway payment${reasons ? ` (${reasons})` : ''}`, {
+        reasonCode: availablePaymentMethods?.find(m => !m.isAvailable)?.reasonCode
+      })
+    }
+
+    // Validate response for redirect-based payments (card, pay later)
+    // Saved card charges only redirect when 3-D Secure is required
+    const requiresRedirect = request.paymentMethod === 'PAY_LATER' ||
+      (request.paymentMethod === 'CARD_PAY' && !request.savedCardToken)
+    if (requiresRedirect && !response.tatraPayPlusUrl) {
+      // Check if there's an error message in availablePaymentMethods
+      const method = response.availablePaymentMethods?.find(m => m.paymentMethod === request.paymentMethod)
+      if (method && !method.isAvailable) {
+        throw new MethodUnavailableError(`TatraPay: ${method.reasonCodeMethodAvailabilityDescription || `${request.paymentMethod} not available`}`, {
+          reasonCode: method.reasonCodeMethodAvailability,
+          method: request.paymentMethod
+        })
+      }
+      throw new ServerError(`TatraPay: No redirect URL returned for ${request.paymentMethod}`, { retryable: false })
+    }
+
+    // QR_PAY needs bank transfer data to build the QR code
+    if (request.paymentMethod === 'QR_PAY' && !response.bankTransferData) {
+      throw new ServerError('TatraPay: No bank transfer data returned for QR payment', { retryable: false })
+    }
+
+    this.logger.info('TatraPay payment created', {
+      paymentId: response.paymentId,
+      hasRedirectUrl: !!response.tatraPayPlusUrl,
+      hasBankTransfer: !!response.bankTransferData
+    })
+
+    const bankTransferInfo = response.bankTransferData ? {
       iban: response.bankTransferData.iban,
       bic: response.bankTransferData.bic,
       variableSymbol: response.bankTransferData.variableSymbol,
-      amount: request.amount.amount / 100, // Convert back to decimal
-      currency: request.amount.currency
-    } : undefined,
-    createdAt: new Date().toISOString()
+      amount: request.amount,
+      dueDate: getDueDate(expiresAt)
+    } : undefined
+
+    return {
+      paymentId: response.paymentId,
+      status: 'RCVD' as TatraPayStatus, // Initial status
+      redirectUrl: response.tatraPayPlusUrl,
+      qrCodeData: bankTransferInfo ? encodePayBySquare({
+        ...bankTransferInfo,
+        amount: toDecimal(bankTransferInfo.amount),
+        currency: bankTransferInfo.amount.currency,
+        note: request.description,
+        beneficiaryName: this.options.beneficiaryName
+      }) : undefined,
+      bankTransferInfo,
+      availablePaymentMethods,
+      createdAt: createdAt.toISOString(),
+      expiresAt: expiresAt.toISOString()
+    }
+  }
+
+  /**
+   * Get the current status of a payment
+   *
+   * @example
+   * ```typescript
+   * const status = await client.getPaymentStatus('payment-uuid-here')
+   * if (isPaymentSuccessful(status.status)) {
+   *   console.log('Payment completed!')
+   * }
+   * ```
+   */
+  async getPaymentStatus(
+    paymentId: string,
+    options: TatraPayRequestOptions = {}
+  ): Promise<TatraPayStatusResponse> {
+    this.logger.info('Fetching TatraPay payment status', { paymentId })
+
+    const response = await this.apiRequest<{
+      paymentId: string
+      status: string
+      merchantReference: string
+      instructedAmount: { amount: number; currency: string }
+      paidAmount?: { amount: number; currency: string }
+      paymentMethod: string
+      preAuthorization?: 'PRE_AUTH_DONE' | 'CONFIRMED' | 'CANCELLED'
+      comfortPay?: {
+        status: 'OK' | 'FAIL'
+        cid?: string
+        maskedCardNumber?: string
+        cardExpiration?: string
+      }
+      createdAt: string
+      updatedAt: string
+      transactionId?: string
+    }>('GET', `/v1/payments/${paymentId}/status`, undefined, options)
+
+    this.logger.info('TatraPay payment status', {
+      paymentId: response.paymentId,
+      status: response.status,
+      transactionId: response.transactionId
+    })
+
+    return {
+      paymentId: response.paymentId,
+      status: response.status as TatraPayStatus,
+      merchantReference: response.merchantReference,
+      amount: parseApiAmount(response.instructedAmount),
+      paidAmount: response.paidAmount ? parseApiAmount(response.paidAmount) : undefined,
+      paymentMethod: response.paymentMethod as TatraPayMethod,
+      preAuthorization: response.preAuthorization
+        ? PRE_AUTHORIZATION_STATUS_MAP[response.preAuthorization]
+        : undefined,
+      savedCard: response.comfortPay?.status === 'OK' && response.comfortPay.cid ? {
+        token: response.comfortPay.cid,
+        maskedNumber: response.comfortPay.maskedCardNumber,
+        expiry: response.comfortPay.cardExpiration
+      } : undefined,
+      createdAt: response.createdAt,
+      updatedAt: response.updatedAt,
+      transactionId: response.transactionId
+    }
+  }
+
+  /**
+   * Get list of available payment methods
+   *
+   * TatraPay reports amount limits in EUR.
+   */
+  async getAvailablePaymentMethods(options: TatraPayRequestOptions = {}): Promise<Array<{
+    method: TatraPayMethod
+    available: boolean
+    minAmount?: Money
+    maxAmount?: Money
+  }>> {
+    const response = await this.apiRequest<{
+      paymentMethods: Array<{
+        paymentMethod: string
+        isAvailable: boolean
+        minAmount?: number
+        maxAmount?: number
+      }>
+    }>('GET', '/v1/payments/methods', undefined, options)
+
+    return response.paymentMethods.map(m => ({
+      method: m.paymentMethod as TatraPayMethod,
+      available: m.isAvailable,
+      minAmount: m.minAmount !== undefined ? fromDecimal(m.minAmount, 'EUR') : undefined,
+      maxAmount: m.maxAmount !== undefined ? fromDecimal(m.maxAmount, 'EUR') : undefined
+    }))
+  }
+
+  /**
+   * Cancel an unpaid payment
+   *
+   * Only pending payments (RCVD, PDNG) can be cancelled. Use refundPayment
+   * for card payments that have already been paid.
+   *
+   * @example
+   * ```typescript
+   * await client.cancelPayment('payment-uuid-here')
+   * ```
+   */
+  async cancelPayment(
+    paymentId: string,
+    options: TatraPayRequestOptions = {}
+  ): Promise<TatraPayCancelResponse> {
+    const current = await this.getPaymentStatus(paymentId, options)
+
+    if (current.status !== 'RCVD' && current.status !== 'PDNG') {
+      throw new ValidationError(`TatraPay: Payment in status ${current.status} cannot be cancelled`)
+    }
+
+    this.logger.info('Cancelling TatraPay payment', { paymentId })
+
+    await this.apiRequest<Record<string, unknown>>('DELETE', `/v1/payments/${paymentId}`, undefined, options)
+
+    return {
+      paymentId,
+      status: 'CANC',
+      cancelledAt: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Refund a paid card payment (full or partial)
+   *
+   * @param amount - Amount to refund (default: remaining paid amount)
+   * @param options.previouslyRefunded - Amount already refunded, for partial refunds
+   * @param options.requestId - X-Request-ID of the refund request. Sending a refund
+   *   again with the same ID (e.g. after a timeout) cannot refund it twice.
+   * @param options.retry - Override the retry policy for this call
+   *
+   * @example
+   * ```typescript
+   * // Full refund
+   * await client.refundPayment(paymentId)
+   *
+   * // Partial refund of 10.00 EUR
+   * await client.refundPayment(paymentId, { amount: 1000, currency: 'EUR' })
+   * ```
+   */
+  async refundPayment(
+    paymentId: string,
+    amount?: Money,
+    options: TatraPayRequestOptions & { previouslyRefunded?: Money; requestId?: string } = {}
+  ): Promise<TatraPayRefundResponse> {
+    const current = await this.getPaymentStatus(paymentId, { retry: options.retry })
+
+    if (current.paymentMethod !== 'CARD_PAY') {
+      throw new ValidationError('TatraPay: Only card payments can be refunded')
+    }
+    if (!isPaymentSuccessful(current.status, current.preAuthorization) || !current.paidAmount) {
+      throw new ValidationError(`TatraPay: Payment in status ${current.status} cannot be refunded`)
+    }
+
+    const paid = current.paidAmount
+    const previouslyRefunded = options.previouslyRefunded ?? { amount: 0, currency: paid.currency }
+    if (compareMoney(previouslyRefunded, paid) > 0) {
+      throw new ValidationError('TatraPay: Payment has already been refunded in full')
+    }
+    const refundable = subtractMoney(paid, previouslyRefunded)
+    const refund = amount ?? refundable
+
+    if (!Number.isInteger(refund.amount) || refund.amount <= 0) {
+      throw new ValidationError('TatraPay: Refund amount must be a positive number of minor units')
+    }
+    if (compareMoney(refund, refundable) > 0) {
+      throw new ValidationError(`TatraPay: Refund amount ${formatMoney(refund, 'en')} exceeds refundable amount ${formatMoney(refundable, 'en')}`)
+    }
+
+    this.logger.info('Refunding TatraPay payment', { paymentId, amount: refund })
+
+    await this.apiRequest<Record<string, unknown>>('PATCH', `/v1/payments/${paymentId}`, {
+      operationType: 'CHARGEBACK',
+      amount: toDecimal(refund)
+    }, options)
+
+    return {
+      paymentId,
+      refundedAmount: refund,
+      remainingAmount: subtractMoney(refundable, refund),
+      refundedAt: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Capture (charge) a pre-authorized card payment
+   *
+   * @param amount - Amount to charge, at most the authorized amount
+   *
+   * @example
+   * ```typescript
+   * // Order dispatched - charge the held funds
+   * await client.capturePayment(paymentId, { amount: 7900, currency: 'EUR' })
+   * ```
+   */
+  async capturePayment(
+    paymentId: string,
+    amount: Money,
+    options: TatraPayRequestOptions = {}
+  ): Promise<TatraPayPreAuthorizationResponse> {
+    const current = await this.getPaymentStatus(paymentId, options)
+
+    if (current.preAuthorization !== 'AUTHORIZED' || isPaymentFailed(current.status)) {
+      throw new ValidationError('TatraPay: Payment is not an open pre-authorization')
+    }
+
+    if (!Number.isInteger(amount.amount) || amount.amount <= 0) {
+      throw new ValidationError('TatraPay: Capture amount must be a positive number of minor units')
+    }
+    if (compareMoney(amount, current.amount) > 0) {
+      throw new ValidationError(`TatraPay: Capture amount ${formatMoney(amount, 'en')} exceeds authorized amount ${formatMoney(current.amount, 'en')}`)
+    }
+
+    this.logger.info('Capturing TatraPay pre-authorization', { paymentId, amount })
+
+    await this.apiRequest<Record<string, unknown>>('PATCH', `/v1/payments/${paymentId}`, {
+      operationType: 'CONFIRM_PRE_AUTHORIZATION',
+      amount: toDecimal(amount)
+    }, options)
+
+    return {
+      paymentId,
+      preAuthorization: 'CAPTURED',
+      capturedAmount: amount,
+      processedAt: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Release a card pre-authorization without charging the customer
+   *
+   * @example
+   * ```typescript
+   * // Order cancelled before dispatch
+   * await client.voidAuthorization(paymentId)
+   * ```
+   */
+  async voidAuthorization(
+    paymentId: string,
+    options: TatraPayRequestOptions = {}
+  ): Promise<TatraPayPreAuthorizationResponse> {
+    const current = await this.getPaymentStatus(paymentId, options)
+
+    if (current.preAuthorization !== 'AUTHORIZED' || isPaymentFailed(current.status)) {
+      throw new ValidationError('TatraPay: Payment is not an open pre-authorization')
+    }
+
+    this.logger.info('Voiding TatraPay pre-authorization', { paymentId })
+
+    await this.apiRequest<Record<string, unknown>>('PATCH', `/v1/payments/${paymentId}`, {
+      operationType: 'CANCEL_PRE_AUTHORIZATION'
+    }, options)
+
+    return {
+      paymentId,
+      preAuthorization: 'VOIDED',
+      processedAt: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Charge a saved card without redirecting the customer
+   *
+   * The card must have been registered by an earlier payment created with
+   * saveCard: true. When the issuer requires 3-D Secure, TatraPay returns a
+   * redirect URL instead of charging immediately - send the customer there
+   * and handle the result in the callback as usual.
+   *
+   * @param token - Card token from getPaymentStatus().savedCard
+   * @param amount - Amount to charge
+   * @param merchantReference - Your internal order ID (no spaces!)
+   *
+   * @example
+   * ```typescript
+   * const charge = await client.chargeSavedCard(card.token, { amount: 7900, currency: 'EUR' }, 'ORDER-124', {
+   *   returnUrl: 'https://example.com/api/payment/callback?orderId=ORDER-124',
+   *   customerIpAddress: '1.2.3.4'
+   * })
+   *
+   * if (charge.requiresRedirect) {
+   *   return redirect(charge.redirectUrl)
+   * }
+   * ```
+   */
+  async chargeSavedCard(
+    token: string,
+    amount: Money,
+    merchantReference: string,
+    options: TatraPaySavedCardChargeOptions
+  ): Promise<TatraPaySavedCardChargeResponse> {
+    if (!token) {
+      throw new ValidationError('TatraPay: Saved card token is required')
+    }
+
+    const { retry, ...paymentOptions } = options
+    const payment = await this.createPayment({
+      ...paymentOptions,
+      paymentMethod: 'CARD_PAY',
+      amount,
+      merchantReference,
+      savedCardToken: token
+    }, { retry })
+
+    if (payment.redirectUrl) {
+      this.logger.info('Saved card charge requires 3-D Secure', { paymentId: payment.paymentId })
+      return {
+        paymentId: payment.paymentId,
+        status: payment.status,
+        requiresRedirect: true,
+        redirectUrl: payment.redirectUrl,
+        expiresAt: payment.expiresAt
+      }
+    }
+
+    // Charged without customer interaction - fetch the result
+    const status = await this.getPaymentStatus(payment.paymentId, { retry })
+
+    return {
+      paymentId: payment.paymentId,
+      status: status.status,
+      requiresRedirect: false,
+      transactionId: status.transactionId,
+      expiresAt: payment.expiresAt
+    }
+  }
+
+  /**
+   * Check PAY_LATER availability and amount limits reported by TatraPay
+   */
+  private async assertPayLaterAvailable(amount: Money, options: TatraPayRequestOptions): Promise<void> {
+    const methods = await this.getAvailablePaymentMethods(options)
+    const payLater = methods.find(m => m.method === 'PAY_LATER')
+
+    if (!payLater?.available) {
+      throw new MethodUnavailableError('TatraPay: PAY_LATER is not available', { method: 'PAY_LATER' })
+    }
+    // Limits are reported in EUR only
+    if (amount.currency !== 'EUR') return
+
+    if (payLater.minAmount && compareMoney(amount, payLater.minAmount) < 0) {
+      throw new MethodUnavailableError(`TatraPay: PAY_LATER minimum amount is ${formatMoney(payLater.minAmount, 'en')}`, {
+        reasonCode: 'AMOUNT_TOO_LOW',
+        method: 'PAY_LATER'
+      })
+    }
+    if (payLater.maxAmount && compareMoney(amount, payLater.maxAmount) > 0) {
+      throw new MethodUnavailableError(`TatraPay: PAY_LATER maximum amount is ${formatMoney(payLater.maxAmount, 'en')}`, {
+        reasonCode: 'AMOUNT_TOO_HIGH',
+        method: 'PAY_LATER'
+      })
+    }
   }
 }
 
+// =============================================================================
+// Default Client
+// =============================================================================
+
 /**
- * Get the current status of a payment
+ * Build a client from environment variables
+ *
+ * Reads <prefix>_CLIENT_ID, <prefix>_CLIENT_SECRET, <prefix>_SANDBOX and
+ * <prefix>_BENEFICIARY_NAME. Use a different prefix per merchant account.
+ *
+ * <prefix>_BASE_URL and <prefix>_TOKEN_URL override the environment's
+ * URLs, e.g. to use the local mock gateway (see tatrapay-mock.ts).
  *
  * @example
  * ```typescript
- * const status = await getPaymentStatus('payment-uuid-here')
- * if (isPaymentSuccessful(status.status)) {
- *   console.log('Payment completed!')
- * }
+ * // TATRAPAY_CZ_CLIENT_ID, TATRAPAY_CZ_CLIENT_SECRET, ...
+ * const czClient = createTatraPayClientFromEnv('TATRAPAY_CZ')
  * ```
  */
-export async function getPaymentStatus(paymentId: string): Promise<TatraPayStatusResponse> {
-  console.log('🔍 Fetching TatraPay payment status:', paymentId)
-
-  const response = await apiRequest<{
-    paymentId: string
-    status: string
-    merchantReference: string
-    instructedAmount: { amount: number; currency: string }
-    paidAmount?: { amount: number; currency: string }
-    paymentMethod: string
-    createdAt: string
-    updatedAt: string
-    transactionId?: string
-  }>('GET', `/v1/payments/${paymentId}/status`)
-
-  console.log('📊 Payment status:', {
-    paymentId: response.paymentId,
-    status: response.status,
-    transactionId: response.transactionId
+export function createTatraPayClientFromEnv(
+  prefix = 'TATRAPAY',
+  options: Partial<TatraPayClientOptions> = {}
+): TatraPayClient {
+  const clientId = process.env[`${prefix}_CLIENT_ID`]
+  const clientSecret = process.env[`${prefix}_CLIENT_SECRET`]
+
+  if (!clientId || !clientSecret) {
+    throw new AuthenticationError(`TatraPay credentials not configured. Set ${prefix}_CLIENT_ID and ${prefix}_CLIENT_SECRET.`)
+  }
+
+  return new TatraPayClient({
+    credentials: { clientId, clientSecret },
+    environment: process.env[`${prefix}_SANDBOX`] !== 'false' ? 'sandbox' : 'production',
+    beneficiaryName: process.env[`${prefix}_BENEFICIARY_NAME`],
+    baseUrl: process.env[`${prefix}_BASE_URL`] || undefined,
+    tokenUrl: process.env[`${prefix}_TOKEN_URL`] || undefined,
+    ...options
   })
+}
 
-  return {
-    paymentId: response.paymentId,
-    status: response.status as TatraPayStatus,
-    merchantReference: response.merchantReference,
-    amount: {
-      amount: response.instructedAmount.amount,
-      currency: response.instructedAmount.currency
-    },
-    paidAmount: response.paidAmount ? {
-      amount: response.paidAmount.amount,
-      currency: response.paidAmount.currency
-    } : undefined,
-    paymentMethod: response.paymentMethod as TatraPayMethod,
-    createdAt: response.createdAt,
-    updatedAt: response.updatedAt,
-    transactionId: response.transactionId
+/**
+ * What a route knows when picking a client
+ */
+export interface TatraPayClientContext {
+  orderId?: string
+  currency?: Currency
+}
+
+/**
+ * Picks the client for a request (e.g. by currency or order)
+ */
+export type TatraPayClientResolver = (context: TatraPayClientContext) => TatraPayClient
+
+// Kept on globalThis so registrations survive Next.js hot reloads
+const globalForClient = globalThis as unknown as {
+  tatraPayDefaultClient?: TatraPayClient
+  tatraPayClientResolver?: TatraPayClientResolver
+}
+
+/**
+ * Get the default client, configured from TATRAPAY_* environment variables
+ */
+export function getDefaultTatraPayClient(): TatraPayClient {
+  if (!globalForClient.tatraPayDefaultClient) {
+    globalForClient.tatraPayDefaultClient = createTatraPayClientFromEnv()
   }
+  return globalForClient.tatraPayDefaultClient
+}
+
+/**
+ * Replace the default client used by the exported functions
+ */
+export function setDefaultTatraPayClient(client: TatraPayClient): void {
+  globalForClient.tatraPayDefaultClient = client
+}
+
+/**
+ * Register how routes pick a client per request
+ *
+ * @example
+ * ```typescript
+ * const skClient = createTatraPayClientFromEnv('TATRAPAY_SK')
+ * const czClient = createTatraPayClientFromEnv('TATRAPAY_CZ')
+ *
+ * setTatraPayClientResolver(({ currency }) => currency === 'CZK' ? czClient : skClient)
+ * setTatraPayClientResolver(undefined)  // Back to the default client
+ * ```
+ */
+export function setTatraPayClientResolver(resolver: TatraPayClientResolver | undefined): void {
+  globalForClient.tatraPayClientResolver = resolver
+}
+
+/**
+ * Get the client for a request (default client if no resolver is registered)
+ */
+export function getTatraPayClient(context: TatraPayClientContext = {}): TatraPayClient {
+  const resolver = globalForClient.tatraPayClientResolver
+  return resolver ? resolver(context) : getDefaultTatraPayClient()
+}
+
+// =============================================================================
+// Payment Operations
+// =============================================================================
+//
+// Thin wrappers around the default client - see TatraPayClient for details.
+
+/**
+ * Create a new payment
+ *
+ * @example
+ * ```typescript
+ * const payment = await createPayment({
+ *   paymentMethod: 'CARD_PAY',
+ *   amount: { amount: 7900, currency: 'EUR' },
+ *   merchantReference: 'ORDER-123',
+ *   customer: { firstName: 'John', lastName: 'Doe', email: 'john@example.com' },
+ *   returnUrl: 'https://example.com/api/payment/callback?orderId=123',
+ *   customerIpAddress: '1.2.3.4'
+ * })
+ *
+ * // Redirect customer to payment page
+ * window.location.href = payment.redirectUrl
+ * ```
+ */
+export function createPayment(
+  request: TatraPayCreatePaymentRequest,
+  options?: TatraPayRequestOptions
+): Promise<TatraPayPaymentResponse> {
+  return getDefaultTatraPayClient().createPayment(request, options)
+}
+
+/**
+ * Get the current status of a payment
+ */
+export function getPaymentStatus(
+  paymentId: string,
+  options?: TatraPayRequestOptions
+): Promise<TatraPayStatusResponse> {
+  return getDefaultTatraPayClient().getPaymentStatus(paymentId, options)
 }
 
 /**
  * Get list of available payment methods
  */
-export async function getAvailablePaymentMethods(): Promise<Array<{
-  method: TatraPayMethod
-  available: boolean
-  minAmount?: number
-  maxAmount?: number
-}>> {
-  const response = await apiRequest<{
-    paymentMethods: Array<{
-      paymentMethod: string
-      isAvailable: boolean
-      minAmount?: number
-      maxAmount?: number
-    }>
-  }>('GET', '/v1/payments/methods')
+export function getAvailablePaymentMethods(
+  options?: TatraPayRequestOptions
+): ReturnType<TatraPayClient['getAvailablePaymentMethods']> {
+  return getDefaultTatraPayClient().getAvailablePaymentMethods(options)
+}
+
+/**
+ * Cancel an unpaid payment
+ */
+export function cancelPayment(
+  paymentId: string,
+  options?: TatraPayRequestOptions
+): Promise<TatraPayCancelResponse> {
+  return getDefaultTatraPayClient().cancelPayment(paymentId, options)
+}
+
+/**
+ * Refund a paid card payment (full or partial)
+ */
+export function refundPayment(
+  paymentId: string,
+  amount?: Money,
+  options?: TatraPayRequestOptions & { previouslyRefunded?: Money; requestId?: string }
+): Promise<TatraPayRefundResponse> {
+  return getDefaultTatraPayClient().refundPayment(paymentId, amount, options)
+}
+
+/**
+ * Capture (charge) a pre-authorized card payment
+ */
+export function capturePayment(
+  paymentId: string,
+  amount: Money,
+  options?: TatraPayRequestOptions
+): Promise<TatraPayPreAuthorizationResponse> {
+  return getDefaultTatraPayClient().capturePayment(paymentId, amount, options)
+}
 
-  return response.paymentMethods.map(m => ({
-    method: m.paymentMethod as TatraPayMethod,
-    available: m.isAvailable,
-    minAmount: m.minAmount ? Math.round(m.minAmount * 100) : undefined,
-    maxAmount: m.maxAmount ? Math.round(m.maxAmount * 100) : undefined
-  }))
+/**
+ * Release a card pre-authorization without charging the customer
+ */
+export function voidAuthorization(
+  paymentId: string,
+  options?: TatraPayRequestOptions
+): Promise<TatraPayPreAuthorizationResponse> {
+  return getDefaultTatraPayClient().voidAuthorization(paymentId, options)
+}
+
+/**
+ * Charge a saved card without redirecting the customer
+ */
+export function chargeSavedCard(
+  token: string,
+  amount: TatraPayCreatePaymentRequest['amount'],
+  merchantReference: string,
+  options: TatraPaySavedCardChargeOptions
+): Promise<TatraPaySavedCardChargeResponse> {
+  return getDefaultTatraPayClient().chargeSavedCard(token, amount, merchantReference, options)
 }
 
 // =============================================================================
@@ -533,25 +1631,50 @@ export async function getAvailablePaymentMethods(): Promise<Array<{
  *
  * ISO 20022 success codes: ACCC, ACSC, ACSP, ACCP, ACTC, ACWC, ACWP, ACFC
  *
+ * Pass preAuthorization for pre-authorized card payments: funds that are
+ * only held (AUTHORIZED) or released (VOIDED) do not count as paid.
+ *
  * @example
  * ```typescript
  * const status = await getPaymentStatus(paymentId)
- * if (isPaymentSuccessful(status.status)) {
+ * if (isPaymentSuccessful(status.status, status.preAuthorization)) {
  *   // Mark order as paid, send confirmation email, etc.
  * }
  * ```
  */
-export function isPaymentSuccessful(status: TatraPayStatus): boolean {
+export function isPaymentSuccessful(
+  status: TatraPayStatus,
+  preAuthorization?: TatraPayPreAuthorizationStatus
+): boolean {
+  if (preAuthorization === 'AUTHORIZED' || preAuthorization === 'VOIDED') return false
+
   const successCodes: TatraPayStatus[] = [
     'ACCC', 'ACSC', 'ACSP', 'ACCP', 'ACTC', 'ACWC', 'ACWP', 'ACFC'
   ]
   return successCodes.includes(status)
 }
 
+/**
+ * Check if card funds are held but not yet captured
+ *
+ * @example
+ * ```typescript
+ * if (isPaymentAuthorized(status.status, status.preAuthorization)) {
+ *   // Ship the order, then call capturePayment()
+ * }
+ * ```
+ */
+export function isPaymentAuthorized(
+  status: TatraPayStatus,
+  preAuthorization?: TatraPayPreAuthorizationStatus
+): boolean {
+  return preAuthorization === 'AUTHORIZED' && !isPaymentFailed(status)
+}
+
 /**
  * Check if a payment status indicates failure
  *
- * ISO 20022 failure codes: RJCT, CANC
+ * ISO 20022 failure codes: RJCT, CANC (and voided pre-authorizations)
  *
  * @example
  * ```typescript
@@ -560,7 +1683,12 @@ export function isPaymentSuccessful(status: TatraPayStatus): boolean {
  * }
  * ```
  */
-export function isPaymentFailed(status: TatraPayStatus): boolean {
+export function isPaymentFailed(
+  status: TatraPayStatus,
+  preAuthorization?: TatraPayPreAuthorizationStatus
+): boolean {
+  if (preAuthorization === 'VOIDED') return true
+
   const failedCodes: TatraPayStatus[] = ['RJCT', 'CANC']
   return failedCodes.includes(status)
 }
@@ -591,31 +1719,25 @@ export function isPaymentPending(status: TatraPayStatus): boolean {
  * await db.orders.update({ payment_status: internalStatus })
  * ```
  */
-export function mapToInternalStatus(status: TatraPayStatus): 'pending' | 'completed' | 'failed' {
-  if (isPaymentSuccessful(status)) return 'completed'
-  if (isPaymentFailed(status)) return 'failed'
+export function mapToInternalStatus(
+  status: TatraPayStatus,
+  preAuthorization?: TatraPayPreAuthorizationStatus
+): 'pending' | 'authorized' | 'completed' | 'failed' {
+  if (isPaymentFailed(status, preAuthorization)) return 'failed'
+  if (isPaymentAuthorized(status, preAuthorization)) return 'authorized'
+  if (isPaymentSuccessful(status, preAuthorization)) return 'completed'
   return 'pending'
 }
 
 /**
- * Get human-readable label for status (Slovak)
- */
-export function getStatusLabel(status: TatraPayStatus): string {
-  const labels: Record<TatraPayStatus, string> = {
-    'ACCC': 'Dokončená',
-    'ACSC': 'Vyrovnaná',
-    'ACSP': 'Spracováva sa',
-    'ACCP': 'Akceptovaná',
-    'ACTC': 'Overená',
-    'ACWC': 'Prijatá so zmenou',
-    'ACWP': 'Prijatá',
-    'ACFC': 'Fondy overené',
-    'RCVD': 'Prijatá',
-    'PDNG': 'Čaká',
-    'PATC': 'Čiastočne prijatá',
-    'PART': 'Čiastočná',
-    'RJCT': 'Zamietnutá',
-    'CANC': 'Zrušená'
-  }
-  return labels[status] || status
+ * Get human-readable label for status
+ *
+ * @example
+ * ```typescript
+ * getStatusLabel('PDNG')        // 'Čaká'
+ * getStatusLabel('PDNG', 'en')  // 'Pending'
+ * ```
+ */
+export function getStatusLabel(status: TatraPayStatus, language: Language = DEFAULT_LANGUAGE): string {
+  return STATUS_LABELS[status]?.[language] ?? status
 }
@@ -0,0 +1,209 @@
+/**
+ * OAuth token cache for TatraPay+
+ *
+ * Each serverless instance would otherwise request its own access token.
+ * A shared TokenCache lets all instances reuse one token until it expires.
+ *
+ * Ships with three adapters:
+ * - Memory: per process (default)
+ * - File: JSON file on disk, shared by processes on one machine
+ * - Redis: any Redis-compatible client (ioredis, node-redis, Upstash, ...)
+ *
+ * @example
+ * ```typescript
+ * import Redis from 'ioredis'
+ * import { createRedisTokenCache, setTokenCache } from '@/lib/token-cache'
+ *
+ * const redis = new Redis(process.env.REDIS_URL!)
+ *
+ * setTokenCache(createRedisTokenCache({
+ *   get: (key) => redis.get(key),
+ *   set: (key, value, ttlSeconds) => redis.set(key, value, 'EX', ttlSeconds),
+ *   del: (key) => redis.del(key)
+ * }))
+ * ```
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { TatraPayToken } from './tatrapay'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Storage for OAuth access tokens
+ */
+export interface TokenCache {
+  /** Get a token, or null if missing or expired */
+  get(key: string): Promise<TatraPayToken | null>
+  /** Store a token until its expiresAt */
+  set(key: string, token: TatraPayToken): Promise<void>
+  /** Remove a token (e.g. after TatraPay rejected it) */
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Minimal key-value client, implemented by wrapping your Redis client
+ */
+export interface KeyValueClient {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, ttlSeconds: number): Promise<unknown>
+  del(key: string): Promise<unknown>
+}
+
+function isExpired(token: TatraPayToken): boolean {
+  return Date.now() >= token.expiresAt
+}
+
+// =============================================================================
+// Memory Adapter
+// =============================================================================
+
+/**
+ * In-memory cache, shared by all requests in one process
+ */
+export function createMemoryTokenCache(): TokenCache {
+  const tokens = new Map<string, TatraPayToken>()
+
+  return {
+    async get(key) {
+      const token = tokens.get(key)
+      return token && !isExpired(token) ? token : null
+    },
+
+    async set(key, token) {
+      tokens.set(key, token)
+    },
+
+    async delete(key) {
+      tokens.delete(key)
+    }
+  }
+}
+
+// =============================================================================
+// File Adapter
+// =============================================================================
+
+/**
+ * JSON file cache. The file contains live access tokens - keep it out of
+ * version control and readable only by the app user.
+ *
+ * Writes are serialized within the process and go through a temp file
+ * + rename, like the file payment store.
+ */
+export function createFileTokenCache(filePath: string): TokenCache {
+  let queue: Promise<unknown> = Promise.resolve()
+
+  async function read(): Promise<Record<string, TatraPayToken>> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {}
+      }
+      throw error
+    }
+  }
+
+  async function write(data: Record<string, TatraPayToken>): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    const tmpPath = `${filePath}.${process.pid}.tmp`
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), { mode: 0o600 })
+    await fs.rename(tmpPath, filePath)
+  }
+
+  // Run read-modify-write operations one at a time
+  function exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = queue.then(operation)
+    queue = result.catch(() => undefined)
+    return result
+  }
+
+  return {
+    async get(key) {
+      const token = (await read())[key]
+      return token && !isExpired(token) ? token : null
+    },
+
+    set(key, token) {
+      return exclusive(async () => {
+        const data = await read()
+        data[key] = token
+        await write(data)
+      })
+    },
+
+    delete(key) {
+      return exclusive(async () => {
+        const data = await read()
+        if (!(key in data)) return
+        delete data[key]
+        await write(data)
+      })
+    }
+  }
+}
+
+// =============================================================================
+// Redis Adapter
+// =============================================================================
+
+/**
+ * Cache backed by a Redis-compatible key-value store
+ *
+ * Tokens are stored as JSON with a TTL matching their expiry.
+ */
+export function createRedisTokenCache(client: KeyValueClient): TokenCache {
+  return {
+    async get(key) {
+      const value = await client.get(key)
+      if (!value) return null
+
+      const token: TatraPayToken = JSON.parse(value)
+      return isExpired(token) ? null : token
+    },
+
+    async set(key, token) {
+      const ttlSeconds = Math.floor((token.expiresAt - Date.now()) / 1000)
+      if (ttlSeconds <= 0) return
+      await client.set(key, JSON.stringify(token), ttlSeconds)
+    },
+
+    async delete(key) {
+      await client.del(key)
+    }
+  }
+}
+
+// =============================================================================
+// Default Cache
+// =============================================================================
+
+// Kept on globalThis so the memory cache survives Next.js hot reloads
+const globalForCache = globalThis as unknown as { tatraPayTokenCache?: TokenCache }
+
+/**
+ * Get the token cache used by tatrapay.ts
+ *
+ * Configured via environment variables:
+ * - TATRAPAY_TOKEN_CACHE: 'memory' (default) or 'file'
+ * - TATRAPAY_TOKEN_CACHE_FILE: path for the file cache (default .tatrapay/token.json)
+ */
+export function getTokenCache(): TokenCache {
+  if (!globalForCache.tatraPayTokenCache) {
+    globalForCache.tatraPayTokenCache = process.env.TATRAPAY_TOKEN_CACHE === 'file'
+      ? createFileTokenCache(process.env.TATRAPAY_TOKEN_CACHE_FILE || '.tatrapay/token.json')
+      : createMemoryTokenCache()
+  }
+  return globalForCache.tatraPayTokenCache
+}
+
+/**
+ * Replace the token cache (e.g. with a Redis adapter)
+ */
+export function setTokenCache(cache: TokenCache): void {
+  globalForCache.tatraPayTokenCache = cache
+}
@@ -0,0 +1,521 @@
+/**
+ * Request body validation for the payment API routes
+ *
+ * Route bodies come straight from the browser, so every field is checked
+ * before anything reaches TatraPay. Invalid requests are rejected with
+ * field-level errors:
+ *
+ * {
+ *   success: false,
+ *   error: 'Platobná požiadavka je neplatná. ...',
+ *   code: 'INVALID_REQUEST',
+ *   fields: [{ field: 'customer.email', code: 'INVALID_FORMAT', message: 'Must be a valid email address' }]
+ * }
+ */
+
+// tatrapay.ts imports this module too (createPayment checks PAY_LATER with
+// validatePayLaterRequest) - only use its values inside functions
+import {
+  calculateOrderTotals,
+  TATRAPAY_METHODS,
+  TatraPayAddress,
+  TatraPayClient,
+  TatraPayCreatePaymentRequest,
+  TatraPayMethod,
+  TatraPayOrderDetail
+} from './tatrapay'
+import type { FieldError } from './tatrapay-errors'
+import { compareMoney, createMoney } from './money'
+import { validateCustomerRiskData } from './customer-data'
+import { isLanguage, Language, LANGUAGES } from './i18n'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: FieldError[] }
+
+/**
+ * Body of POST /api/payment/create
+ */
+export interface CreatePaymentRequestBody {
+  orderId: string
+  paymentMethod?: TatraPayMethod
+  allowedMethods?: TatraPayMethod[]
+  amount: number
+  currency: 'EUR' | 'CZK'
+  customer: {
+    id?: string
+    email: string
+    firstName: string
+    lastName: string
+    phone?: string                    // E.164 or national SK/CZ number
+    address?: TatraPayAddress         // Billing address (3-D Secure)
+    shippingAddress?: TatraPayAddress // Delivery address (3-D Secure)
+  }
+  order?: TatraPayOrderDetail
+  preAuthorization?: boolean
+  saveCard?: boolean
+  description?: string
+  language?: Language
+}
+
+/**
+ * Body of POST /api/payment-links
+ */
+export interface CreatePaymentLinkRequestBody {
+  amount: number
+  currency: 'EUR' | 'CZK'
+  description: string
+  orderId?: string
+  expiresAt?: string            // ISO 8601, default in 7 days
+  allowedMethods?: TatraPayMethod[]
+  singleUse?: boolean
+  customer?: Omit<CreatePaymentRequestBody['customer'], 'id'>
+}
+
+/**
+ * Body of POST /api/cards/[customerId]/[cardId]/charge
+ */
+export interface SavedCardChargeRequestBody {
+  orderId: string
+  amount: number
+  currency: 'EUR' | 'CZK'
+  customerIpAddress: string
+  description?: string
+  language?: Language
+}
+
+// =============================================================================
+// Limits
+// =============================================================================
+
+const CURRENCIES = ['EUR', 'CZK'] as const
+
+// Used as merchantReference, in the Redirect-URI and as a URL path segment -
+// TatraPay rejects spaces and most punctuation, '.' and '..' alone are not a segment
+const ORDER_ID_PATTERN = /^(?!\.+$)[A-Za-z0-9_\-.]+$/
+const ORDER_ID_MAX_LENGTH = 35
+const LINK_ORDER_ID_MAX_LENGTH = ORDER_ID_MAX_LENGTH - 5   // Multi-use links append -xxxx
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/
+
+const MAX_AMOUNT = 99999999                  // In cents
+const NAME_MAX_LENGTH = 100
+const EMAIL_MAX_LENGTH = 254
+const DESCRIPTION_MAX_LENGTH = 255
+const IP_ADDRESS_MAX_LENGTH = 45             // IPv6 with an embedded IPv4 address
+const ITEM_NAME_MAX_LENGTH = 255
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+type Fields = Record<string, unknown>
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Collects field errors while checking a request
+ */
+function createChecker() {
+  const errors: FieldError[] = []
+
+  function add(field: string, code: string, message: string): void {
+    errors.push({ field, code, message })
+  }
+
+  function string(
+    field: string,
+    value: unknown,
+    rules: { required?: boolean; maxLength?: number; pattern?: RegExp; patternMessage?: string }
+  ): boolean {
+    if (value === undefined || value === null || value === '') {
+      if (rules.required) add(field, 'REQUIRED', 'Is required')
+      return false
+    }
+    if (typeof value !== 'string') {
+      add(field, 'INVALID_TYPE', 'Must be a string')
+      return false
+    }
+    if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+      add(field, 'TOO_LONG', `Must be at most ${rules.maxLength} characters`)
+      return false
+    }
+    if (rules.pattern && !rules.pattern.test(value)) {
+      add(field, 'INVALID_FORMAT', rules.patternMessage ?? 'Has an invalid format')
+      return false
+    }
+    return true
+  }
+
+  function integer(
+    field: string,
+    value: unknown,
+    rules: { required?: boolean; min?: number; max?: number }
+  ): boolean {
+    if (value === undefined || value === null) {
+      if (rules.required) add(field, 'REQUIRED', 'Is required')
+      return false
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      add(field, 'INVALID_TYPE', 'Must be a whole number')
+      return false
+    }
+    if ((rules.min !== undefined && value < rules.min) || (rules.max !== undefined && value > rules.max)) {
+      add(field, 'OUT_OF_RANGE', `Must be between ${rules.min ?? '-∞'} and ${rules.max ?? '∞'}`)
+      return false
+    }
+    return true
+  }
+
+  function oneOf<T extends string>(field: string, value: unknown, allowed: readonly T[], required = false): value is T {
+    if (value === undefined || value === null) {
+      if (required) add(field, 'REQUIRED', 'Is required')
+      return false
+    }
+    if (!allowed.includes(value as T)) {
+      add(field, 'INVALID_VALUE', `Must be one of ${allowed.join(', ')}`)
+      return false
+    }
+    return true
+  }
+
+  function boolean(field: string, value: unknown): void {
+    if (value !== undefined && typeof value !== 'boolean') {
+      add(field, 'INVALID_TYPE', 'Must be true or false')
+    }
+  }
+
+  return { errors, add, string, integer, oneOf, boolean }
+}
+
+// =============================================================================
+// Create Payment
+// =============================================================================
+
+/**
+ * Language of a request body, if it is a supported one
+ *
+ * Lets routes localize errors even when the rest of the body is invalid.
+ */
+export function getRequestLanguage(body: unknown): Language | undefined {
+  const language = isObject(body) ? body.language : undefined
+  return isLanguage(language) ? language : undefined
+}
+
+/**
+ * Validate the body of POST /api/payment/create
+ *
+ * @example
+ * ```typescript
+ * const validation = validateCreatePaymentRequest(await request.json())
+ * if (!validation.valid) {
+ *   throw new ValidationError('Invalid create payment request', { fields: validation.errors })
+ * }
+ * const body = validation.value
+ * ```
+ */
+export function validateCreatePaymentRequest(body: unknown): ValidationResult<CreatePaymentRequestBody> {
+  const check = createChecker()
+
+  if (!isObject(body)) {
+    check.add('body', 'INVALID_TYPE', 'Request body must be a JSON object')
+    return { valid: false, errors: check.errors }
+  }
+
+  check.string('orderId', body.orderId, {
+    required: true,
+    maxLength: ORDER_ID_MAX_LENGTH,
+    pattern: ORDER_ID_PATTERN,
+    patternMessage: 'May only contain letters, digits and _ - .'
+  })
+
+  // Amount and currency
+  check.integer('amount', body.amount, { required: true, min: 1, max: MAX_AMOUNT })
+  check.oneOf('currency', body.currency, CURRENCIES, true)
+
+  // Payment method (none = gateway mode)
+  check.oneOf('paymentMethod', body.paymentMethod, TATRAPAY_METHODS)
+
+  if (body.allowedMethods !== undefined) {
+    if (body.paymentMethod !== undefined) {
+      check.add('allowedMethods', 'CONFLICT', 'Only allowed in gateway mode (without paymentMethod)')
+    } else if (!Array.isArray(body.allowedMethods) || body.allowedMethods.length === 0) {
+      check.add('allowedMethods', 'INVALID_TYPE', 'Must be a non-empty array of payment methods')
+    } else {
+      body.allowedMethods.forEach((method, i) => check.oneOf(`allowedMethods.${i}`, method, TATRAPAY_METHODS))
+    }
+  }
+
+  // Customer
+  const customer = body.customer
+  if (!isObject(customer)) {
+    check.add('customer', customer === undefined ? 'REQUIRED' : 'INVALID_TYPE', 'Must be an object with email, firstName and lastName')
+  } else {
+    check.string('customer.id', customer.id, { maxLength: NAME_MAX_LENGTH })
+    validateCustomer(check, customer, body.paymentMethod === 'PAY_LATER')
+  }
+
+  // Itemized order (PAY_LATER)
+  if (body.order !== undefined) {
+    validateOrder(check, body.order, body.amount)
+  } else if (body.paymentMethod === 'PAY_LATER') {
+    check.add('order', 'REQUIRED', 'PAY_LATER requires order items')
+  }
+
+  // Card options
+  check.boolean('preAuthorization', body.preAuthorization)
+  check.boolean('saveCard', body.saveCard)
+
+  if (body.preAuthorization === true && body.paymentMethod !== 'CARD_PAY') {
+    check.add('preAuthorization', 'CONFLICT', 'Requires paymentMethod CARD_PAY')
+  }
+  if (body.saveCard === true) {
+    if (body.paymentMethod !== 'CARD_PAY') {
+      check.add('saveCard', 'CONFLICT', 'Requires paymentMethod CARD_PAY')
+    }
+    if (isObject(customer) && !customer.id) {
+      check.add('customer.id', 'REQUIRED', 'Required to save a card')
+    }
+  }
+
+  check.string('description', body.description, { maxLength: DESCRIPTION_MAX_LENGTH })
+  check.oneOf('language', body.language, LANGUAGES)
+
+  return check.errors.length > 0
+    ? { valid: false, errors: check.errors }
+    : { valid: true, value: body as unknown as CreatePaymentRequestBody }
+}
+
+function validateCustomer(check: ReturnType<typeof createChecker>, customer: Fields, phoneRequired: boolean): void {
+  check.string('customer.email', customer.email, {
+    required: true,
+    maxLength: EMAIL_MAX_LENGTH,
+    pattern: EMAIL_PATTERN,
+    patternMessage: 'Must be a valid email address'
+  })
+  check.string('customer.firstName', customer.firstName, { required: true, maxLength: NAME_MAX_LENGTH })
+  check.string('customer.lastName', customer.lastName, { required: true, maxLength: NAME_MAX_LENGTH })
+  const hasPhone = check.string('customer.phone', customer.phone, { required: phoneRequired })
+
+  // Phone format, billing and shipping address (3-D Secure risk data)
+  validateCustomerRiskData({
+    phone: hasPhone ? customer.phone as string : undefined,
+    address: customer.address as TatraPayAddress | undefined,
+    shippingAddress: customer.shippingAddress as TatraPayAddress | undefined
+  }).forEach(error => check.add(error.field, error.code, error.message))
+}
+
+function validateOrder(check: ReturnType<typeof createChecker>, order: unknown, amount: unknown, field = 'order'): void {
+  if (!isObject(order)) {
+    check.add(field, 'INVALID_TYPE', 'Must be an object with items')
+    return
+  }
+
+  if (!Array.isArray(order.items) || order.items.length === 0) {
+    check.add(`${field}.items`, 'REQUIRED', 'Must be a non-empty array')
+  } else {
+    order.items.forEach((item: unknown, i: number) => {
+      const itemField = `${field}.items.${i}`
+      if (!isObject(item)) {
+        check.add(itemField, 'INVALID_TYPE', 'Must be an object')
+        return
+      }
+      check.string(`${itemField}.name`, item.name, { required: true, maxLength: ITEM_NAME_MAX_LENGTH })
+      check.integer(`${itemField}.quantity`, item.quantity, { required: true, min: 1 })
+      check.integer(`${itemField}.unitPrice`, item.unitPrice, { required: true, min: 0, max: MAX_AMOUNT })
+      check.string(`${itemField}.description`, item.description, { maxLength: ITEM_NAME_MAX_LENGTH })
+      check.string(`${itemField}.infoUrl`, item.infoUrl, { pattern: /^https?:\/\//, patternMessage: 'Must be an http(s) URL' })
+    })
+  }
+
+  check.integer(`${field}.preferredLoanDuration`, order.preferredLoanDuration, { min: 1 })
+  check.integer(`${field}.downPayment`, order.downPayment, { min: 0, max: MAX_AMOUNT })
+
+  // Items must add up to the amount - only meaningful once they are valid
+  if (check.errors.some(error => error.field.startsWith(`${field}.`) || error.field === 'amount')) return
+
+  const { total } = calculateOrderTotals(order as unknown as TatraPayOrderDetail)
+  if (total !== amount) {
+    check.add(`${field}.items`, 'TOTAL_MISMATCH', `Items total ${total} does not match amount ${amount}`)
+  }
+  if (typeof order.downPayment === 'number' && order.downPayment >= total) {
+    check.add(`${field}.downPayment`, 'OUT_OF_RANGE', 'Must be less than the order total')
+  }
+}
+
+/**
+ * Check the order items and contact data of a PAY_LATER payment
+ *
+ * createPayment() runs this for every caller, so payment links and other
+ * library code get the same checks as the create route. Errors use the
+ * request's field names (orderDetail.items.0.name).
+ */
+export function validatePayLaterRequest(
+  request: Pick<TatraPayCreatePaymentRequest, 'amount' | 'customer' | 'orderDetail'>
+): FieldError[] {
+  const check = createChecker()
+
+  if (!isObject(request.customer)) {
+    check.add('customer', 'REQUIRED', 'PAY_LATER requires first name, last name, email and phone')
+  } else {
+    validateCustomer(check, request.customer as unknown as Fields, true)
+  }
+
+  if (request.orderDetail === undefined) {
+    check.add('orderDetail', 'REQUIRED', 'PAY_LATER requires order items')
+  } else {
+    validateOrder(check, request.orderDetail, request.amount.amount, 'orderDetail')
+  }
+
+  return check.errors
+}
+
+// =============================================================================
+// Payment Links
+// =============================================================================
+
+/**
+ * Validate the body of POST /api/payment-links
+ */
+export function validateCreatePaymentLinkRequest(
+  body: unknown,
+  now = new Date()
+): ValidationResult<CreatePaymentLinkRequestBody> {
+  const check = createChecker()
+
+  if (!isObject(body)) {
+    check.add('body', 'INVALID_TYPE', 'Request body must be a JSON object')
+    return { valid: false, errors: check.errors }
+  }
+
+  check.integer('amount', body.amount, { required: true, min: 1, max: MAX_AMOUNT })
+  check.oneOf('currency', body.currency, CURRENCIES, true)
+  check.string('description', body.description, { required: true, maxLength: DESCRIPTION_MAX_LENGTH })
+  check.string('orderId', body.orderId, {
+    maxLength: LINK_ORDER_ID_MAX_LENGTH,
+    pattern: ORDER_ID_PATTERN,
+    patternMessage: 'May only contain letters, digits and _ - .'
+  })
+
+  if (check.string('expiresAt', body.expiresAt, {}) && !(new Date(body.expiresAt as string).getTime() > now.getTime())) {
+    check.add('expiresAt', 'INVALID_VALUE', 'Must be an ISO 8601 date in the future')
+  }
+
+  if (body.allowedMethods !== undefined) {
+    // Links use every method except PAY_LATER, which needs order items
+    const linkMethods = TATRAPAY_METHODS.filter(method => method !== 'PAY_LATER')
+    if (!Array.isArray(body.allowedMethods) || body.allowedMethods.length === 0) {
+      check.add('allowedMethods', 'INVALID_TYPE', 'Must be a non-empty array of payment methods')
+    } else {
+      body.allowedMethods.forEach((method, i) => check.oneOf(`allowedMethods.${i}`, method, linkMethods))
+    }
+  }
+
+  check.boolean('singleUse', body.singleUse)
+
+  if (body.customer !== undefined) {
+    if (!isObject(body.customer)) {
+      check.add('customer', 'INVALID_TYPE', 'Must be an object with email, firstName and lastName')
+    } else {
+      validateCustomer(check, body.customer, false)
+    }
+  }
+
+  return check.errors.length > 0
+    ? { valid: false, errors: check.errors }
+    : { valid: true, value: body as unknown as CreatePaymentLinkRequestBody }
+}
+
+// =============================================================================
+// Saved Card Charges
+// =============================================================================
+
+/**
+ * Validate the body of POST /api/cards/[customerId]/[cardId]/charge
+ */
+export function validateSavedCardChargeRequest(body: unknown): ValidationResult<SavedCardChargeRequestBody> {
+  const check = createChecker()
+
+  if (!isObject(body)) {
+    check.add('body', 'INVALID_TYPE', 'Request body must be a JSON object')
+    return { valid: false, errors: check.errors }
+  }
+
+  check.string('orderId', body.orderId, {
+    required: true,
+    maxLength: ORDER_ID_MAX_LENGTH,
+    pattern: ORDER_ID_PATTERN,
+    patternMessage: 'May only contain letters, digits and _ - .'
+  })
+  check.integer('amount', body.amount, { required: true, min: 1, max: MAX_AMOUNT })
+  check.oneOf('currency', body.currency, CURRENCIES, true)
+  check.string('customerIpAddress', body.customerIpAddress, { required: true, maxLength: IP_ADDRESS_MAX_LENGTH })
+  check.string('description', body.description, { maxLength: DESCRIPTION_MAX_LENGTH })
+  check.oneOf('language', body.language, LANGUAGES)
+
+  return check.errors.length > 0
+    ? { valid: false, errors: check.errors }
+    : { valid: true, value: body as unknown as SavedCardChargeRequestBody }
+}
+
+// =============================================================================
+// Amount Limits
+// =============================================================================
+
+type PaymentMethodLimits = Awaited<ReturnType<TatraPayClient['getAvailablePaymentMethods']>>
+
+// Limits change rarely - cache them per client instead of asking on every payment
+const METHOD_LIMITS_TTL_MS = 5 * 60 * 1000
+const methodLimitsCache = new WeakMap<TatraPayClient, { expiresAt: number; methods: PaymentMethodLimits }>()
+
+async function getMethodLimits(client: TatraPayClient): Promise<PaymentMethodLimits> {
+  const cached = methodLimitsCache.get(client)
+  if (cached && Date.now() < cached.expiresAt) {
+    return cached.methods
+  }
+
+  const methods = await client.getAvailablePaymentMethods()
+  methodLimitsCache.set(client, { expiresAt: Date.now() + METHOD_LIMITS_TTL_MS, methods })
+  return methods
+}
+
+/**
+ * Check the amount against the minAmount / maxAmount TatraPay reports
+ * for the chosen payment method
+ *
+ * Gateway mode is not checked - the TatraPay+ page only offers methods the
+ * amount qualifies for. TatraPay reports limits in EUR, so other
+ * currencies are not checked either.
+ */
+export async function validateAmountLimits(
+  client: TatraPayClient,
+  body: Pick<CreatePaymentRequestBody, 'paymentMethod' | 'amount' | 'currency'>
+): Promise<FieldError[]> {
+  if (!body.paymentMethod || body.currency !== 'EUR') return []
+
+  const method = (await getMethodLimits(client)).find(m => m.method === body.paymentMethod)
+  if (!method) return []
+
+  const amount = createMoney(body.amount, body.currency)
+  if (method.minAmount && compareMoney(amount, method.minAmount) < 0) {
+    return [{
+      field: 'amount',
+      code: 'AMOUNT_TOO_LOW',
+      message: `${body.paymentMethod} minimum amount is ${method.minAmount.amount} cents`
+    }]
+  }
+  if (method.maxAmount && compareMoney(amount, method.maxAmount) > 0) {
+    return [{
+      field: 'amount',
+      code: 'AMOUNT_TOO_HIGH',
+      message: `${body.paymentMethod} maximum amount is ${method.maxAmount.amount} cents`
+    }]
+  }
+  return []
+}
@@ -0,0 +1,270 @@
+/**
+ * Webhook authenticity verification for TatraPay+ notifications
+ *
+ * Checks run before the webhook route touches the payload:
+ * 1. Source IP against an optional allowlist
+ * 2. Timestamp within the configured tolerance (replay protection)
+ * 3. Signature over `${timestamp}.${rawBody}` using either
+ *    - a shared secret (HMAC-SHA256, hex encoded), or
+ *    - a public key (RSA/ECDSA with SHA-256, base64 encoded)
+ *
+ * Configured via environment variables:
+ * - TATRAPAY_WEBHOOK_SECRET: shared secret for HMAC signatures
+ * - TATRAPAY_WEBHOOK_PUBLIC_KEY: PEM public key for asymmetric signatures
+ * - TATRAPAY_WEBHOOK_TOLERANCE_SECONDS: max timestamp age (default 300)
+ * - TATRAPAY_WEBHOOK_IP_ALLOWLIST: comma separated IPs or IPv4 CIDR ranges
+ * - TATRAPAY_CLIENT_IP_HEADER, TATRAPAY_TRUSTED_PROXY_HOPS: where the source
+ *   IP is read from (see client-ip.ts)
+ * - TATRAPAY_WEBHOOK_INSECURE: 'true' to skip signature checks (local only!)
+ */
+
+import { createHmac, createSign, createVerify, timingSafeEqual } from 'crypto'
+import { ClientIpConfig, getClientIp, getClientIpConfig } from './client-ip'
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-tatrapay-signature'
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-tatrapay-timestamp'
+
+const DEFAULT_TOLERANCE_SECONDS = 300
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Webhook verification settings
+ */
+export interface WebhookVerificationConfig extends ClientIpConfig {
+  secret?: string
+  publicKey?: string          // PEM encoded
+  toleranceSeconds: number
+  ipAllowlist?: string[]      // IPs or IPv4 CIDR ranges (e.g., '10.0.0.0/8')
+  insecure?: boolean          // Skip signature + timestamp checks
+}
+
+/**
+ * Incoming webhook request data needed for verification
+ */
+export interface WebhookRequestData {
+  rawBody: string
+  headers: Headers
+  ip?: string
+}
+
+/**
+ * Verification outcome
+ */
+export type WebhookVerificationResult =
+  | { valid: true }
+  | { valid: false; reason: string }
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * Read webhook verification settings from environment variables
+ */
+export function getWebhookVerificationConfig(): WebhookVerificationConfig {
+  const tolerance = Number(process.env.TATRAPAY_WEBHOOK_TOLERANCE_SECONDS)
+  const allowlist = process.env.TATRAPAY_WEBHOOK_IP_ALLOWLIST
+    ?.split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+
+  return {
+    secret: process.env.TATRAPAY_WEBHOOK_SECRET || undefined,
+    // Env vars often store PEM newlines escaped
+    publicKey: process.env.TATRAPAY_WEBHOOK_PUBLIC_KEY?.replace(/\\n/g, '\n') || undefined,
+    toleranceSeconds: tolerance > 0 ? tolerance : DEFAULT_TOLERANCE_SECONDS,
+    ipAllowlist: allowlist?.length ? allowlist : undefined,
+    ...getClientIpConfig(),
+    insecure: process.env.TATRAPAY_WEBHOOK_INSECURE === 'true'
+  }
+}
+
+// =============================================================================
+// Source IP
+// =============================================================================
+
+/**
+ * IP address the webhook came from, for the allowlist (see getClientIp())
+ */
+export function getWebhookSourceIp(
+  headers: Headers,
+  config: ClientIpConfig = getWebhookVerificationConfig()
+): string | undefined {
+  return getClientIp(headers, config)
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Verify that a webhook request really comes from TatraPay
+ *
+ * @example
+ * ```typescript
+ * const rawBody = await request.text()
+ * const ip = getWebhookSourceIp(request.headers)
+ * const result = verifyWebhook({ rawBody, headers: request.headers, ip })
+ * if (!result.valid) {
+ *   return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+ * }
+ * ```
+ */
+export function verifyWebhook(
+  request: WebhookRequestData,
+  config: WebhookVerificationConfig = getWebhookVerificationConfig()
+): WebhookVerificationResult {
+  // 1. IP allowlist
+  if (config.ipAllowlist) {
+    if (!request.ip || !config.ipAllowlist.some(entry => matchesIp(request.ip!, entry))) {
+      return { valid: false, reason: 'IP address not allowed' }
+    }
+  }
+
+  if (config.insecure) {
+    return { valid: true }
+  }
+
+  if (!config.secret && !config.publicKey) {
+    return { valid: false, reason: 'Webhook verification not configured' }
+  }
+
+  // 2. Timestamp tolerance
+  const timestamp = request.headers.get(WEBHOOK_TIMESTAMP_HEADER)
+  const signature = request.headers.get(WEBHOOK_SIGNATURE_HEADER)
+
+  if (!timestamp || !signature) {
+    return { valid: false, reason: 'Missing signature headers' }
+  }
+
+  const timestampSeconds = Number(timestamp)
+  if (!Number.isInteger(timestampSeconds)) {
+    return { valid: false, reason: 'Invalid timestamp' }
+  }
+
+  const ageSeconds = Math.abs(Date.now() / 1000 - timestampSeconds)
+  if (ageSeconds > config.toleranceSeconds) {
+    return { valid: false, reason: 'Timestamp outside tolerance' }
+  }
+
+  // 3. Signature
+  const signedContent = `${timestamp}.${request.rawBody}`
+
+  if (config.secret && verifyHmac(signedContent, signature, config.secret)) {
+    return { valid: true }
+  }
+  if (config.publicKey && verifyPublicKey(signedContent, signature, config.publicKey)) {
+    return { valid: true }
+  }
+
+  return { valid: false, reason: 'Invalid signature' }
+}
+
+function verifyHmac(content: string, signature: string, secret: string): boolean {
+  const expected = Buffer.from(hmac(content, secret), 'hex')
+  const received = Buffer.from(signature, 'hex')
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+function verifyPublicKey(content: string, signature: string, publicKey: string): boolean {
+  try {
+    return createVerify('sha256').update(content).verify(publicKey, signature, 'base64')
+  } catch {
+    return false
+  }
+}
+
+function hmac(content: string, secret: string): string {
+  return createHmac('sha256', secret).update(content).digest('hex')
+}
+
+// =============================================================================
+// IP Matching
+// =============================================================================
+
+/**
+ * Match an IP against an exact address or IPv4 CIDR range
+ */
+function matchesIp(ip: string, entry: string): boolean {
+  // Normalize IPv4-mapped IPv6 addresses (::ffff:1.2.3.4)
+  const normalizedIp = ip.replace(/^::ffff:/, '')
+
+  if (!entry.includes('/')) {
+    return normalizedIp === entry
+  }
+
+  const [range, bitsText] = entry.split('/')
+  const bits = Number(bitsText)
+  const ipValue = ipv4ToNumber(normalizedIp)
+  const rangeValue = ipv4ToNumber(range)
+
+  if (ipValue === null || rangeValue === null || !(bits >= 0 && bits <= 32)) {
+    return false
+  }
+
+  const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0
+  return (ipValue & mask) >>> 0 === (rangeValue & mask) >>> 0
+}
+
+function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.split('.').map(Number)
+  if (parts.length !== 4 || parts.some(p => !Number.isInteger(p) || p < 0 || p > 255)) {
+    return null
+  }
+  return ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0
+}
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+/**
+ * Sign a webhook payload for local testing
+ *
+ * Uses TATRAPAY_WEBHOOK_SECRET unless a secret or private key is given.
+ *
+ * @example
+ * ```typescript
+ * const { body, headers } = signWebhookPayload({
+ *   paymentId: 'payment-uuid',
+ *   status: 'ACSC',
+ *   merchantReference: 'ORDER-123'
+ * })
+ * await fetch('http://localhost:3000/api/payment/webhook', { method: 'POST', body, headers })
+ * ```
+ */
+export function signWebhookPayload(
+  payload: unknown,
+  options: { secret?: string; privateKey?: string; timestamp?: number } = {}
+): { body: string; headers: Record<string, string> } {
+  const body = typeof payload === 'string' ? payload : JSON.stringify(payload)
+  const timestamp = String(options.timestamp ?? Math.floor(Date.now() / 1000))
+  const signedContent = `${timestamp}.${body}`
+
+  let signature: string
+  if (options.privateKey) {
+    signature = createSign('sha256').update(signedContent).sign(options.privateKey, 'base64')
+  } else {
+    const secret = options.secret ?? process.env.TATRAPAY_WEBHOOK_SECRET
+    if (!secret) {
+      throw new Error('No webhook secret provided. Pass options.secret or set TATRAPAY_WEBHOOK_SECRET.')
+    }
+    signature = hmac(signedContent, secret)
+  }
+
+  return {
+    body,
+    headers: {
+      'Content-Type': 'application/json',
+      [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+      [WEBHOOK_SIGNATURE_HEADER]: signature
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest'
+import { importBankStatement, parseBankStatement } from '@/lib/bank-statement'
+import { getPaymentStore, StoredPayment } from '@/lib/payment-store'
+import { ValidationError } from '@/lib/tatrapay'
+import { createStoredPayment, setupMockGateway } from './helpers'
+
+function camt053(entries: Array<{ ref: string; amount: string; vs?: string; direction?: 'CRDT' | 'DBIT' }>): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      ${entries.map(entry => `<Ntry>
+        <Amt Ccy="EUR">${entry.amount}</Amt>
+        <CdtDbtInd>${entry.direction ?? 'CRDT'}</CdtDbtInd>
+        <BookgDt><Dt>2026-10-19</Dt></BookgDt>
+        <AcctSvcrRef>${entry.ref}</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          ${entry.vs ? `<Refs><EndToEndId>/VS${entry.vs}/SS/KS0308</EndToEndId></Refs>` : ''}
+          <RltdPties><Dbtr><Nm>J&amp;N s.r.o.</Nm></Dbtr><DbtrAcct><Id><IBAN>SK3111000000002612345678</IBAN></Id></DbtrAcct></RltdPties>
+        </TxDtls></NtryDtls>
+      </Ntry>`).join('\n')}
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`
+}
+
+async function bankTransfer(orderId = 'ORDER-1'): Promise<StoredPayment & { vs: string }> {
+  const payment = await createStoredPayment(setupMockGateway(), { orderId, paymentMethod: 'BANK_TRANSFER' })
+  return { ...payment, vs: payment.bankTransferInfo!.variableSymbol }
+}
+
+describe('parseBankStatement', () => {
+  it('reads camt.053 entries with the variable symbol from the end-to-end reference', () => {
+    const statement = parseBankStatement(camt053([{ ref: 'REF-1', amount: '79.90', vs: '123456' }]))
+
+    expect(statement).toEqual({
+      format: 'camt053',
+      entries: [{
+        reference: 'REF-1',
+        direction: 'credit',
+        amount: { amount: 7990, currency: 'EUR' },
+        bookedAt: '2026-10-19',
+        variableSymbol: '123456',
+        counterpartyName: 'J&N s.r.o.',
+        counterpartyIban: 'SK3111000000002612345678',
+        description: undefined
+      }]
+    })
+  })
+
+  it('reads a Tatra banka CSV export by its Slovak headers', () => {
+    const csv = [
+      '\uFEFFDátum zaúčtovania;Suma;Mena;Variabilný symbol;Protiúčet;Popis',
+      '19.10.2026;"1 234,56";EUR;;SK31 1100 0000 0026 1234 5678;Platba VS: 987',
+      '19.10.2026;-10,00;EUR;;;Poplatok'
+    ].join('\r\n')
+
+    const { format, entries } = parseBankStatement(csv)
+
+    expect(format).toBe('csv')
+    expect(entries).toMatchObject([
+      {
+        direction: 'credit',
+        amount: { amount: 123456, currency: 'EUR' },
+        bookedAt: '2026-10-19',
+        variableSymbol: '987',
+        counterpartyIban: 'SK3111000000002612345678'
+      },
+      { direction: 'debit', amount: { amount: 1000, currency: 'EUR' } }
+    ])
+    expect(entries[0].reference).toBe(parseBankStatement(csv).entries[0].reference)
+  })
+
+  it('rejects files it cannot read', () => {
+    expect(() => parseBankStatement('<Document/>')).toThrow(ValidationError)
+    expect(() => parseBankStatement('Datum;Popis\n19.10.2026;x')).toThrow(ValidationError)
+  })
+})
+
+describe('importBankStatement', () => {
+  it('settles a transfer paid in full', async () => {
+    const payment = await bankTransfer()
+
+    const report = await importBankStatement(camt053([{ ref: 'REF-1', amount: '100.00', vs: payment.vs }]))
+
+    expect(report.paid).toMatchObject([{ orderId: 'ORDER-1', status: 'ACSC', received: { amount: 10000 } }])
+    const stored = await getPaymentStore().findByPaymentId(payment.paymentId)
+    expect(stored?.status).toBe('ACSC')
+    expect(stored?.bankCredits).toMatchObject([{ reference: 'REF-1', amount: 10000 }])
+  })
+
+  it('keeps an underpaid transfer partial until the rest arrives', async () => {
+    const payment = await bankTransfer()
+
+    const first = await importBankStatement(camt053([{ ref: 'REF-1', amount: '40.00', vs: payment.vs }]))
+    expect(first.underpaid).toMatchObject([{ status: 'PART', received: { amount: 4000 } }])
+
+    const second = await importBankStatement(camt053([{ ref: 'REF-2', amount: '60.00', vs: payment.vs }]))
+    expect(second.paid).toMatchObject([{ status: 'ACSC', received: { amount: 10000 } }])
+  })
+
+  it('reports overpayments', async () => {
+    const payment = await bankTransfer()
+
+    const report = await importBankStatement(camt053([{ ref: 'REF-1', amount: '120.00', vs: payment.vs }]))
+
+    expect(report.overpaid).toMatchObject([{ status: 'ACSC', received: { amount: 12000 } }])
+  })
+
+  it('changes nothing when the same statement is imported again', async () => {
+    const payment = await bankTransfer()
+    const statement = camt053([{ ref: 'REF-1', amount: '100.00', vs: payment.vs }])
+    await importBankStatement(statement)
+
+    const report = await importBankStatement(statement)
+
+    expect(report.paid).toEqual([])
+    expect(report.duplicates).toMatchObject([{ reason: 'already_imported' }])
+    expect((await getPaymentStore().findByPaymentId(payment.paymentId))?.bankCredits).toHaveLength(1)
+  })
+
+  it('flags a second transfer for a paid order', async () => {
+    const payment = await bankTransfer()
+    await importBankStatement(camt053([{ ref: 'REF-1', amount: '100.00', vs: payment.vs }]))
+
+    const report = await importBankStatement(camt053([{ ref: 'REF-2', amount: '100.00', vs: payment.vs }]))
+
+    expect(report.duplicates).toMatchObject([{ reason: 'already_paid' }])
+  })
+
+  it('lists credits it cannot match and ignores debits', async () => {
+    await bankTransfer()
+
+    const report = await importBankStatement(camt053([
+      { ref: 'REF-1', amount: '100.00' },
+      { ref: 'REF-2', amount: '100.00', vs: '4242424242' },
+      { ref: 'REF-3', amount: '5.00', direction: 'DBIT' }
+    ]))
+
+    expect(report.debits).toBe(1)
+    expect(report.unmatched.map(issue => issue.reason)).toEqual(['no_variable_symbol', 'unknown_variable_symbol'])
+  })
+
+  it('reports without updating payments in a dry run', async () => {
+    const payment = await bankTransfer()
+
+    const report = await importBankStatement(camt053([
+      { ref: 'REF-1', amount: '40.00', vs: payment.vs },
+      { ref: 'REF-2', amount: '60.00', vs: payment.vs }
+    ]), { dryRun: true })
+
+    expect(report.underpaid).toHaveLength(1)
+    expect(report.paid).toHaveLength(1)
+    expect((await getPaymentStore().findByPaymentId(payment.paymentId))?.status).toBe('RCVD')
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { GET as getStatus } from '@/app/api/payment/status/[orderId]/route'
+import { GET as getQrCode } from '@/app/api/payment/qr/route'
+import { createOrderAccessToken } from '@/lib/api-auth'
+import { createStoredPayment, params, request, setupMockGateway } from './helpers'
+
+function statusOf(orderId: string) {
+  const token = createOrderAccessToken(orderId)
+  return getStatus(request(`/api/payment/status/${orderId}?token=${token}&language=sk`), params({ orderId }))
+}
+
+function qrCodeOf(orderId: string) {
+  const token = createOrderAccessToken(orderId)
+  return getQrCode(request(`/api/payment/qr?${new URLSearchParams({ orderId, token })}`))
+}
+
+describe('pending page data', () => {
+  it('returns the real bank details and QR code of a bank transfer', async () => {
+    const gateway = setupMockGateway()
+    const payment = await createStoredPayment(gateway, { paymentMethod: 'BANK_TRANSFER' })
+
+    const status = await (await statusOf('ORDER-1')).json()
+    expect(status).toMatchObject({
+      status: 'pending',
+      bankTransfer: {
+        iban: payment.bankTransferInfo!.iban,
+        variableSymbol: payment.bankTransferInfo!.variableSymbol,
+        amount: { amount: 10000, currency: 'EUR' }
+      }
+    })
+    expect(status.bankTransfer.formattedAmount.replace(/\s/g, ' ')).toBe('100,00 €')
+
+    const qrCode = await qrCodeOf('ORDER-1')
+    expect(qrCode.status).toBe(200)
+    expect(qrCode.headers.get('Content-Type')).toBe('image/svg+xml')
+  })
+
+  it('has no bank details or QR code for a pending card payment', async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway, { paymentMethod: 'CARD_PAY' })
+
+    const status = await (await statusOf('ORDER-1')).json()
+    expect(status.status).toBe('pending')
+    expect(status.bankTransfer).toBeUndefined()
+    expect((await qrCodeOf('ORDER-1')).status).toBe(404)
+  })
+
+  it('reports the settled transfer so the page can move on', async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway, { paymentMethod: 'BANK_TRANSFER', outcome: 'approve' })
+
+    expect(await (await statusOf('ORDER-1')).json()).toMatchObject({ status: 'completed', tatraPayStatus: 'ACCC' })
+  })
+
+  it('does not serve the QR code without the order token', async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway, { paymentMethod: 'BANK_TRANSFER' })
+
+    const response = await getQrCode(request(`/api/payment/qr?orderId=ORDER-1&token=${createOrderAccessToken('ORDER-2')}`))
+    expect(response.status).toBe(401)
+  })
+})
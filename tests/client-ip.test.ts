@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { POST as createPayment } from '@/app/api/payment/create/route'
+import { POST as payLink } from '@/app/api/payment-links/[linkId]/pay/route'
+import { getClientIp, getCustomerIpAddress } from '@/lib/client-ip'
+import { createMemoryOrderResolver, setOrderResolver } from '@/lib/order-resolver'
+import { getPaymentLinkStore } from '@/lib/payment-links'
+import { params, request, setupMockGateway } from './helpers'
+
+// One proxy in front of the app, the client sent a made-up first entry
+const spoofed = { 'X-Forwarded-For': '6.6.6.6, 203.0.113.7' }
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('getClientIp', () => {
+  it('reads the entry of the outermost trusted proxy from the environment', () => {
+    const headers = new Headers({ 'X-Forwarded-For': '6.6.6.6, 203.0.113.7, 10.0.0.2' })
+
+    expect(getClientIp(headers)).toBe('10.0.0.2')
+    vi.stubEnv('TATRAPAY_TRUSTED_PROXY_HOPS', '2')
+    expect(getClientIp(headers)).toBe('203.0.113.7')
+  })
+
+  it('uses only the platform header when one is configured', () => {
+    vi.stubEnv('TATRAPAY_CLIENT_IP_HEADER', 'X-Real-IP')
+
+    expect(getClientIp(new Headers({ ...spoofed, 'X-Real-IP': '198.51.100.2' }))).toBe('198.51.100.2')
+    expect(getClientIp(new Headers(spoofed))).toBeUndefined()
+  })
+
+  it('falls back to localhost for the customer IP', () => {
+    expect(getCustomerIpAddress(new Headers())).toBe('127.0.0.1')
+  })
+})
+
+describe('customer IP sent to TatraPay', () => {
+  function sentIp(requests: { method: string; path: string; headers: Headers }[]) {
+    return requests.find(r => r.method === 'POST' && r.path.endsWith('/v1/payments'))?.headers.get('IP-Address')
+  }
+
+  it('is the trusted address in the create route', async () => {
+    const { requests } = setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([{ orderId: 'ORDER-1', amount: { amount: 10000, currency: 'EUR' } }]))
+
+    const response = await createPayment(request('/api/payment/create', {
+      method: 'POST',
+      headers: spoofed,
+      body: JSON.stringify({
+        orderId: 'ORDER-1',
+        paymentMethod: 'CARD_PAY',
+        customer: { email: 'jan.novak@example.com', firstName: 'Ján', lastName: 'Novák' }
+      })
+    }))
+
+    expect(response.status).toBe(200)
+    expect(sentIp(requests)).toBe('203.0.113.7')
+  })
+
+  it('is the trusted address when a payment link is opened', async () => {
+    const { requests } = setupMockGateway()
+    const link = await getPaymentLinkStore().create({
+      amount: { amount: 4900, currency: 'EUR' },
+      description: 'Invoice 2026-001',
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      allowedMethods: ['CARD_PAY']
+    })
+
+    const response = await payLink(
+      request(`/api/payment-links/${link.id}/pay`, { method: 'POST', headers: spoofed }),
+      params({ linkId: link.id })
+    )
+
+    expect(response.status).toBe(200)
+    expect(sentIp(requests)).toBe('203.0.113.7')
+  })
+})
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  AuthenticationError,
+  createPayment,
+  createTatraPayClientFromEnv,
+  getDefaultTatraPayClient,
+  getTatraPayClient,
+  setTatraPayClientResolver,
+  TatraPayCreatePaymentRequest
+} from '@/lib/tatrapay'
+import { createTatraPayMock } from '@/lib/tatrapay-mock'
+import { encodePayBySquare } from '@/lib/paybysquare'
+import { createMockClient, setupMockGateway } from './helpers'
+
+const paymentRequest: TatraPayCreatePaymentRequest = {
+  paymentMethod: 'CARD_PAY',
+  amount: { amount: 1000, currency: 'EUR' },
+  merchantReference: 'ORDER-1',
+  returnUrl: 'http://localhost:3000/api/payment/callback',
+  customerIpAddress: '127.0.0.1'
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+})
+
+describe('TatraPayClient', () => {
+  it('keeps accounts apart', async () => {
+    const sk = createMockClient()
+    const cz = createMockClient()
+
+    const created = await sk.client.createPayment(paymentRequest)
+
+    expect(sk.mock.getPayment(created.paymentId)).toBeDefined()
+    expect(cz.mock.getPayment(created.paymentId)).toBeUndefined()
+    await expect(cz.client.getPaymentStatus(created.paymentId)).rejects.toMatchObject({ status: 404 })
+  })
+
+  it('puts its beneficiary name into QR codes', async () => {
+    const { client } = createMockClient({}, { beneficiaryName: 'Obchod s.r.o.' })
+
+    const created = await client.createPayment({ ...paymentRequest, paymentMethod: 'QR_PAY' })
+    const transfer = created.bankTransferInfo!
+
+    expect(created.qrCodeData).toBe(encodePayBySquare({
+      iban: transfer.iban,
+      bic: transfer.bic,
+      amount: 10,
+      currency: 'EUR',
+      variableSymbol: transfer.variableSymbol,
+      dueDate: transfer.dueDate,
+      beneficiaryName: 'Obchod s.r.o.'
+    }))
+  })
+
+  it('is built from prefixed environment variables', async () => {
+    const mock = createTatraPayMock({ credentials: { clientId: 'cz-id', clientSecret: 'cz-secret' } })
+    vi.stubGlobal('fetch', mock.fetch)
+    vi.stubEnv('TATRAPAY_CZ_CLIENT_ID', 'cz-id')
+    vi.stubEnv('TATRAPAY_CZ_CLIENT_SECRET', 'cz-secret')
+    vi.stubEnv('TATRAPAY_CZ_BASE_URL', mock.baseUrl)
+    vi.stubEnv('TATRAPAY_CZ_TOKEN_URL', mock.tokenUrl)
+
+    const client = createTatraPayClientFromEnv('TATRAPAY_CZ')
+    const created = await client.createPayment(paymentRequest)
+
+    expect(mock.getPayment(created.paymentId)).toBeDefined()
+  })
+
+  it('requires credentials in the environment', () => {
+    vi.stubEnv('TATRAPAY_XX_CLIENT_ID', '')
+    expect(() => createTatraPayClientFromEnv('TATRAPAY_XX')).toThrow(AuthenticationError)
+  })
+})
+
+describe('client selection', () => {
+  it('uses the default client for the exported functions', async () => {
+    const { mock } = setupMockGateway()
+
+    const created = await createPayment(paymentRequest)
+
+    expect(mock.getPayment(created.paymentId)).toBeDefined()
+    expect(getTatraPayClient({ currency: 'EUR' })).toBe(getDefaultTatraPayClient())
+  })
+
+  it('picks a client per request with the resolver', () => {
+    const sk = createMockClient().client
+    const cz = createMockClient().client
+    setTatraPayClientResolver(({ currency }) => currency === 'CZK' ? cz : sk)
+
+    expect(getTatraPayClient({ currency: 'CZK' })).toBe(cz)
+    expect(getTatraPayClient({ currency: 'EUR', orderId: 'ORDER-1' })).toBe(sk)
+  })
+
+  it('goes back to the default client when the resolver is removed', () => {
+    const { client } = setupMockGateway()
+    setTatraPayClientResolver(() => createMockClient().client)
+
+    setTatraPayClientResolver(undefined)
+
+    expect(getTatraPayClient({ currency: 'CZK' })).toBe(client)
+  })
+})
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getPhoneCountry,
+  isCountryCode,
+  toE164Phone,
+  validateAddress,
+  validateCustomerRiskData
+} from '@/lib/customer-data'
+import { redact } from '@/lib/logger'
+import { TatraPayCreatePaymentRequest, ValidationError } from '@/lib/tatrapay'
+import { validateCreatePaymentRequest } from '@/lib/validation'
+import { createMockClient } from './helpers'
+
+const address = { streetName: 'Hodžovo námestie', buildingNumber: '3', city: 'Bratislava', postalCode: '811 06', country: 'SK' }
+
+const cardPayment: TatraPayCreatePaymentRequest = {
+  paymentMethod: 'CARD_PAY',
+  amount: { amount: 10000, currency: 'EUR' },
+  merchantReference: 'ORDER-1',
+  returnUrl: 'http://localhost:3000/api/payment/callback',
+  customerIpAddress: '127.0.0.1',
+  customer: {
+    firstName: 'Ján',
+    lastName: 'Kováč',
+    email: 'jan.kovac@example.com',
+    phone: '0903 123 456',
+    address,
+    shippingAddress: { city: 'Praha', country: 'CZ' }
+  }
+}
+
+function codesOf(fields: { field: string; code: string }[]): string[] {
+  return fields.map(error => `${error.field}:${error.code}`)
+}
+
+describe('toE164Phone', () => {
+  it.each([
+    ['+421 903 123 456', 'SK', '+421903123456'],
+    ['00421 903-123-456', 'SK', '+421903123456'],
+    ['(0903) 123.456', 'SK', '+421903123456'],
+    ['0903 123 456', 'SK', '+421903123456'],
+    ['603 123 456', 'CZ', '+420603123456'],
+    ['+49 30 123456', 'CZ', '+4930123456']
+  ])('converts %s (%s) to %s', (phone, country, expected) => {
+    expect(toE164Phone(phone, country)).toBe(expected)
+  })
+
+  it.each([
+    ['too short', '903 123', 'SK'],
+    ['letters', '0903 ABC 456', 'SK'],
+    ['a leading zero calling code', '+0421903123456', 'SK'],
+    ['a national number of another market', '0903 123 456', 'DE']
+  ])('rejects %s', (_, phone, country) => {
+    expect(toE164Phone(phone, country)).toBeNull()
+  })
+})
+
+describe('country codes', () => {
+  it('only accepts upper-case ISO 3166-1 alpha-2 codes', () => {
+    expect(isCountryCode('SK')).toBe(true)
+    expect(isCountryCode('sk')).toBe(false)
+    expect(isCountryCode('SVK')).toBe(false)
+    expect(isCountryCode('XX')).toBe(false)
+    expect(isCountryCode(421)).toBe(false)
+  })
+
+  it('reads national phone numbers for the billing country', () => {
+    expect(getPhoneCountry({ country: 'CZ' })).toBe('CZ')
+    expect(getPhoneCountry({ country: 'cz' })).toBe('SK')
+    expect(getPhoneCountry()).toBe('SK')
+  })
+})
+
+describe('validateAddress', () => {
+  it('accepts a complete address and a country alone', () => {
+    expect(validateAddress(address, 'customer.address')).toEqual([])
+    expect(validateAddress({ country: 'CZ' }, 'customer.address')).toEqual([])
+  })
+
+  it('reports every field over the TatraPay+ limits', () => {
+    expect(codesOf(validateAddress({
+      streetName: 'x'.repeat(71),
+      buildingNumber: 'x'.repeat(17),
+      city: 'x'.repeat(36),
+      postalCode: 12345,
+      country: 'Slovakia'
+    }, 'customer.address'))).toEqual([
+      'customer.address.streetName:TOO_LONG',
+      'customer.address.buildingNumber:TOO_LONG',
+      'customer.address.city:TOO_LONG',
+      'customer.address.postalCode:INVALID_TYPE',
+      'customer.address.country:INVALID_VALUE'
+    ])
+  })
+
+  it('requires an object with a country', () => {
+    expect(codesOf(validateAddress('Bratislava', 'shipping'))).toEqual(['shipping:INVALID_TYPE'])
+    expect(codesOf(validateAddress({ city: 'Bratislava' }, 'shipping'))).toEqual(['shipping.country:REQUIRED'])
+  })
+})
+
+describe('validateCustomerRiskData', () => {
+  it('checks both addresses and the phone', () => {
+    expect(codesOf(validateCustomerRiskData({
+      phone: '903 123',
+      address: { country: 'sk' },
+      shippingAddress: { city: 'Praha' } as never
+    }))).toEqual([
+      'customer.address.country:INVALID_VALUE',
+      'customer.shippingAddress.country:REQUIRED',
+      'customer.phone:INVALID_FORMAT'
+    ])
+  })
+
+  it('reads national phone numbers for the billing country', () => {
+    expect(validateCustomerRiskData({ phone: '603 123 456', address: { country: 'CZ' } })).toEqual([])
+    expect(codesOf(validateCustomerRiskData({ phone: '603 123 456' }))).toEqual(['customer.phone:INVALID_FORMAT'])
+  })
+
+  it('reports errors in the create request with their field paths', () => {
+    const result = validateCreatePaymentRequest({
+      orderId: 'ORDER-1',
+      paymentMethod: 'CARD_PAY',
+      amount: 10000,
+      currency: 'EUR',
+      customer: { ...cardPayment.customer, phone: '903', address: { ...address, country: 'Slovakia' } }
+    })
+
+    expect(result.valid ? [] : codesOf(result.errors))
+      .toEqual(['customer.address.country:INVALID_VALUE', 'customer.phone:INVALID_FORMAT'])
+  })
+})
+
+describe('createPayment risk data', () => {
+  it('sends the E.164 phone and both addresses for 3-D Secure', async () => {
+    const { client, requests } = createMockClient()
+
+    await client.createPayment(cardPayment)
+
+    const body = requests[0].body!
+    expect(body.userData).toEqual({
+      firstName: 'Ján',
+      lastName: 'Kováč',
+      email: 'jan.kovac@example.com',
+      phone: '+421903123456'
+    })
+    expect(body.cardDetail).toEqual({
+      cardHolder: 'Jan Kovac',
+      billingAddress: {
+        streetName: 'Hodžovo námestie',
+        buildingNumber: '3',
+        townName: 'Bratislava',
+        postCode: '811 06',
+        country: 'SK'
+      },
+      shippingAddress: { townName: 'Praha', country: 'CZ' }
+    })
+  })
+
+  it('adds the addresses to card payments offered in gateway mode', async () => {
+    const { client, requests } = createMockClient()
+
+    await client.createPayment({ ...cardPayment, paymentMethod: undefined, allowedMethods: ['CARD_PAY', 'BANK_TRANSFER'] })
+
+    expect(requests[0].body!.cardDetail).toMatchObject({ billingAddress: { country: 'SK' } })
+  })
+
+  it('rejects invalid customer data before calling TatraPay', async () => {
+    const { client, requests } = createMockClient()
+
+    const error = await client.createPayment({
+      ...cardPayment,
+      customer: { ...cardPayment.customer!, address: { ...address, postalCode: 'x'.repeat(17) } }
+    }).catch(caught => caught)
+
+    expect(error).toBeInstanceOf(ValidationError)
+    expect(codesOf(error.fields)).toEqual(['customer.address.postalCode:TOO_LONG'])
+    expect(requests).toHaveLength(0)
+  })
+})
+
+describe('logging', () => {
+  it('keeps addresses and the card holder out of logs', () => {
+    expect(redact({
+      cardDetail: { cardHolder: 'Jan Kovac', billingAddress: { townName: 'Bratislava' } },
+      customer: { address, shippingAddress: { country: 'CZ' } }
+    })).toEqual({
+      cardDetail: { cardHolder: '[REDACTED]', billingAddress: '[REDACTED]' },
+      customer: { address: '[REDACTED]', shippingAddress: '[REDACTED]' }
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import {
+  AuthenticationError,
+  ConflictError,
+  createApiError,
+  MethodUnavailableError,
+  RateLimitError,
+  ServerError,
+  TatraPayError,
+  toClientError,
+  ValidationError
+} from '@/lib/tatrapay-errors'
+import { createMockClient } from './helpers'
+
+describe('createApiError', () => {
+  it.each([
+    [401, {}, AuthenticationError, false],
+    [403, {}, AuthenticationError, false],
+    [429, {}, RateLimitError, true],
+    [500, {}, ServerError, true],
+    [503, {}, ServerError, true],
+    [400, { errorId: 'NO_AVAIL_PAY_METH' }, MethodUnavailableError, false],
+    [400, { errorId: 'INVALID_REQUEST' }, ValidationError, false],
+    [422, {}, ValidationError, false]
+  ])('maps %i %j to %s', (status, body, errorClass, retryable) => {
+    const error = createApiError(status, body, 'req-1')
+
+    expect(error).toBeInstanceOf(errorClass)
+    expect(error).toBeInstanceOf(TatraPayError)
+    expect(error).toMatchObject({ status, requestId: 'req-1', retryable })
+  })
+
+  it('keeps the bank reason code and description', () => {
+    const error = createApiError(400, { errorId: 'AMOUNT_TOO_LOW', errorDescription: 'Minimum is 1 EUR' })
+
+    expect(error.reasonCode).toBe('AMOUNT_TOO_LOW')
+    expect(error.message).toBe('TatraPay API error: 400 AMOUNT_TOO_LOW - Minimum is 1 EUR')
+  })
+
+  it('reads Retry-After for rate limits', () => {
+    expect((createApiError(429, {}, undefined, '30') as RateLimitError).retryAfter).toBe(30)
+    expect((createApiError(429, {}, undefined, 'soon') as RateLimitError).retryAfter).toBeUndefined()
+  })
+})
+
+describe('toClientError', () => {
+  it.each([
+    [new ValidationError('bad', { fields: [{ field: 'amount', code: 'REQUIRED', message: 'Required' }] }), 400, 'INVALID_REQUEST'],
+    [new MethodUnavailableError('no card'), 422, 'METHOD_UNAVAILABLE'],
+    [new RateLimitError('slow down'), 503, 'TEMPORARILY_UNAVAILABLE'],
+    [new ServerError('down'), 503, 'TEMPORARILY_UNAVAILABLE'],
+    [new ConflictError('busy'), 409, 'TEMPORARILY_UNAVAILABLE'],
+    [new AuthenticationError('bad credentials'), 500, 'PAYMENT_ERROR'],
+    [new Error('anything'), 500, 'PAYMENT_ERROR']
+  ])('maps %s to %i %s', (error, status, code) => {
+    const clientError = toClientError(error)
+    expect(clientError.status).toBe(status)
+    expect(clientError.body.code).toBe(code)
+  })
+
+  it('never exposes bank messages', () => {
+    const clientError = toClientError(new ServerError('TatraPay API error: 500 - internal trace 0xDEAD', { requestId: 'req-9' }))
+
+    expect(clientError.body.error).not.toContain('0xDEAD')
+    expect(clientError.body.requestId).toBe('req-9')
+  })
+
+  it('includes field errors of invalid requests', () => {
+    const fields = [{ field: 'customer.email', code: 'INVALID_FORMAT', message: 'Must be a valid email address' }]
+    expect(toClientError(new ValidationError('bad', { fields })).body.fields).toEqual(fields)
+  })
+
+  it('localizes the message', () => {
+    expect(toClientError(new ServerError('down'), 'en').body.error).toMatch(/temporarily unavailable/)
+    expect(toClientError(new ServerError('down'), 'sk').body.error).toMatch(/dočasne nedostupná/)
+  })
+})
+
+describe('API errors from the client', () => {
+  it('throws typed errors for failed requests', async () => {
+    const { client } = createMockClient({
+      scenarios: [{ operation: 'create', error: { status: 400, errorId: 'INVALID_REQUEST' } }]
+    })
+
+    const error = await client.createPayment({
+      paymentMethod: 'CARD_PAY',
+      amount: { amount: 1000, currency: 'EUR' },
+      merchantReference: 'ORDER-1',
+      returnUrl: 'http://localhost:3000/api/payment/callback',
+      customerIpAddress: '127.0.0.1'
+    }).catch(caught => caught)
+
+    expect(error).toBeInstanceOf(ValidationError)
+    expect(error).toMatchObject({ status: 400, reasonCode: 'INVALID_REQUEST', requestId: expect.any(String) })
+  })
+
+  it('rejects wrong credentials with an AuthenticationError', async () => {
+    const { client } = createMockClient({ credentials: { clientId: 'other', clientSecret: 'other' } })
+    await expect(client.getAvailablePaymentMethods()).rejects.toBeInstanceOf(AuthenticationError)
+  })
+})
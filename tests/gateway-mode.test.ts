@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { TatraPayCreatePaymentRequest } from '@/lib/tatrapay'
+import { validateCreatePaymentRequest } from '@/lib/validation'
+import { createMockClient } from './helpers'
+
+const request: TatraPayCreatePaymentRequest = {
+  amount: { amount: 4990, currency: 'EUR' },
+  merchantReference: 'ORDER-GW-1',
+  customer: { firstName: 'Eva', lastName: 'Kováčová', email: 'eva@example.com' },
+  returnUrl: 'http://localhost:3000/api/payment/callback?orderId=ORDER-GW-1',
+  customerIpAddress: '127.0.0.1'
+}
+
+describe('gateway mode', () => {
+  it('sets up every method and lets TatraPay+ ask the customer', async () => {
+    const { client, requests } = createMockClient()
+
+    const created = await client.createPayment(request)
+
+    expect(created.redirectUrl).toMatch(/\/mock\/pay\//)
+    expect(created.availablePaymentMethods?.map(m => m.method)).toEqual(['CARD_PAY', 'BANK_TRANSFER', 'QR_PAY'])
+
+    const [create] = requests
+    expect(create.headers.get('Preferred-Method')).toBeNull()
+    expect(create.headers.get('Redirect-URI')).toBe('http://localhost:3000/api/payment/callback')
+    expect(create.body).toHaveProperty('cardDetail')
+    expect(create.body).toHaveProperty('bankTransfer')
+    expect(create.body).not.toHaveProperty('payLater')
+  })
+
+  it('only sends the structures of the allowed methods', async () => {
+    const { client, requests } = createMockClient()
+
+    await client.createPayment({ ...request, allowedMethods: ['CARD_PAY'] })
+
+    expect(requests[0].body).toHaveProperty('cardDetail')
+    expect(requests[0].body).not.toHaveProperty('bankTransfer')
+  })
+
+  it('fails when TatraPay offers no method for the payment', async () => {
+    const { client } = createMockClient({
+      scenarios: [{ unavailableMethods: ['CARD_PAY', 'BANK_TRANSFER', 'QR_PAY'] }]
+    })
+
+    await expect(client.createPayment(request)).rejects.toMatchObject({
+      name: 'MethodUnavailableError',
+      reasonCode: 'NO_AVAIL_PAY_METH'
+    })
+  })
+
+  it('records the method the customer picked on the hosted page', async () => {
+    const { mock, client } = createMockClient()
+    const created = await client.createPayment(request)
+
+    await mock.completePayment(created.paymentId, 'approve', { paymentMethod: 'BANK_TRANSFER' })
+
+    expect(await client.getPaymentStatus(created.paymentId)).toMatchObject({
+      status: 'ACCC',
+      paymentMethod: 'BANK_TRANSFER'
+    })
+  })
+})
+
+describe('gateway mode request validation', () => {
+  const body = {
+    orderId: 'ORDER-GW-1',
+    amount: 4990,
+    currency: 'EUR',
+    customer: { firstName: 'Eva', lastName: 'Kováčová', email: 'eva@example.com' }
+  }
+
+  it('accepts a body without paymentMethod', () => {
+    expect(validateCreatePaymentRequest(body).valid).toBe(true)
+    expect(validateCreatePaymentRequest({ ...body, allowedMethods: ['CARD_PAY', 'QR_PAY'] }).valid).toBe(true)
+  })
+
+  it('only allows allowedMethods in gateway mode', () => {
+    const result = validateCreatePaymentRequest({ ...body, paymentMethod: 'CARD_PAY', allowedMethods: ['CARD_PAY'] })
+    expect(result.valid ? [] : result.errors).toEqual([
+      expect.objectContaining({ field: 'allowedMethods', code: 'CONFLICT' })
+    ])
+  })
+
+  it('rejects empty or unknown allowed methods', () => {
+    const empty = validateCreatePaymentRequest({ ...body, allowedMethods: [] })
+    const unknown = validateCreatePaymentRequest({ ...body, allowedMethods: ['CASH'] })
+
+    expect(empty.valid ? [] : empty.errors.map(error => error.field)).toEqual(['allowedMethods'])
+    expect(unknown.valid ? [] : unknown.errors.map(error => error.field)).toEqual(['allowedMethods.0'])
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Shared test helpers
+ */
+
+import { NextRequest } from 'next/server'
+import {
+  setDefaultTatraPayClient,
+  TatraPayClient,
+  TatraPayClientOptions,
+  TatraPayCreatePaymentRequest
+} from '@/lib/tatrapay'
+import { createTatraPayMock, TatraPayMock, TatraPayMockOptions, TatraPayMockOutcome } from '@/lib/tatrapay-mock'
+import { getPaymentStore, StoredPayment } from '@/lib/payment-store'
+import { applyPaymentStatus } from '@/lib/payment-state'
+
+/**
+ * API request sent by the client to the mock gateway
+ */
+export interface RecordedRequest {
+  method: string
+  path: string
+  headers: Headers
+  body: Record<string, unknown> | undefined
+}
+
+/**
+ * Client wired to an in-process mock gateway
+ *
+ * Every API call is recorded in `requests` (token requests excluded).
+ */
+export function createMockClient(
+  mockOptions: TatraPayMockOptions = {},
+  clientOptions: Partial<TatraPayClientOptions> = {}
+) {
+  const mock = createTatraPayMock(mockOptions)
+  const requests: RecordedRequest[] = []
+
+  const recordingFetch: typeof fetch = async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input))
+    if (url.href !== mock.tokenUrl) {
+      requests.push({
+        method: init?.method ?? 'GET',
+        path: url.pathname,
+        headers: new Headers(init?.headers),
+        body: typeof init?.body === 'string' ? JSON.parse(init.body) : undefined
+      })
+    }
+    return mock.fetch(input, init)
+  }
+
+  const client = new TatraPayClient({
+    credentials: { clientId: 'test-client', clientSecret: 'test-secret' },
+    baseUrl: mock.baseUrl,
+    tokenUrl: mock.tokenUrl,
+    fetch: recordingFetch,
+    retry: { baseDelayMs: 1, maxDelayMs: 1 },
+    ...clientOptions
+  })
+  return { mock, client, requests }
+}
+
+/**
+ * Mock gateway registered as the default client used by the routes
+ */
+export function setupMockGateway(mockOptions: TatraPayMockOptions = {}) {
+  const gateway = createMockClient(mockOptions)
+  setDefaultTatraPayClient(gateway.client)
+  return gateway
+}
+
+/**
+ * Create a payment at the mock gateway and record it in the payment store,
+ * optionally completed with an outcome on the hosted page
+ */
+export async function createStoredPayment(
+  gateway: { mock: TatraPayMock; client: TatraPayClient },
+  options: Partial<TatraPayCreatePaymentRequest> & { orderId?: string; outcome?: TatraPayMockOutcome } = {}
+): Promise<StoredPayment> {
+  const { orderId = 'ORDER-1', outcome, ...overrides } = options
+  const request: TatraPayCreatePaymentRequest = {
+    paymentMethod: 'CARD_PAY',
+    amount: { amount: 10000, currency: 'EUR' },
+    merchantReference: orderId,
+    returnUrl: 'http://localhost:3000/api/payment/callback',
+    customerIpAddress: '127.0.0.1',
+    ...overrides
+  }
+  const created = await gateway.client.createPayment(request)
+
+  await getPaymentStore().save({
+    orderId,
+    paymentId: created.paymentId,
+    paymentMethod: request.paymentMethod,
+    amount: request.amount,
+    status: created.status,
+    bankTransferInfo: created.bankTransferInfo,
+    qrCodeData: created.qrCodeData,
+    expiresAt: created.expiresAt
+  })
+
+  if (outcome) {
+    await gateway.mock.completePayment(created.paymentId, outcome)
+    const status = await gateway.client.getPaymentStatus(created.paymentId)
+    await applyPaymentStatus(created.paymentId, {
+      status: status.status,
+      source: 'webhook',
+      preAuthorization: status.preAuthorization
+    })
+  }
+
+  return (await getPaymentStore().findByPaymentId(created.paymentId))!
+}
+
+/**
+ * Route handler request
+ */
+export function request(url: string, init: ConstructorParameters<typeof NextRequest>[1] = {}): NextRequest {
+  return new NextRequest(new URL(url, 'http://localhost:3000'), init)
+}
+
+/**
+ * Route handler context for dynamic segments
+ */
+export function params<T extends Record<string, string>>(values: T): { params: Promise<T> } {
+  return { params: Promise.resolve(values) }
+}
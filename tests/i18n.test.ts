@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest'
+import { renderToStaticMarkup } from 'react-dom/server'
+import { ReactElement } from 'react'
+import { POST as createPayment } from '@/app/api/payment/create/route'
+import { GET as callback } from '@/app/api/payment/callback/route'
+import PaymentLinkPage from '@/app/pay/[linkId]/page'
+import PaymentFailedPage from '@/app/payment/failed/page'
+import PaymentPendingPage from '@/app/payment/pending/page'
+import PaymentSuccessPage from '@/app/payment/success/page'
+import { resolveLanguage, translate } from '@/lib/i18n'
+import { createMemoryOrderResolver, setOrderResolver } from '@/lib/order-resolver'
+import { getPaymentStore } from '@/lib/payment-store'
+import { getStatusLabel, TatraPayStatus } from '@/lib/tatrapay'
+import { createStoredPayment, request, setupMockGateway } from './helpers'
+
+describe('resolveLanguage', () => {
+  it('prefers the explicit language', () => {
+    expect(resolveLanguage('en', 'cs-CZ,cs')).toBe('en')
+  })
+
+  it.each([
+    ['cs-CZ,cs;q=0.9,en;q=0.8', 'cs'],
+    ['de-DE,en;q=0.5,sk;q=0.7', 'sk'],
+    ['en-GB;q=0.3,cs;q=0.3', 'en'],
+    ['cs;q=0,en', 'en'],
+    ['de-DE,fr', 'sk']
+  ])('reads Accept-Language %s as %s', (header, language) => {
+    expect(resolveLanguage(undefined, header)).toBe(language)
+  })
+
+  it('falls back to Slovak for unsupported values', () => {
+    expect(resolveLanguage('de')).toBe('sk')
+    expect(resolveLanguage(['cs'])).toBe('sk')
+    expect(resolveLanguage(null, null)).toBe('sk')
+  })
+})
+
+describe('translate', () => {
+  it('returns the message in each language, Slovak by default', () => {
+    expect(translate('failed.title', 'cs')).toBe('Platba se nezdařila')
+    expect(translate('common.loading', 'en')).toBe('Loading...')
+    expect(translate('common.loading')).toBe('Načítava sa...')
+  })
+})
+
+describe('getStatusLabel', () => {
+  it.each([
+    ['ACSC', 'sk', 'Vyrovnaná'],
+    ['ACSC', 'cs', 'Vypořádaná'],
+    ['ACSC', 'en', 'Settled']
+  ] as const)('labels %s in %s', (status, language, label) => {
+    expect(getStatusLabel(status, language)).toBe(label)
+  })
+
+  it('returns the code of an unknown status', () => {
+    expect(getStatusLabel('NEW' as TatraPayStatus, 'en')).toBe('NEW')
+  })
+})
+
+describe('create route', () => {
+  function create(body: Record<string, unknown>, acceptLanguage: string) {
+    return createPayment(request('/api/payment/create', {
+      method: 'POST',
+      headers: { 'Accept-Language': acceptLanguage },
+      body: JSON.stringify({
+        orderId: 'ORDER-1',
+        paymentMethod: 'CARD_PAY',
+        customer: { email: 'jan.novak@example.com', firstName: 'Ján', lastName: 'Novák' },
+        ...body
+      })
+    }))
+  }
+
+  it('answers in the Accept-Language of the customer', async () => {
+    setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([]))
+
+    const response = await create({}, 'cs-CZ,cs;q=0.9')
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toEqual({ success: false, error: translate('error.orderNotFound', 'cs') })
+  })
+
+  it('stores the language of the request for the result pages', async () => {
+    setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([{ orderId: 'ORDER-1', amount: { amount: 10000, currency: 'EUR' } }]))
+
+    const response = await create({ language: 'en' }, 'cs')
+
+    expect(response.status).toBe(200)
+    expect((await getPaymentStore().findByOrderId('ORDER-1'))?.language).toBe('en')
+  })
+})
+
+describe('callback redirect', () => {
+  it('carries the language of the payment to the result page', async () => {
+    const gateway = setupMockGateway()
+    const payment = await createStoredPayment(gateway, { outcome: 'approve' })
+    await getPaymentStore().save({ ...payment, language: 'cs' })
+
+    const response = await callback(request(`/api/payment/callback?paymentId=${payment.paymentId}`, {
+      headers: { 'Accept-Language': 'en' }
+    }))
+
+    const location = new URL(response.headers.get('Location')!)
+    expect(location.pathname).toBe('/payment/success')
+    expect(location.searchParams.get('language')).toBe('cs')
+    expect(location.searchParams.get('message')).toBe(translate('callback.paid', 'cs'))
+  })
+
+  it('falls back to Accept-Language for an unknown payment', async () => {
+    setupMockGateway()
+
+    const response = await callback(request('/api/payment/callback?paymentId=missing', {
+      headers: { 'Accept-Language': 'en-US,en' }
+    }))
+
+    const location = new URL(response.headers.get('Location')!)
+    expect(location.searchParams.get('language')).toBe('en')
+    expect(location.searchParams.get('message')).toBe(translate('callback.error', 'en'))
+  })
+})
+
+describe('result pages', () => {
+  it.each([
+    ['payment link', PaymentLinkPage],
+    ['pending', PaymentPendingPage],
+    ['success', PaymentSuccessPage],
+    ['failed', PaymentFailedPage]
+  ])('shows the %s loading text in the language of the URL', async (_, Page) => {
+    const page = await Page({ searchParams: Promise.resolve({ language: 'cs' }) }) as ReactElement<{ fallback: ReactElement }>
+
+    expect(renderToStaticMarkup(page.props.fallback)).toContain(translate('common.loading', 'cs'))
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import { createJsonLogger, LogLevel, redact, redactString } from '@/lib/logger'
+import { ValidationError } from '@/lib/tatrapay-errors'
+import { createMockClient } from './helpers'
+
+function captureLogger(options: Parameters<typeof createJsonLogger>[0] = {}) {
+  const lines: Array<{ level: LogLevel; entry: Record<string, unknown> }> = []
+  const logger = createJsonLogger({
+    ...options,
+    write: (line, level) => lines.push({ level, entry: JSON.parse(line) })
+  })
+  return { logger, lines }
+}
+
+describe('redactString', () => {
+  it.each([
+    ['Customer jan.novak@example.com paid', 'Customer [EMAIL] paid'],
+    ['IBAN SK31 1100 0000 0026 1234 5678 received', 'IBAN [IBAN] received'],
+    ['from 203.0.113.7', 'from [IP]'],
+    ['from 2001:db8::1', 'from [IP]'],
+    ['Authorization: Bearer abc.def-123', 'Authorization: Bearer [REDACTED]'],
+    ['Order ORDER-123 paid 79.00 EUR', 'Order ORDER-123 paid 79.00 EUR']
+  ])('masks %s', (input, expected) => {
+    expect(redactString(input)).toBe(expected)
+  })
+})
+
+describe('redact', () => {
+  it('replaces personal data fields at any depth', () => {
+    expect(redact({
+      orderId: 'ORDER-1',
+      customer: { firstName: 'Ján', email: 'jan@example.com', address: { city: 'Bratislava' } },
+      items: [{ token: 'card-token' }]
+    })).toEqual({
+      orderId: 'ORDER-1',
+      customer: { firstName: '[REDACTED]', email: '[REDACTED]', address: '[REDACTED]' },
+      items: [{ token: '[REDACTED]' }]
+    })
+  })
+
+  it('turns errors into plain objects with their details', () => {
+    const error = new ValidationError('Invalid email jan@example.com', { status: 400, reasonCode: 'INVALID', requestId: 'req-1' })
+
+    expect(redact({ error })).toMatchObject({
+      error: {
+        name: 'ValidationError',
+        message: 'Invalid email [EMAIL]',
+        status: 400,
+        reasonCode: 'INVALID',
+        requestId: 'req-1'
+      }
+    })
+  })
+
+  it('survives circular references', () => {
+    const value: Record<string, unknown> = { orderId: 'ORDER-1' }
+    value.self = value
+    expect(() => JSON.stringify(redact(value))).not.toThrow()
+  })
+})
+
+describe('createJsonLogger', () => {
+  it('writes one JSON object per line with the standard fields', () => {
+    const { logger, lines } = captureLogger()
+    logger.info('Payment created', { orderId: 'ORDER-1', msg: 'overwritten?' })
+
+    expect(lines).toEqual([{
+      level: 'info',
+      entry: { time: expect.any(String), level: 'info', msg: 'Payment created', orderId: 'ORDER-1' }
+    }])
+  })
+
+  it('skips lines below the level', () => {
+    const { logger, lines } = captureLogger({ level: 'warn' })
+    logger.debug('debug')
+    logger.info('info')
+    logger.warn('warn')
+    logger.error('error')
+
+    expect(lines.map(line => line.level)).toEqual(['warn', 'error'])
+  })
+
+  it('adds child bindings to every line', () => {
+    const { logger, lines } = captureLogger()
+    logger.child({ requestId: 'req-1' }).child({ orderId: 'ORDER-1' }).info('Sent')
+
+    expect(lines[0].entry).toMatchObject({ requestId: 'req-1', orderId: 'ORDER-1' })
+  })
+
+  it('keeps customer data out of client logs', async () => {
+    const { logger, lines } = captureLogger({ level: 'debug' })
+    const { client } = createMockClient({}, { logger })
+
+    await client.createPayment({
+      paymentMethod: 'CARD_PAY',
+      amount: { amount: 1000, currency: 'EUR' },
+      merchantReference: 'ORDER-1',
+      customer: { firstName: 'Ján', lastName: 'Novák', email: 'jan.novak@example.com' },
+      returnUrl: 'http://localhost:3000/api/payment/callback',
+      customerIpAddress: '198.51.100.23'
+    })
+
+    const output = JSON.stringify(lines)
+    expect(output).toContain('ORDER-1')
+    expect(output).not.toContain('jan.novak@example.com')
+    expect(output).not.toContain('198.51.100.23')
+    expect(output).not.toContain('test-secret')
+    expect(lines.every(line => typeof line.entry.requestId === 'string' || !line.entry.endpoint)).toBe(true)
+  })
+})
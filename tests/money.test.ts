@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addMoney,
+  compareMoney,
+  createMoney,
+  formatMoney,
+  fromDecimal,
+  isZeroMoney,
+  subtractMoney,
+  toDecimal
+} from '@/lib/money'
+import { ValidationError } from '@/lib/tatrapay'
+import { createMockClient } from './helpers'
+
+// Intl uses non-breaking spaces as group and currency separators
+function format(...args: Parameters<typeof formatMoney>): string {
+  return formatMoney(...args).replace(/\s/g, ' ')
+}
+
+describe('createMoney', () => {
+  it('accepts whole minor units of a supported currency', () => {
+    expect(createMoney(7900, 'EUR')).toEqual({ amount: 7900, currency: 'EUR' })
+    expect(createMoney(0, 'CZK')).toEqual({ amount: 0, currency: 'CZK' })
+  })
+
+  it.each([79.5, -1, Number.NaN, Number.MAX_SAFE_INTEGER + 1])('rejects amount %s', amount => {
+    expect(() => createMoney(amount, 'EUR')).toThrow(ValidationError)
+  })
+
+  it('rejects unsupported currencies', () => {
+    expect(() => createMoney(100, 'USD')).toThrow(ValidationError)
+  })
+})
+
+describe('decimal conversion', () => {
+  it('converts between decimal API amounts and minor units', () => {
+    expect(fromDecimal(79.9, 'EUR')).toEqual({ amount: 7990, currency: 'EUR' })
+    expect(toDecimal({ amount: 7990, currency: 'EUR' })).toBe(79.9)
+    expect(toDecimal({ amount: 199000, currency: 'CZK' })).toBe(1990)
+  })
+
+  it('rounds half away from zero without binary noise', () => {
+    expect(fromDecimal(1.005, 'EUR').amount).toBe(101)
+    expect(fromDecimal(0.1 + 0.2, 'EUR').amount).toBe(30)
+  })
+
+  it('rejects non-finite amounts', () => {
+    expect(() => fromDecimal(Number.POSITIVE_INFINITY, 'EUR')).toThrow(ValidationError)
+  })
+})
+
+describe('arithmetic', () => {
+  const eur = (amount: number) => createMoney(amount, 'EUR')
+
+  it('adds, subtracts and compares exactly', () => {
+    expect(addMoney(eur(10), eur(20))).toEqual(eur(30))
+    expect(subtractMoney(eur(7900), eur(1000))).toEqual(eur(6900))
+    expect(compareMoney(eur(1), eur(2))).toBe(-1)
+    expect(compareMoney(eur(2), eur(2))).toBe(0)
+    expect(compareMoney(eur(3), eur(2))).toBe(1)
+    expect(isZeroMoney(subtractMoney(eur(5), eur(5)))).toBe(true)
+  })
+
+  it('never goes negative', () => {
+    expect(() => subtractMoney(eur(100), eur(101))).toThrow(ValidationError)
+  })
+
+  it('refuses to mix currencies', () => {
+    expect(() => addMoney(eur(100), createMoney(100, 'CZK'))).toThrow(ValidationError)
+    expect(() => compareMoney(eur(100), createMoney(100, 'CZK'))).toThrow(ValidationError)
+  })
+})
+
+describe('formatMoney', () => {
+  it('formats for the customer language', () => {
+    expect(format({ amount: 7900, currency: 'EUR' }, 'sk')).toBe('79,00 €')
+    expect(format({ amount: 7900, currency: 'EUR' }, 'en')).toBe('€79.00')
+    expect(format({ amount: 199000, currency: 'CZK' }, 'cs')).toBe('1 990,00 Kč')
+  })
+
+  it('defaults to Slovak', () => {
+    expect(format({ amount: 123456, currency: 'EUR' })).toBe('1 234,56 €')
+  })
+})
+
+describe('API boundary', () => {
+  it('sends decimal amounts and returns minor units', async () => {
+    const { client, requests } = createMockClient()
+
+    const created = await client.createPayment({
+      paymentMethod: 'BANK_TRANSFER',
+      amount: { amount: 7990, currency: 'EUR' },
+      merchantReference: 'ORDER-1',
+      returnUrl: 'http://localhost:3000/api/payment/callback',
+      customerIpAddress: '127.0.0.1'
+    })
+
+    expect(requests[0].body).toMatchObject({ baseAmount: { amountValue: 79.9, currency: 'EUR' } })
+    expect(created.bankTransferInfo?.amount).toEqual({ amount: 7990, currency: 'EUR' })
+
+    const status = await client.getPaymentStatus(created.paymentId)
+    expect(status.amount).toEqual({ amount: 7990, currency: 'EUR' })
+  })
+
+  it('reports method limits in minor units', async () => {
+    const { client } = createMockClient()
+
+    const methods = await client.getAvailablePaymentMethods()
+
+    expect(methods.find(m => m.method === 'PAY_LATER')).toMatchObject({
+      minAmount: { amount: 10000, currency: 'EUR' },
+      maxAmount: { amount: 500000, currency: 'EUR' }
+    })
+  })
+})
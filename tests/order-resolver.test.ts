@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest'
+import { POST } from '@/app/api/payment/create/route'
+import {
+  createMemoryOrderResolver,
+  resolveOrderForPayment,
+  ResolvedOrder,
+  setOrderResolver
+} from '@/lib/order-resolver'
+import { getPaymentStore } from '@/lib/payment-store'
+import { createStoredPayment, request, setupMockGateway } from './helpers'
+
+const customer = { id: 'cust-42', email: 'jan.novak@example.com', firstName: 'Ján', lastName: 'Novák' }
+
+const order: ResolvedOrder = {
+  orderId: 'ORDER-1',
+  amount: { amount: 10000, currency: 'EUR' },
+  customer,
+  description: 'Order 1'
+}
+
+function create(payload: Record<string, unknown>) {
+  return POST(request('/api/payment/create', { method: 'POST', body: JSON.stringify(payload) }))
+}
+
+describe('resolveOrderForPayment', () => {
+  const resolver = createMemoryOrderResolver([order])
+
+  it('takes amount, currency and customer from the order', async () => {
+    const resolution = await resolveOrderForPayment({
+      orderId: 'ORDER-1',
+      customer: { id: 'someone-else', email: 'x@example.com', firstName: 'X', lastName: 'Y' }
+    }, resolver)
+
+    expect(resolution).toMatchObject({
+      status: 'resolved',
+      body: { amount: 10000, currency: 'EUR', customer, description: 'Order 1' }
+    })
+  })
+
+  it('rejects an amount or currency that differs from the order', async () => {
+    const resolution = await resolveOrderForPayment({ orderId: 'ORDER-1', amount: 1, currency: 'CZK' }, resolver)
+
+    expect(resolution).toMatchObject({
+      status: 'invalid',
+      errors: [{ field: 'amount', code: 'ORDER_MISMATCH' }, { field: 'currency', code: 'ORDER_MISMATCH' }]
+    })
+  })
+
+  it('reports unknown orders', async () => {
+    expect(await resolveOrderForPayment({ orderId: 'ORDER-2' }, resolver)).toEqual({ status: 'not_found' })
+  })
+
+  it('reports orders whose payment is completed or authorized', async () => {
+    const gateway = setupMockGateway()
+    const completed = await createStoredPayment(gateway, { orderId: 'ORDER-1', outcome: 'approve' })
+
+    expect(await resolveOrderForPayment({ orderId: 'ORDER-1' }, resolver))
+      .toEqual({ status: 'paid', payment: completed })
+  })
+
+  it('finds a paid payment behind a later one', async () => {
+    const gateway = setupMockGateway()
+    const completed = await createStoredPayment(gateway, { orderId: 'ORDER-1', outcome: 'approve' })
+    await createStoredPayment(gateway, { orderId: 'ORDER-1', outcome: 'decline' })
+
+    expect(await resolveOrderForPayment({ orderId: 'ORDER-1' }, resolver))
+      .toEqual({ status: 'paid', payment: completed })
+  })
+
+  it('resolves orders whose payment failed', async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway, { orderId: 'ORDER-1', outcome: 'decline' })
+
+    expect(await resolveOrderForPayment({ orderId: 'ORDER-1' }, resolver)).toMatchObject({ status: 'resolved' })
+  })
+})
+
+describe('memory resolver', () => {
+  it('does not resolve orders that are already paid', async () => {
+    const gateway = setupMockGateway()
+    const resolver = createMemoryOrderResolver([order])
+    await createStoredPayment(gateway, { orderId: 'ORDER-1', preAuthorization: true, outcome: 'approve' })
+
+    expect(await resolver.resolve('ORDER-1')).toBeNull()
+  })
+})
+
+describe('POST /api/payment/create with a resolved order', () => {
+  it('refuses to create a second payment for a paid order', async () => {
+    const gateway = setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([order]))
+    const paid = await createStoredPayment(gateway, { orderId: 'ORDER-1', outcome: 'approve' })
+
+    const response = await create({ orderId: 'ORDER-1', paymentMethod: 'CARD_PAY' })
+
+    expect(response.status).toBe(409)
+    expect(await response.json()).toMatchObject({ success: false })
+    expect((await getPaymentStore().findByOrderId('ORDER-1'))?.paymentId).toBe(paid.paymentId)
+  })
+
+  it('saves the card for the customer returned by the resolver', async () => {
+    setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([order]))
+
+    const response = await create({ orderId: 'ORDER-1', paymentMethod: 'CARD_PAY', saveCard: true })
+
+    expect(response.status).toBe(200)
+    expect((await getPaymentStore().findByOrderId('ORDER-1'))?.customerId).toBe('cust-42')
+  })
+
+  it('rejects saveCard when the customer ID only comes from the browser', async () => {
+    const { requests } = setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([{ ...order, customer: undefined }]))
+
+    const response = await create({ orderId: 'ORDER-1', paymentMethod: 'CARD_PAY', saveCard: true, customer })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ fields: [{ field: 'saveCard', code: 'CUSTOMER_REQUIRED' }] })
+    expect(requests.filter(r => r.method === 'POST')).toEqual([])
+  })
+})
+
+describe('POST /api/payment/create with open payments', () => {
+  function createdPayments(requests: { method: string; path: string }[]) {
+    return requests.filter(r => r.method === 'POST' && r.path.endsWith('/v1/payments'))
+  }
+
+  it('cancels an open payment started in another tab', async () => {
+    const gateway = setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([order]))
+    const open = await createStoredPayment(gateway, { orderId: 'ORDER-1' })
+
+    const response = await create({ orderId: 'ORDER-1' })
+
+    expect(response.status).toBe(200)
+    expect(gateway.mock.getPayment(open.paymentId)?.status).toBe('CANC')
+    expect((await getPaymentStore().findByPaymentId(open.paymentId))?.statusHistory.at(-1))
+      .toMatchObject({ status: 'CANC', source: 'merchant', reason: 'replaced' })
+    expect((await getPaymentStore().findByOrderId('ORDER-1'))?.paymentId).toBe((await response.json()).paymentId)
+  })
+
+  it('refuses a new payment when the open one was paid meanwhile', async () => {
+    const gateway = setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([order]))
+    const open = await createStoredPayment(gateway, { orderId: 'ORDER-1' })
+    // Paid in the other tab, the webhook has not arrived yet
+    await gateway.mock.completePayment(open.paymentId, 'approve')
+
+    const response = await create({ orderId: 'ORDER-1', paymentMethod: 'CARD_PAY' })
+
+    expect(response.status).toBe(409)
+    expect((await getPaymentStore().findByPaymentId(open.paymentId))?.status).toBe('ACSC')
+    expect(createdPayments(gateway.requests)).toHaveLength(1)
+  })
+
+  it('shows a pending bank transfer again instead of creating a payment', async () => {
+    const gateway = setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([order]))
+    const transfer = await createStoredPayment(gateway, { orderId: 'ORDER-1', paymentMethod: 'BANK_TRANSFER' })
+
+    const response = await create({ orderId: 'ORDER-1', paymentMethod: 'CARD_PAY' })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({
+      paymentId: transfer.paymentId,
+      bankTransfer: { variableSymbol: transfer.bankTransferInfo?.variableSymbol }
+    })
+    expect(createdPayments(gateway.requests)).toHaveLength(1)
+  })
+
+  it('leaves only one payment open when two tabs create at once', async () => {
+    setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([order]))
+
+    const responses = await Promise.all([
+      create({ orderId: 'ORDER-1', paymentMethod: 'CARD_PAY' }),
+      create({ orderId: 'ORDER-1', paymentMethod: 'CARD_PAY' })
+    ])
+
+    expect(responses.map(response => response.status)).toEqual([200, 200])
+    expect((await getPaymentStore().listByOrderId('ORDER-1')).map(payment => payment.status)).toEqual(['CANC', 'RCVD'])
+  })
+})
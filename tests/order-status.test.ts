@@ -0,0 +1,216 @@
+import { describe, expect, it, vi } from 'vitest'
+import { POST as createPayment } from '@/app/api/payment/create/route'
+import { GET as callback } from '@/app/api/payment/callback/route'
+import { GET as getStatus } from '@/app/api/payment/status/[orderId]/route'
+import { GET as streamStatus } from '@/app/api/payment/status/[orderId]/stream/route'
+import { createOrderAccessToken, verifyOrderAccessToken } from '@/lib/api-auth'
+import { createMemoryOrderResolver, ResolvedOrder, setOrderResolver } from '@/lib/order-resolver'
+import { publishOrderStatus } from '@/lib/order-status'
+import { applyPaymentStatus } from '@/lib/payment-state'
+import { createStoredPayment, params, request, setupMockGateway } from './helpers'
+
+const order: ResolvedOrder = {
+  orderId: 'ORDER-1',
+  amount: { amount: 10000, currency: 'EUR' },
+  customer: { id: 'cust-42', email: 'jan.novak@example.com', firstName: 'Ján', lastName: 'Novák' }
+}
+
+function create(headers: Record<string, string> = {}) {
+  return createPayment(request('/api/payment/create', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ orderId: 'ORDER-1', paymentMethod: 'CARD_PAY' })
+  }))
+}
+
+describe('order access tokens', () => {
+  it('are only valid for their order', () => {
+    const token = createOrderAccessToken('ORDER-1')
+    expect(verifyOrderAccessToken('ORDER-1', token)).toBe(true)
+    expect(verifyOrderAccessToken('ORDER-2', token)).toBe(false)
+    expect(verifyOrderAccessToken('ORDER-1', `${token}x`)).toBe(false)
+  })
+
+  it('expire', () => {
+    const token = createOrderAccessToken('ORDER-1', { ttlSeconds: 60 })
+    vi.useFakeTimers({ now: Date.now() + 61_000 })
+    try {
+      expect(verifyOrderAccessToken('ORDER-1', token)).toBe(false)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
+
+describe('statusToken from POST /api/payment/create', () => {
+  it('is issued when the resolver recognizes the order owner', async () => {
+    setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([order], {
+      isOrderOwner: async (resolved, req) => req.headers.get('x-user') === resolved.customer?.id
+    }))
+
+    const body = await (await create({ 'x-user': 'cust-42' })).json()
+
+    expect(verifyOrderAccessToken('ORDER-1', body.statusToken)).toBe(true)
+  })
+
+  it('is withheld from anyone else who knows the order ID', async () => {
+    setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([order], {
+      isOrderOwner: async (resolved, req) => req.headers.get('x-user') === resolved.customer?.id
+    }))
+
+    const response = await create({ 'x-user': 'cust-7' })
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).statusToken).toBeUndefined()
+  })
+
+  it('is withheld when the resolver cannot tell who owns the order', async () => {
+    setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([order]))
+
+    expect((await (await create()).json()).statusToken).toBeUndefined()
+  })
+})
+
+describe('token in the callback redirect', () => {
+  async function redirectOf(url: string, headers: Record<string, string> = {}) {
+    const response = await callback(request(url, { headers }))
+    return new URL(response.headers.get('Location')!)
+  }
+
+  it('is issued to the customer TatraPay sends back with the paymentId', async () => {
+    const gateway = setupMockGateway()
+    const payment = await createStoredPayment(gateway)
+
+    const location = await redirectOf(`/api/payment/callback?paymentId=${payment.paymentId}`)
+
+    expect(location.pathname).toBe('/payment/pending')
+    expect(verifyOrderAccessToken('ORDER-1', location.searchParams.get('token')!)).toBe(true)
+  })
+
+  it('is withheld from a callback with only the order ID', async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway, { outcome: 'decline' })
+
+    const location = await redirectOf('/api/payment/callback?orderId=ORDER-1')
+
+    expect(location.pathname).toBe('/payment/failed')
+    expect(location.searchParams.get('orderId')).toBe('ORDER-1')
+    expect(location.searchParams.has('token')).toBe(false)
+  })
+
+  it('is issued to the order owner with only the order ID', async () => {
+    const gateway = setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([order], {
+      isOrderOwner: async (resolved, req) => req.headers.get('x-user') === resolved.customer?.id
+    }))
+    await createStoredPayment(gateway)
+
+    const owner = await redirectOf('/api/payment/callback?orderId=ORDER-1', { 'x-user': 'cust-42' })
+    const other = await redirectOf('/api/payment/callback?orderId=ORDER-1', { 'x-user': 'cust-7' })
+
+    expect(verifyOrderAccessToken('ORDER-1', owner.searchParams.get('token')!)).toBe(true)
+    expect(other.searchParams.has('token')).toBe(false)
+  })
+})
+
+describe('GET /api/payment/status/[orderId]', () => {
+  it('returns the status, label and amounts with a valid token', async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway, { outcome: 'approve' })
+
+    const response = await getStatus(
+      request('/api/payment/status/ORDER-1?language=en', {
+        headers: { Authorization: `Bearer ${createOrderAccessToken('ORDER-1')}` }
+      }),
+      params({ orderId: 'ORDER-1' })
+    )
+
+    expect(response.headers.get('Cache-Control')).toBe('no-store')
+    expect(await response.json()).toMatchObject({
+      success: true,
+      orderId: 'ORDER-1',
+      status: 'completed',
+      tatraPayStatus: 'ACSC',
+      amount: { amount: 10000, currency: 'EUR' },
+      formattedAmount: '€100.00'
+    })
+  })
+
+  it("rejects another order's token", async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway)
+
+    const response = await getStatus(
+      request(`/api/payment/status/ORDER-1?token=${createOrderAccessToken('ORDER-2')}`),
+      params({ orderId: 'ORDER-1' })
+    )
+
+    expect(response.status).toBe(401)
+  })
+})
+
+describe('GET /api/payment/status/[orderId]/stream', () => {
+  it('pushes status changes and ends once the payment is final', async () => {
+    const gateway = setupMockGateway()
+    const payment = await createStoredPayment(gateway)
+
+    const response = await streamStatus(
+      request(`/api/payment/status/ORDER-1/stream?token=${createOrderAccessToken('ORDER-1')}`),
+      params({ orderId: 'ORDER-1' })
+    )
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream')
+
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader()
+    let received = ''
+    const readUntil = async (text: string) => {
+      while (!received.includes(text)) {
+        const { value, done } = await reader.read()
+        if (done) break
+        received += value
+      }
+    }
+
+    await readUntil('"tatraPayStatus":"RCVD"')
+    await applyPaymentStatus(payment.paymentId, { status: 'ACSC', source: 'webhook' })
+    await readUntil('"tatraPayStatus":"ACSC"')
+
+    expect(received.match(/event: status/g)).toHaveLength(2)
+    expect(await reader.read()).toEqual({ done: true, value: undefined })
+  })
+
+  it('sends a new payment for the order even at the same version', async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway)
+
+    const response = await streamStatus(
+      request(`/api/payment/status/ORDER-1/stream?token=${createOrderAccessToken('ORDER-1')}`),
+      params({ orderId: 'ORDER-1' })
+    )
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader()
+    let received = ''
+    const readUntil = async (text: string) => {
+      while (!received.includes(text)) {
+        const { value, done } = await reader.read()
+        if (done) break
+        received += value
+      }
+    }
+
+    await readUntil('"paymentMethod":"CARD_PAY"')
+    const replacement = await createStoredPayment(gateway, { paymentMethod: 'BANK_TRANSFER' })
+    expect(replacement.version).toBe(1)
+    publishOrderStatus(replacement)
+    await readUntil('"paymentMethod":"BANK_TRANSFER"')
+
+    expect(received.match(/event: status/g)).toHaveLength(2)
+    await reader.cancel()
+  })
+
+  it('requires the order token', async () => {
+    const response = await streamStatus(request('/api/payment/status/ORDER-1/stream'), params({ orderId: 'ORDER-1' }))
+    expect(response.status).toBe(401)
+  })
+})
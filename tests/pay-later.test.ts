@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest'
+import { calculateOrderTotals, TatraPayCreatePaymentRequest, ValidationError } from '@/lib/tatrapay'
+import type { FieldError } from '@/lib/tatrapay-errors'
+import { validateCreatePaymentRequest } from '@/lib/validation'
+import { createMockClient } from './helpers'
+
+const order = {
+  items: [
+    { name: 'Bicykel', quantity: 1, unitPrice: 120000 },
+    { name: 'Prilba', quantity: 2, unitPrice: 4500, infoUrl: 'https://shop.example/prilba' }
+  ],
+  preferredLoanDuration: 12,
+  downPayment: 20000
+}
+
+const customer = {
+  firstName: 'Ján',
+  lastName: 'Novák',
+  email: 'jan.novak@example.com',
+  phone: '+421901123456'
+}
+
+function payLaterRequest(overrides: Partial<TatraPayCreatePaymentRequest> = {}): TatraPayCreatePaymentRequest {
+  return {
+    paymentMethod: 'PAY_LATER',
+    amount: { amount: 129000, currency: 'EUR' },
+    merchantReference: 'ORDER-PL-1',
+    customer,
+    orderDetail: order,
+    returnUrl: 'http://localhost:3000/api/payment/callback',
+    customerIpAddress: '127.0.0.1',
+    ...overrides
+  }
+}
+
+describe('calculateOrderTotals', () => {
+  it('sums line items', () => {
+    expect(calculateOrderTotals(order)).toEqual({ total: 129000 })
+  })
+})
+
+describe('PAY_LATER request validation', () => {
+  const body = {
+    orderId: 'ORDER-PL-1',
+    paymentMethod: 'PAY_LATER',
+    amount: 129000,
+    currency: 'EUR',
+    customer,
+    order
+  }
+
+  it('accepts an itemized order matching the amount', () => {
+    expect(validateCreatePaymentRequest(body).valid).toBe(true)
+  })
+
+  it('requires order items and a phone number', () => {
+    const result = validateCreatePaymentRequest({ ...body, order: undefined, customer: { ...customer, phone: undefined } })
+    expect(result.valid ? [] : result.errors.map(error => `${error.field}:${error.code}`)).toEqual([
+      'customer.phone:REQUIRED',
+      'order:REQUIRED'
+    ])
+  })
+
+  it('rejects items that do not add up to the amount', () => {
+    const result = validateCreatePaymentRequest({ ...body, amount: 100000 })
+    expect(result.valid ? [] : result.errors).toContainEqual(expect.objectContaining({
+      field: 'order.items',
+      code: 'TOTAL_MISMATCH'
+    }))
+  })
+
+  it('requires the down payment to be less than the total', () => {
+    const result = validateCreatePaymentRequest({ ...body, order: { ...order, downPayment: 129000 } })
+    expect(result.valid ? [] : result.errors).toEqual([
+      expect.objectContaining({ field: 'order.downPayment', code: 'OUT_OF_RANGE' })
+    ])
+  })
+
+  it('rejects invalid line items', () => {
+    const result = validateCreatePaymentRequest({
+      ...body,
+      order: { items: [{ name: '', quantity: 0, unitPrice: -1 }] }
+    })
+    expect(result.valid ? [] : result.errors.map(error => error.field)).toEqual([
+      'order.items.0.name',
+      'order.items.0.quantity',
+      'order.items.0.unitPrice'
+    ])
+  })
+})
+
+describe('PAY_LATER payments', () => {
+  it('sends the itemized order and returns the TatraPay+ redirect', async () => {
+    const { client, requests } = createMockClient()
+
+    const created = await client.createPayment(payLaterRequest())
+
+    expect(created.redirectUrl).toMatch(/\/mock\/pay\//)
+    const create = requests.find(sent => sent.method === 'POST' && sent.path === '/v1/payments')
+    expect(create?.body?.payLater).toEqual({
+      order: {
+        orderNo: 'ORDER-PL-1',
+        orderItems: [
+          { quantity: 1, totalItemPrice: 1200, itemDetail: { itemDetailSK: { itemName: 'Bicykel' } } },
+          {
+            quantity: 2,
+            totalItemPrice: 90,
+            itemDetail: { itemDetailSK: { itemName: 'Prilba' } },
+            itemInfoURL: 'https://shop.example/prilba'
+          }
+        ],
+        preferredLoanDuration: 12,
+        downPayment: 200
+      }
+    })
+  })
+
+  it('checks the order and contact data for library callers', async () => {
+    const { client, requests } = createMockClient()
+
+    const error = await client.createPayment(payLaterRequest({
+      amount: { amount: 100000, currency: 'EUR' },
+      customer: { ...customer, phone: undefined }
+    })).catch(caught => caught)
+
+    expect(error).toBeInstanceOf(ValidationError)
+    expect(error.fields.map((field: FieldError) => `${field.field}:${field.code}`)).toEqual([
+      'customer.phone:REQUIRED',
+      'orderDetail.items:TOTAL_MISMATCH'
+    ])
+    expect(requests).toEqual([])
+  })
+
+  it('checks the order data in gateway mode', async () => {
+    const { client, requests } = createMockClient()
+
+    await expect(client.createPayment(payLaterRequest({
+      paymentMethod: undefined,
+      orderDetail: { items: [{ name: 'Bicykel', quantity: 0, unitPrice: 129000 }] }
+    }))).rejects.toMatchObject({
+      name: 'ValidationError',
+      fields: [expect.objectContaining({ field: 'orderDetail.items.0.quantity' })]
+    })
+    expect(requests).toEqual([])
+  })
+
+  it('rejects amounts outside the PAY_LATER limits before creating a payment', async () => {
+    const { client } = createMockClient()
+    const small = {
+      items: [{ name: 'Ponožky', quantity: 1, unitPrice: 5000 }]
+    }
+
+    await expect(client.createPayment(payLaterRequest({
+      amount: { amount: 5000, currency: 'EUR' },
+      orderDetail: small
+    }))).rejects.toMatchObject({
+      name: 'MethodUnavailableError',
+      reasonCode: 'AMOUNT_TOO_LOW'
+    })
+  })
+
+  it('reports PAY_LATER as unavailable when TatraPay refuses it for the payment', async () => {
+    const { client } = createMockClient({
+      scenarios: [{ merchantReference: 'ORDER-PL-*', unavailableMethods: ['PAY_LATER'] }]
+    })
+
+    await expect(client.createPayment(payLaterRequest())).rejects.toMatchObject({
+      name: 'MethodUnavailableError',
+      reasonCode: 'NO_AVAIL_PAY_METH'
+    })
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { GET } from '@/app/api/payment/qr/route'
+import { createOrderAccessToken } from '@/lib/api-auth'
+import { encodePayBySquare, renderQrCodeSvg } from '@/lib/paybysquare'
+import { getPaymentStore } from '@/lib/payment-store'
+import { createMockClient, request } from './helpers'
+
+describe('encodePayBySquare', () => {
+  // Decoded with a standard raw LZMA decoder: header, length and CRC32 match
+  // the tab-separated payment order
+  it('encodes a payment order for banking apps', () => {
+    expect(encodePayBySquare({
+      iban: 'SK3111000000002612345678',
+      amount: 12.5,
+      currency: 'EUR',
+      variableSymbol: '42'
+    })).toBe('0403O000BE6HBI209C4VREPCGHFK4B5H3P0U83NVAAU4AMI3R7U1I6HLDN7V6CFPIRHQ705DFAM64NBCGMNNDEB1G4CR0G8NIFH9LGPLAG')
+  })
+
+  it('uses spec 1.2.0 with the beneficiary name and strips diacritics', () => {
+    const qr = encodePayBySquare({
+      iban: 'SK31 1100 0000 0026 1234 5678',
+      amount: 79,
+      currency: 'EUR',
+      variableSymbol: '123456',
+      dueDate: '2025-01-31',
+      note: 'Objednávka 123',
+      beneficiaryName: 'Môj Obchod s.r.o.'
+    })
+
+    expect(qr).toBe('0806A000ASA4UBLG9C4VSLEVHQCI33RDRBU5BSPRB50UTRUOIE7C6JF2Q7P4B9RRQ8HJNKRNP8QNBDM0SBD8OK72CHA12MF914T9GDRNA0M9R7FS4LJSNE53NCGV7C9QTS5ANT6DB7NV2DBI4QBI9BD66HNC9KSJ8IG0')
+  })
+
+  it('only uses base32hex characters', () => {
+    const qr = encodePayBySquare({ iban: 'CZ6508000000192000145399', amount: 0.01, currency: 'CZK' })
+    expect(qr).toMatch(/^[0-9A-V]+$/)
+  })
+
+  it('rejects invalid IBANs and amounts', () => {
+    expect(() => encodePayBySquare({ iban: 'not-an-iban', amount: 10, currency: 'EUR' })).toThrow(/invalid IBAN/)
+    expect(() => encodePayBySquare({ iban: 'SK3111000000002612345678', amount: 0, currency: 'EUR' })).toThrow(/positive/)
+  })
+
+  it('renders an SVG image', async () => {
+    expect(await renderQrCodeSvg('0403O000')).toMatch(/^<svg/)
+  })
+})
+
+describe('QR_PAY payments', () => {
+  async function createQrPayment(method: 'QR_PAY' | 'CARD_PAY') {
+    const { client } = createMockClient()
+    const created = await client.createPayment({
+      paymentMethod: method,
+      amount: { amount: 7900, currency: 'EUR' },
+      merchantReference: 'ORDER-QR-1',
+      returnUrl: 'http://localhost:3000/api/payment/callback',
+      customerIpAddress: '127.0.0.1'
+    })
+    await getPaymentStore().save({
+      orderId: 'ORDER-QR-1',
+      paymentId: created.paymentId,
+      paymentMethod: method,
+      amount: { amount: 7900, currency: 'EUR' },
+      status: created.status,
+      qrCodeData: created.qrCodeData
+    })
+    return created
+  }
+
+  it('returns bank transfer details and a QR code without a redirect', async () => {
+    const created = await createQrPayment('QR_PAY')
+
+    expect(created.redirectUrl).toBeUndefined()
+    expect(created.bankTransferInfo).toMatchObject({ amount: { amount: 7900, currency: 'EUR' } })
+    expect(created.bankTransferInfo?.variableSymbol).toMatch(/^\d{1,10}$/)
+    expect(created.qrCodeData).toMatch(/^[0-9A-V]+$/)
+  })
+
+  it('serves the QR code to the order token holder', async () => {
+    await createQrPayment('QR_PAY')
+    const token = createOrderAccessToken('ORDER-QR-1')
+
+    const response = await GET(request(`/api/payment/qr?orderId=ORDER-QR-1&token=${token}`))
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toBe('image/svg+xml')
+    expect(await response.text()).toMatch(/^<svg/)
+  })
+
+  it('requires the order token', async () => {
+    await createQrPayment('QR_PAY')
+    const response = await GET(request('/api/payment/qr?orderId=ORDER-QR-1&token=1.forged'))
+    expect(response.status).toBe(401)
+  })
+
+  it('has no QR code for card payments', async () => {
+    await createQrPayment('CARD_PAY')
+    const token = createOrderAccessToken('ORDER-QR-1')
+
+    const response = await GET(request(`/api/payment/qr?orderId=ORDER-QR-1&token=${token}`))
+    expect(response.status).toBe(404)
+  })
+})
@@ -0,0 +1,183 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { POST as payLink } from '@/app/api/payment-links/[linkId]/pay/route'
+import { GET as getLink } from '@/app/api/payment-links/[linkId]/route'
+import {
+  createFilePaymentLinkStore,
+  getPaymentLinkStore,
+  isPaymentLinkId,
+  NewPaymentLink,
+  startPaymentLinkPayment
+} from '@/lib/payment-links'
+import { getPaymentStore } from '@/lib/payment-store'
+import { applyPaymentStatus } from '@/lib/payment-state'
+import { TatraPayMethod } from '@/lib/tatrapay'
+import { params, request, setupMockGateway } from './helpers'
+
+const context = { baseUrl: 'http://localhost:3000', customerIpAddress: '127.0.0.1' }
+
+function createLink(overrides: Partial<NewPaymentLink> = {}) {
+  return getPaymentLinkStore().create({
+    amount: { amount: 4900, currency: 'EUR' },
+    description: 'Invoice 2026-001',
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+    ...overrides
+  })
+}
+
+function open(linkId: string, now?: Date) {
+  return startPaymentLinkPayment(linkId, context, { now })
+}
+
+function hoursFromNow(hours: number): Date {
+  return new Date(Date.now() + hours * 60 * 60 * 1000)
+}
+
+describe('startPaymentLinkPayment', () => {
+  it('reports unknown links', async () => {
+    expect(await open('missing')).toEqual({ outcome: 'not_found' })
+  })
+
+  it.each<[string, TatraPayMethod[] | undefined]>([
+    ['card', ['CARD_PAY']],
+    ['gateway', undefined]
+  ])('reuses the open %s payment when the link is opened again', async (_, allowedMethods) => {
+    const gateway = setupMockGateway()
+    const link = await createLink({ allowedMethods })
+
+    const first = await open(link.id)
+    const second = await open(link.id)
+
+    expect(first.outcome).toBe('started')
+    expect(second).toMatchObject({ outcome: 'started', paymentId: (first as { paymentId: string }).paymentId })
+    expect((second as { redirectUrl?: string }).redirectUrl).toBe((first as { redirectUrl?: string }).redirectUrl)
+    expect(gateway.requests.filter(r => r.method === 'POST' && r.path.endsWith('/v1/payments'))).toHaveLength(1)
+  })
+
+  it('creates a single payment when two tabs open the link at once', async () => {
+    const gateway = setupMockGateway()
+    const link = await createLink({ allowedMethods: ['CARD_PAY'] })
+
+    const [first, second] = await Promise.all([open(link.id), open(link.id)])
+
+    expect(first).toMatchObject({ outcome: 'started' })
+    expect(second).toMatchObject({ outcome: 'started', paymentId: (first as { paymentId: string }).paymentId })
+    expect(gateway.requests.filter(r => r.method === 'POST' && r.path.endsWith('/v1/payments'))).toHaveLength(1)
+  })
+
+  it('cancels an expired card payment before creating a new one', async () => {
+    const gateway = setupMockGateway()
+    const link = await createLink({ allowedMethods: ['CARD_PAY'] })
+    const first = await open(link.id) as { paymentId: string }
+
+    const second = await open(link.id, hoursFromNow(2)) as { paymentId: string }
+
+    expect(second.paymentId).not.toBe(first.paymentId)
+    expect(gateway.mock.getPayment(first.paymentId)?.status).toBe('CANC')
+    expect((await getPaymentStore().findByPaymentId(first.paymentId))?.statusHistory.at(-1))
+      .toMatchObject({ status: 'CANC', source: 'merchant', reason: 'replaced' })
+    expect((await getPaymentLinkStore().find(link.id))?.payments).toHaveLength(2)
+  })
+
+  it('closes the link instead when the old payment was paid after all', async () => {
+    const gateway = setupMockGateway()
+    const link = await createLink({ allowedMethods: ['CARD_PAY'] })
+    const first = await open(link.id) as { paymentId: string }
+    // Paid on TatraPay+, but the webhook never arrived
+    await gateway.mock.completePayment(first.paymentId, 'approve')
+
+    const result = await open(link.id, hoursFromNow(2))
+
+    expect(result).toMatchObject({ outcome: 'closed', state: 'paid' })
+    expect((await getPaymentStore().findByPaymentId(first.paymentId))?.status).toBe('ACSC')
+    expect(gateway.requests.filter(r => r.method === 'POST' && r.path.endsWith('/v1/payments'))).toHaveLength(1)
+  })
+
+  it('returns the same bank details for a pending bank transfer', async () => {
+    setupMockGateway()
+    const link = await createLink({ allowedMethods: ['BANK_TRANSFER'] })
+
+    const first = await open(link.id) as { paymentId: string; bankTransferInfo?: { variableSymbol: string } }
+    const second = await open(link.id, hoursFromNow(12)) as typeof first
+
+    expect(second.paymentId).toBe(first.paymentId)
+    expect(second.bankTransferInfo?.variableSymbol).toBe(first.bankTransferInfo?.variableSymbol)
+  })
+
+  it('starts a new payment after the previous one failed', async () => {
+    const gateway = setupMockGateway()
+    const link = await createLink({ allowedMethods: ['CARD_PAY'] })
+    const first = await open(link.id) as { paymentId: string }
+    await gateway.mock.completePayment(first.paymentId, 'decline')
+    const status = await gateway.client.getPaymentStatus(first.paymentId)
+    await applyPaymentStatus(first.paymentId, { status: status.status, source: 'webhook' })
+
+    const second = await open(link.id) as { paymentId: string }
+
+    expect(second.paymentId).not.toBe(first.paymentId)
+  })
+
+  it('gives every payment of a multi-use link its own order ID', async () => {
+    setupMockGateway()
+    const link = await createLink({ singleUse: false, allowedMethods: ['CARD_PAY'] })
+
+    const first = await open(link.id) as { orderId: string }
+    const second = await open(link.id) as { orderId: string }
+
+    expect(first.orderId).toMatch(new RegExp(`^PL-${link.id}-`))
+    expect(second.orderId).not.toBe(first.orderId)
+  })
+
+  it('does not start payments for an expired link', async () => {
+    setupMockGateway()
+    const link = await createLink({ expiresAt: new Date(Date.now() - 1000).toISOString() })
+
+    expect(await open(link.id)).toMatchObject({ outcome: 'closed', state: 'expired' })
+  })
+})
+
+describe('link IDs', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('only accepts IDs of the generated shape', async () => {
+    const link = await createLink()
+
+    expect(isPaymentLinkId(link.id)).toBe(true)
+    expect(isPaymentLinkId('constructor')).toBe(false)
+    expect(isPaymentLinkId('__proto__')).toBe(false)
+    expect(isPaymentLinkId('abcdefghij0')).toBe(false)
+  })
+
+  it.each(['constructor', '__proto__', 'toString'])('answers 404 for /pay/%s', async linkId => {
+    setupMockGateway()
+
+    const response = await payLink(request(`/api/payment-links/${linkId}/pay`, { method: 'POST' }), params({ linkId }))
+
+    expect(response.status).toBe(404)
+  })
+
+  it('answers 404 to the merchant for a malformed ID', async () => {
+    vi.stubEnv('TATRAPAY_ADMIN_API_KEY', 'admin-key')
+
+    const response = await getLink(
+      request('/api/payment-links/constructor', { headers: { Authorization: 'Bearer admin-key' } }),
+      params({ linkId: 'constructor' })
+    )
+
+    expect(response.status).toBe(404)
+  })
+
+  it('does not find object prototype keys in the file store', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tatrapay-links-'))
+    const store = createFilePaymentLinkStore(path.join(dir, 'links.json'))
+    await store.create({ amount: { amount: 4900, currency: 'EUR' }, description: 'Invoice', expiresAt: hoursFromNow(24).toISOString() })
+
+    expect(await store.find('constructor')).toBeNull()
+    expect(await store.find('__proto__')).toBeNull()
+    expect(await store.markPaid('constructor', new Date().toISOString())).toBeNull()
+  })
+})
@@ -0,0 +1,169 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  applyPaymentStatus,
+  canTransition,
+  canTransitionPreAuthorization,
+  getPaymentPhase
+} from '@/lib/payment-state'
+import { createMemoryPaymentStore, PaymentStore } from '@/lib/payment-store'
+import { ConflictError } from '@/lib/tatrapay-errors'
+
+async function storeWith(overrides: Partial<Parameters<PaymentStore['save']>[0]> = {}) {
+  const store = createMemoryPaymentStore()
+  await store.save({
+    orderId: 'ORDER-1',
+    paymentId: 'pay-1',
+    paymentMethod: 'CARD_PAY',
+    amount: { amount: 5000, currency: 'EUR' },
+    status: 'RCVD',
+    ...overrides
+  })
+  return store
+}
+
+describe('canTransition', () => {
+  it.each([
+    ['RCVD', 'PDNG', true],
+    ['PDNG', 'ACSC', true],
+    ['PATC', 'PART', true],
+    ['PART', 'ACSC', true],
+    ['ACSP', 'ACSC', true],
+    ['PDNG', 'RJCT', true],
+    ['ACSC', 'PDNG', false],
+    ['ACSC', 'ACSP', false],
+    ['ACSC', 'CANC', false],
+    ['RJCT', 'ACSC', false],
+    ['CANC', 'RJCT', false],
+    ['PDNG', 'PDNG', false]
+  ] as const)('%s -> %s is %s', (from, to, allowed) => {
+    expect(canTransition(from, to)).toBe(allowed)
+  })
+
+  it('lets a held pre-authorization be voided into CANC', () => {
+    expect(canTransition('ACSC', 'CANC', 'AUTHORIZED')).toBe(true)
+    expect(canTransition('ACSC', 'CANC', 'CAPTURED')).toBe(false)
+  })
+})
+
+describe('canTransitionPreAuthorization', () => {
+  it('only moves forward from AUTHORIZED', () => {
+    expect(canTransitionPreAuthorization('AUTHORIZED', 'CAPTURED')).toBe(true)
+    expect(canTransitionPreAuthorization('AUTHORIZED', 'VOIDED')).toBe(true)
+    expect(canTransitionPreAuthorization('CAPTURED', 'AUTHORIZED')).toBe(false)
+    expect(canTransitionPreAuthorization('VOIDED', 'CAPTURED')).toBe(false)
+    expect(canTransitionPreAuthorization('CAPTURED', undefined)).toBe(true)
+  })
+})
+
+describe('getPaymentPhase', () => {
+  it.each([
+    ['RCVD', undefined, 'pending'],
+    ['PART', undefined, 'partial'],
+    ['ACSC', undefined, 'completed'],
+    ['ACSC', 'AUTHORIZED', 'authorized'],
+    ['ACSC', 'CAPTURED', 'completed'],
+    ['ACSC', 'VOIDED', 'failed'],
+    ['RJCT', undefined, 'failed']
+  ] as const)('%s with %s is %s', (status, preAuthorization, phase) => {
+    expect(getPaymentPhase(status, preAuthorization)).toBe(phase)
+  })
+})
+
+describe('applyPaymentStatus', () => {
+  it('applies a forward transition and fires the phase hook once', async () => {
+    const store = await storeWith()
+    const onCompleted = vi.fn()
+
+    const first = await applyPaymentStatus('pay-1', { status: 'ACSC', source: 'webhook' }, { store, hooks: { onCompleted } })
+    const second = await applyPaymentStatus('pay-1', { status: 'ACSC', source: 'callback' }, { store, hooks: { onCompleted } })
+
+    expect(first?.outcome).toBe('applied')
+    expect(second?.outcome).toBe('duplicate')
+    expect(onCompleted).toHaveBeenCalledTimes(1)
+    expect(onCompleted.mock.calls[0][0]).toMatchObject({ paymentId: 'pay-1', status: 'ACSC' })
+  })
+
+  it('rejects regressions and keeps the current status', async () => {
+    const store = await storeWith({ status: 'ACSC' })
+    const result = await applyPaymentStatus('pay-1', { status: 'PDNG', source: 'webhook' }, { store, hooks: {} })
+
+    expect(result).toMatchObject({ outcome: 'rejected', attemptedStatus: 'PDNG', payment: { status: 'ACSC' } })
+  })
+
+  it('fires each hook once when the same status arrives concurrently', async () => {
+    const store = await storeWith()
+    const onCompleted = vi.fn()
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () =>
+        applyPaymentStatus('pay-1', { status: 'ACSC', source: 'webhook' }, { store, hooks: { onCompleted } })
+      )
+    )
+
+    expect(results.filter(result => result?.outcome === 'applied')).toHaveLength(1)
+    expect(onCompleted).toHaveBeenCalledTimes(1)
+  })
+
+  it('moves an authorized payment to completed on capture', async () => {
+    const store = await storeWith({ status: 'ACSC', preAuthorization: 'AUTHORIZED' })
+    const onCompleted = vi.fn()
+
+    const result = await applyPaymentStatus('pay-1', {
+      status: 'ACSC',
+      source: 'merchant',
+      preAuthorization: 'CAPTURED'
+    }, { store, hooks: { onCompleted } })
+
+    expect(result?.outcome).toBe('applied')
+    expect(onCompleted).toHaveBeenCalledTimes(1)
+  })
+
+  it('cancels an authorized payment when the hold is voided', async () => {
+    const store = await storeWith({ status: 'ACSC', preAuthorization: 'AUTHORIZED' })
+    const onFailed = vi.fn()
+
+    const result = await applyPaymentStatus('pay-1', {
+      status: 'CANC',
+      source: 'merchant',
+      preAuthorization: 'VOIDED'
+    }, { store, hooks: { onFailed } })
+
+    expect(result).toMatchObject({ outcome: 'applied', payment: { status: 'CANC', preAuthorization: 'VOIDED' } })
+    expect(onFailed).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not reopen a captured payment', async () => {
+    const store = await storeWith({ status: 'ACSC', preAuthorization: 'CAPTURED' })
+    const result = await applyPaymentStatus('pay-1', {
+      status: 'CANC',
+      source: 'merchant',
+      preAuthorization: 'VOIDED'
+    }, { store, hooks: {} })
+
+    expect(result?.outcome).toBe('rejected')
+  })
+
+  it('logs hook errors without failing the transition', async () => {
+    const store = await storeWith()
+    const result = await applyPaymentStatus('pay-1', { status: 'RJCT', source: 'webhook' }, {
+      store,
+      hooks: { onFailed: () => { throw new Error('mail server down') } }
+    })
+
+    expect(result?.outcome).toBe('applied')
+  })
+
+  it('returns null for unknown payments', async () => {
+    const store = createMemoryPaymentStore()
+    expect(await applyPaymentStatus('missing', { status: 'ACSC', source: 'webhook' }, { store })).toBeNull()
+  })
+
+  it('throws a ConflictError when compare-and-set keeps failing', async () => {
+    const store = await storeWith()
+    const busyStore: PaymentStore = { ...store, updateStatus: async () => null }
+
+    await expect(
+      applyPaymentStatus('pay-1', { status: 'ACSC', source: 'webhook' }, { store: busyStore, hooks: {} })
+    ).rejects.toBeInstanceOf(ConflictError)
+  })
+})
@@ -0,0 +1,146 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  createFilePaymentStore,
+  createMemoryPaymentStore,
+  NewStoredPayment,
+  PaymentStore
+} from '@/lib/payment-store'
+
+const payment: NewStoredPayment = {
+  orderId: 'ORDER-1',
+  paymentId: 'pay-1',
+  paymentMethod: 'CARD_PAY',
+  amount: { amount: 7900, currency: 'EUR' },
+  status: 'RCVD'
+}
+
+const tmpDirs: string[] = []
+
+async function tmpFile(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tatrapay-store-'))
+  tmpDirs.push(dir)
+  return path.join(dir, 'payments.json')
+}
+
+afterEach(async () => {
+  await Promise.all(tmpDirs.splice(0).map(dir => fs.rm(dir, { recursive: true, force: true })))
+})
+
+const adapters: Array<[string, () => Promise<PaymentStore>]> = [
+  ['memory', async () => createMemoryPaymentStore()],
+  ['file', async () => createFilePaymentStore(await tmpFile())]
+]
+
+describe.each(adapters)('%s payment store', (_name, createStore) => {
+  it('finds a saved payment by order and payment ID', async () => {
+    const store = await createStore()
+    const saved = await store.save(payment)
+
+    expect(saved.version).toBe(1)
+    expect(saved.statusHistory).toEqual([{ status: 'RCVD', source: 'create', at: saved.createdAt }])
+    expect(await store.findByOrderId('ORDER-1')).toEqual(saved)
+    expect(await store.findByPaymentId('pay-1')).toEqual(saved)
+    expect(await store.findByOrderId('ORDER-2')).toBeNull()
+  })
+
+  it('points the order at its latest payment', async () => {
+    const store = await createStore()
+    await store.save(payment)
+    await store.save({ ...payment, paymentId: 'pay-2' })
+
+    expect((await store.findByOrderId('ORDER-1'))?.paymentId).toBe('pay-2')
+    expect(await store.findByPaymentId('pay-1')).not.toBeNull()
+    expect((await store.listByOrderId('ORDER-1')).map(saved => saved.paymentId)).toEqual(['pay-1', 'pay-2'])
+  })
+
+  it('appends status updates to the history and bumps the version', async () => {
+    const store = await createStore()
+    await store.save(payment)
+
+    const updated = await store.updateStatus('pay-1', {
+      status: 'ACSC',
+      source: 'webhook',
+      transactionId: 'tx-1'
+    })
+
+    expect(updated?.status).toBe('ACSC')
+    expect(updated?.transactionId).toBe('tx-1')
+    expect(updated?.version).toBe(2)
+    expect(updated?.statusHistory.map(entry => [entry.status, entry.source])).toEqual([
+      ['RCVD', 'create'],
+      ['ACSC', 'webhook']
+    ])
+  })
+
+  it('rejects an update with a stale expected version', async () => {
+    const store = await createStore()
+    await store.save(payment)
+    await store.updateStatus('pay-1', { status: 'PDNG', source: 'callback' })
+
+    expect(await store.updateStatus('pay-1', { status: 'ACSC', source: 'webhook', expectedVersion: 1 })).toBeNull()
+    expect((await store.findByPaymentId('pay-1'))?.status).toBe('PDNG')
+  })
+
+  it('only reserves a refund against the expected version', async () => {
+    const store = await createStore()
+    await store.save(payment)
+    await store.reserveRefund('pay-1', { id: 'refund-1', amount: 3000, createdAt: '2026-01-01T00:00:00.000Z' }, 1)
+
+    expect(await store.reserveRefund('pay-1', { id: 'refund-2', amount: 3000, createdAt: '2026-01-01T00:00:00.000Z' }, 1)).toBeNull()
+    expect((await store.findByPaymentId('pay-1'))?.pendingRefunds).toHaveLength(1)
+  })
+
+  it('adds a settled refund to the total only if it was refunded', async () => {
+    const store = await createStore()
+    await store.save(payment)
+    await store.reserveRefund('pay-1', { id: 'refund-1', amount: 3000, createdAt: '2026-01-01T00:00:00.000Z' })
+    await store.reserveRefund('pay-1', { id: 'refund-2', amount: 1000, createdAt: '2026-01-01T00:00:00.000Z' })
+    expect(await store.listWithPendingRefunds()).toHaveLength(1)
+
+    await store.settleRefund('pay-1', 'refund-1', true)
+    await store.settleRefund('pay-1', 'refund-2', false)
+    // Settling twice changes nothing
+    const settled = await store.settleRefund('pay-1', 'refund-1', true)
+
+    expect(settled).toMatchObject({ refundedAmount: 3000, pendingRefunds: [], version: 5 })
+    expect(await store.listWithPendingRefunds()).toEqual([])
+  })
+
+  it('returns null for unknown payments', async () => {
+    const store = await createStore()
+    expect(await store.updateStatus('nope', { status: 'ACSC', source: 'webhook' })).toBeNull()
+    expect(await store.settleRefund('nope', 'refund-1', true)).toBeNull()
+  })
+
+  it('lists payments by status', async () => {
+    const store = await createStore()
+    await store.save(payment)
+    await store.save({ ...payment, orderId: 'ORDER-2', paymentId: 'pay-2', status: 'PDNG' })
+    await store.save({ ...payment, orderId: 'ORDER-3', paymentId: 'pay-3', status: 'ACSC' })
+
+    const pending = await store.listByStatus(['RCVD', 'PDNG'])
+    expect(pending.map(p => p.paymentId).sort()).toEqual(['pay-1', 'pay-2'])
+  })
+})
+
+describe('file payment store', () => {
+  it('keeps payments across instances', async () => {
+    const file = await tmpFile()
+    await createFilePaymentStore(file).save(payment)
+
+    expect((await createFilePaymentStore(file).findByOrderId('ORDER-1'))?.paymentId).toBe('pay-1')
+  })
+
+  it('does not lose concurrent writes', async () => {
+    const store = createFilePaymentStore(await tmpFile())
+
+    await Promise.all(Array.from({ length: 10 }, (_, i) =>
+      store.save({ ...payment, orderId: `ORDER-${i}`, paymentId: `pay-${i}` })
+    ))
+
+    expect(await store.listByStatus(['RCVD'])).toHaveLength(10)
+  })
+})
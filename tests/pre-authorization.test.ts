@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST as capture } from '@/app/api/payment/[orderId]/capture/route'
+import { POST as voidAuthorization } from '@/app/api/payment/[orderId]/void/route'
+import { getPaymentStore } from '@/lib/payment-store'
+import { setPaymentLifecycleHooks } from '@/lib/payment-state'
+import { isPaymentAuthorized, isPaymentSuccessful, ValidationError } from '@/lib/tatrapay'
+import { createMockClient, createStoredPayment, params, request, setupMockGateway } from './helpers'
+
+const ADMIN_KEY = 'test-admin-key'
+
+function adminPost(path: 'capture' | 'void', body?: unknown) {
+  const init = {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${ADMIN_KEY}`, 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  }
+  const handler = path === 'capture' ? capture : voidAuthorization
+  return handler(request(`/api/payment/ORDER-1/${path}`, init), params({ orderId: 'ORDER-1' }))
+}
+
+beforeEach(() => {
+  vi.stubEnv('TATRAPAY_ADMIN_API_KEY', ADMIN_KEY)
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('pre-authorized card payments', () => {
+  it('asks TatraPay to hold the funds', async () => {
+    const { client, requests } = createMockClient()
+
+    await client.createPayment({
+      paymentMethod: 'CARD_PAY',
+      amount: { amount: 10000, currency: 'EUR' },
+      merchantReference: 'ORDER-1',
+      returnUrl: 'http://localhost:3000/api/payment/callback',
+      customerIpAddress: '127.0.0.1',
+      preAuthorization: true
+    })
+
+    expect(requests[0].body?.cardDetail).toMatchObject({ isPreAuthorization: true })
+  })
+
+  it('only supports CARD_PAY', async () => {
+    const { client } = createMockClient()
+
+    await expect(client.createPayment({
+      paymentMethod: 'BANK_TRANSFER',
+      amount: { amount: 10000, currency: 'EUR' },
+      merchantReference: 'ORDER-1',
+      returnUrl: 'http://localhost:3000/api/payment/callback',
+      customerIpAddress: '127.0.0.1',
+      preAuthorization: true
+    })).rejects.toBeInstanceOf(ValidationError)
+  })
+
+  it('treats held funds as authorized, not paid', async () => {
+    const gateway = setupMockGateway()
+    const onAuthorized = vi.fn()
+    const onCompleted = vi.fn()
+    setPaymentLifecycleHooks({ onAuthorized, onCompleted })
+
+    const payment = await createStoredPayment(gateway, { preAuthorization: true, outcome: 'approve' })
+
+    expect(payment.preAuthorization).toBe('AUTHORIZED')
+    expect(isPaymentAuthorized(payment.status, payment.preAuthorization)).toBe(true)
+    expect(isPaymentSuccessful(payment.status, payment.preAuthorization)).toBe(false)
+    expect(onAuthorized).toHaveBeenCalledTimes(1)
+    expect(onCompleted).not.toHaveBeenCalled()
+  })
+
+  it('captures part of the held amount and completes the payment', async () => {
+    const gateway = setupMockGateway()
+    const onCompleted = vi.fn()
+    const payment = await createStoredPayment(gateway, { preAuthorization: true, outcome: 'approve' })
+    setPaymentLifecycleHooks({ onCompleted })
+
+    const response = await adminPost('capture', { amount: 8000 })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({
+      preAuthorization: 'CAPTURED',
+      capturedAmount: { amount: 8000, currency: 'EUR' }
+    })
+    expect((await getPaymentStore().findByPaymentId(payment.paymentId))?.preAuthorization).toBe('CAPTURED')
+    expect(onCompleted).toHaveBeenCalledTimes(1)
+  })
+
+  it('refuses to capture more than was authorized', async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway, { preAuthorization: true, outcome: 'approve' })
+
+    expect((await adminPost('capture', { amount: 10001 })).status).toBe(400)
+  })
+
+  it('voids the hold and fails the payment', async () => {
+    const gateway = setupMockGateway()
+    const onFailed = vi.fn()
+    const payment = await createStoredPayment(gateway, { preAuthorization: true, outcome: 'approve' })
+    setPaymentLifecycleHooks({ onFailed })
+
+    const response = await adminPost('void')
+
+    expect(response.status).toBe(200)
+    expect((await getPaymentStore().findByPaymentId(payment.paymentId))?.preAuthorization).toBe('VOIDED')
+    expect(onFailed).toHaveBeenCalledTimes(1)
+  })
+
+  it('cannot capture a voided or already captured hold', async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway, { preAuthorization: true, outcome: 'approve' })
+    await adminPost('capture')
+
+    expect((await adminPost('capture')).status).toBe(400)
+    expect((await adminPost('void')).status).toBe(400)
+  })
+})
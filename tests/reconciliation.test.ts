@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'vitest'
+import { reconcilePendingPayments } from '@/lib/reconciliation'
+import { ValidationError } from '@/lib/tatrapay'
+import { getPaymentStore } from '@/lib/payment-store'
+import { createStoredPayment, setupMockGateway } from './helpers'
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(Date.now() + minutes * 60 * 1000)
+}
+
+describe('reconcilePendingPayments', () => {
+  it('applies statuses the lost webhook never delivered', async () => {
+    const gateway = setupMockGateway()
+    const payment = await createStoredPayment(gateway)
+    await gateway.mock.completePayment(payment.paymentId, 'approve')
+
+    const report = await reconcilePendingPayments()
+
+    expect(report.updated).toEqual([{ orderId: 'ORDER-1', paymentId: payment.paymentId, from: 'RCVD', to: 'ACSC' }])
+    expect((await getPaymentStore().findByPaymentId(payment.paymentId))?.statusHistory.at(-1))
+      .toMatchObject({ status: 'ACSC', source: 'reconciliation' })
+  })
+
+  it('sends the validity window to TatraPay and stores it', async () => {
+    const gateway = setupMockGateway()
+    const payment = await createStoredPayment(gateway, { validityMinutes: 15 })
+
+    const created = gateway.requests.find(r => r.method === 'POST' && r.path.endsWith('/v1/payments'))!
+    expect(created.body?.validityMinutes).toBe(15)
+    expect(Date.parse(payment.expiresAt!) - Date.parse(payment.createdAt)).toBeGreaterThanOrEqual(15 * 60 * 1000 - 1000)
+    expect(gateway.mock.getPayment(payment.paymentId)?.expiresAt).toBeDefined()
+  })
+
+  it('gives bank transfers the due date of the validity window', async () => {
+    const { client } = setupMockGateway()
+
+    const created = await client.createPayment({
+      paymentMethod: 'BANK_TRANSFER',
+      amount: { amount: 10000, currency: 'EUR' },
+      merchantReference: 'ORDER-1',
+      returnUrl: 'http://localhost:3000/api/payment/callback',
+      customerIpAddress: '127.0.0.1',
+      validityMinutes: 3 * 24 * 60
+    })
+
+    expect(created.bankTransferInfo?.dueDate).toBe(created.expiresAt.substring(0, 10))
+    expect(created.bankTransferInfo?.dueDate).toBe(minutesFromNow(3 * 24 * 60).toISOString().substring(0, 10))
+  })
+
+  it('rejects a validity window that is not a positive whole number', async () => {
+    const gateway = setupMockGateway()
+    await expect(createStoredPayment(gateway, { validityMinutes: 0 })).rejects.toBeInstanceOf(ValidationError)
+    await expect(createStoredPayment(gateway, { validityMinutes: 1.5 })).rejects.toBeInstanceOf(ValidationError)
+  })
+
+  it('expires abandoned card payments when their validity window ends', async () => {
+    const gateway = setupMockGateway()
+    const short = await createStoredPayment(gateway, { orderId: 'ORDER-1', validityMinutes: 15 })
+    const long = await createStoredPayment(gateway, { orderId: 'ORDER-2', validityMinutes: 120 })
+
+    const report = await reconcilePendingPayments({ now: minutesFromNow(30) })
+
+    expect(report.expired.map(change => change.paymentId)).toEqual([short.paymentId])
+    expect(report.unchanged).toBe(1)
+    expect(gateway.mock.getPayment(short.paymentId)?.status).toBe('CANC')
+    expect(gateway.mock.getPayment(long.paymentId)?.status).toBe('RCVD')
+    expect((await getPaymentStore().findByPaymentId(short.paymentId))?.statusHistory.at(-1))
+      .toMatchObject({ status: 'CANC', reason: 'expired' })
+  })
+
+  it('uses the default validity when none was given', async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway)
+
+    expect((await reconcilePendingPayments({ now: minutesFromNow(59) })).expired).toEqual([])
+    expect((await reconcilePendingPayments({ now: minutesFromNow(61) })).expired).toHaveLength(1)
+  })
+
+  it('falls back to cardValidityMinutes for payments stored without expiresAt', async () => {
+    const gateway = setupMockGateway()
+    const created = await gateway.client.createPayment({
+      paymentMethod: 'CARD_PAY',
+      amount: { amount: 10000, currency: 'EUR' },
+      merchantReference: 'ORDER-1',
+      returnUrl: 'http://localhost:3000/api/payment/callback',
+      customerIpAddress: '127.0.0.1'
+    })
+    await getPaymentStore().save({
+      orderId: 'ORDER-1',
+      paymentId: created.paymentId,
+      paymentMethod: 'CARD_PAY',
+      amount: { amount: 10000, currency: 'EUR' },
+      status: 'RCVD'
+    })
+
+    expect((await reconcilePendingPayments({ now: minutesFromNow(20), cardValidityMinutes: 30 })).expired).toEqual([])
+    expect((await reconcilePendingPayments({ now: minutesFromNow(40), cardValidityMinutes: 30 })).expired).toHaveLength(1)
+  })
+
+  it('never expires bank transfers', async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway, { paymentMethod: 'BANK_TRANSFER' })
+
+    const report = await reconcilePendingPayments({ now: minutesFromNow(7 * 24 * 60) })
+
+    expect(report.expired).toEqual([])
+    expect(report.unchanged).toBe(1)
+  })
+
+  it('changes nothing in a dry run', async () => {
+    const gateway = setupMockGateway()
+    const payment = await createStoredPayment(gateway)
+
+    const report = await reconcilePendingPayments({ now: minutesFromNow(120), dryRun: true })
+
+    expect(report.expired).toHaveLength(1)
+    expect(gateway.mock.getPayment(payment.paymentId)?.status).toBe('RCVD')
+    expect((await getPaymentStore().findByPaymentId(payment.paymentId))?.status).toBe('RCVD')
+  })
+
+  it('reports payments TatraPay could not be asked about', async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway)
+    gateway.mock.setScenarios([{ operation: 'status', error: { status: 404, errorId: 'PAYMENT_NOT_FOUND' } }])
+
+    const report = await reconcilePendingPayments()
+
+    expect(report.errors).toHaveLength(1)
+    expect(report.errors[0].orderId).toBe('ORDER-1')
+  })
+})
+
+describe('pending refunds', () => {
+  async function createPendingRefund(amount: number) {
+    const gateway = setupMockGateway()
+    const payment = await createStoredPayment(gateway, { outcome: 'approve' })
+    await getPaymentStore().reserveRefund(payment.paymentId, { id: 'refund-1', amount, createdAt: new Date().toISOString() })
+    return { gateway, payment }
+  }
+
+  it('sends the refund again with its request ID and records it', async () => {
+    const { gateway, payment } = await createPendingRefund(2000)
+
+    const report = await reconcilePendingPayments()
+
+    expect(report.refunds).toEqual([
+      { orderId: 'ORDER-1', paymentId: payment.paymentId, refundId: 'refund-1', amount: 2000, refunded: true }
+    ])
+    expect(gateway.requests.find(sent => sent.method === 'PATCH')?.headers.get('X-Request-ID')).toBe('refund-1')
+    expect(await getPaymentStore().findByPaymentId(payment.paymentId))
+      .toMatchObject({ refundedAmount: 2000, pendingRefunds: [] })
+  })
+
+  it('does not refund twice when the first request went through', async () => {
+    const { gateway, payment } = await createPendingRefund(2000)
+    // The first request was applied, only its response was lost
+    await gateway.client.refundPayment(payment.paymentId, { amount: 2000, currency: 'EUR' }, { requestId: 'refund-1' })
+
+    await reconcilePendingPayments()
+
+    expect(gateway.mock.getPayment(payment.paymentId)?.refundedAmount).toBe(2000)
+    expect((await getPaymentStore().findByPaymentId(payment.paymentId))?.refundedAmount).toBe(2000)
+  })
+
+  it('releases a refund TatraPay rejects', async () => {
+    const { gateway, payment } = await createPendingRefund(2000)
+    gateway.mock.setScenarios([{ operation: 'update', error: { status: 400, errorId: 'CHARGEBACK_NOT_ALLOWED' } }])
+
+    const report = await reconcilePendingPayments()
+
+    expect(report.refunds[0]).toMatchObject({ refunded: false })
+    expect(await getPaymentStore().findByPaymentId(payment.paymentId))
+      .toMatchObject({ refundedAmount: 0, pendingRefunds: [] })
+  })
+
+  it('keeps the refund pending while TatraPay is unavailable', async () => {
+    const { gateway, payment } = await createPendingRefund(2000)
+    gateway.mock.setScenarios([{ operation: 'update', error: { status: 503 } }])
+
+    const report = await reconcilePendingPayments()
+
+    expect(report.errors).toHaveLength(1)
+    expect((await getPaymentStore().findByPaymentId(payment.paymentId))?.pendingRefunds).toHaveLength(1)
+  })
+
+  it('leaves pending refunds alone in a dry run', async () => {
+    const { gateway } = await createPendingRefund(2000)
+
+    const report = await reconcilePendingPayments({ dryRun: true })
+
+    expect(report.refunds).toEqual([])
+    expect(gateway.requests.filter(sent => sent.method === 'PATCH')).toHaveLength(0)
+  })
+})
+
+describe('mock validity window', () => {
+  it('refuses to complete a payment after it expired', async () => {
+    const gateway = setupMockGateway()
+    const payment = await createStoredPayment(gateway, { validityMinutes: 1 })
+    gateway.mock.getPayment(payment.paymentId)!.expiresAt = new Date(Date.now() - 1000).toISOString()
+
+    const response = await gateway.mock.fetch(`${gateway.mock.baseUrl}/mock/pay/${payment.paymentId}`, {
+      method: 'POST',
+      body: new URLSearchParams({ outcome: 'approve' })
+    })
+
+    expect(response.status).toBe(410)
+    expect(gateway.mock.getPayment(payment.paymentId)?.status).toBe('RCVD')
+  })
+})
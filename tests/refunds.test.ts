@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST as cancel } from '@/app/api/payment/[orderId]/cancel/route'
+import { POST as refund } from '@/app/api/payment/[orderId]/refund/route'
+import { getPaymentStore } from '@/lib/payment-store'
+import { setPaymentLifecycleHooks } from '@/lib/payment-state'
+import { toOrderStatusView } from '@/lib/order-status'
+import { ServerError } from '@/lib/tatrapay'
+import { createStoredPayment, params, request, setupMockGateway } from './helpers'
+
+const ADMIN_KEY = 'test-admin-key'
+
+function adminRequest(path: string, body?: unknown, key = ADMIN_KEY) {
+  return request(path, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${key}`, 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  })
+}
+
+function refundOrder(orderId: string, body?: unknown) {
+  return refund(adminRequest(`/api/payment/${orderId}/refund`, body), params({ orderId }))
+}
+
+beforeEach(() => {
+  vi.stubEnv('TATRAPAY_ADMIN_API_KEY', ADMIN_KEY)
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('POST /api/payment/[orderId]/refund', () => {
+  it('refunds part of a paid card payment and records it', async () => {
+    const gateway = setupMockGateway()
+    const payment = await createStoredPayment(gateway, { outcome: 'approve' })
+
+    const response = await refundOrder('ORDER-1', { amount: 2500 })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({
+      success: true,
+      refundedAmount: { amount: 2500, currency: 'EUR' },
+      remainingAmount: { amount: 7500, currency: 'EUR' }
+    })
+    expect((await getPaymentStore().findByPaymentId(payment.paymentId))?.refundedAmount).toBe(2500)
+  })
+
+  it('refunds the remaining amount by default', async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway, { outcome: 'approve' })
+    await refundOrder('ORDER-1', { amount: 4000 })
+
+    const response = await refundOrder('ORDER-1')
+
+    expect(await response.json()).toMatchObject({
+      refundedAmount: { amount: 6000 },
+      remainingAmount: { amount: 0 }
+    })
+  })
+
+  it('rejects refunds above the remaining amount', async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway, { outcome: 'approve' })
+    await refundOrder('ORDER-1', { amount: 8000 })
+
+    const response = await refundOrder('ORDER-1', { amount: 3000 })
+    expect(response.status).toBe(400)
+  })
+
+  it('does not let concurrent refunds exceed the paid amount', async () => {
+    // Slow TatraPay responses keep both refunds in flight at once
+    const gateway = setupMockGateway({ scenarios: [{ operation: 'update', delayMs: 20 }] })
+    const payment = await createStoredPayment(gateway, { outcome: 'approve' })
+
+    const responses = await Promise.all([
+      refundOrder('ORDER-1', { amount: 6000 }),
+      refundOrder('ORDER-1', { amount: 6000 })
+    ])
+
+    expect(responses.map(response => response.status).sort()).toEqual([200, 400])
+    expect((await getPaymentStore().findByPaymentId(payment.paymentId))?.refundedAmount).toBe(6000)
+    expect(gateway.mock.getPayment(payment.paymentId)?.refundedAmount).toBe(6000)
+    // The second refund never reached TatraPay
+    expect(gateway.requests.filter(sent => sent.method === 'PATCH')).toHaveLength(1)
+  })
+
+  it('releases the reservation when TatraPay rejects the refund', async () => {
+    const gateway = setupMockGateway({
+      scenarios: [{ operation: 'update', error: { status: 400, errorId: 'CHARGEBACK_NOT_ALLOWED' }, times: 1 }]
+    })
+    const payment = await createStoredPayment(gateway, { outcome: 'approve' })
+
+    expect((await refundOrder('ORDER-1', { amount: 2000 })).status).toBe(400)
+    expect((await getPaymentStore().findByPaymentId(payment.paymentId))?.refundedAmount).toBe(0)
+  })
+
+  it('leaves a sent refund with an unknown outcome pending', async () => {
+    const gateway = setupMockGateway({
+      scenarios: [{ operation: 'update', error: { status: 503 } }]
+    })
+    const payment = await createStoredPayment(gateway, { outcome: 'approve' })
+
+    expect((await refundOrder('ORDER-1', { amount: 2000 })).status).toBe(503)
+
+    const stored = (await getPaymentStore().findByPaymentId(payment.paymentId))!
+    const refundRequest = gateway.requests.find(sent => sent.method === 'PATCH')!
+    expect(stored.pendingRefunds).toEqual([
+      { id: refundRequest.headers.get('X-Request-ID'), amount: 2000, createdAt: expect.any(String) }
+    ])
+    // Not shown as refunded, but still counted against the paid amount
+    expect(toOrderStatusView(stored).refundedAmount).toBeUndefined()
+    expect((await refundOrder('ORDER-1', { amount: 9000 })).status).toBe(400)
+  })
+
+  it('releases the reservation when the refund was never sent', async () => {
+    const gateway = setupMockGateway()
+    const payment = await createStoredPayment(gateway, { outcome: 'approve' })
+    // The route's own status check passes, the one before the refund fails
+    const getPaymentStatus = gateway.client.getPaymentStatus.bind(gateway.client)
+    vi.spyOn(gateway.client, 'getPaymentStatus')
+      .mockImplementationOnce(getPaymentStatus)
+      .mockRejectedValueOnce(new ServerError('TatraPay request failed'))
+
+    expect((await refundOrder('ORDER-1', { amount: 2000 })).status).toBe(503)
+
+    const stored = await getPaymentStore().findByPaymentId(payment.paymentId)
+    expect(stored?.pendingRefunds).toEqual([])
+    expect(stored?.refundedAmount ?? 0).toBe(0)
+    expect(gateway.requests.filter(sent => sent.method === 'PATCH')).toHaveLength(0)
+  })
+
+  it('refuses unpaid payments', async () => {
+    const gateway = setupMockGateway()
+    await createStoredPayment(gateway)
+
+    expect((await refundOrder('ORDER-1', { amount: 100 })).status).toBe(400)
+  })
+
+  it('requires the admin key', async () => {
+    const response = await refund(
+      adminRequest('/api/payment/ORDER-1/refund', { amount: 100 }, 'wrong-key'),
+      params({ orderId: 'ORDER-1' })
+    )
+    expect(response.status).toBe(401)
+  })
+
+  it('rejects every request while no admin key is configured', async () => {
+    vi.stubEnv('TATRAPAY_ADMIN_API_KEY', '')
+    const response = await refund(
+      adminRequest('/api/payment/ORDER-1/refund', { amount: 100 }, ''),
+      params({ orderId: 'ORDER-1' })
+    )
+    expect(response.status).toBe(401)
+  })
+})
+
+describe('POST /api/payment/[orderId]/cancel', () => {
+  it('cancels an unpaid payment and fires onFailed', async () => {
+    const gateway = setupMockGateway()
+    const payment = await createStoredPayment(gateway)
+    const onFailed = vi.fn()
+    setPaymentLifecycleHooks({ onFailed })
+
+    const response = await cancel(adminRequest('/api/payment/ORDER-1/cancel'), params({ orderId: 'ORDER-1' }))
+
+    expect(response.status).toBe(200)
+    expect((await getPaymentStore().findByPaymentId(payment.paymentId))?.status).toBe('CANC')
+    expect(onFailed).toHaveBeenCalledTimes(1)
+  })
+
+  it('refuses to cancel a paid payment', async () => {
+    const gateway = setupMockGateway()
+    const payment = await createStoredPayment(gateway, { outcome: 'approve' })
+
+    const response = await cancel(adminRequest('/api/payment/ORDER-1/cancel'), params({ orderId: 'ORDER-1' }))
+
+    expect(response.status).toBe(400)
+    expect((await getPaymentStore().findByPaymentId(payment.paymentId))?.status).toBe('ACSC')
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { RateLimitError, ServerError, TatraPayCreatePaymentRequest, ValidationError } from '@/lib/tatrapay'
+import { createMockClient } from './helpers'
+
+const paymentRequest: TatraPayCreatePaymentRequest = {
+  paymentMethod: 'CARD_PAY',
+  amount: { amount: 1000, currency: 'EUR' },
+  merchantReference: 'ORDER-1',
+  returnUrl: 'http://localhost:3000/api/payment/callback',
+  customerIpAddress: '127.0.0.1'
+}
+
+describe('API request retries', () => {
+  it('retries server errors with the same X-Request-ID', async () => {
+    const { mock, client, requests } = createMockClient({
+      scenarios: [{ operation: 'create', error: { status: 503 }, times: 2 }]
+    })
+
+    const created = await client.createPayment(paymentRequest)
+
+    expect(requests).toHaveLength(3)
+    expect(new Set(requests.map(sent => sent.headers.get('X-Request-ID'))).size).toBe(1)
+    expect(mock.getPayment(created.paymentId)).toBeDefined()
+  })
+
+  it('gives up after maxAttempts', async () => {
+    const { client, requests } = createMockClient({
+      scenarios: [{ operation: 'create', error: { status: 500 } }]
+    })
+
+    await expect(client.createPayment(paymentRequest)).rejects.toBeInstanceOf(ServerError)
+    expect(requests).toHaveLength(3)
+  })
+
+  it('never retries validation errors', async () => {
+    const { client, requests } = createMockClient({
+      scenarios: [{ operation: 'create', error: { status: 400, errorId: 'INVALID_REQUEST' } }]
+    })
+
+    await expect(client.createPayment(paymentRequest)).rejects.toBeInstanceOf(ValidationError)
+    expect(requests).toHaveLength(1)
+  })
+
+  it('retries rate limits', async () => {
+    const { client, requests } = createMockClient({
+      scenarios: [{ operation: 'methods', error: { status: 429, retryAfter: 0 }, times: 1 }]
+    })
+
+    await client.getAvailablePaymentMethods()
+    expect(requests).toHaveLength(2)
+  })
+
+  it('reports the rate limit when retries run out', async () => {
+    const { client } = createMockClient({
+      scenarios: [{ operation: 'methods', error: { status: 429, retryAfter: 0 } }]
+    })
+
+    await expect(client.getAvailablePaymentMethods({ retry: { maxAttempts: 1 } })).rejects.toBeInstanceOf(RateLimitError)
+  })
+
+  it('times out slow responses and retries them', async () => {
+    const { client, requests } = createMockClient(
+      { scenarios: [{ operation: 'methods', delayMs: 200, times: 1 }] },
+      { retry: { timeoutMs: 20, baseDelayMs: 1, maxDelayMs: 1 } }
+    )
+
+    await client.getAvailablePaymentMethods()
+    expect(requests).toHaveLength(2)
+  })
+
+  it('fails with a ServerError when every attempt times out', async () => {
+    const { client } = createMockClient({ scenarios: [{ operation: 'methods', delayMs: 200 }] })
+
+    await expect(client.getAvailablePaymentMethods({ retry: { maxAttempts: 2, timeoutMs: 20 } }))
+      .rejects.toThrow(/timed out after 20ms/)
+  })
+
+  it('fetches a new token once when the current one is rejected', async () => {
+    const { client, requests } = createMockClient({
+      scenarios: [{ operation: 'methods', error: { status: 401 }, times: 1 }]
+    })
+
+    await client.getAvailablePaymentMethods()
+
+    expect(requests).toHaveLength(2)
+    expect(requests[0].headers.get('Authorization')).not.toBe(requests[1].headers.get('Authorization'))
+  })
+})
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { GET as listCards } from '@/app/api/cards/[customerId]/route'
+import { DELETE as deleteCard } from '@/app/api/cards/[customerId]/[cardId]/route'
+import { POST as chargeCard } from '@/app/api/cards/[customerId]/[cardId]/charge/route'
+import { getSavedCardStore, saveCardFromPayment } from '@/lib/card-store'
+import { getPaymentStore } from '@/lib/payment-store'
+import { createStoredPayment, params, request, setupMockGateway } from './helpers'
+
+const ADMIN_KEY = 'test-admin-key'
+const headers = { Authorization: `Bearer ${ADMIN_KEY}`, 'Content-Type': 'application/json' }
+
+beforeEach(() => {
+  vi.stubEnv('TATRAPAY_ADMIN_API_KEY', ADMIN_KEY)
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+async function registerCard(gateway: ReturnType<typeof setupMockGateway>, orderId = 'ORDER-1') {
+  const payment = await createStoredPayment(gateway, { orderId, saveCard: true, outcome: 'approve' })
+  const status = await gateway.client.getPaymentStatus(payment.paymentId)
+  return saveCardFromPayment('cust-42', status)
+}
+
+function charge(cardId: string, body: Record<string, unknown> = {}) {
+  return chargeCard(request(`/api/cards/cust-42/${cardId}/charge`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      orderId: 'ORDER-2',
+      amount: 7900,
+      currency: 'EUR',
+      customerIpAddress: '127.0.0.1',
+      ...body
+    })
+  }), params({ customerId: 'cust-42', cardId }))
+}
+
+describe('saved cards', () => {
+  it('registers the card with the first payment', async () => {
+    const gateway = setupMockGateway()
+    const card = await registerCard(gateway)
+
+    expect(card).toMatchObject({ customerId: 'cust-42', maskedNumber: expect.stringMatching(/\*+/) })
+    expect(card?.token).toBeTruthy()
+  })
+
+  it('does not save a card twice for repeated notifications', async () => {
+    const gateway = setupMockGateway()
+    const payment = await createStoredPayment(gateway, { saveCard: true, outcome: 'approve' })
+    const status = await gateway.client.getPaymentStatus(payment.paymentId)
+
+    const first = await saveCardFromPayment('cust-42', status)
+    const second = await saveCardFromPayment('cust-42', status)
+
+    expect(second?.id).toBe(first?.id)
+    expect(await getSavedCardStore().list('cust-42')).toHaveLength(1)
+  })
+
+  it('saves nothing for payments without a registered card', async () => {
+    const gateway = setupMockGateway()
+    const payment = await createStoredPayment(gateway, { outcome: 'approve' })
+
+    expect(await saveCardFromPayment('cust-42', await gateway.client.getPaymentStatus(payment.paymentId))).toBeNull()
+  })
+
+  it('lists cards without their tokens', async () => {
+    const gateway = setupMockGateway()
+    await registerCard(gateway)
+
+    const response = await listCards(request('/api/cards/cust-42', { headers }), params({ customerId: 'cust-42' }))
+    const body = await response.json()
+
+    expect(body.cards).toHaveLength(1)
+    expect(body.cards[0]).not.toHaveProperty('token')
+  })
+
+  it('charges a saved card without a redirect', async () => {
+    const gateway = setupMockGateway()
+    const card = await registerCard(gateway)
+
+    const response = await charge(card!.id)
+
+    expect(await response.json()).toMatchObject({ success: true, status: 'ACSC', requiresRedirect: false })
+    expect((await getPaymentStore().findByOrderId('ORDER-2'))?.status).toBe('ACSC')
+  })
+
+  it('returns the 3-D Secure redirect when the issuer asks for it', async () => {
+    const gateway = setupMockGateway({ scenarios: [{ merchantReference: 'ORDER-2', threeDSecure: true }] })
+    const card = await registerCard(gateway)
+
+    const body = await (await charge(card!.id)).json()
+
+    expect(body).toMatchObject({ success: true, requiresRedirect: true })
+    expect(body.redirectUrl).toMatch(/\/mock\/pay\//)
+  })
+
+  it('only charges cards of the given customer', async () => {
+    const gateway = setupMockGateway()
+    const card = await registerCard(gateway)
+
+    const response = await chargeCard(request(`/api/cards/cust-7/${card!.id}/charge`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ orderId: 'ORDER-2', amount: 7900, currency: 'EUR', customerIpAddress: '127.0.0.1' })
+    }), params({ customerId: 'cust-7', cardId: card!.id }))
+
+    expect(response.status).toBe(404)
+  })
+
+  it('stores the charge with its validity window and the default language', async () => {
+    const gateway = setupMockGateway({ scenarios: [{ merchantReference: 'ORDER-2', threeDSecure: true }] })
+    const card = await registerCard(gateway)
+
+    await charge(card!.id)
+
+    const stored = await getPaymentStore().findByOrderId('ORDER-2')
+    expect(stored?.language).toBe('sk')
+    expect(Date.parse(stored!.expiresAt!)).toBeGreaterThan(Date.now())
+  })
+
+  it('rejects invalid JSON and invalid fields with a 400', async () => {
+    const gateway = setupMockGateway()
+    const card = await registerCard(gateway)
+
+    const invalidJson = await chargeCard(request(`/api/cards/cust-42/${card!.id}/charge`, {
+      method: 'POST',
+      headers,
+      body: '{"orderId":'
+    }), params({ customerId: 'cust-42', cardId: card!.id }))
+    const invalidFields = await charge(card!.id, { orderId: 'ORDER 2', currency: 'USD', language: 'de' })
+
+    expect(invalidJson.status).toBe(400)
+    expect(invalidFields.status).toBe(400)
+    expect((await invalidFields.json()).fields.map((field: { field: string }) => field.field))
+      .toEqual(['orderId', 'currency', 'language'])
+  })
+
+  it('refuses to charge an order that is already paid', async () => {
+    const gateway = setupMockGateway()
+    const card = await registerCard(gateway)
+
+    const response = await charge(card!.id, { orderId: 'ORDER-1' })
+
+    expect(response.status).toBe(409)
+    expect(await getPaymentStore().listByOrderId('ORDER-1')).toHaveLength(1)
+  })
+
+  it('deletes a card', async () => {
+    const gateway = setupMockGateway()
+    const card = await registerCard(gateway)
+
+    const response = await deleteCard(
+      request(`/api/cards/cust-42/${card!.id}`, { method: 'DELETE', headers }),
+      params({ customerId: 'cust-42', cardId: card!.id })
+    )
+
+    expect(response.status).toBe(200)
+    expect(await getSavedCardStore().list('cust-42')).toEqual([])
+  })
+})
@@ -0,0 +1,25 @@
+/**
+ * Runs before every test file: quiet logs and fresh in-memory state
+ */
+
+import { beforeEach } from 'vitest'
+import { createJsonLogger, setLogger } from '@/lib/logger'
+import { createMemoryPaymentStore, setPaymentStore } from '@/lib/payment-store'
+import { createMemorySavedCardStore, setSavedCardStore } from '@/lib/card-store'
+import { createMemoryTokenCache, setTokenCache } from '@/lib/token-cache'
+import { setPaymentLifecycleHooks } from '@/lib/payment-state'
+import { createMemoryOrderResolver, setOrderResolver } from '@/lib/order-resolver'
+import { createMemoryPaymentLinkStore, setPaymentLinkStore } from '@/lib/payment-links'
+import { setTatraPayClientResolver } from '@/lib/tatrapay'
+
+setLogger(createJsonLogger({ level: 'silent' }))
+
+beforeEach(() => {
+  setPaymentStore(createMemoryPaymentStore())
+  setSavedCardStore(createMemorySavedCardStore())
+  setTokenCache(createMemoryTokenCache())
+  setPaymentLifecycleHooks({})
+  setOrderResolver(createMemoryOrderResolver())
+  setPaymentLinkStore(createMemoryPaymentLinkStore())
+  setTatraPayClientResolver(undefined)
+})
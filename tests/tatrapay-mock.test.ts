@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest'
+import { ServerError, TatraPayCreatePaymentRequest } from '@/lib/tatrapay'
+import { createTatraPayMock } from '@/lib/tatrapay-mock'
+import { verifyWebhook } from '@/lib/webhook-verification'
+import { createMockClient } from './helpers'
+
+const cardPayment: TatraPayCreatePaymentRequest = {
+  paymentMethod: 'CARD_PAY',
+  amount: { amount: 10000, currency: 'EUR' },
+  merchantReference: 'ORDER-1',
+  returnUrl: 'http://localhost:3000/api/payment/callback',
+  customerIpAddress: '127.0.0.1'
+}
+
+describe('hosted payment page', () => {
+  it('shows the order and completes with the chosen outcome', async () => {
+    const { mock, client } = createMockClient()
+    const created = await client.createPayment(cardPayment)
+    expect(created.redirectUrl).toBe(`${mock.baseUrl}/mock/pay/${created.paymentId}`)
+
+    const page = await mock.fetch(created.redirectUrl!)
+    expect(await page.text()).toContain('ORDER-1')
+
+    const response = await mock.fetch(created.redirectUrl!, {
+      method: 'POST',
+      body: new URLSearchParams({ outcome: 'approve' })
+    })
+    expect(response.status).toBe(303)
+    expect(response.headers.get('Location'))
+      .toBe(`http://localhost:3000/api/payment/callback?paymentId=${created.paymentId}`)
+
+    const status = await client.getPaymentStatus(created.paymentId)
+    expect(status.status).toBe('ACSC')
+    expect(status.paidAmount).toEqual({ amount: 10000, currency: 'EUR' })
+  })
+
+  it('rejects an unknown outcome', async () => {
+    const { mock, client } = createMockClient()
+    const created = await client.createPayment(cardPayment)
+
+    const response = await mock.fetch(created.redirectUrl!, {
+      method: 'POST',
+      body: new URLSearchParams({ outcome: 'steal' })
+    })
+    expect(response.status).toBe(400)
+    expect(mock.getPayment(created.paymentId)?.status).toBe('RCVD')
+  })
+
+  it('pays half the amount with the partial outcome', async () => {
+    const { mock, client } = createMockClient()
+    const created = await client.createPayment(cardPayment)
+
+    await mock.completePayment(created.paymentId, 'partial')
+
+    const status = await client.getPaymentStatus(created.paymentId)
+    expect(status.status).toBe('PART')
+    expect(status.paidAmount).toEqual({ amount: 5000, currency: 'EUR' })
+  })
+
+  it('settles an approved bank transfer as ACCC', async () => {
+    const { mock, client } = createMockClient()
+    const created = await client.createPayment({ ...cardPayment, paymentMethod: 'BANK_TRANSFER' })
+
+    await mock.completePayment(created.paymentId, 'approve')
+
+    expect((await client.getPaymentStatus(created.paymentId)).status).toBe('ACCC')
+  })
+})
+
+describe('bank transfer data', () => {
+  it.each(['BANK_TRANSFER', 'QR_PAY'] as const)('returns transfer details for %s', async paymentMethod => {
+    const { client } = createMockClient()
+    const created = await client.createPayment({ ...cardPayment, paymentMethod })
+
+    expect(created.redirectUrl).toBeUndefined()
+    expect(created.bankTransferInfo?.iban).toBeTruthy()
+    expect(created.qrCodeData).toBeTruthy()
+  })
+})
+
+describe('scenarios', () => {
+  it('auto-completes matching references with the scripted outcome', async () => {
+    const { client } = createMockClient({
+      scenarios: [{ merchantReference: 'DECLINE-*', outcome: 'decline', autoComplete: true }]
+    })
+
+    const declined = await client.createPayment({ ...cardPayment, merchantReference: 'DECLINE-1' })
+    const open = await client.createPayment(cardPayment)
+
+    expect((await client.getPaymentStatus(declined.paymentId)).status).toBe('RJCT')
+    expect((await client.getPaymentStatus(open.paymentId)).status).toBe('RCVD')
+  })
+
+  it('fails only the first N calls of an operation', async () => {
+    const { client } = createMockClient(
+      { scenarios: [{ operation: 'create', error: { status: 503 }, times: 1 }] },
+      { retry: { maxAttempts: 1 } }
+    )
+
+    await expect(client.createPayment(cardPayment)).rejects.toBeInstanceOf(ServerError)
+    await expect(client.createPayment(cardPayment)).resolves.toMatchObject({ status: 'RCVD' })
+  })
+
+  it('replaces scenarios through the control endpoint', async () => {
+    const { mock, client } = createMockClient({}, { retry: { maxAttempts: 1 } })
+
+    const response = await mock.fetch(`${mock.baseUrl}/mock/scenarios`, {
+      method: 'PUT',
+      body: JSON.stringify([{ operation: 'create', error: { status: 500 } }])
+    })
+    expect(await response.json()).toEqual({ scenarios: 1 })
+
+    await expect(client.createPayment(cardPayment)).rejects.toBeInstanceOf(ServerError)
+  })
+})
+
+describe('control endpoints', () => {
+  it('completes a payment and lists it', async () => {
+    const { mock, client } = createMockClient()
+    const created = await client.createPayment({ ...cardPayment, paymentMethod: 'BANK_TRANSFER' })
+
+    const completed = await mock.fetch(`${mock.baseUrl}/mock/payments/${created.paymentId}/complete`, {
+      method: 'POST',
+      body: JSON.stringify({ outcome: 'approve' })
+    })
+    expect(await completed.json()).toMatchObject({ paymentId: created.paymentId, status: 'ACCC' })
+
+    const list = await (await mock.fetch(`${mock.baseUrl}/mock/payments`)).json()
+    expect(list.payments).toHaveLength(1)
+  })
+
+  it('forgets payments and tokens on reset', async () => {
+    const { mock, client } = createMockClient()
+    const created = await client.createPayment(cardPayment)
+
+    await mock.fetch(`${mock.baseUrl}/mock/reset`, { method: 'POST' })
+
+    expect(mock.getPayment(created.paymentId)).toBeUndefined()
+  })
+})
+
+describe('authentication', () => {
+  it('rejects API calls without a token', async () => {
+    const mock = createTatraPayMock()
+    const response = await mock.fetch(`${mock.baseUrl}/v1/payments/methods`)
+    expect(response.status).toBe(401)
+  })
+
+  it('only issues tokens for the configured credentials', async () => {
+    const mock = createTatraPayMock({ credentials: { clientId: 'test-client', clientSecret: 'other' } })
+    const response = await mock.fetch(mock.tokenUrl, {
+      method: 'POST',
+      body: new URLSearchParams({ grant_type: 'client_credentials', client_id: 'test-client', client_secret: 'wrong' })
+    })
+    expect(response.status).toBe(401)
+  })
+})
+
+describe('webhooks', () => {
+  it('sends a signed webhook to the notification URL on completion', async () => {
+    const sent: { url: string; init: RequestInit }[] = []
+    const { mock, client } = createMockClient({
+      notificationUrl: 'http://localhost:3000/api/payment/webhook',
+      webhookSecret: 'mock-secret',
+      webhookFetch: async (url, init) => {
+        sent.push({ url: String(url), init: init! })
+        return new Response(null, { status: 200 })
+      }
+    })
+    const created = await client.createPayment(cardPayment)
+
+    await mock.completePayment(created.paymentId, 'decline')
+
+    expect(sent).toHaveLength(1)
+    expect(sent[0].url).toBe('http://localhost:3000/api/payment/webhook')
+    const rawBody = sent[0].init.body as string
+    expect(JSON.parse(rawBody)).toMatchObject({ paymentId: created.paymentId, status: 'RJCT' })
+    expect(verifyWebhook(
+      { rawBody, headers: new Headers(sent[0].init.headers) },
+      { secret: 'mock-secret', toleranceSeconds: 300, trustedProxyHops: 1 }
+    )).toEqual({ valid: true })
+  })
+
+  it('stays silent when a scenario disables webhooks', async () => {
+    const sent: string[] = []
+    const { mock, client } = createMockClient({
+      notificationUrl: 'http://localhost:3000/api/payment/webhook',
+      scenarios: [{ merchantReference: 'ORDER-1', webhook: false }],
+      webhookFetch: async url => {
+        sent.push(String(url))
+        return new Response(null, { status: 200 })
+      }
+    })
+    const created = await client.createPayment(cardPayment)
+
+    await mock.completePayment(created.paymentId, 'approve')
+
+    expect(sent).toEqual([])
+  })
+})
@@ -0,0 +1,153 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { TatraPayClient, TatraPayToken } from '@/lib/tatrapay'
+import { createTatraPayMock } from '@/lib/tatrapay-mock'
+import {
+  createFileTokenCache,
+  createMemoryTokenCache,
+  createRedisTokenCache,
+  getTokenCache,
+  KeyValueClient,
+  TokenCache
+} from '@/lib/token-cache'
+
+function token(name: string, expiresInMs = 60 * 60 * 1000): TatraPayToken {
+  return { access_token: name, token_type: 'Bearer', scope: 'TATRAPAYPLUS', expires_in: expiresInMs / 1000, expiresAt: Date.now() + expiresInMs }
+}
+
+const tmpDirs: string[] = []
+
+async function tmpFile(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tatrapay-token-'))
+  tmpDirs.push(dir)
+  return path.join(dir, 'token.json')
+}
+
+afterEach(async () => {
+  await Promise.all(tmpDirs.splice(0).map(dir => fs.rm(dir, { recursive: true, force: true })))
+})
+
+function createFakeRedis(): KeyValueClient {
+  const values = new Map<string, string>()
+  return {
+    async get(key) { return values.get(key) ?? null },
+    async set(key, value) { values.set(key, value) },
+    async del(key) { values.delete(key) }
+  }
+}
+
+const adapters: Array<[string, () => Promise<TokenCache>]> = [
+  ['memory', async () => createMemoryTokenCache()],
+  ['file', async () => createFileTokenCache(await tmpFile())],
+  ['redis', async () => createRedisTokenCache(createFakeRedis())]
+]
+
+describe.each(adapters)('%s token cache', (_name, createCache) => {
+  it('stores, returns and deletes tokens', async () => {
+    const cache = await createCache()
+    await cache.set('a', token('token-a'))
+
+    expect((await cache.get('a'))?.access_token).toBe('token-a')
+    expect(await cache.get('b')).toBeNull()
+
+    await cache.delete('a')
+    expect(await cache.get('a')).toBeNull()
+  })
+
+  it('treats expired tokens as missing', async () => {
+    const cache = await createCache()
+    await cache.set('a', token('old', -1000))
+    expect(await cache.get('a')).toBeNull()
+  })
+
+  it('keeps every key when written concurrently', async () => {
+    const cache = await createCache()
+    const keys = Array.from({ length: 10 }, (_, i) => `key-${i}`)
+
+    await Promise.all(keys.map(key => cache.set(key, token(key))))
+    await Promise.all(keys.slice(0, 3).map(key => cache.delete(key)))
+
+    const remaining = await Promise.all(keys.map(async key => (await cache.get(key))?.access_token ?? null))
+    expect(remaining).toEqual([null, null, null, ...keys.slice(3)])
+  })
+})
+
+describe('client token handling', () => {
+  function countingClient(mock: ReturnType<typeof createTatraPayMock>, cache: TokenCache, tokenUrl = mock.tokenUrl) {
+    const counter = { tokenRequests: 0 }
+    const client = new TatraPayClient({
+      credentials: { clientId: 'test-client', clientSecret: 'test-secret' },
+      baseUrl: mock.baseUrl,
+      tokenUrl,
+      tokenCache: cache,
+      fetch: async (input, init) => {
+        if (String(input) === tokenUrl) counter.tokenRequests++
+        return mock.fetch(String(input).replace(tokenUrl, mock.tokenUrl), init)
+      }
+    })
+    return { client, counter }
+  }
+
+  it('shares one token request between concurrent calls', async () => {
+    const { client, counter } = countingClient(createTatraPayMock(), createMemoryTokenCache())
+
+    await Promise.all(Array.from({ length: 5 }, () => client.getAvailablePaymentMethods()))
+
+    expect(counter.tokenRequests).toBe(1)
+  })
+
+  it('reuses a cached token across clients of the same account', async () => {
+    const mock = createTatraPayMock()
+    const cache = createMemoryTokenCache()
+    const first = countingClient(mock, cache)
+    const second = countingClient(mock, cache)
+
+    await first.client.getAvailablePaymentMethods()
+    await second.client.getAvailablePaymentMethods()
+
+    expect(first.counter.tokenRequests + second.counter.tokenRequests).toBe(1)
+  })
+
+  it('keeps tokens of different token endpoints apart', async () => {
+    const mock = createTatraPayMock()
+    const cache = createMemoryTokenCache()
+    const local = countingClient(mock, cache)
+    const other = countingClient(mock, cache, 'http://other.mock/auth/oauth/v2/token')
+
+    await local.client.getAvailablePaymentMethods()
+    await other.client.getAvailablePaymentMethods()
+
+    expect(local.counter.tokenRequests).toBe(1)
+    expect(other.counter.tokenRequests).toBe(1)
+  })
+
+  it('refreshes tokens about to expire', async () => {
+    const mock = createTatraPayMock()
+    const cache = createMemoryTokenCache()
+    const { client, counter } = countingClient(mock, cache)
+    await client.getAvailablePaymentMethods()
+
+    // Less than the 60 s safety margin left
+    const key = `tatrapay:token:test-client:${mock.tokenUrl}`
+    await cache.set(key, token('almost-expired', 30 * 1000))
+    await client.getAvailablePaymentMethods()
+
+    expect(counter.tokenRequests).toBe(2)
+  })
+
+  it('uses the shared default cache when none is given', async () => {
+    const mock = createTatraPayMock()
+    const client = new TatraPayClient({
+      credentials: { clientId: 'test-client', clientSecret: 'test-secret' },
+      baseUrl: mock.baseUrl,
+      tokenUrl: mock.tokenUrl,
+      fetch: mock.fetch
+    })
+
+    await client.getAvailablePaymentMethods()
+
+    expect(await getTokenCache().get(`tatrapay:token:test-client:${mock.tokenUrl}`)).not.toBeNull()
+  })
+})
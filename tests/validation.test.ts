@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import { POST } from '@/app/api/payment/create/route'
+import { createMemoryOrderResolver, setOrderResolver } from '@/lib/order-resolver'
+import { validateAmountLimits, validateCreatePaymentRequest } from '@/lib/validation'
+import { createMockClient, request, setupMockGateway } from './helpers'
+
+const body = {
+  orderId: 'ORDER-1',
+  paymentMethod: 'CARD_PAY',
+  amount: 10000,
+  currency: 'EUR',
+  customer: { email: 'jan.novak@example.com', firstName: 'Ján', lastName: 'Novák' }
+}
+
+function errorsOf(value: unknown): string[] {
+  const result = validateCreatePaymentRequest(value)
+  return result.valid ? [] : result.errors.map(error => `${error.field}:${error.code}`)
+}
+
+describe('validateCreatePaymentRequest', () => {
+  it('accepts a complete card payment', () => {
+    expect(validateCreatePaymentRequest(body)).toEqual({ valid: true, value: body })
+  })
+
+  it('rejects a body that is not an object', () => {
+    expect(errorsOf([])).toEqual(['body:INVALID_TYPE'])
+  })
+
+  it.each([
+    ['fractional', 99.5, 'amount:INVALID_TYPE'],
+    ['zero', 0, 'amount:OUT_OF_RANGE'],
+    ['negative', -100, 'amount:OUT_OF_RANGE']
+  ])('rejects a %s amount', (_, amount, error) => {
+    expect(errorsOf({ ...body, amount })).toEqual([error])
+  })
+
+  it('rejects unsupported currencies and methods', () => {
+    expect(errorsOf({ ...body, currency: 'USD', paymentMethod: 'BITCOIN' }))
+      .toEqual(['currency:INVALID_VALUE', 'paymentMethod:INVALID_VALUE'])
+  })
+
+  it('reports every invalid customer field', () => {
+    expect(errorsOf({ ...body, customer: { email: 'not-an-email', firstName: '', lastName: 'x'.repeat(101) } }))
+      .toEqual(['customer.email:INVALID_FORMAT', 'customer.firstName:REQUIRED', 'customer.lastName:TOO_LONG'])
+  })
+
+  it('only allows allowedMethods in gateway mode', () => {
+    expect(errorsOf({ ...body, allowedMethods: ['CARD_PAY'] })).toEqual(['allowedMethods:CONFLICT'])
+    expect(errorsOf({ ...body, paymentMethod: undefined, allowedMethods: ['CARD_PAY', 'CASH'] }))
+      .toEqual(['allowedMethods.1:INVALID_VALUE'])
+  })
+
+  it('limits card options to CARD_PAY', () => {
+    expect(errorsOf({ ...body, paymentMethod: 'BANK_TRANSFER', preAuthorization: true }))
+      .toEqual(['preAuthorization:CONFLICT'])
+  })
+
+  it.each(['ORDER-1', 'order_2026.10', 'A'])('accepts order ID %s', orderId => {
+    expect(errorsOf({ ...body, orderId })).toEqual([])
+  })
+
+  it.each(['ORDER 1', 'ORDER/1', '..', '.', 'ORDER?x=1', 'ORDER#1', 'x'.repeat(36)])('rejects order ID %s', orderId => {
+    expect(errorsOf({ ...body, orderId })).toHaveLength(1)
+  })
+})
+
+describe('validateAmountLimits', () => {
+  it('checks the amount against the limits TatraPay reports', async () => {
+    const { client } = createMockClient()
+
+    expect(await validateAmountLimits(client, { paymentMethod: 'PAY_LATER', amount: 5000, currency: 'EUR' }))
+      .toMatchObject([{ field: 'amount', code: 'AMOUNT_TOO_LOW' }])
+    expect(await validateAmountLimits(client, { paymentMethod: 'PAY_LATER', amount: 600000, currency: 'EUR' }))
+      .toMatchObject([{ field: 'amount', code: 'AMOUNT_TOO_HIGH' }])
+    expect(await validateAmountLimits(client, { paymentMethod: 'PAY_LATER', amount: 20000, currency: 'EUR' }))
+      .toEqual([])
+  })
+})
+
+describe('POST /api/payment/create validation', () => {
+  function create(payload: unknown) {
+    return POST(request('/api/payment/create', { method: 'POST', body: JSON.stringify(payload) }))
+  }
+
+  it('returns field errors before contacting TatraPay', async () => {
+    const { requests } = setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([{ orderId: 'ORDER-1', amount: { amount: 10000, currency: 'EUR' } }]))
+
+    const response = await create({ ...body, customer: { ...body.customer, email: 'nope' } })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({
+      success: false,
+      code: 'INVALID_REQUEST',
+      fields: [{ field: 'customer.email', code: 'INVALID_FORMAT' }]
+    })
+    expect(requests).toEqual([])
+  })
+
+  it('creates the payment for an order ID with dots', async () => {
+    const { requests } = setupMockGateway()
+    setOrderResolver(createMemoryOrderResolver([{ orderId: 'ORDER-1.a', amount: { amount: 10000, currency: 'EUR' } }]))
+
+    const response = await create({ ...body, orderId: 'ORDER-1.a' })
+
+    expect(response.status).toBe(200)
+    const created = requests.find(r => r.method === 'POST' && r.path.endsWith('/v1/payments'))!
+    expect(created.body?.merchantReference).toBe('ORDER-1.a')
+  })
+})
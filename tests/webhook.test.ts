@@ -0,0 +1,177 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { POST } from '@/app/api/payment/webhook/route'
+import { getPaymentStore } from '@/lib/payment-store'
+import {
+  getWebhookSourceIp,
+  signWebhookPayload,
+  verifyWebhook,
+  WebhookVerificationConfig
+} from '@/lib/webhook-verification'
+import { request, setupMockGateway } from './helpers'
+
+const SECRET = 'test-webhook-secret'
+
+const config: WebhookVerificationConfig = {
+  secret: SECRET,
+  toleranceSeconds: 300,
+  trustedProxyHops: 1
+}
+
+function verify(body: unknown, headers: Record<string, string>, overrides: Partial<WebhookVerificationConfig> = {}, ip?: string) {
+  const rawBody = typeof body === 'string' ? body : JSON.stringify(body)
+  return verifyWebhook({ rawBody, headers: new Headers(headers), ip }, { ...config, ...overrides })
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('verifyWebhook', () => {
+  const payload = { paymentId: 'pay-1', status: 'ACSC' }
+
+  it('accepts a correctly signed payload', () => {
+    const { body, headers } = signWebhookPayload(payload, { secret: SECRET })
+    expect(verify(body, headers)).toEqual({ valid: true })
+  })
+
+  it('rejects a tampered body', () => {
+    const { headers } = signWebhookPayload(payload, { secret: SECRET })
+    expect(verify({ ...payload, status: 'RJCT' }, headers)).toEqual({ valid: false, reason: 'Invalid signature' })
+  })
+
+  it('rejects a signature from another secret', () => {
+    const { body, headers } = signWebhookPayload(payload, { secret: 'other' })
+    expect(verify(body, headers)).toEqual({ valid: false, reason: 'Invalid signature' })
+  })
+
+  it('rejects timestamps outside the tolerance', () => {
+    const stale = Math.floor(Date.now() / 1000) - 600
+    const { body, headers } = signWebhookPayload(payload, { secret: SECRET, timestamp: stale })
+    expect(verify(body, headers)).toEqual({ valid: false, reason: 'Timestamp outside tolerance' })
+  })
+
+  it('rejects missing signature headers', () => {
+    expect(verify(payload, {})).toEqual({ valid: false, reason: 'Missing signature headers' })
+  })
+
+  it('refuses everything when no secret or public key is configured', () => {
+    const { body, headers } = signWebhookPayload(payload, { secret: SECRET })
+    expect(verify(body, headers, { secret: undefined })).toEqual({
+      valid: false,
+      reason: 'Webhook verification not configured'
+    })
+  })
+
+  it('checks the source IP against exact entries and CIDR ranges', () => {
+    const { body, headers } = signWebhookPayload(payload, { secret: SECRET })
+    const allowlist = { ipAllowlist: ['203.0.113.7', '10.0.0.0/8'] }
+
+    expect(verify(body, headers, allowlist, '203.0.113.7')).toEqual({ valid: true })
+    expect(verify(body, headers, allowlist, '::ffff:10.1.2.3')).toEqual({ valid: true })
+    expect(verify(body, headers, allowlist, '11.0.0.1')).toEqual({ valid: false, reason: 'IP address not allowed' })
+    expect(verify(body, headers, allowlist)).toEqual({ valid: false, reason: 'IP address not allowed' })
+  })
+})
+
+describe('getWebhookSourceIp', () => {
+  it('takes the entry appended by the trusted proxy, not the spoofable leftmost one', () => {
+    const headers = new Headers({ 'x-forwarded-for': '10.0.0.1, 203.0.113.7' })
+    expect(getWebhookSourceIp(headers, { trustedProxyHops: 1 })).toBe('203.0.113.7')
+  })
+
+  it('counts trusted proxy hops from the right', () => {
+    const headers = new Headers({ 'x-forwarded-for': '10.0.0.1, 203.0.113.7, 198.51.100.2' })
+    expect(getWebhookSourceIp(headers, { trustedProxyHops: 2 })).toBe('203.0.113.7')
+  })
+
+  it('returns nothing when there are fewer entries than trusted hops', () => {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7' })
+    expect(getWebhookSourceIp(headers, { trustedProxyHops: 2 })).toBeUndefined()
+    expect(getWebhookSourceIp(new Headers(), { trustedProxyHops: 1 })).toBeUndefined()
+  })
+
+  it('uses only the platform header when one is configured', () => {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '198.51.100.2' })
+    expect(getWebhookSourceIp(headers, { clientIpHeader: 'x-real-ip', trustedProxyHops: 1 })).toBe('198.51.100.2')
+    expect(getWebhookSourceIp(new Headers({ 'x-forwarded-for': '203.0.113.7' }), {
+      clientIpHeader: 'x-real-ip',
+      trustedProxyHops: 1
+    })).toBeUndefined()
+  })
+})
+
+describe('POST /api/payment/webhook', () => {
+  function webhook(payload: unknown, extraHeaders: Record<string, string> = {}) {
+    const { body, headers } = signWebhookPayload(payload, { secret: SECRET })
+    return POST(request('/api/payment/webhook', {
+      method: 'POST',
+      body,
+      headers: { ...headers, ...extraHeaders }
+    }))
+  }
+
+  async function createStoredPayment() {
+    const { mock, client } = setupMockGateway()
+    const created = await client.createPayment({
+      paymentMethod: 'CARD_PAY',
+      amount: { amount: 2500, currency: 'EUR' },
+      merchantReference: 'ORDER-WH-1',
+      returnUrl: 'http://localhost:3000/api/payment/callback',
+      customerIpAddress: '127.0.0.1'
+    })
+    await getPaymentStore().save({
+      orderId: 'ORDER-WH-1',
+      paymentId: created.paymentId,
+      paymentMethod: 'CARD_PAY',
+      amount: { amount: 2500, currency: 'EUR' },
+      status: created.status
+    })
+    return { mock, paymentId: created.paymentId }
+  }
+
+  it('applies the status verified with TatraPay', async () => {
+    vi.stubEnv('TATRAPAY_WEBHOOK_SECRET', SECRET)
+    const { mock, paymentId } = await createStoredPayment()
+    await mock.completePayment(paymentId, 'approve')
+
+    // Payload status is ignored - the gateway is the source of truth
+    const response = await webhook({ paymentId, status: 'RJCT' })
+
+    expect(response.status).toBe(200)
+    expect((await getPaymentStore().findByPaymentId(paymentId))?.status).toBe('ACSC')
+  })
+
+  it('acknowledges webhooks for unknown payments without storing anything', async () => {
+    vi.stubEnv('TATRAPAY_WEBHOOK_SECRET', SECRET)
+    const response = await webhook({ paymentId: 'unknown', status: 'ACSC' })
+
+    expect(response.status).toBe(200)
+    expect(await getPaymentStore().findByPaymentId('unknown')).toBeNull()
+  })
+
+  it('rejects unsigned requests', async () => {
+    vi.stubEnv('TATRAPAY_WEBHOOK_SECRET', SECRET)
+    const response = await POST(request('/api/payment/webhook', {
+      method: 'POST',
+      body: JSON.stringify({ paymentId: 'pay-1' })
+    }))
+    expect(response.status).toBe(401)
+  })
+
+  it.each([null, [], 'text', 42, {}, { paymentId: 7 }])('rejects signed payload %j with 400', async payload => {
+    vi.stubEnv('TATRAPAY_WEBHOOK_SECRET', SECRET)
+    const response = await webhook(JSON.stringify(payload))
+    expect(response.status).toBe(400)
+  })
+
+  it('ignores a spoofed leftmost X-Forwarded-For entry', async () => {
+    vi.stubEnv('TATRAPAY_WEBHOOK_SECRET', SECRET)
+    vi.stubEnv('TATRAPAY_WEBHOOK_IP_ALLOWLIST', '203.0.113.7')
+
+    const spoofed = await webhook({ paymentId: 'unknown' }, { 'x-forwarded-for': '203.0.113.7, 198.51.100.2' })
+    const allowed = await webhook({ paymentId: 'unknown' }, { 'x-forwarded-for': '198.51.100.2, 203.0.113.7' })
+
+    expect(spoofed.status).toBe(401)
+    expect(allowed.status).toBe(200)
+  })
+})